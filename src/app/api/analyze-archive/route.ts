@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeMultipleFiles, validateMultiFileConfig } from '@/lib/analyzers';
+import { ARCHIVE_FILE_LIMITS, DEFAULT_ARCHIVE_LIMITS, readArchive, selectArchiveFiles } from '@/lib/archives';
+import { checkRateLimit, consumeRateLimit } from '@/lib/rateLimit';
+import { ArchiveTooLargeError, toErrorResponse } from '@/lib/errors';
+import { resolveProvider } from '@/lib/providers';
+import {
+  ReviewType,
+  AnalysisProviderId,
+  RuleOverrides,
+  ProjectConfig,
+  AnalysisResult,
+  MultiFileAnalysisResult,
+} from '@/types';
+import { resolveReviewTypes, validateProjectConfig } from '@/utils/projectConfig';
+import { formatFileSize } from '@/utils/fileUtils';
+import { RESPONSE_FORMATS, renderResult, resolveResponseFormat } from '@/utils/responseFormat';
+
+interface ArchiveAnalyzeOptions {
+  reviewTypes?: ReviewType[];
+  provider?: AnalysisProviderId;
+  context?: string;
+  guidelinesId?: string;
+  rules?: RuleOverrides;
+  projectConfig?: ProjectConfig;
+  baseline?: AnalysisResult | MultiFileAnalysisResult;
+  baselineId?: string;
+  /** Files analyzed at the same time */
+  concurrency?: number;
+  format?: string;
+  /** Return the contents of the analyzed files in `archive.sources` */
+  includeSources?: boolean;
+}
+
+function invalidRequest(details: string[]) {
+  return NextResponse.json(
+    {
+      error: 'Invalid request',
+      details,
+      code: 'invalid_request',
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * Reads the options form field, a JSON object of analyze-multi settings
+ */
+function parseOptions(value: FormDataEntryValue | null): ArchiveAnalyzeOptions | null {
+  if (value === null) return {};
+  if (typeof value !== 'string') return null;
+
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POST /api/analyze-archive
+ * Analyzes a repository uploaded as .zip, .tar or .tar.gz (multipart field
+ * `archive`, settings as JSON in `options`). Source files are picked the way
+ * a developer would: .gitignore is honored and vendored, generated and
+ * minified files are skipped. File names keep their path in the repository.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData().catch(() => null);
+    const archive = formData?.get('archive');
+    if (!formData || !(archive instanceof File)) {
+      return invalidRequest(['An archive file is required in the "archive" form field']);
+    }
+
+    const options = parseOptions(formData.get('options'));
+    if (!options) {
+      return invalidRequest(['The "options" form field must be a JSON object']);
+    }
+
+    const format = resolveResponseFormat(options.format, request.headers.get('accept'));
+    if (!format) {
+      return invalidRequest([`Unknown format "${options.format}" (expected ${RESPONSE_FORMATS.join(' or ')})`]);
+    }
+
+    // The inline config decides which files are selected, so it is checked first
+    const configErrors = validateProjectConfig(options.projectConfig);
+    if (configErrors.length > 0) {
+      return invalidRequest(configErrors);
+    }
+
+    // Reject oversized uploads before buffering them
+    if (archive.size > DEFAULT_ARCHIVE_LIMITS.maxArchiveSize) {
+      throw new ArchiveTooLargeError(`Archive exceeds ${formatFileSize(DEFAULT_ARCHIVE_LIMITS.maxArchiveSize)}`);
+    }
+
+    // Unreadable, unsafe or oversized archives throw typed errors
+    const entries = readArchive(Buffer.from(await archive.arrayBuffer()));
+    const selection = selectArchiveFiles(entries, options.projectConfig);
+
+    const config = {
+      files: selection.files,
+      reviewTypes: resolveReviewTypes(options.reviewTypes, selection.projectConfig),
+      provider: options.provider,
+      rules: options.rules,
+      context: options.context,
+      guidelinesId: options.guidelinesId,
+      projectConfig: selection.projectConfig,
+      baseline: options.baseline,
+      baselineId: options.baselineId,
+      concurrency: options.concurrency,
+    };
+
+    const validation = validateMultiFileConfig(config, ARCHIVE_FILE_LIMITS);
+    const errors = [
+      ...selection.configErrors,
+      ...(selection.files.length === 0
+        ? ['The archive has no supported source files to analyze']
+        : validation.errors),
+    ];
+    if (errors.length > 0) {
+      return invalidRequest(errors);
+    }
+
+    // Rate limiting only applies to metered providers; an archive counts as one request
+    const provider = resolveProvider(options.provider);
+    const rateLimit = checkRateLimit(request, provider);
+    if (rateLimit.response) {
+      return rateLimit.response;
+    }
+
+    const analysis = await analyzeMultipleFiles(config);
+    const fileContents = Object.fromEntries(selection.files.map((file) => [file.name, file.content]));
+    const result: MultiFileAnalysisResult = {
+      ...analysis,
+      archive: {
+        name: archive.name,
+        totalEntries: selection.totalEntries,
+        skippedFiles: selection.skippedFiles,
+        sources: options.includeSources ? fileContents : undefined,
+      },
+    };
+
+    // Consume rate limit only after a successful analysis
+    const rateLimitHeaders = consumeRateLimit(request, provider);
+
+    if (format !== 'json') {
+      const { content, contentType } = renderResult(result, format, { fileContents });
+      return new NextResponse(content, {
+        status: 200,
+        headers: { ...rateLimitHeaders, 'Content-Type': contentType },
+      });
+    }
+
+    return NextResponse.json(result, {
+      status: 200,
+      headers: rateLimitHeaders,
+    });
+  } catch (error) {
+    console.error('Error in /api/analyze-archive:', error);
+
+    // Typed errors carry their own status and machine-readable code
+    const { status, body, headers } = toErrorResponse(error);
+    return NextResponse.json(body, { status, headers });
+  }
+}
@@ -1,8 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { analyzeMultipleFiles, validateMultiFileConfig } from '@/lib/analyzers';
-import { rateLimiter, getClientIp } from '@/lib/rateLimit';
-import { isDemoMode } from '@/lib/ai/demoMode';
-import { ReviewType, ProgrammingLanguage } from '@/types';
+import { checkRateLimit, consumeRateLimit } from '@/lib/rateLimit';
+import { toErrorResponse } from '@/lib/errors';
+import { resolveProvider } from '@/lib/providers';
+import {
+  ReviewType,
+  ProgrammingLanguage,
+  AnalysisProviderId,
+  RuleOverrides,
+  ProjectConfig,
+  AnalysisResult,
+  MultiFileAnalysisResult,
+} from '@/types';
+import { resolveReviewTypes } from '@/utils/projectConfig';
+import { RESPONSE_FORMATS, renderResult, resolveResponseFormat } from '@/utils/responseFormat';
 
 interface FilePayload {
   name: string;
@@ -13,60 +24,69 @@ interface FilePayload {
 interface MultiAnalyzeRequest {
   files: FilePayload[];
   reviewTypes: ReviewType[];
+  provider?: AnalysisProviderId;
+  context?: string;
+  guidelinesId?: string;
+  rules?: RuleOverrides;
+  projectConfig?: ProjectConfig;
+  baseline?: AnalysisResult | MultiFileAnalysisResult;
+  baselineId?: string;
+  /** Files analyzed at the same time */
+  concurrency?: number;
+  format?: string;
 }
 
 /**
  * POST /api/analyze-multi
  * Analyzes multiple files and returns aggregated results
+ * `format` ('sarif', 'markdown' or 'html', or a matching Accept header) returns
+ * a SARIF log or review report instead.
  */
 export async function POST(request: NextRequest) {
   try {
-    // Rate limiting only applies to real API calls (not demo mode)
-    // For multi-file, we consume N rate limit tokens (one per file)
-    if (!isDemoMode()) {
-      const clientIp = getClientIp(request);
-      const rateLimitCheck = rateLimiter.check(clientIp);
-      console.log(`[Rate Limit Check - Multi] IP ${clientIp}: ${rateLimitCheck.remaining} remaining, allowed: ${rateLimitCheck.allowed}`);
-
-      if (!rateLimitCheck.allowed) {
-        console.log(`[Rate Limit BLOCKED - Multi] IP ${clientIp}: exceeded limit of ${rateLimitCheck.limit}`);
-        const headers = rateLimiter.getHeaders(rateLimitCheck);
-        return NextResponse.json(
-          {
-            error: 'Rate limit exceeded',
-            details: `You have reached your daily limit of ${rateLimitCheck.limit} AI-powered analyses. Your limit resets at ${rateLimitCheck.resetAt.toLocaleString()}.`,
-            resetAt: rateLimitCheck.resetAt.toISOString(),
-            limit: rateLimitCheck.limit,
-          },
-          {
-            status: 429,
-            headers,
-          }
-        );
-      }
-    } else {
-      console.log('[Rate Limit - Multi] Demo mode - rate limiting bypassed');
-    }
-
     // Parse request body
     const body: MultiAnalyzeRequest = await request.json();
 
+    // Review types fall back to the project configuration, then to the defaults
+    const reviewTypes = resolveReviewTypes(body.reviewTypes, body.projectConfig);
+
     // Validate the configuration
     const validation = validateMultiFileConfig({
       files: body.files,
-      reviewTypes: body.reviewTypes,
+      reviewTypes,
+      provider: body.provider,
+      rules: body.rules,
+      context: body.context,
+      guidelinesId: body.guidelinesId,
+      projectConfig: body.projectConfig,
+      baseline: body.baseline,
+      baselineId: body.baselineId,
+      concurrency: body.concurrency,
     });
+    const format = resolveResponseFormat(body.format, request.headers.get('accept'));
+    if (!format) {
+      validation.errors.push(`Unknown format "${body.format}" (expected ${RESPONSE_FORMATS.join(' or ')})`);
+    }
 
-    if (!validation.valid) {
+    if (!validation.valid || !format) {
       return NextResponse.json(
         {
           error: 'Invalid request',
           details: validation.errors,
+          code: 'invalid_request',
         },
         { status: 400 }
       );
     }
 
+    // Rate limiting only applies to metered providers (real API calls, not demo mode)
+    // Multi-file analysis counts as one request to be fair
+    const provider = resolveProvider(body.provider);
+    const rateLimit = checkRateLimit(request, provider);
+    if (rateLimit.response) {
+      return rateLimit.response;
+    }
+
     // Build file inputs
     const files = body.files.map((f) => ({
       name: f.name,
@@ -77,17 +97,28 @@ export async function POST(request: NextRequest) {
     // Perform the analysis
     const result = await analyzeMultipleFiles({
       files,
-      reviewTypes: body.reviewTypes || ['solid', 'hygiene'],
+      reviewTypes,
+      provider: body.provider,
+      rules: body.rules,
+      context: body.context,
+      guidelinesId: body.guidelinesId,
+      projectConfig: body.projectConfig,
+      baseline: body.baseline,
+      baselineId: body.baselineId,
+      concurrency: body.concurrency,
     });
 
-    // Consume rate limit only after successful API call (and only for real API mode)
-    // Multi-file analysis counts as one request to be fair
-    let rateLimitHeaders: Record<string, string> = {};
-    if (!isDemoMode()) {
-      const clientIp = getClientIp(request);
-      const consumeResult = rateLimiter.consume(clientIp);
-      rateLimitHeaders = rateLimiter.getHeaders(consumeResult);
-      console.log(`[Rate Limit - Multi] IP ${clientIp}: consumed 1 request for ${files.length} files, ${consumeResult.remaining} remaining`);
+    // Consume rate limit only after successful API call (and only for metered providers)
+    const rateLimitHeaders = consumeRateLimit(request, provider);
+
+    if (format !== 'json') {
+      const { content, contentType } = renderResult(result, format, {
+        fileContents: Object.fromEntries(files.map((file) => [file.name, file.content])),
+      });
+      return new NextResponse(content, {
+        status: 200,
+        headers: { ...rateLimitHeaders, 'Content-Type': contentType },
+      });
     }
 
     // Return the analysis result with rate limit headers
@@ -98,43 +129,8 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Error in /api/analyze-multi:', error);
 
-    if (error instanceof Error) {
-      if (error.message.includes('ANTHROPIC_API_KEY')) {
-        return NextResponse.json(
-          {
-            error: 'API key not configured',
-            details:
-              'The Anthropic API key is not set. Please configure it in your environment variables.',
-          },
-          { status: 500 }
-        );
-      }
-
-      if (error.message.includes('Claude API error')) {
-        return NextResponse.json(
-          {
-            error: 'AI analysis failed',
-            details: error.message,
-          },
-          { status: 502 }
-        );
-      }
-
-      return NextResponse.json(
-        {
-          error: 'Analysis failed',
-          details: error.message,
-        },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        details: 'An unexpected error occurred',
-      },
-      { status: 500 }
-    );
+    // Typed errors carry their own status and machine-readable code
+    const { status, body, headers } = toErrorResponse(error);
+    return NextResponse.json(body, { status, headers });
   }
 }
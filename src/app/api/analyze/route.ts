@@ -1,51 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { analyzeCode, validateReviewConfig } from '@/lib/analyzers';
-import { rateLimiter, getClientIp } from '@/lib/rateLimit';
+import { rateLimiter, getClientIp, checkRateLimit, consumeRateLimit } from '@/lib/rateLimit';
 import { isDemoMode } from '@/lib/ai/demoMode';
-import { ReviewConfig } from '@/types';
+import { toErrorResponse } from '@/lib/errors';
+import { resolveProvider, getDefaultProviderId, listProviders } from '@/lib/providers';
+import { AnalysisProviderId, ReviewConfig } from '@/types';
+import { resolveReviewTypes } from '@/utils/projectConfig';
+import { RESPONSE_FORMATS, renderResult, resolveResponseFormat } from '@/utils/responseFormat';
 
 /**
  * POST /api/analyze
  * Analyzes code and returns issues, score, and suggestions
+ * `format` ('sarif', 'markdown' or 'html', or a matching Accept header) returns
+ * a SARIF log or review report instead.
  */
 export async function POST(request: NextRequest) {
   try {
-    // Rate limiting only applies to real API calls (not demo mode)
-    if (!isDemoMode()) {
-      const clientIp = getClientIp(request);
-      const rateLimitCheck = rateLimiter.check(clientIp);
-      console.log(`[Rate Limit Check] IP ${clientIp}: ${rateLimitCheck.remaining} remaining, allowed: ${rateLimitCheck.allowed}`);
-
-      if (!rateLimitCheck.allowed) {
-        console.log(`[Rate Limit BLOCKED] IP ${clientIp}: exceeded limit of ${rateLimitCheck.limit}`);
-        const headers = rateLimiter.getHeaders(rateLimitCheck);
-        return NextResponse.json(
-          {
-            error: 'Rate limit exceeded',
-            details: `You have reached your daily limit of ${rateLimitCheck.limit} AI-powered analyses. Your limit resets at ${rateLimitCheck.resetAt.toLocaleString()}.`,
-            resetAt: rateLimitCheck.resetAt.toISOString(),
-            limit: rateLimitCheck.limit,
-          },
-          {
-            status: 429,
-            headers,
-          }
-        );
-      }
-    } else {
-      console.log('[Rate Limit] Demo mode - rate limiting bypassed');
-    }
-
     // Parse request body
     const body = await request.json();
 
     // Validate the configuration
     const validation = validateReviewConfig(body);
-    if (!validation.valid) {
+    const format = resolveResponseFormat(body.format, request.headers.get('accept'));
+    if (!format) {
+      validation.errors.push(`Unknown format "${body.format}" (expected ${RESPONSE_FORMATS.join(' or ')})`);
+    }
+    if (!validation.valid || !format) {
       return NextResponse.json(
         {
           error: 'Invalid request',
           details: validation.errors,
+          code: 'invalid_request',
         },
         { status: 400 }
       );
@@ -60,28 +45,38 @@ export async function POST(request: NextRequest) {
     const config: ReviewConfig = {
       code: body.code,
       language: body.language || 'auto',
-      reviewTypes: body.reviewTypes || ['solid', 'hygiene'],
+      reviewTypes: resolveReviewTypes(body.reviewTypes, body.projectConfig),
       inputType: body.inputType || 'code',
       context: body.context,
+      guidelinesId: body.guidelinesId,
+      provider: body.provider,
+      rules: body.rules,
+      projectConfig: body.projectConfig,
+      baseline: body.baseline,
+      baselineId: body.baselineId,
+      fileName: body.fileName,
     };
 
+    // Rate limiting only applies to metered providers (real API calls, not demo mode)
+    const provider = resolveProvider(config.provider);
+    const rateLimit = checkRateLimit(request, provider);
+    if (rateLimit.response) {
+      return rateLimit.response;
+    }
+
     // Perform the analysis
     const result = await analyzeCode(config);
 
-    // Consume rate limit only after successful API call (and only for real API mode)
-    // IMPORTANT: Don't consume rate limit if result was served from cache (no API call was made)
-    let rateLimitHeaders: Record<string, string> = {};
-    if (!isDemoMode() && !result.metadata.fromCache) {
-      const clientIp = getClientIp(request);
-      const consumeResult = rateLimiter.consume(clientIp);
-      rateLimitHeaders = rateLimiter.getHeaders(consumeResult);
-      console.log(`[Rate Limit] IP ${clientIp}: consumed 1 request, ${consumeResult.remaining} remaining`);
-    } else if (result.metadata.fromCache) {
-      // Still include rate limit info in headers for cached results
-      const clientIp = getClientIp(request);
-      const checkResult = rateLimiter.check(clientIp);
-      rateLimitHeaders = rateLimiter.getHeaders(checkResult);
-      console.log(`[Cache Hit] IP ${clientIp}: served from cache, ${checkResult.remaining} requests remaining`);
+    // Consume rate limit only after a successful API call; a result served
+    // from cache made no API call and keeps the headers of the check
+    const rateLimitHeaders = result.metadata.fromCache ? rateLimit.headers : consumeRateLimit(request, provider);
+
+    if (format !== 'json') {
+      const { content, contentType } = renderResult(result, format, { fileName: body.fileName, code: body.code });
+      return new NextResponse(content, {
+        status: 200,
+        headers: { ...rateLimitHeaders, 'Content-Type': contentType },
+      });
     }
 
     // Return the analysis result with rate limit headers
@@ -92,46 +87,21 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Error in /api/analyze:', error);
 
-    // Handle specific error types
-    if (error instanceof Error) {
-      if (error.message.includes('ANTHROPIC_API_KEY')) {
-        return NextResponse.json(
-          {
-            error: 'API key not configured',
-            details:
-              'The Anthropic API key is not set. Please configure it in your environment variables.',
-          },
-          { status: 500 }
-        );
-      }
-
-      if (error.message.includes('Claude API error')) {
-        return NextResponse.json(
-          {
-            error: 'AI analysis failed',
-            details: error.message,
-          },
-          { status: 502 }
-        );
-      }
-
-      return NextResponse.json(
-        {
-          error: 'Analysis failed',
-          details: error.message,
-        },
-        { status: 500 }
-      );
-    }
+    // Typed errors carry their own status and machine-readable code
+    const { status, body, headers } = toErrorResponse(error);
+    return NextResponse.json(body, { status, headers });
+  }
+}
 
-    // Generic error response
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        details: 'An unexpected error occurred',
-      },
-      { status: 500 }
-    );
+/**
+ * Whether requests to a provider count toward the rate limit
+ * A provider that is not configured cannot be called, so it is not metered.
+ */
+function isMeteredProvider(id: AnalysisProviderId): boolean {
+  try {
+    return resolveProvider(id).isMetered;
+  } catch {
+    return false;
   }
 }
 
@@ -142,9 +112,10 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   const config = rateLimiter.getConfig();
 
-  // In non-demo mode, include rate limit info for the client
+  // For metered providers, include rate limit info for the client
+  const defaultProvider = getDefaultProviderId();
   let rateLimitInfo = null;
-  if (!isDemoMode()) {
+  if (isMeteredProvider(defaultProvider)) {
     const clientIp = getClientIp(request);
     const status = rateLimiter.check(clientIp);
     rateLimitInfo = {
@@ -159,6 +130,8 @@ export async function GET(request: NextRequest) {
     message: 'Solidry API is running',
     apiKeyConfigured: !!process.env.ANTHROPIC_API_KEY,
     demoMode: isDemoMode(),
+    provider: defaultProvider,
+    providers: listProviders(),
     rateLimit: rateLimitInfo
       ? {
           ...rateLimitInfo,
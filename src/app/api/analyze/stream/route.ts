@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeCode, validateReviewConfig } from '@/lib/analyzers';
+import { checkRateLimit, consumeRateLimit } from '@/lib/rateLimit';
+import { toErrorResponse } from '@/lib/errors';
+import { resolveProvider } from '@/lib/providers';
+import { encodeStreamEvent } from '@/utils/analysisStream';
+import { ReviewConfig, AnalysisStreamEvent } from '@/types';
+import { resolveReviewTypes } from '@/utils/projectConfig';
+
+/**
+ * POST /api/analyze/stream
+ * Analyzes code and streams issues over server-sent events as they are found,
+ * followed by a final `result` event carrying score, grade, confidence and metadata
+ */
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request', details: ['Request body must be valid JSON'], code: 'invalid_request' },
+      { status: 400 }
+    );
+  }
+
+  // Validate before opening the stream so clients get a normal 400 response
+  const validation = validateReviewConfig(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      {
+        error: 'Invalid request',
+        details: validation.errors,
+        code: 'invalid_request',
+      },
+      { status: 400 }
+    );
+  }
+
+  if (validation.warnings && validation.warnings.length > 0) {
+    console.warn('Validation warnings:', validation.warnings);
+  }
+
+  const config: ReviewConfig = {
+    code: body.code,
+    language: body.language || 'auto',
+    reviewTypes: resolveReviewTypes(body.reviewTypes, body.projectConfig),
+    inputType: body.inputType || 'code',
+    context: body.context,
+    guidelinesId: body.guidelinesId,
+    provider: body.provider,
+    rules: body.rules,
+    projectConfig: body.projectConfig,
+    baseline: body.baseline,
+    baselineId: body.baselineId,
+    fileName: body.fileName,
+  };
+
+  let provider;
+  try {
+    provider = resolveProvider(config.provider);
+  } catch (error) {
+    const { status, body: errorBody, headers } = toErrorResponse(error);
+    return NextResponse.json(errorBody, { status, headers });
+  }
+
+  // Rate limiting only applies to metered providers (real API calls, not demo mode)
+  const rateLimit = checkRateLimit(request, provider);
+  if (rateLimit.response) {
+    return rateLimit.response;
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: AnalysisStreamEvent) => {
+        controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+      };
+
+      try {
+        const result = await analyzeCode(config, {
+          onIssue: (issue) => send({ type: 'issue', issue }),
+        });
+
+        // Consume rate limit only after a successful, uncached API call
+        if (!result.metadata.fromCache) {
+          consumeRateLimit(request, provider);
+        }
+
+        send({ type: 'result', result });
+      } catch (error) {
+        console.error('Error in /api/analyze/stream:', error);
+
+        const { body: errorBody } = toErrorResponse(error);
+        send({ type: 'error', ...errorBody });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      ...rateLimit.headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { baselineStore } from '@/lib/baselines';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/baselines/:id
+ * Returns a stored baseline including its issues
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const baseline = baselineStore.get(id);
+
+  if (!baseline) {
+    return NextResponse.json(
+      { error: 'Not found', details: `Baseline "${id}" not found`, code: 'not_found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(baseline);
+}
+
+/**
+ * DELETE /api/baselines/:id
+ * Removes a stored baseline
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  if (!baselineStore.delete(id)) {
+    return NextResponse.json(
+      { error: 'Not found', details: `Baseline "${id}" not found`, code: 'not_found' },
+      { status: 404 }
+    );
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
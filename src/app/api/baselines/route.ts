@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { baselineStore } from '@/lib/baselines';
+
+/**
+ * GET /api/baselines
+ * Lists stored baselines (without their issues)
+ */
+export async function GET() {
+  return NextResponse.json({ baselines: baselineStore.list() });
+}
+
+/**
+ * POST /api/baselines
+ * Stores the issues of an analysis result so reviews can reference them by id
+ */
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request', details: ['Request body must be valid JSON'], code: 'invalid_request' },
+      { status: 400 }
+    );
+  }
+
+  const errors = baselineStore.validate(body?.name, body?.result);
+  if (errors.length > 0) {
+    return NextResponse.json(
+      {
+        error: 'Invalid request',
+        details: errors,
+        code: 'invalid_request',
+      },
+      { status: 400 }
+    );
+  }
+
+  const baseline = baselineStore.create(body.name, body.result);
+
+  return NextResponse.json(
+    {
+      id: baseline.id,
+      name: baseline.name,
+      issueCount: baseline.issues.length,
+      createdAt: baseline.createdAt,
+    },
+    { status: 201 }
+  );
+}
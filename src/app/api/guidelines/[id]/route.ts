@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guidelineStore } from '@/lib/guidelines';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/guidelines/:id
+ * Returns a stored guideline including its content
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const guideline = guidelineStore.get(id);
+
+  if (!guideline) {
+    return NextResponse.json(
+      { error: 'Not found', details: `Guideline "${id}" not found`, code: 'not_found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(guideline);
+}
+
+/**
+ * DELETE /api/guidelines/:id
+ * Removes a stored guideline
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  if (!guidelineStore.delete(id)) {
+    return NextResponse.json(
+      { error: 'Not found', details: `Guideline "${id}" not found`, code: 'not_found' },
+      { status: 404 }
+    );
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
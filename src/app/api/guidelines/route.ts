@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guidelineStore } from '@/lib/guidelines';
+
+/**
+ * GET /api/guidelines
+ * Lists stored team guideline documents (without their content)
+ */
+export async function GET() {
+  return NextResponse.json({ guidelines: guidelineStore.list() });
+}
+
+/**
+ * POST /api/guidelines
+ * Stores a team guideline document so reviews can reference it by id
+ */
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request', details: ['Request body must be valid JSON'], code: 'invalid_request' },
+      { status: 400 }
+    );
+  }
+
+  const errors = guidelineStore.validate(body?.name, body?.content);
+  if (errors.length > 0) {
+    return NextResponse.json(
+      {
+        error: 'Invalid request',
+        details: errors,
+        code: 'invalid_request',
+      },
+      { status: 400 }
+    );
+  }
+
+  const guideline = guidelineStore.create(body.name, body.content);
+
+  return NextResponse.json(
+    {
+      id: guideline.id,
+      name: guideline.name,
+      size: guideline.content.length,
+      updatedAt: guideline.updatedAt,
+    },
+    { status: 201 }
+  );
+}
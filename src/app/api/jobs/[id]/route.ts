@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobManager } from '@/lib/jobs';
+import { isJobFinished } from '@/utils/analysisJobs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { error: 'Not found', details: `Job "${id}" not found`, code: 'not_found' },
+    { status: 404 }
+  );
+}
+
+/**
+ * GET /api/jobs/:id
+ * Returns a job with per-file progress, the results of finished files and,
+ * once every file has finished, the aggregated result
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const job = await jobManager.get(id);
+
+  if (!job) {
+    return notFound(id);
+  }
+
+  return NextResponse.json(job);
+}
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancels a job; files already in progress still finish
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const job = await jobManager.get(id);
+
+  if (!job) {
+    return notFound(id);
+  }
+
+  if (isJobFinished(job)) {
+    return NextResponse.json(
+      { error: 'Job finished', details: `Job "${id}" is already ${job.status}`, code: 'job_finished' },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(await jobManager.cancel(id));
+}
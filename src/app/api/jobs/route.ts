@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateMultiFileConfig } from '@/lib/analyzers';
+import { jobManager } from '@/lib/jobs';
+import { checkRateLimit, consumeRateLimit } from '@/lib/rateLimit';
+import { toErrorResponse } from '@/lib/errors';
+import { resolveProvider } from '@/lib/providers';
+import {
+  ReviewType,
+  ProgrammingLanguage,
+  AnalysisProviderId,
+  RuleOverrides,
+  ProjectConfig,
+  AnalysisResult,
+  MultiFileAnalysisResult,
+} from '@/types';
+import { resolveReviewTypes } from '@/utils/projectConfig';
+
+interface FilePayload {
+  name: string;
+  content: string;
+  language: ProgrammingLanguage;
+}
+
+interface JobRequest {
+  files: FilePayload[];
+  reviewTypes: ReviewType[];
+  provider?: AnalysisProviderId;
+  context?: string;
+  guidelinesId?: string;
+  rules?: RuleOverrides;
+  projectConfig?: ProjectConfig;
+  baseline?: AnalysisResult | MultiFileAnalysisResult;
+  baselineId?: string;
+  concurrency?: number;
+}
+
+/**
+ * POST /api/jobs
+ * Starts a multi-file analysis in the background and returns the job
+ * Takes the body of /api/analyze-multi (without `format`); poll
+ * GET /api/jobs/:id for progress and the result.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body: JobRequest = await request.json();
+
+    // Review types fall back to the project configuration, then to the defaults
+    const reviewTypes = resolveReviewTypes(body.reviewTypes, body.projectConfig);
+
+    // Validate the configuration
+    const validation = validateMultiFileConfig({
+      files: body.files,
+      reviewTypes,
+      provider: body.provider,
+      rules: body.rules,
+      context: body.context,
+      guidelinesId: body.guidelinesId,
+      projectConfig: body.projectConfig,
+      baseline: body.baseline,
+      baselineId: body.baselineId,
+      concurrency: body.concurrency,
+    });
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: validation.errors,
+          code: 'invalid_request',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Rate limiting only applies to metered providers; a job counts as one
+    // request, consumed once it is accepted because it finishes after this response
+    const provider = resolveProvider(body.provider);
+    const rateLimit = checkRateLimit(request, provider);
+    if (rateLimit.response) {
+      return rateLimit.response;
+    }
+
+    const job = await jobManager.create({
+      files: body.files.map((f) => ({
+        name: f.name,
+        content: f.content,
+        language: f.language || 'auto',
+      })),
+      reviewTypes,
+      provider: body.provider,
+      rules: body.rules,
+      context: body.context,
+      guidelinesId: body.guidelinesId,
+      projectConfig: body.projectConfig,
+      baseline: body.baseline,
+      baselineId: body.baselineId,
+      concurrency: body.concurrency,
+    });
+
+    const rateLimitHeaders = consumeRateLimit(request, provider);
+
+    return NextResponse.json(job, {
+      status: 202,
+      headers: { ...rateLimitHeaders, Location: `/api/jobs/${job.id}` },
+    });
+  } catch (error) {
+    console.error('Error in /api/jobs:', error);
+
+    // Typed errors carry their own status and machine-readable code
+    const { status, body, headers } = toErrorResponse(error);
+    return NextResponse.json(body, { status, headers });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reviewPatch, validatePatchReviewConfig } from '@/lib/analyzers';
+import type { PatchReviewConfig } from '@/lib/analyzers';
+import { checkRateLimit, consumeRateLimit } from '@/lib/rateLimit';
+import { toErrorResponse } from '@/lib/errors';
+import { resolveProvider } from '@/lib/providers';
+import { resolveReviewTypes } from '@/utils/projectConfig';
+
+/**
+ * POST /api/review
+ * Reviews the changed hunks of a multi-file patch (`git diff base...head`)
+ * and returns a pull-request review: a summary body plus comments with path,
+ * line, side and body, ready to post to the code host.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body = await request.json();
+
+    // Validate the configuration
+    const validation = validatePatchReviewConfig(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: validation.errors,
+          code: 'invalid_request',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (validation.warnings.length > 0) {
+      console.warn('Validation warnings:', validation.warnings);
+    }
+
+    const config: PatchReviewConfig = {
+      patch: body.patch,
+      language: body.language,
+      reviewTypes: resolveReviewTypes(body.reviewTypes, body.projectConfig),
+      context: body.context,
+      guidelinesId: body.guidelinesId,
+      provider: body.provider,
+      rules: body.rules,
+      projectConfig: body.projectConfig,
+      baseline: body.baseline,
+      baselineId: body.baselineId,
+      minSeverity: body.minSeverity,
+      maxComments: body.maxComments,
+      requestChanges: body.requestChanges,
+    };
+
+    // Rate limiting only applies to metered providers; a patch counts as one request
+    const provider = resolveProvider(config.provider);
+    const rateLimit = checkRateLimit(request, provider);
+    if (rateLimit.response) {
+      return rateLimit.response;
+    }
+
+    const review = await reviewPatch(config);
+
+    // Consume rate limit only after a successful review
+    const rateLimitHeaders = consumeRateLimit(request, provider);
+
+    return NextResponse.json(review, {
+      status: 200,
+      headers: rateLimitHeaders,
+    });
+  } catch (error) {
+    console.error('Error in /api/review:', error);
+
+    // Typed errors carry their own status and machine-readable code
+    const { status, body, headers } = toErrorResponse(error);
+    return NextResponse.json(body, { status, headers });
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { ruleRegistry, RULE_SETTINGS } from '@/lib/rules';
+
+/**
+ * GET /api/rules
+ * Lists the local pattern rules and the settings a request can give them
+ */
+export async function GET() {
+  const rules = ruleRegistry.list().map(({ detect: _detect, ...rule }) => rule);
+  return NextResponse.json({ rules, settings: RULE_SETTINGS });
+}
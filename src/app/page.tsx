@@ -1,13 +1,18 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   ProgrammingLanguage,
   ReviewOptions as ReviewOptionsType,
   AnalysisResult,
+  CodeIssue,
+  IssueFix,
   MultiFileAnalysisResult,
+  ProjectConfig,
+  AnalysisJob,
 } from '@/types';
 import CodeInput from '@/components/CodeInput';
+import ReviewContextInput from '@/components/ReviewContextInput';
 import ScoreCard from '@/components/ScoreCard';
 import ResultsSummary from '@/components/ResultsSummary';
 import CodeViewer from '@/components/CodeViewer';
@@ -16,8 +21,16 @@ import ConfidenceIndicator from '@/components/ConfidenceIndicator';
 import FileUpload from '@/components/FileUpload';
 import MultiFileUpload, { UploadedFile } from '@/components/MultiFileUpload';
 import MultiFileResults from '@/components/MultiFileResults';
+import ArchiveUpload from '@/components/ArchiveUpload';
 import AnalysisSkeleton from '@/components/AnalysisSkeleton';
+import JobProgress from '@/components/JobProgress';
+import BaselineControl from '@/components/BaselineControl';
+import ExportButtons from '@/components/ExportButtons';
 import { checkLanguageMismatch } from '@/utils/languageDetect';
+import { calculateMetrics } from '@/utils/scoring';
+import { readAnalysisStream } from '@/utils/analysisStream';
+import { waitForJob } from '@/utils/analysisJobs';
+import { applyFixes, selectCompatibleFixes } from '@/utils/fixes';
 import { REVIEW_DESCRIPTIONS } from '@/constants/reviewDescriptions';
 
 type AnalysisMode = 'single' | 'multi';
@@ -62,6 +75,8 @@ export default function HomePage() {
 
   // Multi-file state
   const [multiFiles, setMultiFiles] = useState<UploadedFile[]>([]);
+  const [archive, setArchive] = useState<File | null>(null);
+  const [projectConfig, setProjectConfig] = useState<ProjectConfig | null>(null);
 
   // Shared state
   const [reviewOptions, setReviewOptions] = useState<ReviewOptionsType>({
@@ -70,9 +85,18 @@ export default function HomePage() {
     unnecessary: true,
     simplicity: true,
   });
+  const [reviewContext, setReviewContext] = useState('');
+  const [guidelinesId, setGuidelinesId] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [analyzedCode, setAnalyzedCode] = useState('');
+  const [appliedFixes, setAppliedFixes] = useState<IssueFix[]>([]);
+  const [fixNotice, setFixNotice] = useState<string | null>(null);
+  const [streamingIssues, setStreamingIssues] = useState<CodeIssue[]>([]);
   const [multiResult, setMultiResult] = useState<MultiFileAnalysisResult | null>(null);
+  const [job, setJob] = useState<AnalysisJob | null>(null);
+  const jobPolling = useRef<AbortController | null>(null);
+  const [baseline, setBaseline] = useState<AnalysisResult | MultiFileAnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [warning, setWarning] = useState<string | null>(null);
 
@@ -82,6 +106,7 @@ export default function HomePage() {
     setAnalysisMode(mode);
     setResult(null);
     setMultiResult(null);
+    setBaseline(null);
     setError(null);
   };
 
@@ -106,9 +131,13 @@ export default function HomePage() {
     setError(null);
     setIsAnalyzing(true);
     setResult(null);
+    setStreamingIssues([]);
+    setAnalyzedCode(code);
+    setAppliedFixes([]);
+    setFixNotice(null);
 
     try {
-      const response = await fetch('/api/analyze', {
+      const response = await fetch('/api/analyze/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -116,6 +145,10 @@ export default function HomePage() {
           language,
           reviewTypes: selectedReviews,
           inputType: 'code',
+          context: reviewContext || undefined,
+          guidelinesId: guidelinesId ?? undefined,
+          baseline: baseline ?? undefined,
+          fileName: uploadedFileName ?? undefined,
         }),
       });
 
@@ -124,18 +157,47 @@ export default function HomePage() {
         throw new Error(errorData.details || errorData.error || 'Analysis failed');
       }
 
-      const data = await response.json();
-      setResult(data);
+      await readAnalysisStream(response, (event) => {
+        switch (event.type) {
+          case 'issue':
+            setStreamingIssues((prev) => [...prev, event.issue]);
+            break;
+          case 'result':
+            setResult(event.result);
+            break;
+          case 'error':
+            throw new Error(event.details || event.error);
+        }
+      });
     } catch (err) {
       console.error('Analysis error:', err);
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
       setIsAnalyzing(false);
+      setStreamingIssues([]);
+    }
+  };
+
+  // Fixes refer to the analyzed code; the editor may have changed since
+  const handleApplyFixes = (fixes: IssueFix[]) => {
+    const { accepted, conflicting } = selectCompatibleFixes(fixes, appliedFixes);
+    const { code: fixedCode, applied, failed } = applyFixes(code, analyzedCode, accepted);
+
+    setCode(fixedCode);
+    setAppliedFixes((prev) => [...prev, ...applied]);
+
+    const problems: string[] = [];
+    if (conflicting.length > 0) {
+      problems.push(`${conflicting.length} fix${conflicting.length !== 1 ? 'es' : ''} skipped because they overlap another fix`);
+    }
+    if (failed.length > 0) {
+      problems.push(`${failed.length} fix${failed.length !== 1 ? 'es' : ''} could not be applied because the code has changed`);
     }
+    setFixNotice(problems.length > 0 ? `${problems.join('; ')}.` : null);
   };
 
   const handleMultiAnalyze = async () => {
-    if (multiFiles.length === 0) {
+    if (multiFiles.length === 0 && !archive) {
       setError('Please upload at least one file');
       return;
     }
@@ -149,20 +211,42 @@ export default function HomePage() {
     setError(null);
     setIsAnalyzing(true);
     setMultiResult(null);
+    setJob(null);
+
+    const polling = new AbortController();
+    jobPolling.current = polling;
 
     try {
-      const response = await fetch('/api/analyze-multi', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          files: multiFiles.map((f) => ({
-            name: f.name,
-            content: f.content,
-            language: f.language,
-          })),
-          reviewTypes: selectedReviews,
-        }),
-      });
+      const options = {
+        reviewTypes: selectedReviews,
+        context: reviewContext || undefined,
+        guidelinesId: guidelinesId ?? undefined,
+        projectConfig: projectConfig ?? undefined,
+        baseline: baseline ?? undefined,
+      };
+
+      // An archive is extracted on the server, which sends back the analyzed sources;
+      // uploaded files are analyzed by a background job whose progress is polled
+      let response: Response;
+      if (archive) {
+        const formData = new FormData();
+        formData.append('archive', archive);
+        formData.append('options', JSON.stringify({ ...options, includeSources: true }));
+        response = await fetch('/api/analyze-archive', { method: 'POST', body: formData });
+      } else {
+        response = await fetch('/api/jobs', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            files: multiFiles.map((f) => ({
+              name: f.name,
+              content: f.content,
+              language: f.language,
+            })),
+            ...options,
+          }),
+        });
+      }
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -174,12 +258,50 @@ export default function HomePage() {
       }
 
       const data = await response.json();
-      setMultiResult(data);
+      if (archive) {
+        setMultiResult(data);
+        return;
+      }
+
+      setJob(data);
+      const finished = await waitForJob(data.id, setJob, { signal: polling.signal });
+      if (finished.status === 'failed') {
+        throw new Error(finished.error?.message || 'Analysis failed');
+      }
+      if (finished.status === 'completed' && finished.result) {
+        setMultiResult(finished.result);
+      }
     } catch (err) {
+      // A cancelled job is not an error
+      if (polling.signal.aborted) return;
       console.error('Multi-file analysis error:', err);
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
+      jobPolling.current = null;
       setIsAnalyzing(false);
+      setJob(null);
+    }
+  };
+
+  // Files already in progress finish on the server, but their results are not shown
+  const handleCancelJob = async () => {
+    jobPolling.current?.abort();
+    if (job) {
+      await fetch(`/api/jobs/${encodeURIComponent(job.id)}`, { method: 'DELETE' }).catch(() => undefined);
+    }
+  };
+
+  // The project's review types become the selection, which can still be changed
+  const handleProjectConfigChange = (config: ProjectConfig | null) => {
+    setProjectConfig(config);
+    if (config?.reviewTypes) {
+      const selected = new Set(config.reviewTypes);
+      setReviewOptions({
+        solid: selected.has('solid'),
+        hygiene: selected.has('hygiene'),
+        unnecessary: selected.has('unnecessary'),
+        simplicity: selected.has('simplicity'),
+      });
     }
   };
 
@@ -231,10 +353,15 @@ export default function HomePage() {
   }, [code, language, analysisMode]);
 
   // Create file contents map for multi-file results
-  const fileContentsMap = new Map(multiFiles.map((f) => [f.name, f.content]));
+  const fileContentsMap = multiResult?.archive?.sources
+    ? new Map(Object.entries(multiResult.archive.sources))
+    : new Map(multiFiles.map((f) => [f.name, f.content]));
 
   const hasResults = analysisMode === 'single' ? !!result : !!multiResult;
 
+  // Issues streamed so far while a single-file analysis is still running
+  const isStreaming = analysisMode === 'single' && isAnalyzing && streamingIssues.length > 0;
+
   return (
     <div className="min-h-screen flex flex-col">
       {/* Header */}
@@ -349,7 +476,7 @@ export default function HomePage() {
                     <label className="text-sm font-medium">Files</label>
                     <button
                       onClick={handleMultiAnalyze}
-                      disabled={isAnalyzing || multiFiles.length === 0}
+                      disabled={isAnalyzing || (multiFiles.length === 0 && !archive)}
                       className="btn btn-primary disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none"
                     >
                       {isAnalyzing ? (
@@ -360,6 +487,8 @@ export default function HomePage() {
                           </svg>
                           Analyzing...
                         </span>
+                      ) : archive ? (
+                        'Analyze Archive'
                       ) : (
                         `Analyze ${multiFiles.length} File${multiFiles.length !== 1 ? 's' : ''}`
                       )}
@@ -369,9 +498,13 @@ export default function HomePage() {
                   <MultiFileUpload
                     files={multiFiles}
                     onFilesChange={setMultiFiles}
-                    disabled={isAnalyzing}
+                    projectConfig={projectConfig}
+                    onProjectConfigChange={handleProjectConfigChange}
+                    disabled={isAnalyzing || !!archive}
                   />
 
+                  <ArchiveUpload archive={archive} onChange={setArchive} disabled={isAnalyzing} />
+
                   {/* Review Options for Multi-file */}
                   <div className="pt-3 border-t border-border">
                     <div className="text-xs font-medium text-foreground/70 mb-2">Review Types:</div>
@@ -404,6 +537,14 @@ export default function HomePage() {
               </>
             )}
 
+            <ReviewContextInput
+              context={reviewContext}
+              onContextChange={setReviewContext}
+              guidelinesId={guidelinesId}
+              onGuidelinesChange={setGuidelinesId}
+              disabled={isAnalyzing}
+            />
+
             {warning && (
               <div className="panel p-3 border-yellow-500/20 bg-yellow-500/5 flex items-start justify-between gap-2">
                 <p className="text-sm text-yellow-700 dark:text-yellow-400 flex-1">{warning}</p>
@@ -433,18 +574,55 @@ export default function HomePage() {
 
           {/* Right: Results */}
           <div className="space-y-4">
-            {isAnalyzing ? (
+            {isStreaming ? (
+              <ResultsSummary
+                issues={streamingIssues}
+                metrics={calculateMetrics(streamingIssues)}
+                summary="Reviewing your code. Issues appear here as they are found."
+                isStreaming
+              />
+            ) : isAnalyzing && analysisMode === 'multi' && !archive ? (
+              <JobProgress job={job} onCancel={handleCancelJob} />
+            ) : isAnalyzing ? (
               <AnalysisSkeleton />
             ) : analysisMode === 'single' ? (
               result ? (
                 <>
-                  <ScoreCard score={result.score} grade={result.grade} />
+                  <ScoreCard score={result.score} grade={result.grade} profile={result.scoringProfile} />
                   <ConfidenceIndicator confidence={result.confidence} metadata={result.metadata} />
+                  {fixNotice && (
+                    <div className="panel p-3 border-yellow-500/20 bg-yellow-500/5 flex items-start justify-between gap-2">
+                      <p className="text-sm text-yellow-700 dark:text-yellow-400 flex-1">{fixNotice}</p>
+                      <button
+                        onClick={() => setFixNotice(null)}
+                        className="text-yellow-700 dark:text-yellow-400 hover:text-yellow-900 dark:hover:text-yellow-200 transition-colors"
+                        aria-label="Dismiss notice"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M6 18L18 6M6 6l12 12"
+                          />
+                        </svg>
+                      </button>
+                    </div>
+                  )}
                   <ResultsSummary
                     issues={result.issues}
                     metrics={result.metrics}
                     summary={result.summary}
+                    code={analyzedCode}
+                    appliedFixes={appliedFixes}
+                    // Diff reviews report new-file lines, which the pasted diff doesn't have
+                    onApplyFixes={result.metadata.diff ? undefined : handleApplyFixes}
+                    suppressedIssues={result.suppressedIssues}
+                    existingIssues={result.baseline?.existingIssues}
+                    fixedIssues={result.baseline?.fixedIssues}
                   />
+                  <BaselineControl result={result} baseline={baseline} onChange={setBaseline} />
+                  <ExportButtons result={result} fileName={uploadedFileName ?? undefined} code={analyzedCode} />
                 </>
               ) : (
                 /* Empty State */
@@ -512,7 +690,11 @@ export default function HomePage() {
                 </div>
               )
             ) : multiResult ? (
-              <MultiFileResults result={multiResult} fileContents={fileContentsMap} />
+              <>
+                <BaselineControl result={multiResult} baseline={baseline} onChange={setBaseline} />
+                <MultiFileResults result={multiResult} fileContents={fileContentsMap} />
+                <ExportButtons result={multiResult} fileContents={Object.fromEntries(fileContentsMap)} />
+              </>
             ) : (
               <div className="panel p-8 flex flex-col items-center justify-center min-h-[400px] text-center">
                 <div className="relative mb-6">
@@ -548,9 +730,20 @@ export default function HomePage() {
         </div>
 
         {/* Code Viewer (Single File Mode) */}
-        {analysisMode === 'single' && result && result.issues.length > 0 && (
+        {/* Diff reviews report new-file line numbers, which don't match the pasted diff */}
+        {isStreaming && !streamingIssues.some((issue) => issue.file) && (
+          <div className="mt-6 animate-fade-in-up">
+            <CodeViewer code={analyzedCode} issues={streamingIssues} />
+          </div>
+        )}
+        {analysisMode === 'single' && !isStreaming && result && result.issues.length > 0 && !result.metadata.diff && (
           <div className="mt-6 animate-fade-in-up">
-            <CodeViewer code={code} issues={result.issues} />
+            <CodeViewer
+              code={analyzedCode}
+              issues={result.issues}
+              appliedFixes={appliedFixes}
+              onApplyFixes={handleApplyFixes}
+            />
           </div>
         )}
       </main>
@@ -0,0 +1,58 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { CliUsageError, parseCliArgs } from '../args';
+
+describe('parseCliArgs', () => {
+  it('should parse paths, options and thresholds', () => {
+    const options = parseCliArgs([
+      'analyze',
+      'src',
+      'lib/*.ts',
+      '--format',
+      'json',
+      '--review-types',
+      'solid, simplicity',
+      '--provider',
+      'demo',
+      '--min-score',
+      '80',
+      '--max-critical',
+      '0',
+      '--concurrency',
+      '2',
+      '--no-color',
+    ]);
+
+    expect(options).toMatchObject({
+      paths: ['src', 'lib/*.ts'],
+      format: 'json',
+      reviewTypes: ['solid', 'simplicity'],
+      provider: 'demo',
+      concurrency: 2,
+      thresholds: { minScore: 80, maxCritical: 0, maxWarnings: undefined },
+      color: false,
+      help: false,
+    });
+  });
+
+  it('should default to a colored human report', () => {
+    expect(parseCliArgs(['analyze', '.'])).toMatchObject({ format: 'human', color: true, reviewTypes: undefined });
+  });
+
+  it('should reject invalid usage', () => {
+    expect(() => parseCliArgs([])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['lint', 'src'])).toThrow('Unknown command "lint"');
+    expect(() => parseCliArgs(['analyze'])).toThrow('Specify at least one file');
+    expect(() => parseCliArgs(['analyze', '.', '--format', 'xml'])).toThrow('Unknown format "xml"');
+    expect(() => parseCliArgs(['analyze', '.', '--review-types', 'solid,style'])).toThrow('Unknown review type "style"');
+    expect(() => parseCliArgs(['analyze', '.', '--provider', 'gpt'])).toThrow('Unknown analysis provider "gpt"');
+    expect(() => parseCliArgs(['analyze', '.', '--min-score', '101'])).toThrow('--min-score must be a whole number');
+    expect(() => parseCliArgs(['analyze', '.', '--max-critical', '-1'])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['analyze', '.', '--concurrency', '0'])).toThrow('--concurrency must be a whole number from 1 to 10');
+    expect(() => parseCliArgs(['analyze', '.', '--verbose'])).toThrow(CliUsageError);
+  });
+
+  it('should show help without a command', () => {
+    expect(parseCliArgs(['--help']).help).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CliIO, EXIT_ERROR, EXIT_PASSED, EXIT_THRESHOLD_FAILED, runCli } from '../index';
+
+describe('runCli', () => {
+  let cwd: string;
+  let stdout: string;
+  let stderr: string;
+
+  const io = (): CliIO => ({
+    cwd,
+    stdout: { write: (text: string) => (stdout += text) },
+    stderr: { write: (text: string) => (stderr += text) },
+    env: {},
+  });
+
+  beforeEach(async () => {
+    cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'solidry-cli-'));
+    stdout = '';
+    stderr = '';
+    await fs.mkdir(path.join(cwd, 'src'));
+    await fs.writeFile(path.join(cwd, 'src/a.ts'), 'var total: any = 0;\nconsole.log(total);\n');
+    await fs.writeFile(path.join(cwd, 'src/b.ts'), 'export const b = 2;\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(cwd, { recursive: true, force: true });
+  });
+
+  it('should print a report and pass without thresholds', async () => {
+    const code = await runCli(['analyze', 'src', '--provider', 'demo'], io());
+
+    expect(code).toBe(EXIT_PASSED);
+    expect(stdout).toContain('src/a.ts');
+    expect(stdout).toContain('no-console-log');
+    expect(stdout).toMatch(/Score \d+\/100 \([A-F]\) {2}2 files/);
+    expect(stdout).not.toContain('\x1b[');
+  });
+
+  it('should fail when a threshold is not met', async () => {
+    const code = await runCli(['analyze', 'src', '--provider', 'demo', '--max-warnings', '0'], io());
+
+    expect(code).toBe(EXIT_THRESHOLD_FAILED);
+    expect(stdout).toContain('Too many warnings: 1 (maximum 0)');
+  });
+
+  it('should print a single file result as JSON', async () => {
+    const code = await runCli(['analyze', 'src/a.ts', '--provider', 'demo', '--format', 'json'], io());
+    const result = JSON.parse(stdout);
+
+    expect(code).toBe(EXIT_PASSED);
+    expect(result.issues.length).toBeGreaterThan(0);
+    expect(typeof result.score).toBe('number');
+  });
+
+  it('should skip files ignored by the project configuration of the working directory', async () => {
+    await fs.writeFile(path.join(cwd, '.solidryrc.json'), JSON.stringify({ ignore: ['b.ts'] }));
+
+    await runCli(['analyze', 'src', '--provider', 'demo', '--format', 'json'], io());
+    const result = JSON.parse(stdout);
+
+    // Only src/a.ts is left, so it is reported as a single-file result
+    expect(result).not.toHaveProperty('files');
+    expect(result.appliedConfig).toEqual({ ignore: ['b.ts'] });
+  });
+
+  it('should skip binary and unreadable files and analyze the rest', async () => {
+    await fs.writeFile(path.join(cwd, 'src/c.ts'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x1a]));
+    const readFile = fs.readFile;
+    const spy = vi.spyOn(fs, 'readFile').mockImplementation((async (file: string, ...rest: unknown[]) => {
+      if (file.endsWith('b.ts')) {
+        throw Object.assign(new Error('permission denied'), { code: 'EACCES' });
+      }
+      return (readFile as (...args: unknown[]) => Promise<unknown>)(file, ...rest);
+    }) as typeof fs.readFile);
+
+    try {
+      const code = await runCli(['analyze', 'src', '--provider', 'demo', '--format', 'json'], io());
+
+      expect(code).toBe(EXIT_PASSED);
+      expect(stderr).toContain('Skipping src/b.ts: cannot be read (EACCES)');
+      expect(stderr).toContain('Skipping src/c.ts: binary file');
+      expect(JSON.parse(stdout).issues.length).toBeGreaterThan(0);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('should report usage errors', async () => {
+    await fs.writeFile(path.join(cwd, 'broken.json'), '{');
+
+    expect(await runCli(['analyze', 'missing'], io())).toBe(EXIT_ERROR);
+    expect(await runCli(['analyze', 'src', '--baseline', 'broken.json'], io())).toBe(EXIT_ERROR);
+    expect(stderr).toContain('solidry: No such file or directory: missing');
+    expect(stderr).toContain('solidry: Baseline');
+  });
+});
@@ -0,0 +1,49 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { collectFiles } from '../files';
+
+describe('collectFiles', () => {
+  let cwd: string;
+
+  async function write(file: string, content = 'export const x = 1;\n') {
+    await fs.mkdir(path.dirname(path.join(cwd, file)), { recursive: true });
+    await fs.writeFile(path.join(cwd, file), content);
+  }
+
+  beforeEach(async () => {
+    cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'solidry-cli-'));
+    await write('.gitignore', 'generated/\n');
+    await write('src/a.ts');
+    await write('src/nested/b.py');
+    await write('src/nested/.gitignore', 'skip.ts\n');
+    await write('src/nested/skip.ts');
+    await write('src/generated/c.ts');
+    await write('src/README.md', '# Docs');
+    await write('node_modules/dep/index.js');
+  });
+
+  afterEach(async () => {
+    await fs.rm(cwd, { recursive: true, force: true });
+  });
+
+  it('should walk directories honoring .gitignore files', async () => {
+    expect(await collectFiles(['.'], cwd)).toEqual(['src/a.ts', 'src/nested/b.py']);
+    expect(await collectFiles(['src/nested'], cwd)).toEqual(['src/nested/b.py']);
+  });
+
+  it('should expand globs', async () => {
+    expect(await collectFiles(['src/**/*.ts'], cwd)).toEqual(['src/a.ts']);
+    await expect(collectFiles(['lib/**/*.ts'], cwd)).rejects.toThrow('No files match "lib/**/*.ts"');
+  });
+
+  it('should always include files named explicitly', async () => {
+    expect(await collectFiles(['src/nested/skip.ts', 'src/a.ts', 'src/a.ts'], cwd)).toEqual([
+      'src/a.ts',
+      'src/nested/skip.ts',
+    ]);
+    await expect(collectFiles(['missing.ts'], cwd)).rejects.toThrow('No such file or directory: missing.ts');
+  });
+});
@@ -0,0 +1,183 @@
+import { parseArgs } from 'util';
+import { AnalysisProviderId, ReviewType } from '@/types';
+import { isProviderId } from '@/lib/providers';
+import { MAX_CONCURRENCY } from '@/lib/analyzers';
+import { ResponseFormat } from '@/utils/responseFormat';
+
+/**
+ * Command-line arguments of `solidry analyze`
+ */
+
+export type OutputFormat = 'human' | ResponseFormat;
+
+/**
+ * Limits that fail the run when exceeded, for use in CI
+ */
+export interface Thresholds {
+  minScore?: number;
+  maxCritical?: number;
+  maxWarnings?: number;
+}
+
+export interface CliOptions {
+  /** Files, directories and globs to analyze */
+  paths: string[];
+  format: OutputFormat;
+  /** Review types from the command line; the project configuration decides otherwise */
+  reviewTypes?: ReviewType[];
+  provider?: AnalysisProviderId;
+  context?: string;
+  /** Path of the project configuration, .solidryrc.json in the working directory by default */
+  configPath?: string;
+  /** Path of a saved JSON result to compare with */
+  baselinePath?: string;
+  /** Files analyzed at the same time */
+  concurrency?: number;
+  thresholds: Thresholds;
+  color: boolean;
+  help: boolean;
+}
+
+/**
+ * Invalid command-line usage; the process exits with code 2
+ */
+export class CliUsageError extends Error {
+  /** Whether the usage text should follow the message */
+  readonly showUsage: boolean;
+
+  constructor(message: string, options?: { showUsage?: boolean }) {
+    super(message);
+    this.name = 'CliUsageError';
+    this.showUsage = options?.showUsage ?? false;
+  }
+}
+
+const OUTPUT_FORMATS: Record<OutputFormat, true> = {
+  human: true,
+  json: true,
+  sarif: true,
+  markdown: true,
+  html: true,
+};
+
+const REVIEW_TYPES: Record<ReviewType, true> = {
+  solid: true,
+  hygiene: true,
+  unnecessary: true,
+  simplicity: true,
+};
+
+export const USAGE = `Usage: solidry analyze <paths...> [options]
+
+Analyzes files, directories and globs (directories honor .gitignore).
+
+Options:
+  --format <format>         Output format: human (default), json, sarif, markdown, html
+  --review-types <list>     Comma-separated review types: solid, hygiene, unnecessary, simplicity
+  --provider <id>           Analysis provider: claude, demo, openai-compatible
+  --context <text>          Review context, e.g. "this is a hot path"
+  --config <file>           Project configuration (default: ./.solidryrc.json)
+  --baseline <file>         Saved JSON result; only new issues count
+  --concurrency <n>         Files analyzed at the same time (default: 4, at most 10)
+  --min-score <n>           Fail when the score is below n
+  --max-critical <n>        Fail when there are more than n critical issues
+  --max-warnings <n>        Fail when there are more than n warnings
+  --no-color                Disable colored output
+  -h, --help                Show this help
+
+Exit codes: 0 passed, 1 a threshold failed, 2 usage or analysis error.`;
+
+function parseCount(name: string, value: string | undefined, max = Infinity, min = 0): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const count = Number(value);
+  if (value.trim() === '' || !Number.isInteger(count) || count < min || count > max) {
+    throw new CliUsageError(`--${name} must be a whole number from ${min}${max === Infinity ? '' : ` to ${max}`}`);
+  }
+  return count;
+}
+
+/**
+ * Parses arguments following the executable name
+ * Throws CliUsageError for unknown commands and invalid options.
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(argv);
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...paths] = positionals;
+
+  if (values.help) {
+    return { paths, format: 'human', thresholds: {}, color: false, help: true };
+  }
+  if (command !== 'analyze') {
+    throw new CliUsageError(command ? `Unknown command "${command}"` : 'Missing command', { showUsage: true });
+  }
+  if (paths.length === 0) {
+    throw new CliUsageError('Specify at least one file, directory or glob to analyze');
+  }
+
+  const format = values.format ?? 'human';
+  if (!Object.prototype.hasOwnProperty.call(OUTPUT_FORMATS, format)) {
+    throw new CliUsageError(`Unknown format "${format}" (expected human, json, sarif, markdown or html)`);
+  }
+
+  let reviewTypes: ReviewType[] | undefined;
+  if (values['review-types'] !== undefined) {
+    reviewTypes = values['review-types'].split(',').map((type) => type.trim()) as ReviewType[];
+    const unknown = reviewTypes.filter((type) => !Object.prototype.hasOwnProperty.call(REVIEW_TYPES, type));
+    if (unknown.length > 0) {
+      throw new CliUsageError(`Unknown review type "${unknown[0]}"`);
+    }
+  }
+
+  if (values.provider !== undefined && !isProviderId(values.provider)) {
+    throw new CliUsageError(`Unknown analysis provider "${values.provider}"`);
+  }
+
+  return {
+    paths,
+    format: format as OutputFormat,
+    reviewTypes,
+    provider: values.provider as AnalysisProviderId | undefined,
+    context: values.context,
+    configPath: values.config,
+    baselinePath: values.baseline,
+    concurrency: parseCount('concurrency', values.concurrency, MAX_CONCURRENCY, 1),
+    thresholds: {
+      minScore: parseCount('min-score', values['min-score'], 100),
+      maxCritical: parseCount('max-critical', values['max-critical']),
+      maxWarnings: parseCount('max-warnings', values['max-warnings']),
+    },
+    color: !values['no-color'],
+    help: false,
+  };
+}
+
+function parseCommandLine(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string' },
+      'review-types': { type: 'string' },
+      provider: { type: 'string' },
+      context: { type: 'string' },
+      config: { type: 'string' },
+      baseline: { type: 'string' },
+      concurrency: { type: 'string' },
+      'min-score': { type: 'string' },
+      'max-critical': { type: 'string' },
+      'max-warnings': { type: 'string' },
+      'no-color': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+import { runCli } from './index';
+
+runCli(process.argv.slice(2), {
+  cwd: process.cwd(),
+  stdout: process.stdout,
+  stderr: process.stderr,
+  env: process.env,
+}).then((code) => {
+  process.exitCode = code;
+});
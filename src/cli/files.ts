@@ -0,0 +1,127 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getLanguageFromExtension } from '@/utils/fileUtils';
+import { matchesGlob } from '@/utils/projectConfig';
+import { IgnoreRule, isGitignored, parseGitignore } from '@/utils/gitignore';
+import { CliUsageError } from './args';
+
+/**
+ * Finding the local files to analyze
+ *
+ * Directories and globs are walked recursively, skipping node_modules, what
+ * .gitignore files along the way exclude and files in languages Solidry does
+ * not know. Files named explicitly are always analyzed. Paths are reported
+ * relative to the working directory with forward slashes, so they match
+ * project ignore patterns and baselines produced elsewhere.
+ */
+
+/**
+ * Directories never worth walking, ignored or not
+ */
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+function hasWildcard(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+async function readIgnoreRules(dir: string, cwd: string): Promise<IgnoreRule[]> {
+  try {
+    const text = await fs.readFile(path.join(dir, '.gitignore'), 'utf8');
+    return parseGitignore(text, toPosix(path.relative(cwd, dir)));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Rules of the .gitignore files between the working directory and a directory
+ */
+async function readAncestorIgnoreRules(dir: string, cwd: string): Promise<IgnoreRule[]> {
+  const relative = path.relative(cwd, dir);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return [];
+  }
+
+  const rules: IgnoreRule[] = [];
+  let current = cwd;
+  for (const segment of relative.split(path.sep).filter(Boolean)) {
+    rules.push(...(await readIgnoreRules(current, cwd)));
+    current = path.join(current, segment);
+  }
+  return rules;
+}
+
+async function walk(dir: string, cwd: string, inherited: IgnoreRule[], files: string[]): Promise<void> {
+  const rules = [...inherited, ...(await readIgnoreRules(dir, cwd))];
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.isDirectory() && SKIPPED_DIRECTORIES.has(entry.name)) continue;
+
+    const fullPath = path.join(dir, entry.name);
+    const relative = toPosix(path.relative(cwd, fullPath));
+    if (isGitignored(relative, entry.isDirectory(), rules)) continue;
+
+    if (entry.isDirectory()) {
+      await walk(fullPath, cwd, rules, files);
+    } else if (entry.isFile() && getLanguageFromExtension(entry.name) !== 'auto') {
+      files.push(relative);
+    }
+  }
+}
+
+/**
+ * Directory a glob is walked from: its segments before the first wildcard
+ */
+function getGlobRoot(pattern: string): string {
+  const segments = pattern.split('/');
+  const index = segments.findIndex(hasWildcard);
+  return segments.slice(0, index).join('/') || '.';
+}
+
+/**
+ * Resolves files, directories and globs to the files to analyze
+ * Throws CliUsageError when a path does not exist or a glob matches nothing.
+ */
+export async function collectFiles(patterns: string[], cwd = process.cwd()): Promise<string[]> {
+  const files = new Set<string>();
+
+  for (const pattern of patterns.map(toPosix)) {
+    if (hasWildcard(pattern)) {
+      const root = path.resolve(cwd, getGlobRoot(pattern));
+      const found: string[] = [];
+      const exists = await fs.stat(root).then((stat) => stat.isDirectory(), () => false);
+      if (exists) {
+        await walk(root, cwd, await readAncestorIgnoreRules(root, cwd), found);
+      }
+
+      const normalized = toPosix(path.relative(cwd, path.resolve(cwd, pattern)));
+      const matches = found.filter((file) => matchesGlob(file, normalized));
+      if (matches.length === 0) {
+        throw new CliUsageError(`No files match "${pattern}"`);
+      }
+      matches.forEach((file) => files.add(file));
+      continue;
+    }
+
+    const fullPath = path.resolve(cwd, pattern);
+    const stat = await fs.stat(fullPath).catch(() => null);
+    if (!stat) {
+      throw new CliUsageError(`No such file or directory: ${pattern}`);
+    }
+
+    if (stat.isDirectory()) {
+      const found: string[] = [];
+      await walk(fullPath, cwd, await readAncestorIgnoreRules(fullPath, cwd), found);
+      found.forEach((file) => files.add(file));
+    } else {
+      files.add(toPosix(path.relative(cwd, fullPath)));
+    }
+  }
+
+  return [...files].sort();
+}
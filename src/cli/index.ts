@@ -0,0 +1,191 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AnalysisResult, FileInput, MultiFileAnalysisResult, ProjectConfig } from '@/types';
+import { analyzeCode, analyzeMultipleFiles, MAX_CODE_LENGTH } from '@/lib/analyzers';
+import { decodeTextContent, getLanguageFromExtension } from '@/utils/fileUtils';
+import { PROJECT_CONFIG_FILE_NAME, isIgnoredFile, parseProjectConfig, resolveReviewTypes } from '@/utils/projectConfig';
+import { validateBaseline } from '@/utils/baseline';
+import { renderResult } from '@/utils/responseFormat';
+import { getUnanalyzedFiles } from '@/utils/reportData';
+import { CliOptions, CliUsageError, USAGE, parseCliArgs } from './args';
+import { collectFiles } from './files';
+import { CliResult, checkThresholds, formatReport } from './report';
+
+/**
+ * Solidry command-line interface
+ *
+ * Runs the same analysis pipeline as the API on local files, so reviews work
+ * in a terminal or CI job without the Next.js app. One file is analyzed with
+ * analyzeCode and reported like /api/analyze, several with
+ * analyzeMultipleFiles and reported like /api/analyze-multi.
+ */
+
+export const EXIT_PASSED = 0;
+export const EXIT_THRESHOLD_FAILED = 1;
+export const EXIT_ERROR = 2;
+
+/**
+ * Streams the CLI writes to; replaced in tests
+ */
+export interface CliIO {
+  cwd: string;
+  stdout: { write(text: string): unknown; isTTY?: boolean };
+  stderr: { write(text: string): unknown };
+  env: Record<string, string | undefined>;
+}
+
+async function readJsonFile(filePath: string, description: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf8');
+  } catch {
+    throw new CliUsageError(`Cannot read ${description} ${filePath}`);
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new CliUsageError(`${description[0].toUpperCase()}${description.slice(1)} ${filePath} is not valid JSON`);
+  }
+}
+
+/**
+ * Loads the project configuration; a missing default file is not an error
+ */
+async function loadProjectConfig(options: CliOptions, cwd: string): Promise<ProjectConfig | undefined> {
+  const configPath = path.resolve(cwd, options.configPath ?? PROJECT_CONFIG_FILE_NAME);
+
+  let text: string;
+  try {
+    text = await fs.readFile(configPath, 'utf8');
+  } catch {
+    if (options.configPath) {
+      throw new CliUsageError(`Cannot read project configuration ${options.configPath}`);
+    }
+    return undefined;
+  }
+
+  const { config, errors } = parseProjectConfig(text);
+  if (!config) {
+    throw new CliUsageError(errors.join('\n'));
+  }
+  return config;
+}
+
+/**
+ * Reads the files to analyze, warning about the ones that cannot be
+ * One unreadable or binary file is skipped rather than failing the run.
+ */
+async function readFiles(fileNames: string[], io: CliIO): Promise<FileInput[]> {
+  const files: FileInput[] = [];
+
+  for (const name of fileNames) {
+    let bytes: Buffer;
+    try {
+      bytes = await fs.readFile(path.resolve(io.cwd, name));
+    } catch (error) {
+      const reason = (error as NodeJS.ErrnoException).code ?? (error instanceof Error ? error.message : String(error));
+      io.stderr.write(`Skipping ${name}: cannot be read (${reason})\n`);
+      continue;
+    }
+
+    const content = decodeTextContent(bytes);
+    if (content === null) {
+      io.stderr.write(`Skipping ${name}: binary file\n`);
+    } else if (content.trim().length === 0) {
+      io.stderr.write(`Skipping ${name}: file is empty\n`);
+    } else if (content.length > MAX_CODE_LENGTH) {
+      io.stderr.write(`Skipping ${name}: exceeds ${MAX_CODE_LENGTH.toLocaleString()} characters\n`);
+    } else {
+      files.push({ name, content, language: getLanguageFromExtension(name) });
+    }
+  }
+
+  return files;
+}
+
+async function analyze(options: CliOptions, io: CliIO): Promise<number> {
+  const projectConfig = await loadProjectConfig(options, io.cwd);
+  const baseline = options.baselinePath
+    ? await readJsonFile(path.resolve(io.cwd, options.baselinePath), 'baseline')
+    : undefined;
+  const baselineErrors = validateBaseline(baseline);
+  if (baselineErrors.length > 0) {
+    throw new CliUsageError(baselineErrors.join('\n'));
+  }
+
+  const fileNames = (await collectFiles(options.paths, io.cwd)).filter(
+    (name) => !isIgnoredFile(name, projectConfig)
+  );
+  const files = await readFiles(fileNames, io);
+  if (files.length === 0) {
+    throw new CliUsageError('No files to analyze');
+  }
+
+  const shared = {
+    reviewTypes: resolveReviewTypes(options.reviewTypes, projectConfig),
+    provider: options.provider,
+    context: options.context,
+    projectConfig,
+    baseline: baseline as AnalysisResult | MultiFileAnalysisResult | undefined,
+  };
+
+  let result: CliResult;
+  if (files.length === 1) {
+    const [file] = files;
+    result = await analyzeCode({
+      ...shared,
+      code: file.content,
+      language: file.language,
+      inputType: 'code',
+      fileName: file.name,
+    });
+  } else {
+    result = await analyzeMultipleFiles({ ...shared, files, concurrency: options.concurrency });
+  }
+
+  const failures = checkThresholds(result, options.thresholds);
+  if (options.format !== 'human') {
+    const rendered = renderResult(result, options.format, {
+      fileName: files[0].name,
+      code: files[0].content,
+      fileContents: Object.fromEntries(files.map((file) => [file.name, file.content])),
+    });
+    io.stdout.write(`${rendered.content}\n`);
+  } else {
+    const color = options.color && !!io.stdout.isTTY && io.env.NO_COLOR === undefined;
+    io.stdout.write(formatReport(result, files[0].name, failures, color));
+  }
+
+  // A run that left files out cannot vouch for them
+  const unanalyzed = getUnanalyzedFiles(result);
+  if (unanalyzed.length > 0) {
+    io.stderr.write(
+      `solidry: ${unanalyzed.length} of ${files.length} files could not be analyzed: ` +
+        `${unanalyzed.map((file) => file.fileName).join(', ')}\n`
+    );
+    return EXIT_ERROR;
+  }
+
+  return failures.length > 0 ? EXIT_THRESHOLD_FAILED : EXIT_PASSED;
+}
+
+/**
+ * Runs the CLI and returns its exit code
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  try {
+    const options = parseCliArgs(argv);
+    if (options.help) {
+      io.stdout.write(`${USAGE}\n`);
+      return EXIT_PASSED;
+    }
+    return await analyze(options, io);
+  } catch (error) {
+    io.stderr.write(`solidry: ${error instanceof Error ? error.message : String(error)}\n`);
+    if (error instanceof CliUsageError && error.showUsage) {
+      io.stderr.write(`\n${USAGE}\n`);
+    }
+    return EXIT_ERROR;
+  }
+}
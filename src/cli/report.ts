@@ -0,0 +1,136 @@
+import { AnalysisResult, AnalyzedFileResult, CodeIssue, IssueMetrics, MultiFileAnalysisResult, QualityGrade } from '@/types';
+import { formatLocation } from '@/utils/reportData';
+import { Thresholds } from './args';
+
+/**
+ * Terminal report and threshold checks of `solidry analyze`
+ */
+
+export type CliResult = AnalysisResult | MultiFileAnalysisResult;
+
+const ANSI_CODES = {
+  red: 31,
+  green: 32,
+  yellow: 33,
+  blue: 34,
+  gray: 90,
+  bold: 1,
+} as const;
+
+type AnsiStyle = keyof typeof ANSI_CODES;
+
+const SEVERITY_STYLES: Record<CodeIssue['severity'], AnsiStyle> = {
+  critical: 'red',
+  warning: 'yellow',
+  suggestion: 'blue',
+};
+
+const GRADE_STYLES: Record<QualityGrade, AnsiStyle> = {
+  A: 'green',
+  B: 'green',
+  C: 'yellow',
+  D: 'yellow',
+  F: 'red',
+};
+
+function isMultiFileResult(result: CliResult): result is MultiFileAnalysisResult {
+  return 'aggregateScore' in result;
+}
+
+/**
+ * Score, grade and metrics of the whole run
+ */
+function getOverall(result: CliResult): { score: number; grade: QualityGrade; metrics: IssueMetrics } {
+  return isMultiFileResult(result)
+    ? { score: result.aggregateScore, grade: result.aggregateGrade, metrics: result.aggregateMetrics }
+    : { score: result.score, grade: result.grade, metrics: result.metrics };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count !== 1 ? 's' : ''}`;
+}
+
+/**
+ * Lists every threshold the result does not meet (empty when it passes)
+ */
+export function checkThresholds(result: CliResult, thresholds: Thresholds): string[] {
+  const { score, metrics } = getOverall(result);
+  const failures: string[] = [];
+
+  if (thresholds.minScore !== undefined && score < thresholds.minScore) {
+    failures.push(`Score ${score} is below the minimum of ${thresholds.minScore}`);
+  }
+  if (thresholds.maxCritical !== undefined && metrics.criticalIssues > thresholds.maxCritical) {
+    failures.push(`Too many critical issues: ${metrics.criticalIssues} (maximum ${thresholds.maxCritical})`);
+  }
+  if (thresholds.maxWarnings !== undefined && metrics.warnings > thresholds.maxWarnings) {
+    failures.push(`Too many warnings: ${metrics.warnings} (maximum ${thresholds.maxWarnings})`);
+  }
+
+  return failures;
+}
+
+/**
+ * Human-readable report, colored with ANSI escapes when `color` is set
+ */
+export function formatReport(
+  result: CliResult,
+  fileName: string,
+  failures: string[],
+  color: boolean
+): string {
+  const paint = (text: string, style: AnsiStyle) => (color ? `\x1b[${ANSI_CODES[style]}m${text}\x1b[0m` : text);
+  const files: AnalyzedFileResult[] = isMultiFileResult(result)
+    ? result.files.filter((file): file is AnalyzedFileResult => file.status === 'ok')
+    : [{ fileName, status: 'ok', result }];
+  const lines: string[] = [];
+
+  for (const file of files) {
+    const { score, grade, issues } = file.result;
+    lines.push(`${paint(file.fileName, 'bold')}  ${paint(`${grade} ${score}`, GRADE_STYLES[grade])}`);
+
+    for (const issue of [...issues].sort((a, b) => a.line - b.line)) {
+      const rule = issue.ruleId ?? issue.principle ?? issue.category;
+      lines.push(
+        `  ${String(issue.line).padStart(5)}  ${paint(issue.severity.padEnd(12), SEVERITY_STYLES[issue.severity])}` +
+          `${issue.message}  ${paint(rule, 'gray')}`
+      );
+    }
+    lines.push('');
+  }
+
+  if (isMultiFileResult(result)) {
+    for (const file of result.files.filter((file) => file.status !== 'ok')) {
+      lines.push(`${paint(file.fileName, 'bold')}  ${paint(file.status, 'red')}  ${file.error?.message ?? ''}`, '');
+    }
+
+    for (const issue of result.crossFileIssues) {
+      lines.push(`${paint('cross-file', SEVERITY_STYLES[issue.severity])}  ${issue.message}`);
+      for (const location of issue.locations ?? []) {
+        lines.push(`  ${paint(formatLocation(location), 'gray')}  ${location.role}`);
+      }
+    }
+    if (result.crossFileIssues.length > 0) lines.push('');
+  }
+
+  const { score, grade, metrics } = getOverall(result);
+  const summary = [
+    plural(files.length, 'file'),
+    plural(metrics.criticalIssues, 'critical issue'),
+    plural(metrics.warnings, 'warning'),
+    plural(metrics.suggestions, 'suggestion'),
+  ];
+  if (isMultiFileResult(result) && result.partial) {
+    summary.push(`${result.files.length - files.length} not analyzed`);
+  }
+  if (result.baseline) {
+    summary.push(`${result.baseline.existingIssues.length} existing, ${result.baseline.fixedIssues.length} fixed`);
+  }
+  lines.push(`${paint(`Score ${score}/100 (${grade})`, GRADE_STYLES[grade])}  ${summary.join(', ')}`);
+
+  for (const failure of failures) {
+    lines.push(paint(`✖ ${failure}`, 'red'));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
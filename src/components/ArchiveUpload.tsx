@@ -0,0 +1,76 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { ARCHIVE_EXTENSIONS, MAX_ARCHIVE_SIZE, formatFileSize, isArchiveFile } from '@/utils/fileUtils';
+
+interface ArchiveUploadProps {
+  archive: File | null;
+  onChange: (archive: File | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Picks a repository archive, which the server extracts and filters
+ */
+export default function ArchiveUpload({ archive, onChange, disabled = false }: ArchiveUploadProps) {
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!isArchiveFile(file.name)) {
+      setError(`"${file.name}" is not a supported archive (${ARCHIVE_EXTENSIONS.join(', ')})`);
+    } else if (file.size > MAX_ARCHIVE_SIZE) {
+      setError(`"${file.name}" is too large (max ${formatFileSize(MAX_ARCHIVE_SIZE)})`);
+    } else {
+      setError(null);
+      onChange(file);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ARCHIVE_EXTENSIONS.join(',')}
+        onChange={handleChange}
+        className="hidden"
+        disabled={disabled}
+      />
+
+      {archive ? (
+        <div className="flex items-center justify-between panel px-3 py-2 text-xs bg-accent/10">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="truncate font-medium">{archive.name}</span>
+            <span className="text-foreground/50 flex-shrink-0">{formatFileSize(archive.size)}</span>
+            <span className="text-foreground/40 truncate">replaces the files above</span>
+          </div>
+          <button
+            onClick={() => onChange(null)}
+            className="text-foreground/40 hover:text-red-500 transition-colors flex-shrink-0 ml-2"
+            disabled={disabled}
+            aria-label={`Remove ${archive.name}`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="text-xs text-foreground/60 hover:text-foreground underline px-1"
+          disabled={disabled}
+        >
+          Or analyze a whole repository archive (.zip, .tar.gz)
+        </button>
+      )}
+
+      {error && <div className="text-xs text-red-600 dark:text-red-400 px-1">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { AnalysisResult, MultiFileAnalysisResult } from '@/types';
+
+type BaselineResult = AnalysisResult | MultiFileAnalysisResult;
+
+interface BaselineControlProps {
+  /** Result on screen */
+  result: BaselineResult;
+  /** Result the next analysis is compared with */
+  baseline: BaselineResult | null;
+  onChange: (baseline: BaselineResult | null) => void;
+}
+
+export default function BaselineControl({ result, baseline, onChange }: BaselineControlProps) {
+  const comparison = result.baseline;
+
+  return (
+    <div className="panel p-3 flex items-center justify-between gap-3 text-xs">
+      <div className="text-foreground/60">
+        {comparison ? (
+          <>
+            Compared with baseline: <span className="font-medium text-foreground">{comparison.newIssues} new</span>,{' '}
+            {comparison.existingIssues.length} existing, {comparison.fixedIssues.length} fixed
+          </>
+        ) : baseline ? (
+          'Baseline set. The next analysis only scores new issues.'
+        ) : (
+          'Use this result as a baseline to score only the issues introduced afterwards.'
+        )}
+      </div>
+      <div className="flex gap-2 flex-shrink-0">
+        {baseline && (
+          <button onClick={() => onChange(null)} className="btn btn-secondary text-xs">
+            Clear baseline
+          </button>
+        )}
+        {baseline !== result && (
+          <button onClick={() => onChange(result)} className="btn btn-secondary text-xs">
+            Use as baseline
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
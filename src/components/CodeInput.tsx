@@ -78,9 +78,9 @@ export default function CodeInput({
   // Count selected review options
   const selectedCount = Object.values(reviewOptions).filter(Boolean).length;
 
-  // Check if approaching character limit (90% of 50,000)
-  const charLimit = 50000;
-  const warningThreshold = charLimit * 0.9; // 45,000 characters
+  // Check if approaching character limit (90% of 200,000)
+  const charLimit = 200000;
+  const warningThreshold = charLimit * 0.9; // 180,000 characters
   const isApproachingLimit = value.length >= warningThreshold;
   const percentUsed = Math.round((value.length / charLimit) * 100);
 
@@ -1,11 +1,21 @@
 'use client';
 
-import { CodeIssue } from '@/types';
-import { useMemo } from 'react';
+import { CodeIssue, IssueFix, IssueLocation } from '@/types';
+import { useEffect, useMemo, useRef } from 'react';
+import { formatLocation } from '@/utils/reportData';
+import FixPreview from './FixPreview';
 
 interface CodeViewerProps {
   code: string;
   issues: CodeIssue[];
+  /** Fixes already applied to the editor buffer */
+  appliedFixes?: IssueFix[];
+  /** Applies fixes to the editor buffer; fix actions are hidden without it */
+  onApplyFixes?: (fixes: IssueFix[]) => void;
+  /** Lines to highlight and scroll to */
+  focus?: Pick<IssueLocation, 'startLine' | 'endLine'>;
+  /** Opens another location of a cross-file issue; location links are hidden without it */
+  onNavigate?: (location: IssueLocation) => void;
 }
 
 function getIssueBorderColor(severity: string): string {
@@ -38,8 +48,32 @@ function getIssueBgColor(severity: string): string {
   }
 }
 
-export default function CodeViewer({ code, issues }: CodeViewerProps) {
+/**
+ * Locations of a cross-file issue other than the one it is annotated at
+ */
+function getOtherLocations(issue: CodeIssue): IssueLocation[] {
+  return (issue.locations ?? []).filter(
+    (location) => location.file !== issue.file || location.startLine !== issue.line
+  );
+}
+
+export default function CodeViewer({
+  code,
+  issues,
+  appliedFixes = [],
+  onApplyFixes,
+  focus,
+  onNavigate,
+}: CodeViewerProps) {
   const lines = code.split('\n');
+  const focusRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    focusRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'center' });
+  }, [focus, code]);
+
+  const isFocused = (lineNumber: number) =>
+    !!focus && lineNumber >= focus.startLine && lineNumber <= (focus.endLine ?? focus.startLine);
 
   const issuesByLine = useMemo(() => {
     const map = new Map<number, CodeIssue[]>();
@@ -69,9 +103,13 @@ export default function CodeViewer({ code, issues }: CodeViewerProps) {
             const primarySeverity = hasIssues ? lineIssues[0].severity : '';
 
             return (
-              <div key={index}>
+              <div key={index} ref={focus?.startLine === lineNumber ? focusRef : undefined}>
                 {/* Code line */}
-                <div className={`flex ${hasIssues ? getIssueBgColor(primarySeverity) : ''}`}>
+                <div
+                  className={`flex ${
+                    isFocused(lineNumber) ? 'bg-accent/10' : hasIssues ? getIssueBgColor(primarySeverity) : ''
+                  }`}
+                >
                   <div className="select-none w-12 flex-shrink-0 text-right pr-3 py-1 text-foreground/30 border-r border-border bg-foreground/[0.03]">
                     {lineNumber}
                   </div>
@@ -83,12 +121,38 @@ export default function CodeViewer({ code, issues }: CodeViewerProps) {
                 {/* Issue annotations */}
                 {hasIssues && (
                   <div className={`ml-12 px-4 py-2 ${getIssueBgColor(primarySeverity)} border-l-2 ${getIssueBorderColor(primarySeverity)} space-y-2`}>
-                    {lineIssues.map((issue, issueIndex) => (
-                      <div key={issueIndex} className="text-xs space-y-1">
-                        <div className="font-medium">{issue.message}</div>
-                        <div className="text-foreground/60">{issue.suggestion}</div>
-                      </div>
-                    ))}
+                    {lineIssues.map((issue, issueIndex) => {
+                      const { fix } = issue;
+                      const otherLocations = getOtherLocations(issue);
+                      return (
+                        <div key={issueIndex} className="text-xs space-y-1">
+                          <div className="font-medium">{issue.message}</div>
+                          <div className="text-foreground/60">{issue.suggestion}</div>
+                          {onNavigate && otherLocations.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-2 text-foreground/60">
+                              Also at
+                              {otherLocations.map((location) => (
+                                <button
+                                  key={formatLocation(location)}
+                                  onClick={() => onNavigate(location)}
+                                  className="font-mono text-accent hover:underline"
+                                >
+                                  {formatLocation(location)}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                          {fix && (
+                            <FixPreview
+                              code={code}
+                              fix={fix}
+                              applied={appliedFixes.includes(fix)}
+                              onApply={onApplyFixes ? () => onApplyFixes([fix]) : undefined}
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
                 )}
               </div>
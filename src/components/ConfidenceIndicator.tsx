@@ -110,6 +110,22 @@ export default function ConfidenceIndicator({ confidence, metadata }: Confidence
             <div className="text-foreground/40 mb-0.5">Language Detection</div>
             <div className="font-medium">{confidence.languageDetection}%</div>
           </div>
+          {!!metadata.discardedIssues && (
+            <div className="col-span-2">
+              <div className="text-foreground/40 mb-0.5">Discarded Issues</div>
+              <div className="font-medium">
+                {metadata.discardedIssues} malformed finding{metadata.discardedIssues !== 1 ? 's' : ''} dropped during validation
+              </div>
+            </div>
+          )}
+          {!!metadata.suppressedIssues && (
+            <div className="col-span-2">
+              <div className="text-foreground/40 mb-0.5">Suppressed Issues</div>
+              <div className="font-medium">
+                {metadata.suppressedIssues} finding{metadata.suppressedIssues !== 1 ? 's' : ''} hidden by solidry-ignore comments
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
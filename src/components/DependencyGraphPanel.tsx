@@ -0,0 +1,68 @@
+'use client';
+
+import { DependencyGraph } from '@/types';
+
+interface DependencyGraphPanelProps {
+  graph: DependencyGraph;
+}
+
+function getInstabilityColor(instability: number): string {
+  if (instability >= 0.8) return 'text-yellow-700 dark:text-yellow-400';
+  if (instability <= 0.2) return 'text-green-600 dark:text-green-400';
+  return 'text-foreground/60';
+}
+
+export default function DependencyGraphPanel({ graph }: DependencyGraphPanelProps) {
+  // Most coupled files first; files without imports in either direction add nothing
+  const nodes = graph.nodes
+    .filter((node) => node.fanIn + node.fanOut > 0)
+    .sort((a, b) => b.fanIn + b.fanOut - (a.fanIn + a.fanOut));
+
+  return (
+    <div className="panel p-4 space-y-3">
+      <h3 className="text-sm font-medium">Dependencies</h3>
+
+      {graph.cycles.length > 0 && (
+        <div className="space-y-1">
+          {graph.cycles.map((cycle) => (
+            <div
+              key={cycle.join('\n')}
+              className="text-xs p-2 rounded bg-yellow-500/10 border border-yellow-500/20 font-mono break-all"
+            >
+              {[...cycle, cycle[0]].join(' → ')}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-foreground/60 text-left">
+            <th className="font-normal pb-1">File</th>
+            <th className="font-normal pb-1 text-right" title="Files importing this file">
+              Fan-in
+            </th>
+            <th className="font-normal pb-1 text-right" title="Files this file imports">
+              Fan-out
+            </th>
+            <th className="font-normal pb-1 text-right" title="Fan-out / (fan-in + fan-out)">
+              Instability
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {nodes.map((node) => (
+            <tr key={node.file} className="border-t border-foreground/5">
+              <td className="py-1 pr-2 font-mono truncate max-w-0 w-full">{node.file}</td>
+              <td className="py-1 pl-2 text-right">{node.fanIn}</td>
+              <td className="py-1 pl-2 text-right">{node.fanOut}</td>
+              <td className={`py-1 pl-2 text-right ${getInstabilityColor(node.instability)}`}>
+                {node.instability.toFixed(2)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
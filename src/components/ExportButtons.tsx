@@ -0,0 +1,45 @@
+'use client';
+
+import { AnalysisResult, MultiFileAnalysisResult } from '@/types';
+import { FORMAT_EXTENSIONS, ResponseFormat, renderResult } from '@/utils/responseFormat';
+import { ReportOptions } from '@/utils/reportData';
+
+interface ExportButtonsProps extends ReportOptions {
+  result: AnalysisResult | MultiFileAnalysisResult;
+}
+
+const EXPORTS: { format: ResponseFormat; label: string; title: string }[] = [
+  { format: 'markdown', label: 'Markdown', title: 'Report to paste into a pull request' },
+  { format: 'html', label: 'HTML', title: 'Standalone report with the annotated code' },
+  { format: 'sarif', label: 'SARIF', title: 'SARIF 2.1.0 for code-scanning viewers' },
+];
+
+/**
+ * Saves text as a file through a temporary link
+ */
+function download(content: string, fileName: string, contentType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: contentType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ExportButtons({ result, ...options }: ExportButtonsProps) {
+  const handleExport = (format: ResponseFormat) => {
+    const { content, contentType } = renderResult(result, format, options);
+    download(content, `solidry-review.${FORMAT_EXTENSIONS[format]}`, contentType);
+  };
+
+  return (
+    <div className="flex items-center justify-end gap-2">
+      <span className="text-xs text-foreground/50">Download</span>
+      {EXPORTS.map(({ format, label, title }) => (
+        <button key={format} onClick={() => handleExport(format)} className="btn btn-secondary text-xs" title={title}>
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useMemo } from 'react';
+import { IssueFix } from '@/types';
+import { buildFixPreview } from '@/utils/fixes';
+
+interface FixPreviewProps {
+  /** Code the fix was reported against */
+  code: string;
+  fix: IssueFix;
+  /** Whether the fix is already in the editor buffer */
+  applied?: boolean;
+  /** Applies the fix; the button is hidden without it */
+  onApply?: () => void;
+}
+
+const LINE_STYLES = {
+  added: { prefix: '+', className: 'bg-green-500/10 text-green-700 dark:text-green-400' },
+  removed: { prefix: '-', className: 'bg-red-500/10 text-red-700 dark:text-red-400 line-through decoration-red-500/40' },
+  unchanged: { prefix: ' ', className: 'text-foreground/60' },
+};
+
+export default function FixPreview({ code, fix, applied = false, onApply }: FixPreviewProps) {
+  const preview = useMemo(() => buildFixPreview(code, fix), [code, fix]);
+
+  return (
+    <div className="rounded-md border border-border overflow-hidden">
+      <div className="px-2.5 py-1.5 flex items-center gap-2 bg-foreground/[0.03] border-b border-border text-[10px]">
+        <span className="font-medium text-foreground/60">
+          {fix.description || 'Suggested change'}
+        </span>
+        <span className="text-foreground/30">
+          {fix.startLine === fix.endLine ? `line ${fix.startLine}` : `lines ${fix.startLine}-${fix.endLine}`}
+        </span>
+        {fix.safe && (
+          <span className="px-1.5 py-0.5 rounded-full bg-green-500/10 text-green-600 dark:text-green-400 font-medium">
+            safe
+          </span>
+        )}
+        {onApply && (
+          <button
+            onClick={onApply}
+            disabled={applied}
+            className="ml-auto btn btn-secondary text-[10px] px-2 py-0.5 disabled:opacity-50"
+          >
+            {applied ? 'Applied' : 'Apply fix'}
+          </button>
+        )}
+      </div>
+      <div className="overflow-x-auto font-mono text-xs">
+        {preview.map((line, index) => (
+          <pre key={index} className={`px-2.5 py-0.5 ${LINE_STYLES[line.type].className}`}>
+            {LINE_STYLES[line.type].prefix} {line.content}
+          </pre>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { AnalysisJob, JobFileStatus } from '@/types';
+
+const FILE_STATUS_STYLES: Record<JobFileStatus, string> = {
+  pending: 'text-foreground/40',
+  running: 'text-accent animate-pulse',
+  ok: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+  skipped: 'text-foreground/40',
+};
+
+interface JobProgressProps {
+  /** Job being analyzed; null until the server has accepted it */
+  job: AnalysisJob | null;
+  onCancel: () => void;
+}
+
+export default function JobProgress({ job, onCancel }: JobProgressProps) {
+  const completed = job?.progress.completedFiles ?? 0;
+  const total = job?.progress.totalFiles ?? 0;
+  const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+
+  return (
+    <div className="panel p-4 space-y-3 animate-fade-in">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm font-medium">
+          {job ? `Analyzed ${completed} of ${total} file${total !== 1 ? 's' : ''}` : 'Starting analysis...'}
+        </div>
+        <button onClick={onCancel} disabled={!job} className="btn btn-secondary text-xs">
+          Cancel
+        </button>
+      </div>
+
+      <div
+        className="h-2 rounded bg-foreground/10 overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div className="h-full bg-accent transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+
+      {job && (
+        <ul className="space-y-1 text-xs max-h-80 overflow-y-auto">
+          {job.files.map((file, idx) => (
+            <li key={`${file.fileName}-${idx}`} className="flex items-center justify-between gap-2">
+              <span className="truncate font-mono">{file.fileName}</span>
+              <span className={FILE_STATUS_STYLES[file.status]}>
+                {file.result ? `${file.result.grade} ${file.result.score}` : file.status}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
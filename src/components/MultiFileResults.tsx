@@ -1,11 +1,39 @@
 'use client';
 
 import { useState } from 'react';
-import { MultiFileAnalysisResult, FileAnalysisResult } from '@/types';
+import {
+  MultiFileAnalysisResult,
+  FileAnalysisResult,
+  ArchiveSkipReason,
+  SkippedArchiveFile,
+  IssueLocation,
+} from '@/types';
 import ScoreCard from './ScoreCard';
 import ResultsSummary from './ResultsSummary';
 import CodeViewer from './CodeViewer';
 import ConfidenceIndicator from './ConfidenceIndicator';
+import DependencyGraphPanel from './DependencyGraphPanel';
+import { PROJECT_CONFIG_FILE_NAME } from '@/utils/projectConfig';
+import { formatLocation, getIssuesAtLocations } from '@/utils/reportData';
+
+const SKIP_REASON_LABELS: Record<ArchiveSkipReason, string> = {
+  gitignored: 'gitignored',
+  ignored: 'ignored by the project configuration',
+  vendored: 'vendored',
+  generated: 'generated',
+  minified: 'minified',
+  too_large: 'too large',
+  binary: 'binary',
+  empty: 'empty',
+};
+
+function countSkipReasons(files: SkippedArchiveFile[]): Partial<Record<ArchiveSkipReason, number>> {
+  const counts: Partial<Record<ArchiveSkipReason, number>> = {};
+  for (const file of files) {
+    counts[file.reason] = (counts[file.reason] ?? 0) + 1;
+  }
+  return counts;
+}
 
 interface MultiFileResultsProps {
   result: MultiFileAnalysisResult;
@@ -14,9 +42,29 @@ interface MultiFileResultsProps {
 
 export default function MultiFileResults({ result, fileContents }: MultiFileResultsProps) {
   const [selectedFile, setSelectedFile] = useState<FileAnalysisResult | null>(
-    result.files[0] || null
+    result.files.find((file) => file.status === 'ok') || result.files[0] || null
   );
+  const unanalyzedFiles = result.files.filter((file) => file.status !== 'ok');
   const [showAggregateView, setShowAggregateView] = useState(true);
+  const [focus, setFocus] = useState<IssueLocation | null>(null);
+
+  const selectFile = (file: FileAnalysisResult) => {
+    setSelectedFile(file);
+    setFocus(null);
+  };
+
+  // Opens the file of a location of a cross-file issue at its lines
+  const navigateTo = (location: IssueLocation) => {
+    const file = result.files.find((candidate) => candidate.fileName === location.file);
+    if (!file) return;
+    setSelectedFile(file);
+    setShowAggregateView(false);
+    setFocus(location);
+  };
+
+  const crossFileAnnotations = selectedFile
+    ? getIssuesAtLocations(result.crossFileIssues, selectedFile.fileName)
+    : [];
 
   const getGradeColor = (grade: string) => {
     switch (grade) {
@@ -64,7 +112,7 @@ export default function MultiFileResults({ result, fileContents }: MultiFileResu
       {showAggregateView ? (
         /* Aggregate View */
         <div className="space-y-4">
-          <ScoreCard score={result.aggregateScore} grade={result.aggregateGrade} />
+          <ScoreCard score={result.aggregateScore} grade={result.aggregateGrade} profile={result.scoringProfile} />
 
           {/* Stats */}
           <div className="panel p-4">
@@ -84,10 +132,86 @@ export default function MultiFileResults({ result, fileContents }: MultiFileResu
             </div>
           </div>
 
+          {/* Files that failed or were skipped */}
+          {result.partial && (
+            <div className="panel p-4 space-y-1 text-xs border border-yellow-500/30 bg-yellow-500/5">
+              <div className="font-medium text-yellow-700 dark:text-yellow-400">
+                Partial results: {result.totalFiles} of {result.files.length} files analyzed. Scores and
+                counts cover the analyzed files only.
+              </div>
+              <ul className="space-y-0.5 text-foreground/60">
+                {unanalyzedFiles.map((file) => (
+                  <li key={file.fileName}>
+                    <span className="font-mono">{file.fileName}</span> {file.status}
+                    {file.error && <span className="text-foreground/40">: {file.error.message}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Files picked from an uploaded archive */}
+          {result.archive && (
+            <div className="panel p-4 space-y-1 text-xs">
+              <div className="font-medium">
+                {result.totalFiles} files analyzed from <span className="font-mono">{result.archive.name}</span>{' '}
+                <span className="text-foreground/50">({result.archive.totalEntries} entries)</span>
+              </div>
+              {result.archive.skippedFiles.length > 0 && (
+                <details className="text-foreground/60">
+                  <summary className="cursor-pointer">
+                    Skipped {result.archive.skippedFiles.length} source file
+                    {result.archive.skippedFiles.length !== 1 ? 's' : ''}:{' '}
+                    {Object.entries(countSkipReasons(result.archive.skippedFiles))
+                      .map(([reason, count]) => `${count} ${SKIP_REASON_LABELS[reason as ArchiveSkipReason]}`)
+                      .join(', ')}
+                  </summary>
+                  <ul className="mt-1 space-y-0.5 max-h-40 overflow-y-auto font-mono">
+                    {result.archive.skippedFiles.map((file) => (
+                      <li key={file.path}>
+                        {file.path} <span className="text-foreground/40">({SKIP_REASON_LABELS[file.reason]})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          )}
+
+          {/* Applied project configuration */}
+          {result.appliedConfig && (
+            <div className="panel p-4 space-y-1 text-xs">
+              <div className="font-medium">
+                Applied <span className="font-mono">{PROJECT_CONFIG_FILE_NAME}</span>
+              </div>
+              {result.appliedConfig.severity && (
+                <div className="text-foreground/60">
+                  Severity overrides:{' '}
+                  {Object.entries(result.appliedConfig.severity)
+                    .map(([selector, severity]) => `${selector} → ${severity}`)
+                    .join(', ')}
+                </div>
+              )}
+              {result.appliedConfig.scoring?.weights && (
+                <div className="text-foreground/60">
+                  Scoring weights:{' '}
+                  {Object.entries(result.appliedConfig.scoring.weights)
+                    .map(([severity, points]) => `${severity} −${points}`)
+                    .join(', ')}
+                </div>
+              )}
+              {result.ignoredFiles && (
+                <div className="text-foreground/60">Ignored files: {result.ignoredFiles.join(', ')}</div>
+              )}
+            </div>
+          )}
+
           <ResultsSummary
-            issues={result.files.flatMap((f) => f.result.issues)}
+            issues={result.files.flatMap((f) => f.result?.issues ?? [])}
             metrics={result.aggregateMetrics}
             summary={result.overallSummary}
+            existingIssues={result.baseline?.existingIssues}
+            fixedIssues={result.baseline?.fixedIssues}
           />
 
           {/* Cross-file issues */}
@@ -106,12 +230,30 @@ export default function MultiFileResults({ result, fileContents }: MultiFileResu
                     {issue.suggestion && (
                       <div className="text-foreground/60 mt-1">{issue.suggestion}</div>
                     )}
+                    {issue.locations && issue.locations.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-1">
+                        {issue.locations.map((location) => (
+                          <button
+                            key={formatLocation(location)}
+                            onClick={() => navigateTo(location)}
+                            className="font-mono text-accent hover:underline"
+                          >
+                            {formatLocation(location)}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
             </div>
           )}
 
+          {/* Imports between files */}
+          {result.dependencyGraph && result.dependencyGraph.edges.length > 0 && (
+            <DependencyGraphPanel graph={result.dependencyGraph} />
+          )}
+
           {/* File Score Breakdown */}
           <div className="panel p-4 space-y-3">
             <h3 className="text-sm font-medium">File Scores</h3>
@@ -122,15 +264,19 @@ export default function MultiFileResults({ result, fileContents }: MultiFileResu
                   className="flex items-center justify-between text-xs p-2 rounded bg-foreground/5"
                 >
                   <span className="truncate font-medium">{file.fileName}</span>
-                  <div className="flex items-center gap-2">
-                    <span className="text-foreground/60">
-                      {file.result.metrics.totalIssues} issue{file.result.metrics.totalIssues !== 1 ? 's' : ''}
-                    </span>
-                    <span className={`font-bold ${getGradeColor(file.result.grade)}`}>
-                      {file.result.grade}
-                    </span>
-                    <span className="w-12 text-right">{file.result.score}</span>
-                  </div>
+                  {file.result ? (
+                    <div className="flex items-center gap-2">
+                      <span className="text-foreground/60">
+                        {file.result.metrics.totalIssues} issue{file.result.metrics.totalIssues !== 1 ? 's' : ''}
+                      </span>
+                      <span className={`font-bold ${getGradeColor(file.result.grade)}`}>
+                        {file.result.grade}
+                      </span>
+                      <span className="w-12 text-right">{file.result.score}</span>
+                    </div>
+                  ) : (
+                    <span className="text-yellow-700 dark:text-yellow-400">{file.status}</span>
+                  )}
                 </div>
               ))}
             </div>
@@ -145,7 +291,7 @@ export default function MultiFileResults({ result, fileContents }: MultiFileResu
               {result.files.map((file) => (
                 <button
                   key={file.fileName}
-                  onClick={() => setSelectedFile(file)}
+                  onClick={() => selectFile(file)}
                   className={`px-3 py-1.5 text-xs rounded whitespace-nowrap transition-colors ${
                     selectedFile?.fileName === file.fileName
                       ? 'bg-foreground text-background'
@@ -153,8 +299,8 @@ export default function MultiFileResults({ result, fileContents }: MultiFileResu
                   }`}
                 >
                   {file.fileName}
-                  <span className={`ml-1 ${getGradeColor(file.result.grade)}`}>
-                    ({file.result.grade})
+                  <span className={`ml-1 ${file.result ? getGradeColor(file.result.grade) : 'text-foreground/50'}`}>
+                    ({file.result ? file.result.grade : file.status})
                   </span>
                 </button>
               ))}
@@ -162,9 +308,27 @@ export default function MultiFileResults({ result, fileContents }: MultiFileResu
           </div>
 
           {/* Selected File Results */}
-          {selectedFile && (
+          {selectedFile && !selectedFile.result && (
+            <div className="panel p-4 text-sm space-y-1">
+              <div className="font-medium">
+                {selectedFile.fileName} was {selectedFile.status === 'failed' ? 'not analyzed' : 'skipped'}
+              </div>
+              {selectedFile.error && (
+                <div className="text-xs text-foreground/60">
+                  {selectedFile.error.message}
+                  {selectedFile.error.retryable && ' Analyzing it again may succeed.'}
+                </div>
+              )}
+            </div>
+          )}
+
+          {selectedFile?.result && (
             <>
-              <ScoreCard score={selectedFile.result.score} grade={selectedFile.result.grade} />
+              <ScoreCard
+                score={selectedFile.result.score}
+                grade={selectedFile.result.grade}
+                profile={selectedFile.result.scoringProfile}
+              />
 
               <ConfidenceIndicator
                 confidence={selectedFile.result.confidence}
@@ -175,13 +339,17 @@ export default function MultiFileResults({ result, fileContents }: MultiFileResu
                 issues={selectedFile.result.issues}
                 metrics={selectedFile.result.metrics}
                 summary={selectedFile.result.summary}
+                existingIssues={selectedFile.result.baseline?.existingIssues}
+                fixedIssues={selectedFile.result.baseline?.fixedIssues}
               />
 
-              {/* Code Viewer for selected file */}
-              {selectedFile.result.issues.length > 0 && (
+              {/* Code Viewer for selected file, with the cross-file issues at its lines */}
+              {selectedFile.result.issues.length + crossFileAnnotations.length > 0 && (
                 <CodeViewer
                   code={fileContents.get(selectedFile.fileName) || ''}
-                  issues={selectedFile.result.issues}
+                  issues={[...selectedFile.result.issues, ...crossFileAnnotations]}
+                  focus={focus?.file === selectedFile.fileName ? focus : undefined}
+                  onNavigate={navigateTo}
                 />
               )}
             </>
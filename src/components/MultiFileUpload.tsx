@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useRef, useCallback } from 'react';
-import { ProgrammingLanguage } from '@/types';
+import { ProgrammingLanguage, ProjectConfig } from '@/types';
 import {
   SUPPORTED_EXTENSIONS,
   MAX_FILE_SIZE,
@@ -11,6 +11,7 @@ import {
   formatFileSize,
   generateFileId,
 } from '@/utils/fileUtils';
+import { PROJECT_CONFIG_FILE_NAME, isProjectConfigFile, parseProjectConfig } from '@/utils/projectConfig';
 
 export interface UploadedFile {
   id: string;
@@ -26,6 +27,10 @@ interface MultiFileUploadProps {
   disabled?: boolean;
   maxFiles?: number;
   maxTotalSize?: number;
+  /** Project configuration picked up from a dropped .solidryrc.json */
+  projectConfig?: ProjectConfig | null;
+  /** Receives the project configuration; .solidryrc.json files are treated as code without it */
+  onProjectConfigChange?: (config: ProjectConfig | null) => void;
 }
 
 export default function MultiFileUpload({
@@ -34,6 +39,8 @@ export default function MultiFileUpload({
   disabled = false,
   maxFiles = MAX_MULTI_FILE_COUNT,
   maxTotalSize = MAX_MULTI_FILE_TOTAL_SIZE,
+  projectConfig = null,
+  onProjectConfigChange,
 }: MultiFileUploadProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -61,14 +68,34 @@ export default function MultiFileUpload({
       const newFiles: UploadedFile[] = [];
       const errors: string[] = [];
 
-      if (files.length + fileList.length > maxFiles) {
+      // A project configuration is applied to the review, not analyzed
+      const codeFiles: File[] = [];
+      for (const file of Array.from(fileList)) {
+        if (!onProjectConfigChange || !isProjectConfigFile(file.name)) {
+          codeFiles.push(file);
+          continue;
+        }
+
+        try {
+          const { config, errors: configErrors } = parseProjectConfig(await file.text());
+          if (config) {
+            onProjectConfigChange(config);
+          } else {
+            errors.push(...configErrors);
+          }
+        } catch {
+          errors.push(`Failed to read "${file.name}"`);
+        }
+      }
+
+      if (files.length + codeFiles.length > maxFiles) {
         setError(`Maximum ${maxFiles} files allowed. Currently have ${files.length}.`);
         return;
       }
 
       let additionalSize = 0;
 
-      for (const file of Array.from(fileList)) {
+      for (const file of codeFiles) {
         if (files.some((f) => f.name === file.name)) {
           errors.push(`"${file.name}" already added`);
           continue;
@@ -115,7 +142,7 @@ export default function MultiFileUpload({
         onFilesChange([...files, ...newFiles]);
       }
     },
-    [files, maxFiles, maxTotalSize, currentTotalSize, onFilesChange]
+    [files, maxFiles, maxTotalSize, currentTotalSize, onFilesChange, onProjectConfigChange]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -192,7 +219,7 @@ export default function MultiFileUpload({
         <input
           ref={fileInputRef}
           type="file"
-          accept={SUPPORTED_EXTENSIONS.join(',')}
+          accept={[...SUPPORTED_EXTENSIONS, ...(onProjectConfigChange ? ['.json'] : [])].join(',')}
           onChange={handleFileInputChange}
           className="hidden"
           disabled={disabled}
@@ -225,6 +252,36 @@ export default function MultiFileUpload({
 
       {error && <div className="text-xs text-red-600 dark:text-red-400 px-1">{error}</div>}
 
+      {/* Project Configuration */}
+      {projectConfig && onProjectConfigChange && (
+        <div className="flex items-center justify-between panel px-3 py-2 text-xs bg-accent/10">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="font-mono font-medium">{PROJECT_CONFIG_FILE_NAME}</span>
+            <span className="text-foreground/50 truncate">
+              {[
+                projectConfig.reviewTypes && `${projectConfig.reviewTypes.length} review types`,
+                projectConfig.severity && `${Object.keys(projectConfig.severity).length} severity overrides`,
+                projectConfig.ignore && `${projectConfig.ignore.length} ignore patterns`,
+                projectConfig.scoring?.weights && 'custom scoring',
+                projectConfig.context && 'context',
+              ]
+                .filter(Boolean)
+                .join(' · ') || 'no settings'}
+            </span>
+          </div>
+          <button
+            onClick={() => onProjectConfigChange(null)}
+            className="text-foreground/40 hover:text-red-500 transition-colors flex-shrink-0 ml-2"
+            disabled={disabled}
+            aria-label={`Remove ${PROJECT_CONFIG_FILE_NAME}`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      )}
+
       {/* File List */}
       {files.length > 0 && (
         <div className="space-y-2">
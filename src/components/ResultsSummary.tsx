@@ -1,12 +1,69 @@
 'use client';
 
 import { useState } from 'react';
-import { CodeIssue, IssueMetrics } from '@/types';
+import { CodeIssue, IssueFix, IssueMetrics } from '@/types';
+import FixPreview from './FixPreview';
 
 interface ResultsSummaryProps {
   issues: CodeIssue[];
   metrics: IssueMetrics;
   summary: string;
+  /** Whether issues are still arriving from a streaming analysis */
+  isStreaming?: boolean;
+  /** Code the issues were reported against, used to preview fixes */
+  code?: string;
+  /** Fixes already applied to the editor buffer */
+  appliedFixes?: IssueFix[];
+  /** Applies fixes to the editor buffer; fix actions are hidden without it */
+  onApplyFixes?: (fixes: IssueFix[]) => void;
+  /** Issues hidden by inline suppression comments */
+  suppressedIssues?: CodeIssue[];
+  /** Issues a baseline already had */
+  existingIssues?: CodeIssue[];
+  /** Baseline issues that are no longer reported */
+  fixedIssues?: CodeIssue[];
+}
+
+interface IssueGroupProps {
+  label: string;
+  issues: CodeIssue[];
+  /** Classes of each issue message */
+  messageClassName?: string;
+}
+
+/**
+ * Collapsed list of issues kept out of the main results
+ */
+function IssueGroup({ label, issues, messageClassName = '' }: IssueGroupProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full text-left px-4 py-2.5 text-xs text-foreground/50 hover:bg-foreground/[0.03] transition-colors"
+      >
+        {isOpen ? 'Hide' : 'Show'} {issues.length} {label} issue{issues.length !== 1 ? 's' : ''}
+      </button>
+      {isOpen &&
+        issues.map((issue, index) => (
+          <div key={issue.fingerprint ?? index} className="px-4 py-3 space-y-1">
+            <div className="flex items-center gap-2 text-xs text-foreground/40">
+              <span>{issue.file ? `${issue.file}:${issue.line}` : `Line ${issue.line}`}</span>
+              <span>{issue.severity}</span>
+              {(issue.ruleId ?? issue.principle) && (
+                <span className="font-mono">{issue.ruleId ?? issue.principle}</span>
+              )}
+            </div>
+            <div className={`text-sm ${messageClassName}`}>{issue.message}</div>
+          </div>
+        ))}
+    </div>
+  );
 }
 
 function getSeverityColor(severity: string): { dot: string; bg: string; text: string; border: string } {
@@ -24,9 +81,24 @@ function getSeverityColor(severity: string): { dot: string; bg: string; text: st
   }
 }
 
-export default function ResultsSummary({ issues, metrics, summary }: ResultsSummaryProps) {
+export default function ResultsSummary({
+  issues,
+  metrics,
+  summary,
+  isStreaming = false,
+  code,
+  appliedFixes = [],
+  onApplyFixes,
+  suppressedIssues = [],
+  existingIssues,
+  fixedIssues = [],
+}: ResultsSummaryProps) {
   const [expandedIssues, setExpandedIssues] = useState<Set<number>>(new Set());
 
+  const pendingSafeFixes = issues
+    .map((issue) => issue.fix)
+    .filter((fix): fix is IssueFix => !!fix?.safe && !appliedFixes.includes(fix));
+
   const toggleIssue = (index: number) => {
     const newExpanded = new Set(expandedIssues);
     if (newExpanded.has(index)) {
@@ -41,7 +113,15 @@ export default function ResultsSummary({ issues, metrics, summary }: ResultsSumm
     <div className="space-y-4">
       {/* Summary */}
       <div className="panel p-4 animate-fade-in" style={{ animationDelay: '0.1s' }}>
-        <div className="text-sm font-medium mb-2">Summary</div>
+        <div className="text-sm font-medium mb-2 flex items-center gap-2">
+          Summary
+          {isStreaming && (
+            <span className="inline-flex items-center gap-1.5 text-[10px] font-normal text-accent">
+              <span className="w-1.5 h-1.5 rounded-full bg-accent animate-pulse" />
+              Analyzing…
+            </span>
+          )}
+        </div>
         <p className="text-sm text-foreground/70 leading-relaxed">{summary}</p>
       </div>
 
@@ -66,7 +146,19 @@ export default function ResultsSummary({ issues, metrics, summary }: ResultsSumm
 
       {/* Issues List */}
       <div className="panel divide-y divide-border overflow-hidden animate-fade-in" style={{ animationDelay: '0.3s' }}>
-        {issues.length === 0 ? (
+        {onApplyFixes && pendingSafeFixes.length > 0 && (
+          <div className="px-4 py-2.5 flex items-center justify-between gap-4 bg-foreground/[0.03]">
+            <span className="text-xs text-foreground/60">
+              {pendingSafeFixes.length} safe fix{pendingSafeFixes.length !== 1 ? 'es' : ''} available
+            </span>
+            <button onClick={() => onApplyFixes(pendingSafeFixes)} className="btn btn-secondary text-xs">
+              Apply all safe fixes
+            </button>
+          </div>
+        )}
+        {issues.length === 0 && isStreaming ? (
+          <div className="p-8 text-center text-sm text-foreground/40">Waiting for the first findings…</div>
+        ) : issues.length === 0 ? (
           <div className="p-8 text-center">
             <div className="inline-flex items-center justify-center w-10 h-10 rounded-full bg-green-500/10 mb-3">
               <svg className="w-5 h-5 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -79,8 +171,9 @@ export default function ResultsSummary({ issues, metrics, summary }: ResultsSumm
           issues.map((issue, index) => {
             const isExpanded = expandedIssues.has(index);
             const severity = getSeverityColor(issue.severity);
+            const { fix } = issue;
             return (
-              <div key={index}>
+              <div key={issue.fingerprint ?? index}>
                 <button
                   onClick={() => toggleIssue(index)}
                   className="w-full text-left p-4 hover:bg-foreground/[0.03] transition-colors"
@@ -88,7 +181,9 @@ export default function ResultsSummary({ issues, metrics, summary }: ResultsSumm
                   <div className="flex items-start justify-between gap-4">
                     <div className="flex-1 space-y-1.5">
                       <div className="flex items-center gap-2 text-xs">
-                        <span className="text-foreground/40">Line {issue.line}</span>
+                        <span className="text-foreground/40">
+                          {issue.file ? `${issue.file}:${issue.line}` : `Line ${issue.line}`}
+                        </span>
                         <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full ${severity.bg} ${severity.text} text-[10px] font-medium`}>
                           <span className={`w-1.5 h-1.5 rounded-full ${severity.dot}`} />
                           {issue.severity}
@@ -126,12 +221,35 @@ export default function ResultsSummary({ issues, metrics, summary }: ResultsSumm
                       <div className="text-xs font-medium text-accent mb-1">Fix</div>
                       <div className="text-foreground/70 leading-relaxed">{issue.suggestion}</div>
                     </div>
+                    {fix && code !== undefined && (
+                      <FixPreview
+                        code={code}
+                        fix={fix}
+                        applied={appliedFixes.includes(fix)}
+                        onApply={onApplyFixes ? () => onApplyFixes([fix]) : undefined}
+                      />
+                    )}
+                    {issue.fingerprint && (
+                      <div className="text-[10px] font-mono text-foreground/30">
+                        {issue.ruleId && <span>{issue.ruleId} · </span>}
+                        <span className="select-all" title="Stable issue fingerprint">
+                          {issue.fingerprint}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
             );
           })
         )}
+        {existingIssues && <IssueGroup label="existing" issues={existingIssues} messageClassName="text-foreground/60" />}
+        <IssueGroup label="fixed" issues={fixedIssues} messageClassName="text-green-600 dark:text-green-400" />
+        <IssueGroup
+          label="suppressed"
+          issues={suppressedIssues}
+          messageClassName="opacity-50 line-through decoration-foreground/30"
+        />
       </div>
     </div>
   );
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { readFileContent } from '@/utils/fileUtils';
+
+interface GuidelineOption {
+  id: string;
+  name: string;
+  size: number;
+}
+
+interface ReviewContextInputProps {
+  context: string;
+  onContextChange: (context: string) => void;
+  guidelinesId: string | null;
+  onGuidelinesChange: (guidelinesId: string | null) => void;
+  disabled?: boolean;
+}
+
+const MAX_CONTEXT_LENGTH = 5000;
+const GUIDELINE_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
+export default function ReviewContextInput({
+  context,
+  onContextChange,
+  guidelinesId,
+  onGuidelinesChange,
+  disabled = false,
+}: ReviewContextInputProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [guidelines, setGuidelines] = useState<GuidelineOption[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadGuidelines = useCallback(async () => {
+    try {
+      const response = await fetch('/api/guidelines');
+      if (!response.ok) return;
+      const data = await response.json();
+      setGuidelines(data.guidelines ?? []);
+    } catch {
+      // The guideline list is optional; the field still works without it
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadGuidelines();
+    }
+  }, [isOpen, loadGuidelines]);
+
+  const handleUpload = async (file: File) => {
+    setError(null);
+
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+    if (!GUIDELINE_EXTENSIONS.includes(extension)) {
+      setError('Guidelines must be a Markdown or plain text file');
+      return;
+    }
+
+    const { content, error: readError } = await readFileContent(file);
+    if (readError) {
+      setError(readError);
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const response = await fetch('/api/guidelines', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: file.name, content }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          Array.isArray(data.details) ? data.details.join('. ') : data.details || data.error
+        );
+      }
+
+      await loadGuidelines();
+      onGuidelinesChange(data.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload guidelines');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const hasContext = context.trim().length > 0 || guidelinesId !== null;
+
+  return (
+    <div className="panel">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          Context
+          {hasContext && !isOpen && (
+            <span className="text-xs font-normal text-foreground/60">(applied)</span>
+          )}
+        </span>
+        <svg
+          className={`w-4 h-4 text-foreground/60 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3 animate-fade-in">
+          <div>
+            <textarea
+              value={context}
+              onChange={(e) => onContextChange(e.target.value.slice(0, MAX_CONTEXT_LENGTH))}
+              disabled={disabled}
+              rows={3}
+              placeholder="e.g. This is a hot path; we use a hexagonal architecture"
+              className="w-full px-3 py-2 text-sm rounded-md border border-border bg-background resize-y focus:outline-none focus:ring-1 focus:ring-accent disabled:opacity-50"
+            />
+            <div className="text-[11px] text-foreground/50 text-right">
+              {context.length.toLocaleString()} / {MAX_CONTEXT_LENGTH.toLocaleString()}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-foreground/70">Team Guidelines</label>
+            <div className="flex items-center gap-2">
+              <select
+                value={guidelinesId ?? ''}
+                onChange={(e) => onGuidelinesChange(e.target.value || null)}
+                disabled={disabled}
+                className="flex-1 px-2 py-1.5 text-sm rounded-md border border-border bg-background disabled:opacity-50"
+              >
+                <option value="">None</option>
+                {guidelines.map((g) => (
+                  <option key={g.id} value={g.id}>
+                    {g.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled || isUploading}
+                className="btn btn-secondary text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isUploading ? 'Uploading...' : 'Upload'}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={GUIDELINE_EXTENSIONS.join(',')}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleUpload(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            <p className="text-[11px] text-foreground/50">
+              Upload a Markdown style guide once and reuse it across reviews.
+            </p>
+          </div>
+
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 'use client';
 
 import { useEffect, useState, useRef } from 'react';
-import { QualityGrade } from '@/types';
+import { QualityGrade, ScoringProfileId } from '@/types';
 
 interface ScoreCardProps {
   score: number;
   grade: QualityGrade;
+  /** Scoring model that produced the score */
+  profile?: ScoringProfileId;
 }
 
 function getScoreColor(score: number): { stroke: string; bg: string; text: string; glow: string } {
@@ -56,7 +58,7 @@ function useCountUp(target: number, duration: number = 1200) {
   return value;
 }
 
-export default function ScoreCard({ score, grade }: ScoreCardProps) {
+export default function ScoreCard({ score, grade, profile }: ScoreCardProps) {
   const displayScore = useCountUp(score);
   const colors = getScoreColor(score);
 
@@ -110,6 +112,11 @@ export default function ScoreCard({ score, grade }: ScoreCardProps) {
           <div className="flex items-baseline gap-2">
             <span className={`text-3xl font-bold ${getGradeColor(grade)}`}>{grade}</span>
             <span className="text-sm text-foreground/40">grade</span>
+            {profile && profile !== 'legacy' && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-foreground/5 text-foreground/50">
+                {profile} scoring
+              </span>
+            )}
           </div>
           <div className="text-xs text-foreground/50">
             {score >= 80 && 'Excellent code quality'}
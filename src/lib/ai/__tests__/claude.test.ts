@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { APIError, APIConnectionTimeoutError } from '@anthropic-ai/sdk';
+
+const { mockCreate } = vi.hoisted(() => ({ mockCreate: vi.fn() }));
+
+vi.mock('@anthropic-ai/sdk', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@anthropic-ai/sdk')>()),
+  default: class {
+    messages = { create: mockCreate };
+  },
+}));
+
+import { analyzeCodeWithClaude } from '../claude';
+import { REVIEW_TOOL_NAME } from '../schema';
+import {
+  ConfigurationError,
+  ProviderOverloadedError,
+  ProviderRateLimitedError,
+  ProviderTimeoutError,
+  ResponseParseError,
+} from '../../errors';
+
+function toolResponse(input: unknown, id = 'toolu_1') {
+  return {
+    content: [{ type: 'tool_use', id, name: REVIEW_TOOL_NAME, input }],
+  };
+}
+
+const validPayload = {
+  issues: [
+    {
+      line: 1,
+      severity: 'warning',
+      category: 'hygiene',
+      message: 'Console.log statement left in code',
+      suggestion: 'Remove it',
+    },
+  ],
+  summary: 'One issue',
+  metrics: { criticalIssues: 0, warnings: 1, suggestions: 0, totalIssues: 1 },
+};
+
+describe('analyzeCodeWithClaude', () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+  });
+
+  it('should force the review tool and return its validated input', async () => {
+    mockCreate.mockResolvedValueOnce(toolResponse(validPayload));
+
+    const result = await analyzeCodeWithClaude('console.log(1);', 'javascript', ['hygiene']);
+
+    expect(result.issues).toHaveLength(1);
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    expect(mockCreate.mock.calls[0][0].tool_choice).toEqual({ type: 'tool', name: REVIEW_TOOL_NAME });
+  });
+
+  it('should feed validation errors back once and accept the repaired response', async () => {
+    mockCreate
+      .mockResolvedValueOnce(toolResponse({ summary: 'missing issues' }, 'toolu_bad'))
+      .mockResolvedValueOnce(toolResponse(validPayload, 'toolu_good'));
+
+    const result = await analyzeCodeWithClaude('console.log(1);', 'javascript', ['hygiene']);
+
+    expect(result.summary).toBe('One issue');
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+
+    const repairMessages = mockCreate.mock.calls[1][0].messages;
+    const feedback = repairMessages[repairMessages.length - 1].content[0];
+    expect(feedback.type).toBe('tool_result');
+    expect(feedback.tool_use_id).toBe('toolu_bad');
+    expect(feedback.is_error).toBe(true);
+    expect(feedback.content).toContain('missing or invalid issues array');
+  });
+
+  it('should fail after a single unsuccessful repair', async () => {
+    mockCreate.mockResolvedValue(toolResponse({ summary: 'still broken' }));
+
+    await expect(
+      analyzeCodeWithClaude('console.log(1);', 'javascript', ['hygiene'])
+    ).rejects.toBeInstanceOf(ResponseParseError);
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not repair when only individual issues are invalid', async () => {
+    mockCreate.mockResolvedValueOnce(
+      toolResponse({
+        ...validPayload,
+        issues: [...validPayload.issues, { ...validPayload.issues[0], category: 'style' }],
+      })
+    );
+
+    const result = await analyzeCodeWithClaude('console.log(1);', 'javascript', ['hygiene']);
+
+    expect(result.issues).toHaveLength(1);
+    expect(result.discardedIssues).toBe(1);
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('analyzeCodeWithClaude error handling', () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+    // No jitter means no waiting between retries
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete process.env.ANALYSIS_MAX_RETRIES;
+  });
+
+  it('should retry rate-limited and overloaded requests', async () => {
+    mockCreate
+      .mockRejectedValueOnce(APIError.generate(429, {}, 'rate limited', { 'retry-after': '0' }))
+      .mockRejectedValueOnce(APIError.generate(529, {}, 'overloaded', {}))
+      .mockResolvedValueOnce(toolResponse(validPayload));
+
+    const result = await analyzeCodeWithClaude('console.log(1);', 'javascript', ['hygiene']);
+
+    expect(result.issues).toHaveLength(1);
+    expect(mockCreate).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up after the configured number of retries', async () => {
+    process.env.ANALYSIS_MAX_RETRIES = '1';
+    mockCreate.mockRejectedValue(APIError.generate(503, {}, 'unavailable', {}));
+
+    await expect(
+      analyzeCodeWithClaude('console.log(1);', 'javascript', ['hygiene'])
+    ).rejects.toBeInstanceOf(ProviderOverloadedError);
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should map rate limits, timeouts and auth failures to typed errors', async () => {
+    process.env.ANALYSIS_MAX_RETRIES = '0';
+
+    mockCreate.mockRejectedValueOnce(APIError.generate(429, {}, 'slow down', { 'retry-after': '7' }));
+    const rateLimited = await analyzeCodeWithClaude('x = 1', 'python', ['hygiene']).catch((e) => e);
+    expect(rateLimited).toBeInstanceOf(ProviderRateLimitedError);
+    expect(rateLimited.retryAfterMs).toBe(7000);
+
+    mockCreate.mockRejectedValueOnce(new APIConnectionTimeoutError());
+    await expect(
+      analyzeCodeWithClaude('x = 1', 'python', ['hygiene'])
+    ).rejects.toBeInstanceOf(ProviderTimeoutError);
+
+    mockCreate.mockRejectedValueOnce(APIError.generate(401, {}, 'invalid x-api-key', {}));
+    await expect(
+      analyzeCodeWithClaude('x = 1', 'python', ['hygiene'])
+    ).rejects.toBeInstanceOf(ConfigurationError);
+  });
+
+  it('should not retry authentication failures', async () => {
+    mockCreate.mockRejectedValue(APIError.generate(401, {}, 'invalid x-api-key', {}));
+
+    await expect(analyzeCodeWithClaude('x = 1', 'python', ['hygiene'])).rejects.toThrow(
+      'rejected the configured API key'
+    );
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { analyzeCodeWithOpenAICompatible } from '../openaiCompatible';
+
+const payload = {
+  issues: [
+    {
+      line: 2,
+      severity: 'warning',
+      category: 'hygiene',
+      message: 'Console.log statement left in code',
+      suggestion: 'Remove it',
+    },
+  ],
+  summary: 'One issue',
+  metrics: { criticalIssues: 0, warnings: 1, suggestions: 0, totalIssues: 1 },
+};
+
+function completion(content: string) {
+  return new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+}
+
+function streamedCompletion(content: string, chunkSize: number) {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  for (let i = 0; i < content.length; i += chunkSize) {
+    chunks.push(`data: ${JSON.stringify({ choices: [{ delta: { content: content.slice(i, i + chunkSize) } }] })}\n\n`);
+  }
+  chunks.push('data: [DONE]\n\n');
+
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    }),
+    { status: 200 }
+  );
+}
+
+describe('analyzeCodeWithOpenAICompatible', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1/';
+    process.env.OPENAI_MODEL = 'qwen2.5-coder';
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    delete process.env.OPENAI_BASE_URL;
+    delete process.env.OPENAI_MODEL;
+    vi.unstubAllGlobals();
+  });
+
+  it('should call the chat completions endpoint with the configured model', async () => {
+    fetchMock.mockResolvedValueOnce(completion(JSON.stringify(payload)));
+
+    const result = await analyzeCodeWithOpenAICompatible('console.log(1);', 'javascript', ['hygiene']);
+
+    expect(result.issues).toHaveLength(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(JSON.parse(init.body).model).toBe('qwen2.5-coder');
+    expect(init.headers.Authorization).toBeUndefined();
+  });
+
+  it('should stream issues as they complete', async () => {
+    fetchMock.mockResolvedValueOnce(streamedCompletion(JSON.stringify(payload), 7));
+    const onIssue = vi.fn();
+
+    const result = await analyzeCodeWithOpenAICompatible('console.log(1);', 'javascript', ['hygiene'], onIssue);
+
+    expect(onIssue).toHaveBeenCalledTimes(1);
+    expect(onIssue.mock.calls[0][0].line).toBe(2);
+    expect(result.summary).toBe('One issue');
+  });
+
+  it('should ask once for a corrected response when parsing fails', async () => {
+    fetchMock
+      .mockResolvedValueOnce(completion('Here are my thoughts, not JSON'))
+      .mockResolvedValueOnce(completion(JSON.stringify(payload)));
+
+    const result = await analyzeCodeWithOpenAICompatible('console.log(1);', 'javascript', ['hygiene']);
+
+    expect(result.issues).toHaveLength(1);
+    const retryMessages = JSON.parse(fetchMock.mock.calls[1][1].body).messages;
+    expect(retryMessages[retryMessages.length - 1].content).toContain('Your response was rejected');
+  });
+
+  it('should surface HTTP errors', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('model not found', { status: 404, statusText: 'Not Found' }));
+
+    await expect(
+      analyzeCodeWithOpenAICompatible('console.log(1);', 'javascript', ['hygiene'])
+    ).rejects.toThrow('OpenAI-compatible API error: 404 Not Found: model not found');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { parseAIResponse, validateAnalysisPayload, validateIssue } from '../parser';
+
+const validIssue = {
+  line: 4,
+  severity: 'warning',
+  category: 'hygiene',
+  principle: 'other',
+  message: 'Console.log statement left in code',
+  suggestion: 'Remove it',
+};
+
+const metrics = { criticalIssues: 0, warnings: 1, suggestions: 0, totalIssues: 1 };
+
+describe('validateIssue', () => {
+  it('should accept a valid issue', () => {
+    expect(validateIssue(validIssue, 0)).toMatchObject(validIssue);
+  });
+
+  it('should reject an unknown category', () => {
+    expect(() => validateIssue({ ...validIssue, category: 'style' }, 2)).toThrow(
+      'Issue 2: invalid category "style"'
+    );
+  });
+
+  it('should fall back to "other" for an unknown principle', () => {
+    expect(validateIssue({ ...validIssue, principle: 'KISS' }, 0).principle).toBe('other');
+  });
+
+  it('should reject non-object issues', () => {
+    expect(() => validateIssue(null, 0)).toThrow('must be an object');
+  });
+
+  it('should keep a well-formed fix', () => {
+    const fix = { startLine: 4, endLine: 4, replacement: '', description: 'Remove the log', safe: true };
+    expect(validateIssue({ ...validIssue, fix }, 0).fix).toEqual(fix);
+  });
+
+  it('should drop a malformed fix but keep the issue', () => {
+    const issue = validateIssue(
+      { ...validIssue, fix: { startLine: 5, endLine: 3, replacement: 'x' } },
+      0
+    );
+    expect(issue.message).toBe(validIssue.message);
+    expect(issue.fix).toBeUndefined();
+  });
+});
+
+describe('validateAnalysisPayload', () => {
+  it('should drop only the invalid issues and count them', () => {
+    const result = validateAnalysisPayload({
+      issues: [validIssue, { ...validIssue, severity: 'fatal' }, { ...validIssue, message: '' }],
+      summary: 'Mixed',
+      metrics,
+    });
+
+    expect(result.issues).toHaveLength(1);
+    expect(result.discardedIssues).toBe(2);
+  });
+
+  it('should throw on a missing issues array', () => {
+    expect(() => validateAnalysisPayload({ summary: 'x', metrics })).toThrow(
+      'missing or invalid issues array'
+    );
+  });
+
+  it('should throw on a non-object payload', () => {
+    expect(() => validateAnalysisPayload('nope')).toThrow('expected an object');
+  });
+});
+
+describe('parseAIResponse', () => {
+  it('should extract JSON from markdown fences', () => {
+    const text = '```json\n' + JSON.stringify({ issues: [validIssue], summary: 'ok', metrics }) + '\n```';
+    const result = parseAIResponse(text);
+    expect(result.issues).toHaveLength(1);
+    expect(result.discardedIssues).toBe(0);
+  });
+
+  it('should report invalid JSON', () => {
+    expect(() => parseAIResponse('{ not json')).toThrow('Failed to parse AI response as JSON');
+  });
+});
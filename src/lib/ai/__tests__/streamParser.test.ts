@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { IncrementalIssueParser } from '../streamParser';
+
+const RESPONSE = `\`\`\`json
+{
+  "issues": [
+    {
+      "line": 3,
+      "severity": "warning",
+      "category": "hygiene",
+      "principle": "other",
+      "message": "Console.log with a brace } in \\"quotes\\"",
+      "suggestion": "Remove it"
+    },
+    {
+      "line": 7,
+      "severity": "critical",
+      "category": "solid",
+      "principle": "SRP",
+      "message": "Class does too much",
+      "suggestion": "Split it [into parts]"
+    }
+  ],
+  "summary": "Two issues",
+  "metrics": { "criticalIssues": 1, "warnings": 1, "suggestions": 0, "totalIssues": 2 }
+}
+\`\`\``;
+
+function feedInChunks(text: string, size: number) {
+  const parser = new IncrementalIssueParser();
+  const emitted = [];
+  for (let i = 0; i < text.length; i += size) {
+    emitted.push(...parser.push(text.slice(i, i + size)));
+  }
+  return { parser, emitted };
+}
+
+describe('IncrementalIssueParser', () => {
+  it('should emit each issue once its object is complete', () => {
+    const parser = new IncrementalIssueParser();
+    const cut = RESPONSE.indexOf('"line": 7');
+
+    const first = parser.push(RESPONSE.slice(0, cut));
+    expect(first).toHaveLength(1);
+    expect(first[0].line).toBe(3);
+
+    const second = parser.push(RESPONSE.slice(cut));
+    expect(second).toHaveLength(1);
+    expect(second[0].principle).toBe('SRP');
+    expect(parser.isComplete()).toBe(true);
+  });
+
+  it('should handle braces and brackets inside strings', () => {
+    const { emitted } = feedInChunks(RESPONSE, 1);
+    expect(emitted.map((i) => i.line)).toEqual([3, 7]);
+    expect(emitted[0].message).toBe('Console.log with a brace } in "quotes"');
+  });
+
+  it('should produce the same issues regardless of chunk size', () => {
+    for (const size of [2, 5, 17, 64, RESPONSE.length]) {
+      const { emitted } = feedInChunks(RESPONSE, size);
+      expect(emitted).toHaveLength(2);
+    }
+  });
+
+  it('should skip malformed issues without stopping', () => {
+    const text = `{"issues": [{"line": "x", "severity": "warning"}, {"line": 2, "severity": "suggestion", "category": "complexity", "message": "m", "suggestion": "s"}], "summary": ""}`;
+    const { emitted } = feedInChunks(text, 8);
+    expect(emitted).toHaveLength(1);
+    expect(emitted[0].line).toBe(2);
+  });
+
+  it('should emit nothing until the issues array starts', () => {
+    const parser = new IncrementalIssueParser();
+    expect(parser.push('{"summary": "no issues key yet", ')).toEqual([]);
+    expect(parser.isComplete()).toBe(false);
+  });
+});
@@ -1,13 +1,27 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { ReviewType, ProgrammingLanguage, AIAnalysisResponse } from '@/types';
-import { buildAnalysisPrompt, SYSTEM_PROMPT } from './prompts';
-import { parseAIResponse } from './parser';
+import Anthropic, { APIError, APIConnectionError, APIConnectionTimeoutError } from '@anthropic-ai/sdk';
+import { ReviewType, ProgrammingLanguage, AIAnalysisResponse, CodeIssue } from '@/types';
+import { buildAnalysisPrompt, SYSTEM_PROMPT, PromptContext } from './prompts';
+import { validateAnalysisPayload } from './parser';
+import { IncrementalIssueParser } from './streamParser';
+import { REVIEW_TOOL, REVIEW_TOOL_NAME } from './schema';
+import { withRetry, getRetryConfig, RetryConfig } from './retry';
+import {
+  AnalysisError,
+  ConfigurationError,
+  ProviderError,
+  ProviderOverloadedError,
+  ProviderRateLimitedError,
+  ProviderTimeoutError,
+  ResponseParseError,
+} from '../errors';
 
 /**
  * Initialize Anthropic client
+ * Retries are handled by `withRetry` so they follow the shared policy.
  */
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY || '',
+  maxRetries: 0,
 });
 
 /**
@@ -15,53 +29,239 @@ const anthropic = new Anthropic({
  */
 const MODEL = 'claude-sonnet-4-20250514';
 
+/**
+ * How many times Claude is asked to correct a structurally invalid response
+ */
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Builds the request parameters shared by the blocking and streaming calls
+ * Forces Claude to answer through the review tool so output follows the schema
+ */
+function buildMessageParams(
+  messages: Anthropic.MessageParam[]
+): Anthropic.MessageCreateParamsNonStreaming {
+  return {
+    model: MODEL,
+    max_tokens: 4096,
+    temperature: 0.3, // Lower temperature for more consistent, focused analysis
+    system: SYSTEM_PROMPT,
+    tools: [REVIEW_TOOL],
+    tool_choice: { type: 'tool', name: REVIEW_TOOL_NAME },
+    messages,
+  };
+}
+
+/**
+ * Converts an SDK failure into a typed analysis error
+ */
+function toAnalysisError(error: unknown, config: RetryConfig): AnalysisError {
+  if (error instanceof AnalysisError) {
+    return error;
+  }
+
+  if (error instanceof APIConnectionTimeoutError) {
+    return new ProviderTimeoutError(`Claude did not respond within ${config.timeoutMs}ms`, {
+      cause: error,
+    });
+  }
+
+  if (error instanceof APIConnectionError) {
+    return new ProviderOverloadedError(`Could not reach the Claude API: ${error.message}`, {
+      cause: error,
+    });
+  }
+
+  if (error instanceof APIError) {
+    const status = error.status ?? 0;
+
+    if (status === 401 || status === 403) {
+      return new ConfigurationError(`Claude rejected the configured API key: ${error.message}`, {
+        cause: error,
+      });
+    }
+
+    if (status === 429) {
+      const retryAfter = Number.parseFloat(error.headers?.['retry-after'] ?? '');
+      return new ProviderRateLimitedError(`Claude API rate limit reached: ${error.message}`, {
+        cause: error,
+        retryAfterMs: Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined,
+      });
+    }
+
+    if (status === 529 || status >= 500) {
+      return new ProviderOverloadedError(`Claude API is unavailable (${status}): ${error.message}`, {
+        cause: error,
+      });
+    }
+  }
+
+  if (error instanceof Error) {
+    return new ProviderError(`Claude API error: ${error.message}`, { cause: error });
+  }
+
+  return new ProviderError('Unknown error occurred while analyzing code');
+}
+
+/**
+ * Sends a single (non-streaming) request with the configured timeout
+ */
+async function createMessage(
+  messages: Anthropic.MessageParam[],
+  config: RetryConfig
+): Promise<Anthropic.Message> {
+  try {
+    return await anthropic.messages.create(buildMessageParams(messages), {
+      timeout: config.timeoutMs,
+    });
+  } catch (error) {
+    throw toAnalysisError(error, config);
+  }
+}
+
+/**
+ * Finds the review tool call in a Claude response
+ */
+function findReviewToolUse(message: Anthropic.Message): Anthropic.ToolUseBlock | undefined {
+  return message.content.find(
+    (block): block is Anthropic.ToolUseBlock =>
+      block.type === 'tool_use' && block.name === REVIEW_TOOL_NAME
+  );
+}
+
+/**
+ * Validates the tool input of a response, feeding validation errors back to
+ * Claude for a corrected answer before giving up
+ *
+ * Only structural failures trigger a repair. Individual invalid issues are
+ * dropped by `validateAnalysisPayload` and counted instead.
+ */
+async function validateWithRepair(
+  messages: Anthropic.MessageParam[],
+  message: Anthropic.Message,
+  config: RetryConfig
+): Promise<AIAnalysisResponse> {
+  let conversation = messages;
+  let current = message;
+
+  for (let attempt = 0; ; attempt++) {
+    const toolUse = findReviewToolUse(current);
+
+    try {
+      if (!toolUse) {
+        throw new ResponseParseError(`No ${REVIEW_TOOL_NAME} tool call in Claude response`);
+      }
+      return validateAnalysisPayload(toolUse.input);
+    } catch (error) {
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw error;
+      }
+
+      const reason = error instanceof Error ? error.message : 'Invalid response';
+      console.warn(`Repairing Claude response (attempt ${attempt + 1}): ${reason}`);
+
+      const correction = `Your response was rejected: ${reason}. Call ${REVIEW_TOOL_NAME} again with input that matches its schema exactly.`;
+
+      conversation = [
+        ...conversation,
+        { role: 'assistant', content: current.content },
+        {
+          role: 'user',
+          content: toolUse
+            ? [{ type: 'tool_result', tool_use_id: toolUse.id, is_error: true, content: correction }]
+            : correction,
+        },
+      ];
+
+      current = await createMessage(conversation, config);
+    }
+  }
+}
+
 /**
  * Analyzes code using Claude AI
  */
 export async function analyzeCodeWithClaude(
   code: string,
   language: ProgrammingLanguage,
-  reviewTypes: ReviewType[]
+  reviewTypes: ReviewType[],
+  promptContext: PromptContext = {}
 ): Promise<AIAnalysisResponse> {
   if (!process.env.ANTHROPIC_API_KEY) {
-    throw new Error('ANTHROPIC_API_KEY is not configured');
+    throw new ConfigurationError('ANTHROPIC_API_KEY is not configured');
   }
 
-  const prompt = buildAnalysisPrompt(code, language, reviewTypes);
+  const messages: Anthropic.MessageParam[] = [
+    { role: 'user', content: buildAnalysisPrompt(code, language, reviewTypes, promptContext) },
+  ];
+  const config = getRetryConfig();
 
   try {
-    const message = await anthropic.messages.create({
-      model: MODEL,
-      max_tokens: 4096,
-      temperature: 0.3, // Lower temperature for more consistent, focused analysis
-      system: SYSTEM_PROMPT,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
+    return await withRetry(async () => {
+      const message = await createMessage(messages, config);
+      return validateWithRepair(messages, message, config);
+    }, config);
+  } catch (error) {
+    console.error('Error calling Claude API:', error);
+    throw toAnalysisError(error, config);
+  }
+}
 
-    // Extract the text content from the response
-    const textContent = message.content.find((block) => block.type === 'text');
+/**
+ * Analyzes code using Claude AI's streaming API
+ * Calls onIssue for each issue as soon as the model finishes writing it,
+ * then resolves with the fully parsed response
+ */
+export async function streamCodeAnalysisWithClaude(
+  code: string,
+  language: ProgrammingLanguage,
+  reviewTypes: ReviewType[],
+  onIssue: (issue: CodeIssue) => void,
+  promptContext: PromptContext = {}
+): Promise<AIAnalysisResponse> {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    throw new ConfigurationError('ANTHROPIC_API_KEY is not configured');
+  }
 
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text content in Claude response');
-    }
+  const messages: Anthropic.MessageParam[] = [
+    { role: 'user', content: buildAnalysisPrompt(code, language, reviewTypes, promptContext) },
+  ];
+  const config = getRetryConfig();
+  let issuesEmitted = false;
 
-    // Parse the JSON response
-    const analysisResult = parseAIResponse(textContent.text);
+  try {
+    // Once issues have reached the client a retry would duplicate them
+    return await withRetry(
+      async () => {
+        const issueParser = new IncrementalIssueParser();
+        const stream = anthropic.messages.stream(buildMessageParams(messages), {
+          timeout: config.timeoutMs,
+        });
 
-    return analysisResult;
-  } catch (error) {
-    console.error('Error calling Claude API:', error);
+        // The tool input arrives as partial JSON; surface issues as they complete
+        stream.on('inputJson', (partialJson) => {
+          for (const issue of issueParser.push(partialJson)) {
+            issuesEmitted = true;
+            onIssue(issue);
+          }
+        });
 
-    if (error instanceof Error) {
-      throw new Error(`Claude API error: ${error.message}`);
-    }
+        let message: Anthropic.Message;
+        try {
+          message = await stream.finalMessage();
+        } catch (error) {
+          throw toAnalysisError(error, config);
+        }
 
-    throw new Error('Unknown error occurred while analyzing code');
+        // The validated tool input is authoritative; streamed issues were only a preview
+        return validateWithRepair(messages, message, config);
+      },
+      config,
+      () => !issuesEmitted
+    );
+  } catch (error) {
+    console.error('Error streaming from Claude API:', error);
+    throw toAnalysisError(error, config);
   }
 }
 
@@ -0,0 +1,302 @@
+import { ReviewType, ProgrammingLanguage, AIAnalysisResponse, CodeIssue } from '@/types';
+import { buildAnalysisPrompt, SYSTEM_PROMPT, PromptContext } from './prompts';
+import { parseAIResponse } from './parser';
+import { IncrementalIssueParser } from './streamParser';
+import { ANALYSIS_RESPONSE_SCHEMA, REVIEW_TOOL_NAME } from './schema';
+import { withRetry, getRetryConfig, RetryConfig } from './retry';
+import {
+  AnalysisError,
+  ConfigurationError,
+  ProviderError,
+  ProviderOverloadedError,
+  ProviderRateLimitedError,
+  ProviderTimeoutError,
+  ResponseParseError,
+} from '../errors';
+
+/**
+ * Client for OpenAI-compatible chat completion endpoints
+ * Works with OpenAI itself and self-hosted servers such as Ollama, llama.cpp,
+ * vLLM or LM Studio, so code can be reviewed without leaving the network.
+ */
+
+export interface OpenAICompatibleConfig {
+  /** Base URL including the API version, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+
+  /** Model name as understood by the server */
+  model: string;
+
+  /** Optional bearer token (many local servers do not need one) */
+  apiKey?: string;
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * How many times the model is asked to correct an unparseable response
+ */
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Reads the endpoint configuration from the environment
+ */
+export function getOpenAICompatibleConfig(): OpenAICompatibleConfig | null {
+  const baseUrl = process.env.OPENAI_BASE_URL;
+  const model = process.env.OPENAI_MODEL;
+
+  if (!baseUrl || !model) {
+    return null;
+  }
+
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    model,
+    apiKey: process.env.OPENAI_API_KEY || undefined,
+  };
+}
+
+/**
+ * Converts a failed request into a typed analysis error
+ */
+function toAnalysisError(error: unknown, retryConfig: RetryConfig): AnalysisError {
+  if (error instanceof AnalysisError) {
+    return error;
+  }
+
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return new ProviderTimeoutError(
+      `OpenAI-compatible endpoint did not respond within ${retryConfig.timeoutMs}ms`,
+      { cause: error }
+    );
+  }
+
+  // fetch rejects with a TypeError when the server cannot be reached at all
+  if (error instanceof TypeError) {
+    return new ProviderOverloadedError(`Could not reach the OpenAI-compatible endpoint: ${error.message}`, {
+      cause: error,
+    });
+  }
+
+  if (error instanceof Error) {
+    return new ProviderError(`OpenAI-compatible API error: ${error.message}`, { cause: error });
+  }
+
+  return new ProviderError('Unknown error occurred while analyzing code');
+}
+
+/**
+ * Builds a typed error for a non-2xx response
+ */
+function toStatusError(response: Response, detail: string): AnalysisError {
+  const message = `${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`;
+
+  if (response.status === 401 || response.status === 403) {
+    return new ConfigurationError(`OpenAI-compatible endpoint rejected the API key: ${message}`);
+  }
+
+  if (response.status === 429) {
+    const retryAfter = Number.parseFloat(response.headers.get('retry-after') ?? '');
+    return new ProviderRateLimitedError(`OpenAI-compatible API rate limit reached: ${message}`, {
+      retryAfterMs: Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined,
+    });
+  }
+
+  if (response.status >= 500) {
+    return new ProviderOverloadedError(`OpenAI-compatible endpoint is unavailable: ${message}`);
+  }
+
+  return new ProviderError(`OpenAI-compatible API error: ${message}`);
+}
+
+/**
+ * Sends a chat completion request, throwing typed errors on non-2xx responses
+ * The timeout covers the whole exchange, including reading a streamed body.
+ */
+async function postChatCompletion(
+  config: OpenAICompatibleConfig,
+  messages: ChatMessage[],
+  stream: boolean,
+  retryConfig: RetryConfig
+): Promise<Response> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  const response = await fetch(`${config.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal: AbortSignal.timeout(retryConfig.timeoutMs),
+    body: JSON.stringify({
+      model: config.model,
+      messages,
+      temperature: 0.3,
+      max_tokens: 4096,
+      stream,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: REVIEW_TOOL_NAME, schema: ANALYSIS_RESPONSE_SCHEMA },
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw toStatusError(response, detail);
+  }
+
+  return response;
+}
+
+/**
+ * Reads a streamed chat completion, invoking onDelta for each content fragment
+ */
+async function readCompletionStream(
+  response: Response,
+  onDelta: (delta: string) => void
+): Promise<string> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const data = line.trim();
+      if (!data.startsWith('data:')) continue;
+
+      const payload = data.slice(5).trim();
+      if (payload === '[DONE]') continue;
+
+      try {
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta.length > 0) {
+          text += delta;
+          onDelta(delta);
+        }
+      } catch {
+        // Ignore keep-alive or malformed chunks
+      }
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Extracts the assistant message text from a non-streamed completion
+ */
+async function readCompletionText(response: Response): Promise<string> {
+  const completion = await response.json();
+  const content = completion.choices?.[0]?.message?.content;
+
+  if (typeof content !== 'string' || content.length === 0) {
+    throw new ResponseParseError('No content in completion response');
+  }
+
+  return content;
+}
+
+/**
+ * Analyzes code using an OpenAI-compatible chat completion endpoint
+ * When onIssue is provided the response is streamed and issues are surfaced
+ * as they complete
+ */
+export async function analyzeCodeWithOpenAICompatible(
+  code: string,
+  language: ProgrammingLanguage,
+  reviewTypes: ReviewType[],
+  onIssue?: (issue: CodeIssue) => void,
+  promptContext: PromptContext = {}
+): Promise<AIAnalysisResponse> {
+  const config = getOpenAICompatibleConfig();
+  if (!config) {
+    throw new ConfigurationError('OPENAI_BASE_URL and OPENAI_MODEL must be configured');
+  }
+
+  let messages: ChatMessage[] = [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: buildAnalysisPrompt(code, language, reviewTypes, promptContext) },
+  ];
+  const retryConfig = getRetryConfig();
+  let issuesEmitted = false;
+
+  const complete = (conversation: ChatMessage[]) =>
+    withRetry(async () => {
+      try {
+        return await readCompletionText(
+          await postChatCompletion(config, conversation, false, retryConfig)
+        );
+      } catch (error) {
+        throw toAnalysisError(error, retryConfig);
+      }
+    }, retryConfig);
+
+  try {
+    let text: string;
+    if (onIssue) {
+      // Once issues have reached the client a retry would duplicate them
+      text = await withRetry(
+        async () => {
+          try {
+            const issueParser = new IncrementalIssueParser();
+            const response = await postChatCompletion(config, messages, true, retryConfig);
+            return await readCompletionStream(response, (delta) => {
+              for (const issue of issueParser.push(delta)) {
+                issuesEmitted = true;
+                onIssue(issue);
+              }
+            });
+          } catch (error) {
+            throw toAnalysisError(error, retryConfig);
+          }
+        },
+        retryConfig,
+        () => !issuesEmitted
+      );
+    } else {
+      text = await complete(messages);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return parseAIResponse(text);
+      } catch (error) {
+        if (attempt >= MAX_REPAIR_ATTEMPTS) {
+          throw error;
+        }
+
+        const reason = error instanceof Error ? error.message : 'Invalid response';
+        console.warn(`Repairing OpenAI-compatible response (attempt ${attempt + 1}): ${reason}`);
+
+        messages = [
+          ...messages,
+          { role: 'assistant', content: text },
+          {
+            role: 'user',
+            content: `Your response was rejected: ${reason}. Reply again with only a JSON object that matches the requested structure exactly.`,
+          },
+        ];
+        text = await complete(messages);
+      }
+    }
+  } catch (error) {
+    console.error('Error calling OpenAI-compatible API:', error);
+    throw toAnalysisError(error, retryConfig);
+  }
+}
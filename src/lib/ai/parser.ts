@@ -1,4 +1,14 @@
-import { AIAnalysisResponse, CodeIssue, IssueMetrics } from '@/types';
+import {
+  AIAnalysisResponse,
+  CodeIssue,
+  IssueFix,
+  IssueMetrics,
+  IssueSeverity,
+  IssueCategory,
+  SOLIDPrinciple,
+} from '@/types';
+import { ISSUE_SEVERITIES, ISSUE_CATEGORIES, SOLID_PRINCIPLES } from './schema';
+import { ResponseParseError } from '../errors';
 
 /**
  * Parses the AI response text into structured data
@@ -17,81 +27,168 @@ export function parseAIResponse(responseText: string): AIAnalysisResponse {
     // Parse the JSON
     const parsed = JSON.parse(jsonText);
 
-    // Validate the structure
-    if (!parsed.issues || !Array.isArray(parsed.issues)) {
-      throw new Error('Invalid response structure: missing or invalid issues array');
-    }
-
-    if (!parsed.summary || typeof parsed.summary !== 'string') {
-      throw new Error('Invalid response structure: missing or invalid summary');
-    }
-
-    if (!parsed.metrics || typeof parsed.metrics !== 'object') {
-      throw new Error('Invalid response structure: missing or invalid metrics');
-    }
-
-    // Validate each issue
-    const validatedIssues: CodeIssue[] = parsed.issues.map((issue: unknown, index: number) => {
-      const issueRecord = issue as Record<string, unknown>;
-      if (typeof issueRecord.line !== 'number') {
-        throw new Error(`Issue ${index}: line must be a number`);
-      }
-
-      if (!['critical', 'warning', 'suggestion'].includes(issueRecord.severity as string)) {
-        throw new Error(`Issue ${index}: invalid severity "${issueRecord.severity}"`);
-      }
-
-      if (!['solid', 'hygiene', 'unnecessary', 'complexity'].includes(issueRecord.category as string)) {
-        throw new Error(`Issue ${index}: invalid category "${issueRecord.category}"`);
-      }
-
-      if (!issueRecord.message || typeof issueRecord.message !== 'string') {
-        throw new Error(`Issue ${index}: message is required`);
-      }
-
-      if (!issueRecord.suggestion || typeof issueRecord.suggestion !== 'string') {
-        throw new Error(`Issue ${index}: suggestion is required`);
-      }
-
-      return {
-        line: issueRecord.line,
-        severity: issueRecord.severity,
-        category: issueRecord.category,
-        principle: issueRecord.principle || 'other',
-        message: issueRecord.message,
-        explanation: issueRecord.explanation,
-        suggestion: issueRecord.suggestion,
-        codeSnippet: issueRecord.codeSnippet,
-      } as CodeIssue;
-    });
-
-    // Validate metrics
-    const validatedMetrics: IssueMetrics = {
-      criticalIssues: Number(parsed.metrics.criticalIssues) || 0,
-      warnings: Number(parsed.metrics.warnings) || 0,
-      suggestions: Number(parsed.metrics.suggestions) || 0,
-      totalIssues: Number(parsed.metrics.totalIssues) || validatedIssues.length,
-    };
-
-    return {
-      issues: validatedIssues,
-      summary: parsed.summary,
-      metrics: validatedMetrics,
-    };
+    return validateAnalysisPayload(parsed);
   } catch (error) {
     console.error('Error parsing AI response:', error);
     console.error('Response text:', responseText);
 
     if (error instanceof SyntaxError) {
-      throw new Error('Failed to parse AI response as JSON. The AI may have returned invalid JSON.');
+      throw new ResponseParseError(
+        'Failed to parse AI response as JSON. The AI may have returned invalid JSON.',
+        { cause: error }
+      );
     }
 
     if (error instanceof Error) {
-      throw new Error(`Failed to parse AI response: ${error.message}`);
+      throw new ResponseParseError(`Failed to parse AI response: ${error.message}`, { cause: error });
     }
 
-    throw new Error('Unknown error while parsing AI response');
+    throw new ResponseParseError('Unknown error while parsing AI response');
+  }
+}
+
+/**
+ * Validates a parsed analysis payload (from a tool call or JSON text)
+ *
+ * Structural problems (missing issues array, summary or metrics) throw, since
+ * nothing useful can be salvaged. Individual issues are validated leniently:
+ * invalid ones are dropped and counted in `discardedIssues`.
+ */
+export function validateAnalysisPayload(payload: unknown): AIAnalysisResponse {
+  if (!payload || typeof payload !== 'object') {
+    throw new ResponseParseError('Invalid response structure: expected an object');
+  }
+
+  const parsed = payload as Record<string, unknown>;
+
+  // Validate the structure
+  if (!parsed.issues || !Array.isArray(parsed.issues)) {
+    throw new ResponseParseError('Invalid response structure: missing or invalid issues array');
+  }
+
+  if (!parsed.summary || typeof parsed.summary !== 'string') {
+    throw new ResponseParseError('Invalid response structure: missing or invalid summary');
+  }
+
+  if (!parsed.metrics || typeof parsed.metrics !== 'object') {
+    throw new ResponseParseError('Invalid response structure: missing or invalid metrics');
+  }
+
+  // Validate each issue, keeping the valid ones
+  const validatedIssues: CodeIssue[] = [];
+  const issueErrors: string[] = [];
+
+  parsed.issues.forEach((issue: unknown, index: number) => {
+    try {
+      validatedIssues.push(validateIssue(issue, index));
+    } catch (error) {
+      issueErrors.push(error instanceof Error ? error.message : `Issue ${index}: invalid`);
+    }
+  });
+
+  if (issueErrors.length > 0) {
+    console.warn(`Discarded ${issueErrors.length} invalid issue(s):`, issueErrors);
+  }
+
+  // Validate metrics
+  const metrics = parsed.metrics as Record<string, unknown>;
+  const validatedMetrics: IssueMetrics = {
+    criticalIssues: Number(metrics.criticalIssues) || 0,
+    warnings: Number(metrics.warnings) || 0,
+    suggestions: Number(metrics.suggestions) || 0,
+    totalIssues: Number(metrics.totalIssues) || validatedIssues.length,
+  };
+
+  return {
+    issues: validatedIssues,
+    summary: parsed.summary,
+    metrics: validatedMetrics,
+    discardedIssues: issueErrors.length,
+  };
+}
+
+/**
+ * Validates a single raw issue object and normalizes it into a CodeIssue
+ */
+export function validateIssue(issue: unknown, index: number): CodeIssue {
+  if (!issue || typeof issue !== 'object') {
+    throw new Error(`Issue ${index}: must be an object`);
+  }
+
+  const issueRecord = issue as Record<string, unknown>;
+  if (typeof issueRecord.line !== 'number' || !Number.isFinite(issueRecord.line)) {
+    throw new Error(`Issue ${index}: line must be a number`);
+  }
+
+  if (!ISSUE_SEVERITIES.includes(issueRecord.severity as IssueSeverity)) {
+    throw new Error(`Issue ${index}: invalid severity "${issueRecord.severity}"`);
   }
+
+  if (!ISSUE_CATEGORIES.includes(issueRecord.category as IssueCategory)) {
+    throw new Error(`Issue ${index}: invalid category "${issueRecord.category}"`);
+  }
+
+  if (!issueRecord.message || typeof issueRecord.message !== 'string') {
+    throw new Error(`Issue ${index}: message is required`);
+  }
+
+  if (!issueRecord.suggestion || typeof issueRecord.suggestion !== 'string') {
+    throw new Error(`Issue ${index}: suggestion is required`);
+  }
+
+  // An unknown principle is not worth dropping the issue over
+  const principle = SOLID_PRINCIPLES.includes(issueRecord.principle as SOLIDPrinciple)
+    ? issueRecord.principle
+    : 'other';
+
+  return {
+    line: Math.round(issueRecord.line),
+    severity: issueRecord.severity,
+    category: issueRecord.category,
+    principle,
+    message: issueRecord.message,
+    explanation: issueRecord.explanation,
+    suggestion: issueRecord.suggestion,
+    codeSnippet: issueRecord.codeSnippet,
+    fix: validateFix(issueRecord.fix),
+  } as CodeIssue;
+}
+
+/**
+ * Normalizes a raw fix object, returning undefined when it is missing or malformed
+ * A broken fix is not worth dropping the issue over; the prose suggestion remains.
+ */
+export function validateFix(fix: unknown): IssueFix | undefined {
+  if (!fix || typeof fix !== 'object') {
+    return undefined;
+  }
+
+  const fixRecord = fix as Record<string, unknown>;
+  const { startLine, endLine, replacement } = fixRecord;
+
+  if (
+    typeof startLine !== 'number' ||
+    typeof endLine !== 'number' ||
+    !Number.isFinite(startLine) ||
+    !Number.isFinite(endLine) ||
+    typeof replacement !== 'string'
+  ) {
+    return undefined;
+  }
+
+  const start = Math.round(startLine);
+  const end = Math.round(endLine);
+  if (start < 1 || end < start) {
+    return undefined;
+  }
+
+  return {
+    startLine: start,
+    endLine: end,
+    replacement: replacement.replace(/\r?\n$/, ''),
+    description: typeof fixRecord.description === 'string' ? fixRecord.description : undefined,
+    safe: fixRecord.safe === true,
+  };
 }
 
 /**
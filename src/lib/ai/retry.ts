@@ -0,0 +1,88 @@
+import { AnalysisError, ProviderRateLimitedError } from '../errors';
+
+/**
+ * Retry policy for calls to AI providers
+ */
+export interface RetryConfig {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+
+  /** Delay before the first retry; doubles with every further attempt */
+  baseDelayMs: number;
+
+  /** Upper bound for a single delay */
+  maxDelayMs: number;
+
+  /** Time limit for each individual request */
+  timeoutMs: number;
+}
+
+const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  timeoutMs: 60000,
+};
+
+/**
+ * Reads a non-negative integer from the environment, falling back when unset or invalid
+ */
+function readEnvInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Gets the retry policy, allowing ANALYSIS_MAX_RETRIES and ANALYSIS_TIMEOUT_MS overrides
+ */
+export function getRetryConfig(): RetryConfig {
+  return {
+    ...DEFAULT_RETRY_CONFIG,
+    maxRetries: readEnvInt('ANALYSIS_MAX_RETRIES', DEFAULT_RETRY_CONFIG.maxRetries),
+    timeoutMs: readEnvInt('ANALYSIS_TIMEOUT_MS', DEFAULT_RETRY_CONFIG.timeoutMs),
+  };
+}
+
+/**
+ * Delay before the given retry (0-based): exponential backoff with full jitter,
+ * never shorter than a Retry-After the provider asked for
+ */
+export function getRetryDelay(attempt: number, error: unknown, config: RetryConfig): number {
+  const exponential = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  const jittered = Math.round(Math.random() * exponential);
+
+  if (error instanceof ProviderRateLimitedError && error.retryAfterMs !== undefined) {
+    return Math.min(config.maxDelayMs, Math.max(jittered, error.retryAfterMs));
+  }
+
+  return jittered;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs an operation, retrying retryable analysis errors with backoff
+ *
+ * `canRetry` lets callers veto a retry, e.g. once a stream has already
+ * delivered partial results.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  config: RetryConfig = getRetryConfig(),
+  canRetry: (error: unknown) => boolean = () => true
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const retryable = error instanceof AnalysisError && error.retryable && canRetry(error);
+      if (!retryable || attempt >= config.maxRetries) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, error, config);
+      console.warn(`Retrying after ${error.code} in ${delay}ms (attempt ${attempt + 1} of ${config.maxRetries})`);
+      await sleep(delay);
+    }
+  }
+}
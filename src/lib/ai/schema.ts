@@ -0,0 +1,100 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { IssueSeverity, IssueCategory, SOLIDPrinciple } from '@/types';
+
+/**
+ * Allowed values for each enumerated CodeIssue field
+ * Declared as records so the compiler flags any value added to the union types
+ * in `@/types/issue` that is missing here
+ */
+const SEVERITY_VALUES: Record<IssueSeverity, true> = {
+  critical: true,
+  warning: true,
+  suggestion: true,
+};
+
+const CATEGORY_VALUES: Record<IssueCategory, true> = {
+  solid: true,
+  hygiene: true,
+  unnecessary: true,
+  complexity: true,
+};
+
+const PRINCIPLE_VALUES: Record<SOLIDPrinciple, true> = {
+  SRP: true,
+  OCP: true,
+  LSP: true,
+  ISP: true,
+  DIP: true,
+  other: true,
+};
+
+export const ISSUE_SEVERITIES = Object.keys(SEVERITY_VALUES) as IssueSeverity[];
+export const ISSUE_CATEGORIES = Object.keys(CATEGORY_VALUES) as IssueCategory[];
+export const SOLID_PRINCIPLES = Object.keys(PRINCIPLE_VALUES) as SOLIDPrinciple[];
+
+/**
+ * JSON schema for a single CodeIssue
+ */
+export const CODE_ISSUE_SCHEMA = {
+  type: 'object',
+  properties: {
+    line: { type: 'integer', minimum: 1, description: '1-indexed line number of the issue' },
+    severity: { type: 'string', enum: ISSUE_SEVERITIES },
+    category: { type: 'string', enum: ISSUE_CATEGORIES },
+    principle: { type: 'string', enum: SOLID_PRINCIPLES },
+    message: { type: 'string', description: 'Brief description of the issue' },
+    explanation: { type: 'string', description: 'Why this is an issue' },
+    suggestion: { type: 'string', description: 'Concrete suggestion on how to fix' },
+    codeSnippet: { type: 'string', description: 'The offending code' },
+    fix: {
+      type: 'object',
+      description: 'Optional machine-applicable fix replacing whole lines of the code',
+      properties: {
+        startLine: { type: 'integer', minimum: 1, description: 'First line to replace' },
+        endLine: { type: 'integer', minimum: 1, description: 'Last line to replace (inclusive)' },
+        replacement: { type: 'string', description: 'Replacement text for those lines; empty to delete them' },
+        description: { type: 'string', description: 'What the fix changes' },
+        safe: { type: 'boolean', description: 'True if the fix is mechanical and cannot break the code' },
+      },
+      required: ['startLine', 'endLine', 'replacement'],
+    },
+  },
+  required: ['line', 'severity', 'category', 'message', 'suggestion'],
+} as const;
+
+/**
+ * JSON schema for the complete analysis response
+ */
+export const ANALYSIS_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    issues: { type: 'array', items: CODE_ISSUE_SCHEMA },
+    summary: { type: 'string', description: 'Overall assessment of the code quality' },
+    metrics: {
+      type: 'object',
+      properties: {
+        criticalIssues: { type: 'integer', minimum: 0 },
+        warnings: { type: 'integer', minimum: 0 },
+        suggestions: { type: 'integer', minimum: 0 },
+        totalIssues: { type: 'integer', minimum: 0 },
+      },
+      required: ['criticalIssues', 'warnings', 'suggestions', 'totalIssues'],
+    },
+  },
+  required: ['issues', 'summary', 'metrics'],
+} as const;
+
+/**
+ * Name of the tool Claude is asked to call with its findings
+ */
+export const REVIEW_TOOL_NAME = 'report_code_review';
+
+/**
+ * Tool definition used to request structured output from Claude
+ */
+export const REVIEW_TOOL: Anthropic.Tool = {
+  name: REVIEW_TOOL_NAME,
+  description:
+    'Report the results of the code review. Call this exactly once with every issue found, an overall summary and issue counts.',
+  input_schema: ANALYSIS_RESPONSE_SCHEMA as unknown as Anthropic.Tool.InputSchema,
+};
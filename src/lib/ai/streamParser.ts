@@ -0,0 +1,113 @@
+import { CodeIssue } from '@/types';
+import { validateIssue } from './parser';
+
+/**
+ * Incrementally extracts completed issues from a streamed AI response
+ *
+ * The model streams the JSON document described in the analysis prompt. This
+ * parser watches the text as it arrives and yields each object of the
+ * `issues` array as soon as its closing brace is seen, so callers can surface
+ * findings before the full response has been generated.
+ *
+ * The final response is still parsed with `parseAIResponse`; issues emitted
+ * here are a preview and may be superseded by the final result.
+ */
+export class IncrementalIssueParser {
+  private buffer = '';
+  private position = 0;
+  private arrayStart = -1;
+  private arrayClosed = false;
+  private objectStart = -1;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private issueIndex = 0;
+
+  /**
+   * Appends a chunk of streamed text and returns any issues completed by it
+   */
+  push(chunk: string): CodeIssue[] {
+    this.buffer += chunk;
+
+    if (this.arrayClosed) return [];
+
+    if (this.arrayStart === -1) {
+      const match = /"issues"\s*:\s*\[/.exec(this.buffer);
+      if (!match) return [];
+      this.arrayStart = match.index + match[0].length;
+      this.position = this.arrayStart;
+    }
+
+    const completed: CodeIssue[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        if (this.depth === 0 && char === '{') {
+          this.objectStart = this.position;
+        }
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        if (this.depth === 0 && char === ']') {
+          // End of the issues array
+          this.arrayClosed = true;
+          this.position++;
+          break;
+        }
+
+        this.depth--;
+
+        if (this.depth === 0 && char === '}' && this.objectStart !== -1) {
+          const issue = this.parseIssue(this.buffer.slice(this.objectStart, this.position + 1));
+          if (issue) {
+            completed.push(issue);
+          }
+          this.objectStart = -1;
+        }
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Whether the end of the issues array has been reached
+   */
+  isComplete(): boolean {
+    return this.arrayClosed;
+  }
+
+  /**
+   * Returns all text received so far
+   */
+  getText(): string {
+    return this.buffer;
+  }
+
+  /**
+   * Parses a single issue object, skipping it if it is malformed
+   */
+  private parseIssue(objectText: string): CodeIssue | null {
+    const index = this.issueIndex++;
+    try {
+      return validateIssue(JSON.parse(objectText), index);
+    } catch {
+      // Malformed issues are reported by the final parse, not the preview
+      return null;
+    }
+  }
+}
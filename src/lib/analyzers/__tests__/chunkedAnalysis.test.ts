@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  splitIntoChunks,
+  buildFileOutline,
+  shouldChunk,
+  mergeChunkResponses,
+  analyzeInChunks,
+  ChunkOptions,
+  CHUNK_CONCURRENCY,
+  DEFAULT_CHUNK_OPTIONS,
+} from '../chunkedAnalysis';
+import { AnalysisProvider } from '../../providers/provider';
+import { AIAnalysisResponse, CodeIssue } from '@/types';
+
+const options: ChunkOptions = { maxSinglePromptChars: 200, maxChunkLines: 12, maxChunkChars: 10000, overlapLines: 2 };
+
+function makeFunction(name: string, bodyLines: number): string {
+  const body = Array.from({ length: bodyLines }, (_, i) => `  const v${i} = ${i};`);
+  return [`/** ${name} docs */`, `export function ${name}() {`, ...body, '}'].join('\n');
+}
+
+// Four 7-line functions separated by blank lines (31 lines total)
+const code = ['a', 'b', 'c', 'd'].map((n) => makeFunction(n, 4)).join('\n\n');
+
+function issue(line: number, message = 'Magic number'): CodeIssue {
+  return { line, severity: 'warning', category: 'complexity', message, suggestion: 'Name it' };
+}
+
+function response(issues: CodeIssue[], summary = 'ok'): AIAnalysisResponse {
+  return {
+    issues,
+    summary,
+    metrics: { criticalIssues: 0, warnings: issues.length, suggestions: 0, totalIssues: issues.length },
+  };
+}
+
+describe('splitIntoChunks', () => {
+  it('should cut along declarations including their leading comments', () => {
+    const chunks = splitIntoChunks(code, options);
+    const lines = code.split('\n');
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks.slice(1)) {
+      expect(lines[chunk.ownStartLine - 1]).toMatch(/^\/\*\* \w docs \*\/$/);
+    }
+  });
+
+  it('should cover every line exactly once outside the overlap', () => {
+    const chunks = splitIntoChunks(code, options);
+
+    expect(chunks[0].startLine).toBe(1);
+    expect(chunks[chunks.length - 1].endLine).toBe(code.split('\n').length);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].ownStartLine).toBe(chunks[i - 1].endLine + 1);
+      expect(chunks[i].startLine).toBe(chunks[i].ownStartLine - options.overlapLines);
+    }
+  });
+
+  it('should split a declaration that is larger than a chunk', () => {
+    const chunks = splitIntoChunks(makeFunction('huge', 40), options);
+
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach((chunk) => {
+      expect(chunk.endLine - chunk.ownStartLine + 1).toBeLessThanOrEqual(options.maxChunkLines);
+    });
+  });
+});
+
+describe('shouldChunk', () => {
+  it('should only chunk code above the configured size', () => {
+    expect(shouldChunk(code, options)).toBe(true);
+    expect(shouldChunk(makeFunction('small', 2), options)).toBe(false);
+  });
+
+  it('should review files up to 50,000 characters in a single prompt by default', () => {
+    const mediumFile = makeFunction('medium', 400);
+
+    expect(mediumFile.split('\n').length).toBeGreaterThan(DEFAULT_CHUNK_OPTIONS.maxChunkLines);
+    expect(shouldChunk(mediumFile)).toBe(false);
+    expect(shouldChunk('x'.repeat(50000))).toBe(false);
+    expect(shouldChunk('x'.repeat(50001))).toBe(true);
+  });
+});
+
+describe('buildFileOutline', () => {
+  it('should list top-level declarations with line numbers', () => {
+    const outline = buildFileOutline(code);
+
+    expect(outline.split('\n')).toHaveLength(4);
+    expect(outline).toContain('L2: export function a()');
+  });
+});
+
+describe('mergeChunkResponses', () => {
+  it('should remap lines, drop overlap findings and de-duplicate', () => {
+    const chunks = [
+      { index: 0, startLine: 1, ownStartLine: 1, endLine: 10, code: '' },
+      { index: 1, startLine: 9, ownStartLine: 11, endLine: 20, code: '' },
+    ];
+
+    const merged = mergeChunkResponses(chunks, [
+      response([issue(3), issue(10)]),
+      response([issue(1), issue(2, 'Same'), issue(2, 'same'), issue(5)]),
+    ]);
+
+    // Chunk 2 lines 1-2 are the overlap (file lines 9-10), line 5 is file line 13
+    expect(merged.issues.map((i) => i.line)).toEqual([3, 10, 13]);
+    expect(merged.metrics.totalIssues).toBe(3);
+    expect(merged.summary).toContain('2 sections');
+  });
+
+  it('should remap fixes and drop those reaching past the chunk', () => {
+    const chunks = [{ index: 0, startLine: 9, ownStartLine: 11, endLine: 20, code: '' }];
+
+    const merged = mergeChunkResponses(chunks, [
+      response([
+        { ...issue(4), fix: { startLine: 4, endLine: 5, replacement: 'const LIMIT = 10;' } },
+        { ...issue(6), fix: { startLine: 6, endLine: 14, replacement: '' } },
+      ]),
+    ]);
+
+    expect(merged.issues[0].fix).toMatchObject({ startLine: 12, endLine: 13 });
+    expect(merged.issues[1].fix).toBeUndefined();
+  });
+});
+
+describe('analyzeInChunks', () => {
+  it('should analyze chunks in parallel with a shared outline and stream remapped issues', async () => {
+    const analyze = vi.fn(
+      async (...[, , , providerOptions]: Parameters<AnalysisProvider['analyze']>) => {
+        providerOptions?.onIssue?.(issue(3));
+        return response([issue(3)]);
+      }
+    );
+    const provider = {
+      id: 'claude',
+      isDemo: false,
+      isMetered: true,
+      getModelVersion: () => 'test',
+      isConfigured: () => true,
+      analyze,
+    } as AnalysisProvider;
+    const onIssue = vi.fn();
+
+    const { response: merged, chunkCount } = await analyzeInChunks(
+      provider,
+      code,
+      'typescript',
+      ['hygiene'],
+      { onIssue, promptContext: { context: 'hot path' } },
+      options
+    );
+
+    expect(analyze).toHaveBeenCalledTimes(chunkCount);
+    const promptContext = (analyze.mock.calls[1] as unknown[])[3] as {
+      promptContext: { context: string; chunk: { part: number; outline: string } };
+    };
+    expect(promptContext.promptContext.context).toBe('hot path');
+    expect(promptContext.promptContext.chunk.part).toBe(2);
+    expect(promptContext.promptContext.chunk.outline).toContain('export function d()');
+
+    expect(onIssue).toHaveBeenCalledTimes(merged.issues.length);
+    expect(onIssue.mock.calls.map(([i]) => i.line).sort((a, b) => a - b)).toEqual(
+      merged.issues.map((i) => i.line)
+    );
+  });
+
+  it('should keep at most a few chunk requests in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const provider = {
+      id: 'claude',
+      isDemo: false,
+      isMetered: true,
+      getModelVersion: () => 'test',
+      isConfigured: () => true,
+      analyze: async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return response([]);
+      },
+    } as AnalysisProvider;
+    const longCode = 'abcdefghij'.split('').map((n) => makeFunction(n, 8)).join('\n\n');
+
+    const { chunkCount } = await analyzeInChunks(provider, longCode, 'typescript', ['hygiene'], {}, options);
+
+    expect(chunkCount).toBeGreaterThan(CHUNK_CONCURRENCY);
+    expect(maxInFlight).toBe(CHUNK_CONCURRENCY);
+  });
+});
@@ -0,0 +1,160 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { ProgrammingLanguage } from '@/types';
+import { detectClones } from '../cloneDetection';
+
+function file(name: string, content: string, language: ProgrammingLanguage = 'typescript') {
+  return { name, content, language };
+}
+
+const totals = `export function orderTotal(order: Order): number {
+  let total = 0;
+  for (const item of order.items) {
+    if (item.quantity > 0) {
+      total += item.price * item.quantity;
+    }
+  }
+  if (order.coupon) {
+    total -= order.coupon.amount;
+  }
+  return Math.max(total, 0);
+}`;
+
+describe('detectClones', () => {
+  it('should report identical code in two files regardless of formatting and comments', () => {
+    const reformatted = `// Same logic, different layout
+export function orderTotal(order: Order): number
+{
+  let total = 0;  /* running sum */
+  for (const item of order.items) { if (item.quantity > 0) { total += item.price * item.quantity; } }
+  if (order.coupon) { total -= order.coupon.amount; }
+  return Math.max(total, 0);
+}`;
+
+    const [issue] = detectClones([file('a.ts', totals), file('b.ts', `import x from 'y';\n\n${reformatted}`)], {
+      minTokens: 40,
+    });
+
+    expect(issue).toMatchObject({
+      line: 1,
+      ruleId: 'duplicate-code',
+      severity: 'warning',
+      relatedFiles: ['a.ts', 'b.ts'],
+      message: 'Duplicated code (100% similar)',
+      clone: { type: 'exact', similarity: 100 },
+      locations: [
+        { file: 'a.ts', startLine: 1, endLine: 12, role: 'primary' },
+        { file: 'b.ts', startLine: 4, endLine: 10, role: 'duplicate' },
+      ],
+    });
+  });
+
+  it('should report copies with renamed identifiers and changed literals', () => {
+    const renamed = totals
+      .replace(/orderTotal/g, 'cartSum')
+      .replace(/total/g, 'sum')
+      .replace(/item/g, 'line')
+      .replace('0;', '100;');
+
+    const issues = detectClones([file('a.ts', totals), file('b.ts', renamed)], { minTokens: 40 });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].clone).toMatchObject({ type: 'renamed', similarity: 100 });
+  });
+
+  it('should report near-miss copies with an added statement and their similarity', () => {
+    const edited = totals.replace('  if (order.coupon)', '  logTotal(total, order.id);\n  if (order.coupon)');
+
+    const [issue] = detectClones([file('a.ts', totals), file('b.ts', edited)], { minTokens: 40 });
+
+    expect(issue.severity).toBe('suggestion');
+    expect(issue.clone?.type).toBe('near-miss');
+    expect(issue.clone?.similarity).toBeGreaterThanOrEqual(80);
+    expect(issue.clone?.similarity).toBeLessThan(100);
+    expect(issue.locations?.[1]).toEqual({ file: 'b.ts', startLine: 1, endLine: 13, role: 'duplicate' });
+  });
+
+  it('should find copies within one file', () => {
+    const twice = `${totals}\n\n${totals.replace('orderTotal', 'orderTotalAgain')}`;
+
+    const [issue] = detectClones([file('a.ts', twice)], { minTokens: 40 });
+
+    expect(issue.relatedFiles).toEqual(['a.ts']);
+    expect(issue.locations).toEqual([
+      { file: 'a.ts', startLine: 1, endLine: 12, role: 'primary' },
+      { file: 'a.ts', startLine: 14, endLine: 25, role: 'duplicate' },
+    ]);
+  });
+
+  it('should still report a copy whose opening tokens are common across many files', () => {
+    const others = Array.from({ length: 25 }, (_, i) =>
+      file(`other${i}.ts`, `export function handler${i}(event: Event, context: Context) {\n  const value = event.items[${i}];\n}`)
+    );
+    const copy = `export function orderHandler(event: Event, context: Context) {\n${totals.split('\n').slice(1).join('\n')}`;
+
+    const issues = detectClones([...others, file('a.ts', copy), file('b.ts', copy)], { minTokens: 40 });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      message: 'Duplicated code (100% similar)',
+      locations: [
+        { file: 'a.ts', startLine: 1, endLine: 12, role: 'primary' },
+        { file: 'b.ts', startLine: 1, endLine: 12, role: 'duplicate' },
+      ],
+    });
+  });
+
+  it('should ignore shared code below the token threshold and functions that only share a name', () => {
+    const sameName = 'export function orderTotal(order: Order): number {\n  return order.total;\n}';
+
+    expect(detectClones([file('a.ts', totals), file('b.ts', totals)], { minTokens: 200 })).toEqual([]);
+    expect(detectClones([file('a.ts', totals), file('b.ts', sameName)])).toEqual([]);
+  });
+
+  it('should ignore imports shared by many files', () => {
+    const imports = [
+      "import { analyzeCode, validateReviewConfig, MAX_CODE_LENGTH } from './codeAnalyzer';",
+      "import { getGrade, calculateScore, getGradeColor } from '@/utils/scoring';",
+      'import {',
+      '  ReviewType,',
+      '  ProgrammingLanguage,',
+      '  AnalysisProviderId,',
+      '  MultiFileAnalysisResult,',
+      "} from '@/types';",
+    ].join('\n');
+
+    expect(
+      detectClones([file('a.ts', `${imports}\nexport const a = 1;`), file('b.ts', `${imports}\nexport const b = 2;`)], {
+        minTokens: 20,
+      })
+    ).toEqual([]);
+  });
+
+  it('should keep private class fields while dropping preprocessor includes', () => {
+    const fields = Array.from({ length: 8 }, (_, i) => `  #field${i} = ${i};`);
+    const counter = ['export class Counter {', ...fields, '}'].join('\n');
+    const cpp = ['#include <vector>', '#include "counter.h"', '#define STEP 1', 'int main() { return 0; }'].join('\n');
+
+    const [issue] = detectClones([file('a.ts', counter), file('b.ts', counter)], { minTokens: 20 });
+
+    expect(issue.locations?.[0]).toEqual({ file: 'a.ts', startLine: 1, endLine: 10, role: 'primary' });
+    expect(detectClones([file('a.cpp', cpp, 'cpp'), file('b.cpp', cpp, 'cpp')], { minTokens: 10 })).toEqual([]);
+  });
+
+  it('should treat hash comments as comments in Python', () => {
+    const python = [
+      'def order_total(order):',
+      '    total = 0',
+      '    for item in order.items:',
+      '        total += item.price * item.quantity',
+      '    return total',
+    ].join('\n');
+    const commented = python.replace('total = 0', 'total = 0  # start from nothing');
+
+    const [issue] = detectClones([file('a.py', python, 'python'), file('b.py', commented, 'python')], {
+      minTokens: 20,
+    });
+
+    expect(issue.clone).toMatchObject({ type: 'exact', similarity: 100 });
+  });
+});
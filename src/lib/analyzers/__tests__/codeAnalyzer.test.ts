@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AIAnalysisResponse, CodeIssue } from '@/types';
+import { makeFileResult, makeMultiFileResult } from '@/test/fixtures/analysisResults';
+
+const { mockAnalyze } = vi.hoisted(() => ({ mockAnalyze: vi.fn() }));
+
+vi.mock('../../providers', () => ({
+  isProviderId: () => true,
+  resolveProvider: () => ({
+    id: 'demo',
+    isDemo: true,
+    isMetered: false,
+    getModelVersion: () => 'test',
+    isConfigured: () => true,
+    analyze: mockAnalyze,
+  }),
+}));
+
+import { analyzeCode } from '../codeAnalyzer';
+
+function issue(line: number, severity: CodeIssue['severity'] = 'warning'): CodeIssue {
+  return { line, severity, category: 'hygiene', message: `Issue on ${line}`, suggestion: 'Fix it' };
+}
+
+function response(issues: CodeIssue[]): AIAnalysisResponse {
+  return {
+    issues,
+    summary: 'ok',
+    metrics: { criticalIssues: 0, warnings: issues.length, suggestions: 0, totalIssues: issues.length },
+  };
+}
+
+const diff = `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -20,3 +20,4 @@
+ const keep = 1;
++const added = 2;
+ const other = 3;
+ const last = 4;
+diff --git a/src/b.py b/src/b.py
+--- a/src/b.py
++++ b/src/b.py
+@@ -1,2 +1,2 @@
+ import os
+-x = 1
++x = 2
+`;
+
+describe('analyzeCode with diffs', () => {
+  beforeEach(() => {
+    mockAnalyze.mockReset();
+  });
+
+  it('should tell the provider which lines changed', async () => {
+    mockAnalyze.mockResolvedValue(response([]));
+
+    await analyzeCode({ code: diff, language: 'auto', reviewTypes: ['hygiene'], inputType: 'diff' });
+
+    const [code, language, , options] = mockAnalyze.mock.calls[0];
+    expect(code).toBe('const keep = 1;\nconst added = 2;\nconst other = 3;\nconst last = 4;');
+    expect(language).toBe('typescript');
+    expect(options.promptContext.changedLines).toEqual([2]);
+    expect(mockAnalyze.mock.calls[1][1]).toBe('python');
+  });
+
+  it('should map issues to file lines, focus on changes and split results per file', async () => {
+    mockAnalyze
+      .mockResolvedValueOnce(response([issue(2), issue(3), issue(1, 'critical')]))
+      .mockResolvedValueOnce(response([issue(2)]));
+
+    const result = await analyzeCode({
+      code: diff,
+      language: 'auto',
+      reviewTypes: ['hygiene'],
+      inputType: 'code',
+    });
+
+    expect(result.files?.map((f) => f.fileName)).toEqual(['src/a.ts', 'src/b.py']);
+    expect(result.issues.map((i) => [i.file, i.line, i.severity])).toEqual([
+      ['src/a.ts', 21, 'warning'],
+      ['src/a.ts', 20, 'warning'],
+      ['src/b.py', 2, 'warning'],
+    ]);
+    expect(result.metadata.diff).toEqual({ changedLines: 2, contextIssuesFiltered: 1 });
+  });
+
+  it('should return the file result directly for a single-file diff', async () => {
+    mockAnalyze.mockResolvedValue(response([issue(2)]));
+
+    const result = await analyzeCode({
+      code: diff.slice(0, diff.indexOf('diff --git a/src/b.py')),
+      language: 'auto',
+      reviewTypes: ['hygiene'],
+      inputType: 'diff',
+    });
+
+    expect(result.files).toBeUndefined();
+    expect(result.issues).toEqual([
+      { ...issue(2), line: 21, file: 'src/a.ts', fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/) },
+    ]);
+  });
+});
+
+describe('analyzeCode fingerprints', () => {
+  beforeEach(() => {
+    mockAnalyze.mockReset();
+  });
+
+  it('should give streamed and final issues the same fingerprint', async () => {
+    mockAnalyze.mockImplementation(async (_code, _language, _types, options) => {
+      options?.onIssue?.(issue(2));
+      return response([issue(2)]);
+    });
+
+    const streamed: CodeIssue[] = [];
+    const result = await analyzeCode(
+      { code: 'const a = 1;\nconsole.log(a);\n', language: 'javascript', reviewTypes: ['hygiene'], inputType: 'code' },
+      { onIssue: (streamedIssue) => streamed.push(streamedIssue) }
+    );
+
+    expect(result.issues[0].fingerprint).toBeDefined();
+    expect(streamed[0].fingerprint).toBe(result.issues[0].fingerprint);
+  });
+});
+
+describe('analyzeCode suppressions', () => {
+  beforeEach(() => {
+    mockAnalyze.mockReset();
+  });
+
+  it('should set suppressed issues aside without streaming them', async () => {
+    mockAnalyze.mockImplementation(async (_code, _language, _types, options) => {
+      options?.onIssue?.(issue(2));
+      options?.onIssue?.(issue(3));
+      return response([issue(2), issue(3)]);
+    });
+
+    const streamed: CodeIssue[] = [];
+    const result = await analyzeCode(
+      {
+        code: '// solidry-ignore-next-line hygiene\nconsole.log(a);\nconsole.log(b);\n',
+        language: 'javascript',
+        reviewTypes: ['hygiene'],
+        inputType: 'code',
+      },
+      { onIssue: (streamedIssue) => streamed.push(streamedIssue) }
+    );
+
+    expect(streamed.map((i) => i.line)).toEqual([3]);
+    expect(result.issues.map((i) => i.line)).toEqual([3]);
+    expect(result.suppressedIssues?.map((i) => i.line)).toEqual([2]);
+    expect(result.suppressedIssues?.[0].fingerprint).toBeDefined();
+    expect(result.metadata.suppressedIssues).toBe(1);
+    expect(result.metrics.totalIssues).toBe(1);
+  });
+});
+
+describe('analyzeCode project configuration', () => {
+  beforeEach(() => {
+    mockAnalyze.mockReset();
+  });
+
+  it('should apply severity overrides, weights, context and default review types', async () => {
+    mockAnalyze.mockResolvedValue(response([issue(1), { ...issue(2), ruleId: 'no-var' }]));
+    const projectConfig = {
+      reviewTypes: ['unnecessary' as const],
+      severity: { hygiene: 'critical' as const, 'no-var': 'suggestion' as const },
+      scoring: { weights: { critical: 30 } },
+      context: 'Legacy module',
+    };
+
+    const result = await analyzeCode({
+      code: 'var a = 1;\nvar b = 2;\n',
+      language: 'javascript',
+      reviewTypes: [],
+      inputType: 'code',
+      projectConfig,
+    });
+
+    const [, , reviewTypes, options] = mockAnalyze.mock.calls[0];
+    expect(reviewTypes).toEqual(['unnecessary']);
+    expect(options.promptContext.context).toBe('Legacy module');
+    expect(result.issues.map((i) => i.severity)).toEqual(['critical', 'suggestion']);
+    expect(result.score).toBe(69);
+    expect(result.scoringProfile).toBe('legacy');
+    expect(result.appliedConfig).toBe(projectConfig);
+  });
+});
+
+describe('analyzeCode baseline', () => {
+  beforeEach(() => {
+    mockAnalyze.mockReset();
+  });
+
+  it('should score only issues the baseline does not have', async () => {
+    const config = { language: 'javascript' as const, reviewTypes: ['hygiene' as const], inputType: 'code' as const };
+    mockAnalyze.mockResolvedValueOnce(response([issue(1), issue(2)]));
+    const baseline = await analyzeCode({ ...config, code: 'let a = 1;\nlet b = 2;\n' });
+
+    const added = { ...issue(3), category: 'solid' as const };
+    mockAnalyze.mockResolvedValueOnce(response([issue(1), added]));
+    const result = await analyzeCode({ ...config, code: 'let a = 1;\nlet c = 3;\nlet d = 4;\n', baseline });
+
+    expect(result.issues).toEqual([expect.objectContaining({ line: 3, category: 'solid' })]);
+    expect(result.score).toBe(97);
+    expect(result.metrics.totalIssues).toBe(1);
+    expect(result.baseline).toMatchObject({ newIssues: 1 });
+    expect(result.baseline?.existingIssues.map((i) => i.line)).toEqual([1]);
+    expect(result.baseline?.fixedIssues.map((i) => i.line)).toEqual([2]);
+  });
+
+  it('should compare only with the baseline issues of the same file', async () => {
+    const baseline = makeMultiFileResult([
+      makeFileResult('src/a.ts', [issue(1), issue(20)]),
+      makeFileResult('src/b.ts', [issue(3)]),
+    ]);
+    mockAnalyze.mockResolvedValueOnce(response([issue(1), issue(3)]));
+
+    const result = await analyzeCode({
+      code: 'let a = 1;\nlet b = 2;\nlet c = 3;\n',
+      language: 'typescript',
+      reviewTypes: ['hygiene'],
+      inputType: 'code',
+      fileName: 'src/a.ts',
+      baseline,
+    });
+
+    expect(result.issues.map((i) => i.line)).toEqual([3]);
+    expect(result.baseline?.existingIssues.map((i) => i.line)).toEqual([1]);
+    expect(result.baseline?.fixedIssues).toEqual([expect.objectContaining({ line: 20, file: 'src/a.ts' })]);
+  });
+});
@@ -0,0 +1,163 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { ProgrammingLanguage } from '@/types';
+import { buildDependencyGraph, detectDependencyIssues, MAX_FAN_OUT } from '../dependencyGraph';
+
+function file(name: string, content: string, language: ProgrammingLanguage = 'auto') {
+  return { name, content, language };
+}
+
+function edgesOf(files: ReturnType<typeof file>[]) {
+  return buildDependencyGraph(files).edges.map((edge) => `${edge.from} -> ${edge.to}`);
+}
+
+describe('buildDependencyGraph', () => {
+  it('should resolve relative, extensionless, index and aliased script imports', () => {
+    const edges = edgesOf([
+      file(
+        'src/app.ts',
+        "import { a } from './lib/a';\nimport b from './lib';\nconst c = require('@/util/c.js');\nimport 'react';"
+      ),
+      file('src/lib/a.ts', 'export const a = 1;'),
+      file('src/lib/index.ts', 'export default 2;'),
+      file('src/util/c.ts', 'export const c = 3;'),
+    ]);
+
+    expect(edges).toEqual([
+      'src/app.ts -> src/lib/a.ts',
+      'src/app.ts -> src/lib/index.ts',
+      'src/app.ts -> src/util/c.ts',
+    ]);
+  });
+
+  it('should leave out script imports the compiler erases', () => {
+    const edges = edgesOf([
+      file(
+        'rules.ts',
+        [
+          "import { BUILTIN } from './builtin';",
+          "import type { Options } from './options';",
+          "import { type Issue } from './issue';",
+          "export type { Report } from './report';",
+          'export const rules = BUILTIN;',
+        ].join('\n')
+      ),
+      file(
+        'builtin.ts',
+        "import { Rule } from './rules';\nimport { Base } from './base';\nexport const BUILTIN: Rule[] = [];\nclass X extends Base {}"
+      ),
+      file('base.ts', "import { Rule } from './rules';\nexport class Base implements Rule {}"),
+      file('options.ts', ''),
+      file('issue.ts', ''),
+      file('report.ts', ''),
+    ]);
+
+    expect(edges).toEqual(['rules.ts -> builtin.ts', 'builtin.ts -> base.ts']);
+  });
+
+  it('should resolve absolute, relative and package imports in Python', () => {
+    const edges = edgesOf([
+      file('app/main.py', 'import app.models as m\nfrom .services import billing\nfrom . import utils\nimport os'),
+      file('app/models.py', ''),
+      file('app/services/__init__.py', ''),
+      file('app/services/billing.py', 'from ..models import Invoice'),
+      file('app/utils.py', ''),
+    ]);
+
+    expect(edges).toEqual([
+      'app/main.py -> app/models.py',
+      'app/main.py -> app/services/billing.py',
+      'app/main.py -> app/utils.py',
+      'app/services/billing.py -> app/models.py',
+    ]);
+  });
+
+  it('should resolve Go packages, Java imports, C# namespaces and C++ includes', () => {
+    const edges = edgesOf([
+      file('cmd/main.go', 'package main\n\nimport (\n\t"fmt"\n\t"example.com/svc/internal/store"\n)'),
+      file('internal/store/store.go', 'package store'),
+      file(
+        'src/com/acme/App.java',
+        'package com.acme;\nimport com.acme.model.*;\nimport static com.acme.util.Strings.trim;'
+      ),
+      file('src/com/acme/model/User.java', 'package com.acme.model;'),
+      file('src/com/acme/util/Strings.java', 'package com.acme.util;'),
+      file('Program.cs', 'using System;\nusing Acme.Billing;\nnamespace Acme;'),
+      file('Billing/Invoice.cs', 'namespace Acme.Billing\n{\n}'),
+      file('src/main.cpp', '#include <vector>\n#include "net/socket.h"'),
+      file('src/net/socket.h', ''),
+    ]);
+
+    expect(edges).toEqual([
+      'cmd/main.go -> internal/store/store.go',
+      'src/com/acme/App.java -> src/com/acme/model/User.java',
+      'src/com/acme/App.java -> src/com/acme/util/Strings.java',
+      'Program.cs -> Billing/Invoice.cs',
+      'src/main.cpp -> src/net/socket.h',
+    ]);
+  });
+
+  it('should compute coupling metrics and import lines', () => {
+    const graph = buildDependencyGraph([
+      file('a.ts', "import './b';\n\nimport './c';"),
+      file('b.ts', "import './c';"),
+      file('c.ts', ''),
+      file('d.ts', ''),
+    ]);
+
+    expect(graph.edges[1]).toEqual({ from: 'a.ts', to: 'c.ts', line: 3 });
+    expect(graph.nodes).toEqual([
+      { file: 'a.ts', fanIn: 0, fanOut: 2, instability: 1 },
+      { file: 'b.ts', fanIn: 1, fanOut: 1, instability: 0.5 },
+      { file: 'c.ts', fanIn: 2, fanOut: 0, instability: 0 },
+      { file: 'd.ts', fanIn: 0, fanOut: 0, instability: 0 },
+    ]);
+    expect(graph.cycles).toEqual([]);
+  });
+
+  it('should find the shortest cycle of each group of files that import each other', () => {
+    const graph = buildDependencyGraph([
+      file('a.ts', "import './b';"),
+      file('b.ts', "import './c';\nimport './a';"),
+      file('c.ts', "import './a';"),
+      file('x.py', 'import y'),
+      file('y.py', 'import x'),
+    ]);
+
+    expect(graph.cycles).toEqual([
+      ['a.ts', 'b.ts'],
+      ['x.py', 'y.py'],
+    ]);
+  });
+});
+
+describe('detectDependencyIssues', () => {
+  it('should report import cycles and files importing too many others', () => {
+    const leaves = Array.from({ length: MAX_FAN_OUT + 1 }, (_, i) =>
+      file(`leaf${i}.ts`, i === 0 ? "import './hub';" : '')
+    );
+    const hub = file('hub.ts', leaves.map((leaf) => `import './${leaf.name.replace('.ts', '')}';`).join('\n'));
+
+    const issues = detectDependencyIssues(buildDependencyGraph([hub, ...leaves]));
+
+    const cycles = issues.filter((issue) => issue.ruleId === 'import-cycle');
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0]).toMatchObject({
+      line: 1,
+      message: 'Import cycle: hub.ts → leaf0.ts → hub.ts',
+      locations: [
+        { file: 'hub.ts', startLine: 1, role: 'primary' },
+        { file: 'leaf0.ts', startLine: 1, role: 'import' },
+      ],
+    });
+
+    const coupling = issues.filter((issue) => issue.ruleId === 'high-coupling');
+    expect(coupling).toEqual([
+      expect.objectContaining({
+        line: 1,
+        locations: [{ file: 'hub.ts', startLine: 1, endLine: MAX_FAN_OUT + 1, role: 'primary' }],
+        message: expect.stringContaining(`Imports ${MAX_FAN_OUT + 1}`),
+      }),
+    ]);
+  });
+});
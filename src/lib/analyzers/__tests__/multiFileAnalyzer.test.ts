@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AIAnalysisResponse } from '@/types';
+import { ProviderError, ProviderRateLimitedError } from '../../errors';
+
+const { mockAnalyze } = vi.hoisted(() => ({ mockAnalyze: vi.fn() }));
+
+vi.mock('../../providers', () => ({
+  isProviderId: () => true,
+  resolveProvider: () => ({
+    id: 'demo',
+    isDemo: true,
+    isMetered: false,
+    getModelVersion: () => 'test',
+    isConfigured: () => true,
+    analyze: mockAnalyze,
+  }),
+}));
+
+import { analyzeMultipleFiles, validateMultiFileConfig } from '../multiFileAnalyzer';
+
+const cleanResponse: AIAnalysisResponse = {
+  issues: [],
+  summary: 'ok',
+  metrics: { criticalIssues: 0, warnings: 0, suggestions: 0, totalIssues: 0 },
+};
+
+function files(...names: string[]) {
+  return names.map((name) => ({ name, content: `export const value = '${name}';`, language: 'typescript' as const }));
+}
+
+describe('analyzeMultipleFiles', () => {
+  beforeEach(() => {
+    mockAnalyze.mockReset();
+  });
+
+  it('should keep the results of other files when one fails', async () => {
+    mockAnalyze.mockImplementation(async (code: string) => {
+      if (code.includes('b.ts')) throw new ProviderError('The model returned an error');
+      return cleanResponse;
+    });
+
+    const result = await analyzeMultipleFiles({ files: files('a.ts', 'b.ts', 'c.ts'), reviewTypes: ['hygiene'] });
+
+    expect(result.files.map((file) => file.status)).toEqual(['ok', 'failed', 'ok']);
+    expect(result.files[1]).toMatchObject({
+      fileName: 'b.ts',
+      error: { code: 'provider_error', message: 'The model returned an error', retryable: false },
+    });
+    expect(result.files[1].result).toBeUndefined();
+    expect(result.totalFiles).toBe(2);
+    expect(result.partial).toBe(true);
+    expect(result.aggregateScore).toBe(100);
+    expect(result.overallSummary).toMatch(/^Partial results: 2 of 3 files analyzed; b\.ts failed\./);
+  });
+
+  it('should return the dependency graph of the analyzed files and report its cycles', async () => {
+    mockAnalyze.mockImplementation(async (code: string) => {
+      if (code.includes('c.ts')) throw new ProviderError('The model returned an error');
+      return cleanResponse;
+    });
+
+    const result = await analyzeMultipleFiles({
+      files: [
+        { name: 'a.ts', content: "import { b } from './b';", language: 'typescript' },
+        { name: 'b.ts', content: "import { a } from './a';\nimport { c } from './c';", language: 'typescript' },
+        { name: 'c.ts', content: "export const c = 'c.ts';", language: 'typescript' },
+      ],
+      reviewTypes: ['hygiene'],
+    });
+
+    expect(result.dependencyGraph?.nodes.map((node) => node.file)).toEqual(['a.ts', 'b.ts']);
+    expect(result.dependencyGraph?.cycles).toEqual([['a.ts', 'b.ts']]);
+    expect(result.crossFileIssues).toContainEqual(
+      expect.objectContaining({ ruleId: 'import-cycle', relatedFiles: ['a.ts', 'b.ts'] })
+    );
+  });
+
+  it('should analyze at most `concurrency` files at a time, keeping their order', async () => {
+    let active = 0;
+    let maxActive = 0;
+    mockAnalyze.mockImplementation(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return cleanResponse;
+    });
+
+    const result = await analyzeMultipleFiles({
+      files: files('1.ts', '2.ts', '3.ts', '4.ts', '5.ts'),
+      reviewTypes: ['hygiene'],
+      concurrency: 2,
+    });
+
+    expect(maxActive).toBe(2);
+    expect(result.files.map((file) => file.fileName)).toEqual(['1.ts', '2.ts', '3.ts', '4.ts', '5.ts']);
+    expect(result.partial).toBeUndefined();
+  });
+
+  it('should skip the remaining files after a failure that would repeat for each of them', async () => {
+    mockAnalyze
+      .mockResolvedValueOnce(cleanResponse)
+      .mockRejectedValueOnce(new ProviderRateLimitedError('Rate limited'));
+
+    const result = await analyzeMultipleFiles({
+      files: files('a.ts', 'b.ts', 'c.ts'),
+      reviewTypes: ['hygiene'],
+      concurrency: 1,
+    });
+
+    expect(result.files.map((file) => file.status)).toEqual(['ok', 'failed', 'skipped']);
+    expect(result.files[2].error).toMatchObject({ code: 'provider_rate_limited', retryable: true });
+    expect(result.files[2].error?.message).toBe('Not analyzed after b.ts failed: Rate limited');
+    expect(mockAnalyze).toHaveBeenCalledTimes(2);
+  });
+
+  it('should throw when no file could be analyzed', async () => {
+    mockAnalyze.mockRejectedValue(new ProviderError('Unavailable'));
+
+    await expect(
+      analyzeMultipleFiles({ files: files('a.ts', 'b.ts'), reviewTypes: ['hygiene'] })
+    ).rejects.toThrow('Unavailable');
+  });
+});
+
+describe('validateMultiFileConfig', () => {
+  it('should only accept a concurrency from 1 to 10', () => {
+    const config = { files: files('a.ts'), reviewTypes: ['hygiene' as const] };
+
+    expect(validateMultiFileConfig({ ...config, concurrency: 10 }).valid).toBe(true);
+    for (const concurrency of [0, 11, 2.5]) {
+      expect(validateMultiFileConfig({ ...config, concurrency }).errors).toContain(
+        'Concurrency must be an integer from 1 to 10'
+      );
+    }
+  });
+});
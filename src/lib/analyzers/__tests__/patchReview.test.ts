@@ -0,0 +1,35 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { reviewPatch, validatePatchReviewConfig } from '../patchReview';
+import { debugLoggingPatch } from '@/test/fixtures/patches';
+
+describe('reviewPatch', () => {
+  it('should comment on the changed lines of a recorded patch', async () => {
+    const review = await reviewPatch({
+      patch: debugLoggingPatch.patch,
+      reviewTypes: ['hygiene'],
+      provider: 'demo',
+    });
+
+    expect(review.event).toBe('COMMENT');
+    expect(review.comments.map(({ path, line, side }) => ({ path, line, side }))).toEqual([
+      { path: 'src/services/orders.ts', line: 6, side: 'RIGHT' },
+      { path: 'src/services/orders.ts', line: 8, side: 'RIGHT' },
+    ]);
+    expect(review.comments[0].body).toContain('**Console.log statement left in code**');
+    expect(review.body).toContain('**0** critical · **2** warnings');
+  });
+});
+
+describe('validatePatchReviewConfig', () => {
+  it('should require a patch with hunks and valid options', () => {
+    expect(validatePatchReviewConfig({}).errors).toEqual(['Patch is required']);
+    expect(validatePatchReviewConfig({ patch: 'const a = 1;' }).errors).toEqual([
+      'The patch has no hunks (expected a unified diff such as the output of git diff)',
+    ]);
+    expect(
+      validatePatchReviewConfig({ patch: debugLoggingPatch.patch, reviewTypes: ['hygiene'], maxComments: -1 }).errors
+    ).toEqual(['maxComments must be a non-negative integer']);
+    expect(validatePatchReviewConfig({ patch: debugLoggingPatch.patch, reviewTypes: ['hygiene'] }).valid).toBe(true);
+  });
+});
@@ -0,0 +1,362 @@
+import { AIAnalysisResponse, CodeIssue, IssueFix, ProgrammingLanguage, ReviewType } from '@/types';
+import { calculateMetrics } from '@/utils/scoring';
+import { AnalysisProvider, ProviderAnalyzeOptions } from '../providers';
+import { mapWithConcurrency } from './concurrency';
+
+/**
+ * Chunked analysis for large files
+ *
+ * Files that are too long for a single prompt are split along
+ * top-level declarations into chunks that are reviewed in parallel. Each
+ * chunk carries a few lines of the preceding code for context plus an
+ * outline of the whole file, and reported line numbers are mapped back onto
+ * the original file before the results are merged.
+ */
+
+export interface ChunkOptions {
+  /** Largest file, in characters, that is still reviewed in a single prompt */
+  maxSinglePromptChars: number;
+
+  /** Maximum number of lines in a chunk, excluding the leading overlap */
+  maxChunkLines: number;
+
+  /** Maximum number of characters in a chunk, excluding the leading overlap */
+  maxChunkChars: number;
+
+  /** Lines of preceding code repeated at the start of each chunk for context */
+  overlapLines: number;
+}
+
+export interface CodeChunk {
+  /** 0-based position of the chunk */
+  index: number;
+
+  /** First line included in the chunk, overlap included (1-indexed) */
+  startLine: number;
+
+  /** First line this chunk is responsible for reviewing (1-indexed) */
+  ownStartLine: number;
+
+  /** Last line of the chunk (1-indexed, inclusive) */
+  endLine: number;
+
+  /** Source text of the chunk */
+  code: string;
+}
+
+/**
+ * Files up to the size a single prompt always accepted are not chunked, so
+ * a medium file still costs one provider call
+ */
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxSinglePromptChars: 50000,
+  maxChunkLines: 300,
+  maxChunkChars: 15000,
+  overlapLines: 15,
+};
+
+/**
+ * Chunks of one file reviewed at the same time, so a large file does not
+ * flood the provider with requests
+ */
+export const CHUNK_CONCURRENCY = 3;
+
+/**
+ * Maximum number of declarations listed in the file outline
+ */
+const MAX_OUTLINE_ENTRIES = 80;
+
+/**
+ * Unindented lines that start a top-level declaration in the supported languages
+ */
+const DECLARATION_PATTERN =
+  /^(?:export\s+(?:default\s+)?)?(?:(?:public|private|protected|internal|abstract|sealed|final|static|partial|async|pub(?:\([^)]*\))?|unsafe|declare)\s+)*(?:class|interface|type|enum|function\*?|const|let|var|def|fn|func|struct|impl|trait|mod|module|namespace|record|object)\b/;
+
+/**
+ * Lines that belong to the declaration that follows them
+ */
+const ATTACHED_LINE_PATTERN = /^(?:@|\/\/|\/\*|\*|#(?!include|define))/;
+
+/**
+ * Whether code is large enough to be analyzed in chunks
+ */
+export function shouldChunk(code: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): boolean {
+  return code.length > options.maxSinglePromptChars;
+}
+
+/**
+ * Finds the 0-based line indexes where top-level declarations begin,
+ * moving each start up to include attached comments and decorators
+ */
+function findDeclarationStarts(lines: string[]): number[] {
+  const starts: number[] = [];
+
+  lines.forEach((line, index) => {
+    if (!DECLARATION_PATTERN.test(line)) return;
+
+    let start = index;
+    while (start > 0 && ATTACHED_LINE_PATTERN.test(lines[start - 1].trimStart())) {
+      start--;
+    }
+
+    const previous = starts[starts.length - 1];
+    if (previous === undefined || start > previous) {
+      starts.push(start);
+    }
+  });
+
+  return starts;
+}
+
+/**
+ * Splits a segment that is too large on its own, preferring blank lines as cut points
+ */
+function splitOversizedSegment(
+  lines: string[],
+  from: number,
+  to: number,
+  options: ChunkOptions
+): number[] {
+  const cuts: number[] = [];
+  let start = from;
+
+  while (start < to) {
+    let end = start;
+    let chars = 0;
+    while (end < to && end - start < options.maxChunkLines && chars + lines[end].length < options.maxChunkChars) {
+      chars += lines[end].length + 1;
+      end++;
+    }
+
+    // Always make progress, even for a single very long line
+    if (end === start) {
+      end = start + 1;
+    }
+
+    if (end < to) {
+      const minimum = start + Math.floor((end - start) / 2);
+      for (let candidate = end; candidate > minimum; candidate--) {
+        if (lines[candidate - 1].trim() === '') {
+          end = candidate;
+          break;
+        }
+      }
+    }
+
+    cuts.push(end);
+    start = end;
+  }
+
+  return cuts;
+}
+
+/**
+ * Splits code into chunks along top-level declarations
+ * Small declarations are packed together; oversized ones are split further.
+ */
+export function splitIntoChunks(
+  code: string,
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): CodeChunk[] {
+  const lines = code.split('\n');
+
+  // Segment boundaries as 0-based line indexes (each segment is [start, end))
+  const boundaries = [0, ...findDeclarationStarts(lines).filter((s) => s > 0), lines.length];
+
+  const segmentEnds: number[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const from = boundaries[i];
+    const to = boundaries[i + 1];
+    const size = lines.slice(from, to).reduce((sum, line) => sum + line.length + 1, 0);
+
+    if (to - from > options.maxChunkLines || size > options.maxChunkChars) {
+      segmentEnds.push(...splitOversizedSegment(lines, from, to, options));
+    } else {
+      segmentEnds.push(to);
+    }
+  }
+
+  // Greedily pack consecutive segments into chunks
+  const chunks: CodeChunk[] = [];
+  let chunkStart = 0;
+  let chunkChars = 0;
+  let segmentStart = 0;
+
+  const flush = (end: number) => {
+    const startWithOverlap = Math.max(0, chunkStart - options.overlapLines);
+    chunks.push({
+      index: chunks.length,
+      startLine: startWithOverlap + 1,
+      ownStartLine: chunkStart + 1,
+      endLine: end,
+      code: lines.slice(startWithOverlap, end).join('\n'),
+    });
+    chunkStart = end;
+    chunkChars = 0;
+  };
+
+  for (const segmentEnd of segmentEnds) {
+    const segmentChars = lines
+      .slice(segmentStart, segmentEnd)
+      .reduce((sum, line) => sum + line.length + 1, 0);
+
+    const wouldOverflow =
+      segmentEnd - chunkStart > options.maxChunkLines ||
+      chunkChars + segmentChars > options.maxChunkChars;
+
+    if (wouldOverflow && segmentStart > chunkStart) {
+      flush(segmentStart);
+    }
+
+    chunkChars += segmentChars;
+    segmentStart = segmentEnd;
+  }
+
+  if (chunkStart < lines.length) {
+    flush(lines.length);
+  }
+
+  return chunks;
+}
+
+/**
+ * Lists the top-level declarations of a file with their line numbers
+ * Gives each chunk a view of the surrounding file structure.
+ */
+export function buildFileOutline(code: string): string {
+  const lines = code.split('\n');
+  const entries = lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => DECLARATION_PATTERN.test(line))
+    .map(({ line, index }) => {
+      const signature = line.trim().replace(/\s*\{?\s*$/, '');
+      return `L${index + 1}: ${signature.length > 100 ? `${signature.slice(0, 97)}...` : signature}`;
+    });
+
+  if (entries.length > MAX_OUTLINE_ENTRIES) {
+    const omitted = entries.length - MAX_OUTLINE_ENTRIES;
+    return [...entries.slice(0, MAX_OUTLINE_ENTRIES), `... ${omitted} more declarations`].join('\n');
+  }
+
+  return entries.join('\n');
+}
+
+/**
+ * Maps an issue reported against a chunk onto the original file
+ * Returns null for issues inside the leading overlap, which belong to the previous chunk.
+ */
+function remapIssue(issue: CodeIssue, chunk: CodeChunk): CodeIssue | null {
+  const line = Math.min(Math.max(issue.line, 1), chunk.endLine - chunk.startLine + 1) + chunk.startLine - 1;
+
+  if (line < chunk.ownStartLine) {
+    return null;
+  }
+
+  return { ...issue, line, fix: remapFix(issue.fix, chunk) };
+}
+
+/**
+ * Shifts a fix onto the original file, dropping fixes that reach outside the chunk
+ */
+function remapFix(fix: IssueFix | undefined, chunk: CodeChunk): IssueFix | undefined {
+  if (!fix || fix.endLine > chunk.endLine - chunk.startLine + 1) {
+    return undefined;
+  }
+
+  const offset = chunk.startLine - 1;
+  return { ...fix, startLine: fix.startLine + offset, endLine: fix.endLine + offset };
+}
+
+/**
+ * Key used to detect the same finding reported by more than one chunk
+ */
+function issueKey(issue: CodeIssue): string {
+  return `${issue.line}|${issue.category}|${issue.message.trim().toLowerCase()}`;
+}
+
+/**
+ * Merges per-chunk responses into a single response for the whole file
+ */
+export function mergeChunkResponses(
+  chunks: CodeChunk[],
+  responses: AIAnalysisResponse[]
+): AIAnalysisResponse {
+  const seen = new Set<string>();
+  const issues: CodeIssue[] = [];
+
+  responses.forEach((response, i) => {
+    for (const issue of response.issues) {
+      const remapped = remapIssue(issue, chunks[i]);
+      if (!remapped) continue;
+
+      const key = issueKey(remapped);
+      if (seen.has(key)) continue;
+
+      seen.add(key);
+      issues.push(remapped);
+    }
+  });
+
+  issues.sort((a, b) => a.line - b.line);
+
+  const summaries = responses.map((r) => r.summary.trim()).filter((s) => s.length > 0);
+
+  return {
+    issues,
+    summary: `Large file reviewed in ${chunks.length} sections. ${summaries.join(' ')}`.trim(),
+    metrics: calculateMetrics(issues),
+    discardedIssues: responses.reduce((sum, r) => sum + (r.discardedIssues ?? 0), 0),
+  };
+}
+
+/**
+ * Analyzes a large file chunk by chunk, a few chunks at a time, and merges the results
+ */
+export async function analyzeInChunks(
+  provider: AnalysisProvider,
+  code: string,
+  language: ProgrammingLanguage,
+  reviewTypes: ReviewType[],
+  options: ProviderAnalyzeOptions = {},
+  chunkOptions: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): Promise<{ response: AIAnalysisResponse; chunkCount: number }> {
+  const chunks = splitIntoChunks(code, chunkOptions);
+  const outline = buildFileOutline(code);
+  const { onIssue, promptContext = {}, rules } = options;
+
+  // Streamed issues are remapped and de-duplicated the same way as the final merge
+  const emitted = new Set<string>();
+
+  const responses = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk) =>
+    provider.analyze(chunk.code, language, reviewTypes, {
+      promptContext: {
+        ...promptContext,
+        changedLines: promptContext.changedLines
+          ?.filter((line) => line >= chunk.startLine && line <= chunk.endLine)
+          .map((line) => line - chunk.startLine + 1),
+        chunk: {
+          part: chunk.index + 1,
+          totalParts: chunks.length,
+          startLine: chunk.startLine,
+          ownStartLine: chunk.ownStartLine,
+          endLine: chunk.endLine,
+          outline,
+        },
+      },
+      rules,
+      onIssue: onIssue
+        ? (issue) => {
+            const remapped = remapIssue(issue, chunk);
+            if (!remapped || emitted.has(issueKey(remapped))) return;
+            emitted.add(issueKey(remapped));
+            onIssue(remapped);
+          }
+        : undefined,
+    })
+  );
+
+  return {
+    response: mergeChunkResponses(chunks, responses),
+    chunkCount: chunks.length,
+  };
+}
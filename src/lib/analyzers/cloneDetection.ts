@@ -0,0 +1,444 @@
+/**
+ * Clone Detection
+ *
+ * Finds duplicated code within and across the files of a multi-file analysis.
+ * Code is split into tokens without whitespace and comments, and identifiers
+ * and literals are normalized, so reformatted and renamed copies still match.
+ * Exact runs of normalized tokens seed a clone; runs separated by small edits
+ * are joined into near-miss clones.
+ */
+
+import {
+  CloneDetectionConfig,
+  CloneType,
+  CodeClone,
+  CodeIssue,
+  FileInput,
+  IssueLocation,
+  IssueLocationRole,
+  ProgrammingLanguage,
+} from '@/types';
+import { getLanguageFromExtension } from '@/utils/fileUtils';
+
+export const DEFAULT_CLONE_DETECTION: Required<CloneDetectionConfig> = {
+  minTokens: 50,
+  minSimilarity: 80,
+};
+
+/**
+ * Length of the exact runs of tokens that seed a clone
+ */
+const SEED_TOKENS = 12;
+
+/**
+ * Most tokens an edit between two matching runs may span in either copy
+ */
+const MAX_GAP_TOKENS = 10;
+
+/**
+ * Runs that occur more often are too repetitive to pair up, as in tables or generated code
+ */
+const MAX_RUN_OCCURRENCES = 20;
+
+/**
+ * Keywords of the supported languages, which are kept while other identifiers are normalized
+ */
+const KEYWORDS = new Set([
+  'abstract', 'and', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+  'def', 'default', 'defer', 'del', 'delete', 'do', 'elif', 'else', 'enum', 'except', 'export',
+  'extends', 'false', 'final', 'finally', 'fn', 'for', 'foreach', 'from', 'func', 'function', 'go',
+  'if', 'impl', 'implements', 'import', 'in', 'instanceof', 'interface', 'is', 'lambda', 'let',
+  'loop', 'match', 'mut', 'namespace', 'new', 'None', 'nil', 'not', 'null', 'or', 'override',
+  'package', 'private', 'protected', 'pub', 'public', 'raise', 'range', 'return', 'self', 'static',
+  'struct', 'super', 'switch', 'this', 'throw', 'throws', 'True', 'False', 'true', 'try', 'type',
+  'typeof', 'undefined', 'using', 'var', 'virtual', 'void', 'while', 'with', 'yield',
+]);
+
+interface Token {
+  /** Source text */
+  text: string;
+
+  /** Keywords and punctuation as written; identifiers and literals by their kind */
+  normalized: string;
+
+  line: number;
+}
+
+interface TokenizedFile {
+  name: string;
+  content: string;
+  tokens: Token[];
+}
+
+/**
+ * Tokens [aStart, aEnd) of file a that match tokens [bStart, bEnd) of file b
+ */
+interface TokenMatch {
+  a: number;
+  b: number;
+  aStart: number;
+  aEnd: number;
+  bStart: number;
+  bEnd: number;
+
+  /** Tokens that match exactly after normalization */
+  matched: number;
+
+  /** Exact runs joined into the match */
+  runs: number;
+}
+
+function countNewlines(content: string, start: number, end: number): number {
+  let count = 0;
+  for (let i = start; i < end; i++) {
+    if (content[i] === '\n') count++;
+  }
+  return count;
+}
+
+/**
+ * End of the string literal starting at `start`
+ */
+function stringEnd(content: string, start: number, language: ProgrammingLanguage): number {
+  const quote = content[start];
+  if (language === 'python' && content.startsWith(quote.repeat(3), start)) {
+    const end = content.indexOf(quote.repeat(3), start + 3);
+    return end === -1 ? content.length : end + 3;
+  }
+
+  for (let i = start + 1; i < content.length; i++) {
+    if (content[i] === '\\') {
+      i++;
+    } else if (content[i] === quote) {
+      return i + 1;
+    } else if (content[i] === '\n' && quote !== '`') {
+      return i;
+    }
+  }
+  return content.length;
+}
+
+function scanWhile(content: string, start: number, pattern: RegExp): number {
+  let end = start;
+  while (end < content.length && pattern.test(content[end])) end++;
+  return end;
+}
+
+/**
+ * Splits code into tokens, dropping whitespace and comments
+ */
+function tokenize(content: string, language: ProgrammingLanguage): Token[] {
+  const hashComments = language === 'python';
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+    const next = content[i + 1] ?? '';
+    let end: number;
+    let normalized: string;
+
+    if (/\s/.test(char)) {
+      if (char === '\n') line++;
+      i++;
+      continue;
+    }
+
+    if (hashComments ? char === '#' : char === '/' && next === '/') {
+      end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end;
+      continue;
+    }
+
+    if (!hashComments && char === '/' && next === '*') {
+      end = content.indexOf('*/', i + 2);
+      end = end === -1 ? content.length : end + 2;
+      line += countNewlines(content, i, end);
+      i = end;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      end = stringEnd(content, i, language);
+      normalized = 'STR';
+    } else if (/[A-Za-z_$]/.test(char)) {
+      end = scanWhile(content, i, /[\w$]/);
+      normalized = KEYWORDS.has(content.slice(i, end)) ? content.slice(i, end) : 'ID';
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(next))) {
+      end = scanWhile(content, i + 1, /[\w.]/);
+      normalized = 'NUM';
+    } else {
+      end = i + 1;
+      normalized = char;
+    }
+
+    tokens.push({ text: content.slice(i, end), normalized, line });
+    line += countNewlines(content, i, end);
+    i = end;
+  }
+
+  return tokens;
+}
+
+const PREPROCESSOR_IMPORTS = new Set(['include', 'import', 'define']);
+
+function isImportStart(token: Token, next: Token | undefined): boolean {
+  switch (token.text) {
+    case 'import':
+    case 'from':
+    case 'package':
+      return true;
+    case '#':
+      // Preprocessor includes and macros, not private class members like #count
+      return next?.line === token.line && PREPROCESSOR_IMPORTS.has(next.text);
+    case 'using':
+      // C# using statements declare a resource instead
+      return next?.text !== '(' && next?.text !== 'var';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Drops imports and preprocessor lines, which look alike in many files
+ * without being duplicated logic
+ * A statement ends with its last line that closes every bracket it opened.
+ */
+function withoutImports(tokens: Token[]): Token[] {
+  const kept: Token[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const startsLine = i === 0 || tokens[i - 1].line < tokens[i].line;
+    if (!startsLine || !isImportStart(tokens[i], tokens[i + 1])) {
+      kept.push(tokens[i++]);
+      continue;
+    }
+
+    let depth = 0;
+    do {
+      if (/^[([{]$/.test(tokens[i].text)) depth++;
+      if (/^[)\]}]$/.test(tokens[i].text)) depth--;
+      i++;
+    } while (i < tokens.length && (depth > 0 || tokens[i].line === tokens[i - 1].line));
+  }
+  return kept;
+}
+
+/**
+ * Maximal exact runs of normalized tokens shared by two places, at least `seed` long
+ */
+function findRuns(files: TokenizedFile[], seed: number): TokenMatch[] {
+  const occurrences = new Map<string, { file: number; start: number }[]>();
+  const windowKeys = files.map((file, index) => {
+    const keys: string[] = [];
+    for (let start = 0; start + seed <= file.tokens.length; start++) {
+      const key = file.tokens
+        .slice(start, start + seed)
+        .map((token) => token.normalized)
+        .join(' ');
+      const positions = occurrences.get(key) ?? [];
+      positions.push({ file: index, start });
+      occurrences.set(key, positions);
+      keys.push(key);
+    }
+    return keys;
+  });
+
+  // Token sequences common to many places, like function headers, are not paired
+  const isPaired = (file: number, start: number) =>
+    (occurrences.get(windowKeys[file][start])?.length ?? 0) <= MAX_RUN_OCCURRENCES;
+
+  const runs: TokenMatch[] = [];
+  for (const positions of occurrences.values()) {
+    if (positions.length < 2 || positions.length > MAX_RUN_OCCURRENCES) continue;
+
+    for (let x = 0; x < positions.length; x++) {
+      for (let y = x + 1; y < positions.length; y++) {
+        const a = positions[x];
+        const b = positions[y];
+        const aTokens = files[a.file].tokens;
+        const bTokens = files[b.file].tokens;
+        const sameFile = a.file === b.file;
+        if (sameFile && b.start < a.start + seed) continue;
+
+        // Runs that extend to the left were found at an earlier position, unless
+        // that position was too common to be paired
+        if (
+          a.start > 0 &&
+          b.start > 0 &&
+          aTokens[a.start - 1].normalized === bTokens[b.start - 1].normalized &&
+          isPaired(a.file, a.start - 1)
+        ) {
+          continue;
+        }
+
+        // Take in the common tokens before it that were not paired
+        let aStart = a.start;
+        let bStart = b.start;
+        while (
+          aStart > 0 &&
+          bStart > 0 &&
+          (!sameFile || a.start + seed < bStart) &&
+          aTokens[aStart - 1].normalized === bTokens[bStart - 1].normalized
+        ) {
+          aStart--;
+          bStart--;
+        }
+
+        let length = a.start - aStart + seed;
+        while (
+          aStart + length < aTokens.length &&
+          bStart + length < bTokens.length &&
+          (!sameFile || aStart + length < bStart) &&
+          aTokens[aStart + length].normalized === bTokens[bStart + length].normalized
+        ) {
+          length++;
+        }
+
+        runs.push({
+          a: a.file,
+          b: b.file,
+          aStart,
+          aEnd: aStart + length,
+          bStart,
+          bEnd: bStart + length,
+          matched: length,
+          runs: 1,
+        });
+      }
+    }
+  }
+  return runs;
+}
+
+/**
+ * Joins runs of the same two places separated by small edits
+ */
+function joinRuns(runs: TokenMatch[]): TokenMatch[] {
+  const sorted = [...runs].sort((x, y) => x.a - y.a || x.b - y.b || x.aStart - y.aStart || x.bStart - y.bStart);
+  const joined: TokenMatch[] = [];
+
+  for (const run of sorted) {
+    const previous = joined.find(
+      (match) =>
+        match.a === run.a &&
+        match.b === run.b &&
+        run.aStart >= match.aEnd &&
+        run.aStart - match.aEnd <= MAX_GAP_TOKENS &&
+        run.bStart >= match.bEnd &&
+        run.bStart - match.bEnd <= MAX_GAP_TOKENS &&
+        (run.a !== run.b || run.aEnd <= match.bStart)
+    );
+
+    if (previous) {
+      previous.aEnd = run.aEnd;
+      previous.bEnd = run.bEnd;
+      previous.matched += run.matched;
+      previous.runs++;
+    } else {
+      joined.push({ ...run });
+    }
+  }
+  return joined;
+}
+
+function similarityOf(match: TokenMatch): number {
+  return Math.round((200 * match.matched) / (match.aEnd - match.aStart + (match.bEnd - match.bStart)));
+}
+
+function overlaps(start: number, end: number, otherStart: number, otherEnd: number): boolean {
+  return start < otherEnd && otherStart < end;
+}
+
+function cloneTypeOf(match: TokenMatch, files: TokenizedFile[]): CloneType {
+  if (match.runs > 1) return 'near-miss';
+
+  const aTokens = files[match.a].tokens;
+  const bTokens = files[match.b].tokens;
+  for (let i = 0; i < match.matched; i++) {
+    if (aTokens[match.aStart + i].text !== bTokens[match.bStart + i].text) return 'renamed';
+  }
+  return 'exact';
+}
+
+function toLocation(file: TokenizedFile, start: number, end: number, role: IssueLocationRole): IssueLocation {
+  return { file: file.name, startLine: file.tokens[start].line, endLine: file.tokens[end - 1].line, role };
+}
+
+const CLONE_EXPLANATIONS: Record<CloneType, string> = {
+  exact: 'The copies are identical apart from formatting and comments.',
+  renamed: 'The copies differ only in names and literal values.',
+  'near-miss': 'The copies differ in a few statements besides names and literal values.',
+};
+
+function toIssue(match: TokenMatch, files: TokenizedFile[]): CodeIssue {
+  const clone: CodeClone = {
+    type: cloneTypeOf(match, files),
+    similarity: similarityOf(match),
+    tokens: match.matched,
+  };
+  const locations = [
+    toLocation(files[match.a], match.aStart, match.aEnd, 'primary'),
+    toLocation(files[match.b], match.bStart, match.bEnd, 'duplicate'),
+  ];
+  const [first, second] = locations;
+  const snippet = files[match.a].content
+    .split('\n')
+    .slice(first.startLine - 1, first.endLine)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+
+  return {
+    line: first.startLine,
+    severity: clone.type === 'near-miss' ? 'suggestion' : 'warning',
+    category: 'unnecessary',
+    message: `Duplicated code (${clone.similarity}% similar)`,
+    explanation: CLONE_EXPLANATIONS[clone.type],
+    suggestion:
+      first.file === second.file
+        ? 'Consider extracting the shared code into a function both places call.'
+        : 'Consider extracting shared code into a common module or utility.',
+    codeSnippet: snippet.substring(0, 100) + (snippet.length > 100 ? '...' : ''),
+    relatedFiles: Array.from(new Set([first.file, second.file])),
+    locations,
+    ruleId: 'duplicate-code',
+    clone,
+  };
+}
+
+/**
+ * Reports duplicated code within and across files
+ */
+export function detectClones(files: FileInput[], config: CloneDetectionConfig = {}): CodeIssue[] {
+  const { minTokens, minSimilarity } = { ...DEFAULT_CLONE_DETECTION, ...config };
+  const tokenized: TokenizedFile[] = files.map((file) => ({
+    name: file.name,
+    content: file.content,
+    tokens: withoutImports(
+      tokenize(file.content, file.language === 'auto' ? getLanguageFromExtension(file.name) : file.language)
+    ),
+  }));
+
+  const candidates = joinRuns(findRuns(tokenized, Math.min(SEED_TOKENS, minTokens)))
+    .filter((match) => match.matched >= minTokens && similarityOf(match) >= minSimilarity)
+    .sort((x, y) => y.matched - x.matched);
+
+  // Repeated code yields several alignments of the same copies; the largest one is kept
+  const clones: TokenMatch[] = [];
+  for (const match of candidates) {
+    const duplicate = clones.some(
+      (clone) =>
+        clone.a === match.a &&
+        clone.b === match.b &&
+        overlaps(clone.aStart, clone.aEnd, match.aStart, match.aEnd) &&
+        overlaps(clone.bStart, clone.bEnd, match.bStart, match.bEnd)
+    );
+    if (!duplicate) clones.push(match);
+  }
+
+  return clones
+    .sort((x, y) => x.a - y.a || x.aStart - y.aStart || x.b - y.b || x.bStart - y.bStart)
+    .map((clone) => toIssue(clone, tokenized));
+}
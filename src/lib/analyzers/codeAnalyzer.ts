@@ -1,28 +1,153 @@
-import { ReviewConfig, AnalysisResult, ReviewType } from '@/types';
-import { analyzeCodeWithClaude } from '../ai/claude';
+import {
+  ReviewConfig,
+  AnalysisResult,
+  AIAnalysisResponse,
+  AnalyzedFileResult,
+  CodeIssue,
+  IssueFix,
+  ScoringConfig,
+} from '@/types';
 import { detectLanguage, isGitDiff, extractCodeFromDiff, isValidCode, checkLanguageMismatch } from '@/utils/languageDetect';
-import { calculateScore, getGrade, calculateMetrics } from '@/utils/scoring';
-import { getDemoAnalysis, isDemoMode } from '../ai/demoMode';
+import { calculateScore, getGrade, calculateMetrics, countLogicalLines } from '@/utils/scoring';
+import {
+  parseUnifiedDiff,
+  buildDiffReviewInput,
+  toFileLine,
+  focusIssueOnChanges,
+  formatLineRanges,
+  DiffReviewInput,
+} from '@/utils/diffParser';
+import { getLanguageFromExtension } from '@/utils/fileUtils';
+import { assignFingerprints, computeFingerprint } from '@/utils/fingerprint';
+import { applySuppressions, isSuppressed, parseSuppressions } from '@/utils/suppressions';
+import { applySeverityOverrides, mergeContext, resolveReviewTypes, validateProjectConfig } from '@/utils/projectConfig';
+import {
+  compareWithBaseline,
+  getBaselineFingerprints,
+  getBaselineIssues,
+  getBaselineIssuesForCode,
+  getBaselineIssuesForFile,
+  validateBaseline,
+} from '@/utils/baseline';
+import { resolveProvider, isProviderId } from '../providers';
 import { calculateConfidence } from '../confidence/confidenceCalculator';
 import { analysisCache } from '../cache';
+import { guidelineStore } from '../guidelines';
+import { baselineStore } from '../baselines';
+import { ruleRegistry } from '../rules';
+import { PromptContext } from '../ai/prompts';
+import { analyzeInChunks, shouldChunk } from './chunkedAnalysis';
+
+/**
+ * Maximum length of code accepted for analysis
+ * Inputs beyond what fits in one prompt are analyzed in chunks.
+ */
+export const MAX_CODE_LENGTH = 200000;
+
+/**
+ * Maximum length of free-form review context
+ */
+export const MAX_CONTEXT_LENGTH = 5000;
+
+export interface AnalyzeOptions {
+  /** Called for each issue as soon as it is available (enables streaming) */
+  onIssue?: (issue: CodeIssue) => void;
+
+  /**
+   * Lines of the code that a diff added (1-indexed). When set, the review
+   * focuses on them and issues on other lines are dropped or down-ranked.
+   */
+  changedLines?: number[];
+
+  /**
+   * Baseline issues of this code, already narrowed to its file. Takes
+   * precedence over the baseline of the review configuration.
+   */
+  baseline?: ResolvedBaseline;
+}
+
+/**
+ * Baseline issues with the id of the stored baseline they came from
+ */
+export interface ResolvedBaseline {
+  id?: string;
+  issues: CodeIssue[];
+}
+
+/**
+ * Looks up the baseline a review configuration refers to
+ */
+export function resolveBaseline(config: Pick<ReviewConfig, 'baseline' | 'baselineId'>): ResolvedBaseline | undefined {
+  if (config.baselineId) {
+    const stored = baselineStore.get(config.baselineId);
+    if (!stored) {
+      throw new Error(`Baseline "${config.baselineId}" not found`);
+    }
+    return { id: stored.id, issues: stored.issues };
+  }
+
+  return config.baseline ? { issues: getBaselineIssues(config.baseline) } : undefined;
+}
+
+/**
+ * Looks up the baseline of a review configuration, keeping only the issues
+ * of the analyzed file when the baseline covers several files
+ */
+function resolveFileBaseline(config: ReviewConfig): ResolvedBaseline | undefined {
+  const baseline = resolveBaseline(config);
+  return baseline && { id: baseline.id, issues: getBaselineIssuesForCode(baseline.issues, config.fileName) };
+}
+
+/**
+ * Splits a result into new and existing issues and bases the score, grade and
+ * metrics on the new issues only
+ */
+function applyBaseline(
+  result: AnalysisResult,
+  baseline: ResolvedBaseline,
+  scoring: ScoringConfig | undefined,
+  logicalLines: number
+): AnalysisResult {
+  const { newIssues, existingIssues, fixedIssues } = compareWithBaseline(result.issues, baseline.issues);
+  const score = calculateScore(newIssues, { profile: scoring?.profile, weights: scoring?.weights, logicalLines });
+
+  return {
+    ...result,
+    issues: newIssues,
+    metrics: calculateMetrics(newIssues),
+    score,
+    grade: getGrade(score, scoring?.gradeThresholds),
+    baseline: { baselineId: baseline.id, newIssues: newIssues.length, existingIssues, fixedIssues },
+  };
+}
 
 /**
  * Main code analyzer that orchestrates the entire analysis process
  */
-export async function analyzeCode(config: ReviewConfig): Promise<AnalysisResult> {
+export async function analyzeCode(
+  config: ReviewConfig,
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult> {
+  const { changedLines } = options;
   const startTime = Date.now();
 
   // Step 1: Determine the actual code to analyze
   let codeToAnalyze = config.code;
   let inputType = config.inputType;
 
-  // Auto-detect if it's a git diff
-  if (inputType === 'code' && isGitDiff(config.code)) {
+  // Auto-detect if it's a git diff (hunks being reviewed are never re-parsed)
+  if (inputType === 'code' && !changedLines && isGitDiff(config.code)) {
     inputType = 'diff';
   }
 
-  // If it's a diff, extract the actual code
+  // Diffs with hunk headers are reviewed hunk by hunk, file by file
   if (inputType === 'diff') {
+    const diffInputs = getDiffReviewInputs(config.code);
+    if (diffInputs.length > 0) {
+      return analyzeDiff(config, diffInputs, options);
+    }
+
+    // Without hunk headers there are no line numbers to recover
     codeToAnalyze = extractCodeFromDiff(config.code);
   }
 
@@ -37,75 +162,384 @@ export async function analyzeCode(config: ReviewConfig): Promise<AnalysisResult>
     }
   }
 
-  // Step 3: Validate review types
-  const reviewTypes = config.reviewTypes.length > 0
-    ? config.reviewTypes
-    : ['solid', 'hygiene'] as ReviewType[]; // Default review types
+  // Issues on unchanged diff context are dropped or down-ranked and
+  // suppressed issues are held back, also while streaming; streamed issues
+  // carry their base fingerprint and project severity. Known baseline issues
+  // are held back by fingerprint; the final result also matches the rest.
+  const { projectConfig } = config;
+  const scoring = projectConfig?.scoring;
+  const baseline = options.baseline ?? resolveFileBaseline(config);
+  const baselineFingerprints = getBaselineFingerprints(baseline?.issues ?? []);
+  const changedLineSet = changedLines ? new Set(changedLines) : null;
+  const suppressions = parseSuppressions(codeToAnalyze, language);
+  const codeLines = codeToAnalyze.split('\n');
+  const logicalLines = countLogicalLines(codeToAnalyze);
+  const onIssue = options.onIssue
+    ? (issue: CodeIssue) => {
+        const focused = changedLineSet ? focusIssueOnChanges(issue, changedLineSet) : issue;
+        if (!focused || isSuppressed(focused, suppressions)) return;
+
+        const fingerprint = computeFingerprint(focused, codeLines);
+        if (!baselineFingerprints.has(fingerprint)) {
+          options.onIssue?.({ ...applySeverityOverrides(focused, projectConfig), fingerprint });
+        }
+      }
+    : undefined;
+  const withBaseline = (result: AnalysisResult) =>
+    baseline ? applyBaseline(result, baseline, scoring, logicalLines) : result;
 
-  // Step 4: Check cache first (only for non-demo mode to save real API calls)
-  const demoMode = isDemoMode();
+  // Step 3: Resolve review types
+  const reviewTypes = resolveReviewTypes(config.reviewTypes, projectConfig);
+
+  // Step 4: Gather reviewer context and team guidelines for the prompt
+  const guideline = config.guidelinesId ? guidelineStore.get(config.guidelinesId) : null;
+  if (config.guidelinesId && !guideline) {
+    throw new Error(`Guideline "${config.guidelinesId}" not found`);
+  }
+
+  const promptContext: PromptContext = {
+    context: mergeContext(projectConfig, config.context),
+    guidelines: guideline ? { name: guideline.name, content: guideline.content } : undefined,
+    changedLines,
+  };
+
+  // Step 5: Resolve the provider and check cache first (only for model-backed
+  // providers, to save real API calls). Context, guidelines and project
+  // severities and scoring change the review, so they are part of the cache scope.
+  const provider = resolveProvider(config.provider);
+  const demoMode = provider.isDemo;
+  const modelVersion = provider.getModelVersion();
+  const cacheScope = [
+    provider.id,
+    modelVersion,
+    promptContext.context ?? '',
+    guideline ? `${guideline.id}:${guideline.updatedAt}` : '',
+    changedLines ? formatLineRanges(changedLines) : '',
+    JSON.stringify([projectConfig?.severity ?? null, projectConfig?.scoring ?? null]),
+  ].join('\n');
 
   if (!demoMode) {
-    const cachedResult = analysisCache.get(codeToAnalyze, language, reviewTypes);
+    const cachedResult = analysisCache.get(codeToAnalyze, language, reviewTypes, cacheScope);
     if (cachedResult) {
-      // Return cached result with updated timestamp
-      return {
+      // Return cached result with updated timestamp; the baseline is not part
+      // of the cache scope and is compared afresh
+      const result = withBaseline({
         ...cachedResult,
+        appliedConfig: projectConfig,
         timestamp: new Date(),
-      };
+      });
+
+      // Cached issues were already focused on the changed lines
+      result.issues.forEach((issue) => options.onIssue?.(issue));
+      return result;
     }
   }
 
-  // Step 5: Call AI for analysis (or use demo mode)
-  const aiResponse = demoMode
-    ? getDemoAnalysis(codeToAnalyze, reviewTypes)
-    : await analyzeCodeWithClaude(codeToAnalyze, language, reviewTypes);
+  // Step 6: Run the analysis with the selected provider, splitting large
+  // files into chunks (the pattern engine has no prompt size to respect)
+  let aiResponse: AIAnalysisResponse;
+  let chunkCount: number | undefined;
+  if (!demoMode && shouldChunk(codeToAnalyze)) {
+    const chunked = await analyzeInChunks(provider, codeToAnalyze, language, reviewTypes, {
+      onIssue,
+      promptContext,
+    });
+    aiResponse = chunked.response;
+    chunkCount = chunked.chunkCount;
+  } else {
+    aiResponse = await provider.analyze(codeToAnalyze, language, reviewTypes, {
+      onIssue,
+      promptContext,
+      rules: config.rules,
+    });
+  }
 
-  // Step 6: Calculate score and grade
-  const score = calculateScore(aiResponse.issues);
-  const grade = getGrade(score);
+  // Keep the review focused on what the diff changed
+  let contextIssuesFiltered = 0;
+  if (changedLineSet) {
+    const focused = aiResponse.issues
+      .map((issue) => focusIssueOnChanges(issue, changedLineSet))
+      .filter((issue): issue is CodeIssue => issue !== null);
+    contextIssuesFiltered = aiResponse.issues.length - focused.length;
+    aiResponse = { ...aiResponse, issues: focused };
+  }
+
+  // Fingerprints are assigned before suppressing, so a suppressed issue keeps
+  // the fingerprint it would have had
+  const { issues, suppressed } = applySuppressions(
+    assignFingerprints(aiResponse.issues, codeToAnalyze),
+    suppressions
+  );
+  aiResponse = { ...aiResponse, issues: issues.map((issue) => applySeverityOverrides(issue, projectConfig)) };
+
+  // Step 7: Calculate score and grade
+  const scoringProfile = scoring?.profile ?? 'legacy';
+  const score = calculateScore(aiResponse.issues, {
+    profile: scoringProfile,
+    weights: scoring?.weights,
+    logicalLines,
+  });
+  const grade = getGrade(score, scoring?.gradeThresholds);
 
-  // Step 7: Recalculate metrics to ensure accuracy
+  // Step 8: Recalculate metrics to ensure accuracy
   const metrics = calculateMetrics(aiResponse.issues);
 
-  // Step 8: Calculate confidence
+  // Step 9: Calculate confidence
   const confidence = calculateConfidence(
     codeToAnalyze,
     language,
     specifiedLanguage,
     aiResponse.issues,
-    demoMode
+    demoMode,
+    modelVersion,
+    chunkCount
   );
 
-  // Step 9: Build metadata
+  // Step 10: Build metadata
   const analysisTimeMs = Date.now() - startTime;
   const linesAnalyzed = codeToAnalyze.split('\n').filter(l => l.trim().length > 0).length;
 
-  // Step 10: Build final result
+  // Step 11: Build final result
   const result: AnalysisResult = {
     issues: aiResponse.issues,
     metrics,
     summary: aiResponse.summary,
     score,
     grade,
+    scoringProfile,
     reviewTypes,
     language,
     timestamp: new Date(),
     confidence,
+    suppressedIssues: suppressed.length > 0 ? suppressed : undefined,
     metadata: {
       analysisTimeMs,
-      modelVersion: demoMode ? 'Demo Mode (Pattern-Based)' : 'Claude 4 Sonnet',
+      modelVersion,
+      provider: provider.id,
       isDemoMode: demoMode,
       linesAnalyzed,
+      chunks: chunkCount,
+      discardedIssues: aiResponse.discardedIssues ?? 0,
+      suppressedIssues: suppressed.length,
+      guidelinesId: guideline?.id,
+      diff: changedLines
+        ? { changedLines: changedLines.length, contextIssuesFiltered }
+        : undefined,
     },
+    appliedConfig: projectConfig,
   };
 
-  // Step 11: Cache the result (only for non-demo mode)
+  // Step 12: Cache the result (only for model-backed providers)
   if (!demoMode) {
-    analysisCache.set(codeToAnalyze, language, reviewTypes, result);
+    analysisCache.set(codeToAnalyze, language, reviewTypes, result, cacheScope);
+  }
+
+  return withBaseline(result);
+}
+
+/**
+ * Parses a diff into per-file review inputs, skipping files that only remove code
+ */
+function getDiffReviewInputs(diff: string): DiffReviewInput[] {
+  return parseUnifiedDiff(diff)
+    .map(buildDiffReviewInput)
+    .filter((input): input is DiffReviewInput => input !== null);
+}
+
+/**
+ * Maps issues of a reviewed hunk set back onto the changed file
+ */
+function toDiffIssue(issue: CodeIssue, input: DiffReviewInput): CodeIssue {
+  return {
+    ...issue,
+    line: toFileLine(input, issue.line),
+    file: input.path,
+    fix: toDiffFix(issue.fix, input),
+  };
+}
+
+/**
+ * Maps a fix onto the changed file
+ * Fixes that span a hunk separator or leave the reviewed code cannot be mapped and are dropped.
+ */
+function toDiffFix(fix: IssueFix | undefined, input: DiffReviewInput): IssueFix | undefined {
+  if (!fix || fix.endLine > input.lineMap.length) {
+    return undefined;
+  }
+
+  const mapped = input.lineMap.slice(fix.startLine - 1, fix.endLine);
+  if (mapped.some((line) => line === null)) {
+    return undefined;
+  }
+
+  return { ...fix, startLine: mapped[0] as number, endLine: mapped[mapped.length - 1] as number };
+}
+
+/**
+ * Reviews each file of a diff on its added lines and merges the results
+ * A diff touching a single file yields that file's result directly.
+ */
+async function analyzeDiff(
+  config: ReviewConfig,
+  inputs: DiffReviewInput[],
+  options: AnalyzeOptions
+): Promise<AnalysisResult> {
+  const startTime = Date.now();
+  const files: AnalyzedFileResult[] = [];
+  const scoring = config.projectConfig?.scoring;
+
+  // Baseline issues carry file lines, so they are compared after mapping
+  const baseline = options.baseline ?? resolveBaseline(config);
+
+  for (const input of inputs) {
+    const extensionLanguage = getLanguageFromExtension(input.path);
+    const fileBaseline = baseline && {
+      id: baseline.id,
+      issues: getBaselineIssuesForFile(baseline.issues, input.path),
+    };
+    const baselineFingerprints = getBaselineFingerprints(fileBaseline?.issues ?? []);
+
+    const result = await analyzeCode(
+      {
+        ...config,
+        code: input.code,
+        inputType: 'code',
+        language: extensionLanguage !== 'auto' ? extensionLanguage : config.language,
+        baseline: undefined,
+        baselineId: undefined,
+      },
+      {
+        changedLines: input.changedLines,
+        onIssue:
+          options.onIssue &&
+          ((issue) => {
+            if (!issue.fingerprint || !baselineFingerprints.has(issue.fingerprint)) {
+              options.onIssue?.(toDiffIssue(issue, input));
+            }
+          }),
+      }
+    );
+
+    const mapped: AnalysisResult = {
+      ...result,
+      issues: result.issues.map((issue) => toDiffIssue(issue, input)),
+      suppressedIssues: result.suppressedIssues?.map((issue) => toDiffIssue(issue, input)),
+    };
+    files.push({
+      fileName: input.path,
+      status: 'ok',
+      result: fileBaseline ? applyBaseline(mapped, fileBaseline, scoring, countLogicalLines(input.code)) : mapped,
+    });
+  }
+
+  if (files.length === 1) {
+    return files[0].result;
+  }
+
+  const results = files.map((f) => f.result);
+  const issues = results.flatMap((r) => r.issues);
+  const suppressedIssues = results.flatMap((r) => r.suppressedIssues ?? []);
+  const score = calculateScore(issues, {
+    profile: scoring?.profile,
+    weights: scoring?.weights,
+    logicalLines: inputs.reduce((total, input) => total + countLogicalLines(input.code), 0),
+  });
+  const sum = (pick: (r: AnalysisResult) => number | undefined) =>
+    results.reduce((total, r) => total + (pick(r) ?? 0), 0);
+
+  // The least confident file bounds the confidence of the whole review
+  const confidence = results.reduce((lowest, r) =>
+    r.confidence.overall < lowest.confidence.overall ? r : lowest
+  ).confidence;
+
+  return {
+    issues,
+    metrics: calculateMetrics(issues),
+    summary: `Reviewed changes in ${files.length} files. ${files
+      .map((f) => `${f.fileName}: ${f.result.summary}`)
+      .join(' ')}`,
+    score,
+    grade: getGrade(score, scoring?.gradeThresholds),
+    scoringProfile: results[0].scoringProfile,
+    reviewTypes: results[0].reviewTypes,
+    language: results[0].language,
+    timestamp: new Date(),
+    confidence,
+    suppressedIssues: suppressedIssues.length > 0 ? suppressedIssues : undefined,
+    metadata: {
+      analysisTimeMs: Date.now() - startTime,
+      modelVersion: results[0].metadata.modelVersion,
+      provider: results[0].metadata.provider,
+      isDemoMode: results[0].metadata.isDemoMode,
+      linesAnalyzed: sum((r) => r.metadata.linesAnalyzed),
+      fromCache: results.every((r) => r.metadata.fromCache),
+      discardedIssues: sum((r) => r.metadata.discardedIssues),
+      suppressedIssues: suppressedIssues.length,
+      guidelinesId: results[0].metadata.guidelinesId,
+      diff: {
+        changedLines: sum((r) => r.metadata.diff?.changedLines),
+        contextIssuesFiltered: sum((r) => r.metadata.diff?.contextIssuesFiltered),
+      },
+    },
+    files,
+    appliedConfig: config.projectConfig,
+    baseline: baseline && {
+      baselineId: baseline.id,
+      newIssues: issues.length,
+      existingIssues: results.flatMap((r) => r.baseline?.existingIssues ?? []),
+      fixedIssues: results.flatMap((r) => r.baseline?.fixedIssues ?? []),
+    },
+  };
+}
+
+/**
+ * Validates the baseline a review refers to
+ */
+function validateBaselineReference(config: Pick<ReviewConfig, 'baseline' | 'baselineId'>): string[] {
+  if (config.baseline !== undefined && config.baselineId !== undefined) {
+    return ['Provide either a baseline or a baselineId, not both'];
+  }
+  if (config.baselineId !== undefined && !baselineStore.has(config.baselineId)) {
+    return [`Baseline "${config.baselineId}" not found`];
   }
+  return validateBaseline(config.baseline);
+}
+
+/**
+ * Validates the settings single-file and multi-file reviews share: provider,
+ * context, guidelines, rule overrides, project configuration and baseline
+ */
+export function validateReviewSettings(
+  config: Pick<
+    Partial<ReviewConfig>,
+    'provider' | 'context' | 'guidelinesId' | 'rules' | 'projectConfig' | 'baseline' | 'baselineId'
+  >
+): string[] {
+  const errors: string[] = [];
 
-  return result;
+  if (config.provider !== undefined && !isProviderId(config.provider)) {
+    errors.push(`Unknown analysis provider "${config.provider}"`);
+  }
+
+  if (config.context !== undefined && typeof config.context !== 'string') {
+    errors.push('Context must be a string');
+  } else if (config.context && config.context.length > MAX_CONTEXT_LENGTH) {
+    errors.push(`Context is too long (maximum ${MAX_CONTEXT_LENGTH.toLocaleString()} characters)`);
+  }
+
+  if (config.guidelinesId && !guidelineStore.has(config.guidelinesId)) {
+    errors.push(`Guideline "${config.guidelinesId}" not found`);
+  }
+
+  errors.push(...ruleRegistry.validateOverrides(config.rules));
+  errors.push(...validateProjectConfig(config.projectConfig));
+  if (typeof config.projectConfig?.context === 'string' && config.projectConfig.context.length > MAX_CONTEXT_LENGTH) {
+    errors.push(`Project context is too long (maximum ${MAX_CONTEXT_LENGTH.toLocaleString()} characters)`);
+  }
+
+  errors.push(...validateBaselineReference(config));
+
+  return errors;
 }
 
 /**
@@ -123,14 +557,30 @@ export function validateReviewConfig(config: Partial<ReviewConfig>): {
     errors.push('Code is required');
   }
 
-  if (config.code && config.code.length > 50000) {
-    errors.push('Code is too long (maximum 50,000 characters)');
+  if (config.code && config.code.length > MAX_CODE_LENGTH) {
+    errors.push(`Code is too long (maximum ${MAX_CODE_LENGTH.toLocaleString()} characters)`);
   }
 
   if (config.reviewTypes && config.reviewTypes.length === 0) {
     errors.push('At least one review type must be selected');
   }
 
+  if (config.fileName !== undefined && typeof config.fileName !== 'string') {
+    errors.push('File name must be a string');
+  }
+
+  errors.push(...validateReviewSettings(config));
+
+  // A diff with hunks must add something to review
+  if (
+    config.code &&
+    (config.inputType === 'diff' || isGitDiff(config.code)) &&
+    parseUnifiedDiff(config.code).length > 0 &&
+    getDiffReviewInputs(config.code).length === 0
+  ) {
+    errors.push('The diff does not add any lines to review');
+  }
+
   // Validate that input appears to be code
   if (config.code && config.code.trim().length > 0) {
     if (!isValidCode(config.code)) {
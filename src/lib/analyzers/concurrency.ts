@@ -0,0 +1,29 @@
+/**
+ * Bounded concurrency for provider calls
+ *
+ * Shared by multi-file analysis, which analyzes several files at once, and
+ * chunked analysis, which reviews several parts of one file at once.
+ */
+
+/**
+ * Runs a task for every item with at most `limit` running at once
+ * Results keep the order of the items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
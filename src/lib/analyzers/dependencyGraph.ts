@@ -0,0 +1,666 @@
+/**
+ * Module Dependency Graph
+ *
+ * Resolves the imports between the files of a multi-file analysis into a
+ * graph, and derives import cycles and coupling metrics from it. Only imports
+ * of other analyzed files count: packages, the standard library and files
+ * outside the analysis are left out.
+ */
+
+import ts from 'typescript';
+import {
+  CodeIssue,
+  DependencyEdge,
+  DependencyGraph,
+  FileInput,
+  IssueLocation,
+  ModuleCoupling,
+  ProgrammingLanguage,
+} from '@/types';
+import { getLanguageFromExtension } from '@/utils/fileUtils';
+import { lineAtOffset } from '../rules/textMatch';
+import { forEachDescendant, getNodeLine, parseSource, supportsSyntaxTree } from '../rules/syntaxTree';
+
+/**
+ * Number of analyzed files a file may import before it is reported as overly coupled
+ */
+export const MAX_FAN_OUT = 7;
+
+interface SourceFile {
+  name: string;
+
+  /** Name with forward slashes and without a leading ./ */
+  path: string;
+
+  content: string;
+  language: ProgrammingLanguage;
+}
+
+/**
+ * An import statement and the analyzed files it resolves to
+ */
+interface ImportReference {
+  line: number;
+  targets: string[];
+}
+
+type ImportResolver = (file: SourceFile, project: ProjectIndex) => ImportReference[];
+
+function normalizePath(name: string): string {
+  return name.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1).replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Joins path segments, resolving . and .. segments
+ */
+function joinPath(...parts: string[]): string {
+  const segments: string[] = [];
+  for (const segment of parts.join('/').split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+/**
+ * Lookups over the analyzed files
+ */
+class ProjectIndex {
+  private readonly paths: Set<string>;
+  private readonly namespaces = new Map<string, string[]>();
+
+  constructor(readonly files: SourceFile[]) {
+    this.paths = new Set(files.map((file) => file.path));
+  }
+
+  has(path: string): boolean {
+    return this.paths.has(path);
+  }
+
+  /**
+   * Files at the path or at the path below some directory, nearest to the root first
+   */
+  withSuffix(path: string): string[] {
+    return this.files
+      .map((file) => file.path)
+      .filter((candidate) => candidate === path || candidate.endsWith(`/${path}`))
+      .sort((a, b) => a.length - b.length);
+  }
+
+  ofLanguage(language: ProgrammingLanguage): SourceFile[] {
+    return this.files.filter((file) => file.language === language);
+  }
+
+  /**
+   * Packages (Java) or namespaces (C#) a file declares
+   */
+  declaredNamespaces(file: SourceFile, pattern: RegExp): string[] {
+    let declared = this.namespaces.get(file.path);
+    if (!declared) {
+      declared = Array.from(file.content.matchAll(pattern), (match) => match[1]);
+      this.namespaces.set(file.path, declared);
+    }
+    return declared;
+  }
+}
+
+// ============================================================================
+// JavaScript / TypeScript
+// ============================================================================
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Import aliases of the src directory, as set up by most bundler configurations
+ */
+const SCRIPT_PATH_ALIAS = /^[@~]\//;
+
+/**
+ * Whether an identifier is used only as a type where it appears: in a type
+ * annotation, an interface or a type alias, but not in a class `extends`
+ */
+function isTypePosition(node: ts.Node): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isExpressionWithTypeArguments(current)) {
+      const clause = current.parent;
+      return !(ts.isHeritageClause(clause) && clause.token === ts.SyntaxKind.ExtendsKeyword && ts.isClassLike(clause.parent));
+    }
+    if (ts.isTypeNode(current) || ts.isInterfaceDeclaration(current) || ts.isTypeAliasDeclaration(current)) {
+      return true;
+    }
+    if (ts.isStatement(current) || ts.isExpression(current)) {
+      return false;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether the compiler erases an import: `import type`, imports of type-only
+ * names, or imports whose names the file only uses as types (as TypeScript
+ * does unless `verbatimModuleSyntax` is set)
+ */
+function isErasedImport(declaration: ts.ImportDeclaration, sourceFile: ts.SourceFile): boolean {
+  const clause = declaration.importClause;
+  if (!clause) return false;
+  if (clause.isTypeOnly) return true;
+
+  const bindings = clause.namedBindings;
+  const names: ts.Identifier[] = [];
+  if (clause.name) names.push(clause.name);
+  if (bindings && ts.isNamespaceImport(bindings)) names.push(bindings.name);
+  if (bindings && ts.isNamedImports(bindings)) {
+    names.push(...bindings.elements.filter((element) => !element.isTypeOnly).map((element) => element.name));
+    if (names.length === 0) return bindings.elements.length > 0;
+  }
+  if (names.length === 0) return false;
+
+  // Unused imports still count, as they are still dependencies in the source
+  const imported = new Set(names.map((name) => name.text));
+  let usedAsType = false;
+  let usedAsValue = false;
+  forEachDescendant(sourceFile, (node) => {
+    if (usedAsValue || !ts.isIdentifier(node) || !imported.has(node.text)) return;
+    if (ts.findAncestor(node, (ancestor) => ancestor === declaration)) return;
+    if (isTypePosition(node)) {
+      usedAsType = true;
+    } else {
+      usedAsValue = true;
+    }
+  });
+  return usedAsType && !usedAsValue;
+}
+
+function isErasedExport(declaration: ts.ExportDeclaration): boolean {
+  const clause = declaration.exportClause;
+  return (
+    declaration.isTypeOnly ||
+    (!!clause && ts.isNamedExports(clause) && clause.elements.length > 0 && clause.elements.every((e) => e.isTypeOnly))
+  );
+}
+
+/**
+ * Module specifiers a script loads at runtime: imports, re-exports,
+ * `require` and dynamic `import()`. Imports the compiler erases cannot form
+ * a runtime cycle and are left out.
+ */
+function getRuntimeSpecifiers(sourceFile: ts.SourceFile): ts.Expression[] {
+  const specifiers: ts.Expression[] = [];
+  forEachDescendant(sourceFile, (node) => {
+    if (ts.isImportDeclaration(node)) {
+      if (!isErasedImport(node, sourceFile)) specifiers.push(node.moduleSpecifier);
+    } else if (ts.isExportDeclaration(node)) {
+      if (node.moduleSpecifier && !isErasedExport(node)) specifiers.push(node.moduleSpecifier);
+    } else if (ts.isImportEqualsDeclaration(node)) {
+      if (!node.isTypeOnly && ts.isExternalModuleReference(node.moduleReference)) {
+        specifiers.push(node.moduleReference.expression);
+      }
+    } else if (
+      ts.isCallExpression(node) &&
+      node.arguments.length > 0 &&
+      (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(node.expression) && node.expression.text === 'require'))
+    ) {
+      specifiers.push(node.arguments[0]);
+    }
+  });
+  return specifiers;
+}
+
+function resolveScriptImports(file: SourceFile, project: ProjectIndex): ImportReference[] {
+  if (!supportsSyntaxTree(file.language)) return [];
+
+  const sourceFile = parseSource(file.content, file.language);
+  return getRuntimeSpecifiers(sourceFile)
+    .filter(ts.isStringLiteralLike)
+    .map((specifier) => ({
+      line: getNodeLine(sourceFile, specifier),
+      targets: resolveScriptSpecifier(specifier.text, file.path, project),
+    }));
+}
+
+function resolveScriptSpecifier(specifier: string, from: string, project: ProjectIndex): string[] {
+  let base: string;
+  let lookup: (path: string) => string[];
+  if (specifier.startsWith('.')) {
+    base = joinPath(dirname(from), specifier);
+    lookup = (path) => (project.has(path) ? [path] : []);
+  } else if (SCRIPT_PATH_ALIAS.test(specifier)) {
+    base = joinPath(specifier.slice(2));
+    lookup = (path) => project.withSuffix(path).slice(0, 1);
+  } else {
+    return [];
+  }
+  if (!base) return [];
+
+  // ES module imports of TypeScript files name the emitted .js file
+  const stem = base.replace(/\.[cm]?jsx?$/, '');
+  const candidates = [
+    base,
+    ...SCRIPT_EXTENSIONS.map((extension) => `${stem}${extension}`),
+    ...SCRIPT_EXTENSIONS.map((extension) => `${base}/index${extension}`),
+  ];
+  for (const candidate of candidates) {
+    const found = lookup(candidate);
+    if (found.length > 0) return found;
+  }
+  return [];
+}
+
+// ============================================================================
+// Python
+// ============================================================================
+
+const PYTHON_MODULE = String.raw`[\w.]+(?:[ \t]+as[ \t]+\w+)?`;
+const PYTHON_IMPORT = new RegExp(String.raw`^[ \t]*import[ \t]+(${PYTHON_MODULE}(?:[ \t]*,[ \t]*${PYTHON_MODULE})*)`, 'gm');
+const PYTHON_FROM_IMPORT = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n#]+)/gm;
+
+function importedNames(list: string): string[] {
+  return list
+    .replace(/[()]/g, '')
+    .split(',')
+    .map((name) => name.trim().split(/\s+as\s+/)[0].trim())
+    .filter((name) => name.length > 0 && name !== '*');
+}
+
+function resolvePythonImports(file: SourceFile, project: ProjectIndex): ImportReference[] {
+  const references: ImportReference[] = [];
+
+  for (const match of file.content.matchAll(PYTHON_IMPORT)) {
+    references.push({
+      line: lineAtOffset(file.content, match.index ?? 0),
+      targets: importedNames(match[1]).flatMap((moduleName) => resolvePythonModule(moduleName, file.path, project)),
+    });
+  }
+
+  for (const match of file.content.matchAll(PYTHON_FROM_IMPORT)) {
+    const moduleName = match[1];
+    const separator = moduleName.endsWith('.') ? '' : '.';
+    // `from package import module` imports the module; otherwise the names live in the package itself
+    const submodules = importedNames(match[2]).flatMap((name) =>
+      resolvePythonModule(`${moduleName}${separator}${name}`, file.path, project)
+    );
+    references.push({
+      line: lineAtOffset(file.content, match.index ?? 0),
+      targets: submodules.length > 0 ? submodules : resolvePythonModule(moduleName, file.path, project),
+    });
+  }
+
+  return references.sort((a, b) => a.line - b.line);
+}
+
+function resolvePythonModule(moduleName: string, from: string, project: ProjectIndex): string[] {
+  const level = moduleName.match(/^\.*/)?.[0].length ?? 0;
+  const modulePath = moduleName.slice(level).split('.').filter(Boolean).join('/');
+
+  if (level > 0) {
+    let directory = dirname(from);
+    for (let i = 1; i < level; i++) {
+      directory = dirname(directory);
+    }
+    const base = joinPath(directory, modulePath);
+    const candidates = modulePath ? [`${base}.py`, joinPath(base, '__init__.py')] : [joinPath(base, '__init__.py')];
+    return candidates.filter((candidate) => project.has(candidate)).slice(0, 1);
+  }
+
+  if (!modulePath) return [];
+  for (const candidate of [`${modulePath}.py`, `${modulePath}/__init__.py`]) {
+    const found = project.withSuffix(candidate);
+    if (found.length > 0) return found.slice(0, 1);
+  }
+  return [];
+}
+
+// ============================================================================
+// Go
+// ============================================================================
+
+const GO_IMPORT = /^[ \t]*import[ \t]+(?:[\w.]+[ \t]+)?"([^"]+)"/gm;
+const GO_IMPORT_BLOCK = /^[ \t]*import[ \t]*\(([^)]*)\)/gm;
+const GO_IMPORT_SPEC = /^[ \t]*(?:[\w.]+[ \t]+)?"([^"]+)"/gm;
+
+function resolveGoImports(file: SourceFile, project: ProjectIndex): ImportReference[] {
+  const imports: { path: string; offset: number }[] = [];
+
+  for (const match of file.content.matchAll(GO_IMPORT)) {
+    imports.push({ path: match[1], offset: match.index ?? 0 });
+  }
+  for (const block of file.content.matchAll(GO_IMPORT_BLOCK)) {
+    const blockStart = (block.index ?? 0) + block[0].indexOf('(') + 1;
+    for (const spec of block[1].matchAll(GO_IMPORT_SPEC)) {
+      imports.push({ path: spec[1], offset: blockStart + (spec.index ?? 0) });
+    }
+  }
+
+  return imports
+    .map(({ path, offset }) => ({
+      line: lineAtOffset(file.content, offset),
+      targets: resolveGoPackage(path, dirname(file.path), project),
+    }))
+    .sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Files of the package an import path names; a directory matches when the
+ * import path ends with it, since the module path is not known
+ */
+function resolveGoPackage(importPath: string, fromDirectory: string, project: ProjectIndex): string[] {
+  const packageFiles = project.ofLanguage('go').filter((file) => !file.path.endsWith('_test.go'));
+  const directory = Array.from(new Set(packageFiles.map((file) => dirname(file.path))))
+    .filter((candidate) => candidate && (importPath === candidate || importPath.endsWith(`/${candidate}`)))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!directory || directory === fromDirectory) return [];
+  return packageFiles.filter((file) => dirname(file.path) === directory).map((file) => file.path);
+}
+
+// ============================================================================
+// Java
+// ============================================================================
+
+const JAVA_PACKAGE = /^[ \t]*package[ \t]+([\w.]+)[ \t]*;/gm;
+const JAVA_IMPORT = /^[ \t]*import[ \t]+(static[ \t]+)?([\w.]+?)(\.\*)?[ \t]*;/gm;
+
+function resolveJavaImports(file: SourceFile, project: ProjectIndex): ImportReference[] {
+  const javaFiles = project.ofLanguage('java');
+  const packageOf = (source: SourceFile) => project.declaredNamespaces(source, JAVA_PACKAGE)[0] ?? '';
+  const types = new Map(
+    javaFiles.map((source) => {
+      const pkg = packageOf(source);
+      return [pkg ? `${pkg}.${basename(source.path)}` : basename(source.path), source.path];
+    })
+  );
+
+  // A name may end in a nested class or, for static imports, a member of the type
+  const resolveType = (name: string): string[] => {
+    const segments = name.split('.');
+    for (let length = segments.length; length > 1 && length >= segments.length - 2; length--) {
+      const path = types.get(segments.slice(0, length).join('.'));
+      if (path) return [path];
+    }
+    return [];
+  };
+
+  return Array.from(file.content.matchAll(JAVA_IMPORT), (match) => {
+    const [, isStatic, name, wildcard] = match;
+    let targets: string[];
+    if (wildcard && !isStatic) {
+      targets = javaFiles.filter((source) => packageOf(source) === name).map((source) => source.path);
+    } else {
+      targets = resolveType(name);
+    }
+    return { line: lineAtOffset(file.content, match.index ?? 0), targets };
+  });
+}
+
+// ============================================================================
+// C#
+// ============================================================================
+
+const CSHARP_NAMESPACE = /^[ \t]*namespace[ \t]+([\w.]+)/gm;
+const CSHARP_USING = /^[ \t]*(?:global[ \t]+)?using[ \t]+(?:static[ \t]+)?(?:\w+[ \t]*=[ \t]*)?([\w.]+)[ \t]*;/gm;
+
+function resolveCSharpImports(file: SourceFile, project: ProjectIndex): ImportReference[] {
+  const csharpFiles = project.ofLanguage('csharp');
+  const inNamespace = (namespace: string) =>
+    csharpFiles.filter((source) => project.declaredNamespaces(source, CSHARP_NAMESPACE).includes(namespace));
+
+  return Array.from(file.content.matchAll(CSHARP_USING), (match) => {
+    const name = match[1];
+    let sources = inNamespace(name);
+    if (sources.length === 0 && name.includes('.')) {
+      // using static and aliases name a type, found by its file name
+      const typeName = name.slice(name.lastIndexOf('.') + 1);
+      sources = inNamespace(name.slice(0, name.lastIndexOf('.'))).filter(
+        (source) => basename(source.path) === typeName
+      );
+    }
+    return {
+      line: lineAtOffset(file.content, match.index ?? 0),
+      targets: sources.map((source) => source.path),
+    };
+  });
+}
+
+// ============================================================================
+// C / C++
+// ============================================================================
+
+const CPP_INCLUDE = /^[ \t]*#[ \t]*include[ \t]*"([^"]+)"/gm;
+
+function resolveCppImports(file: SourceFile, project: ProjectIndex): ImportReference[] {
+  return Array.from(file.content.matchAll(CPP_INCLUDE), (match) => {
+    const relative = joinPath(dirname(file.path), match[1]);
+    return {
+      line: lineAtOffset(file.content, match.index ?? 0),
+      targets: project.has(relative) ? [relative] : project.withSuffix(joinPath(match[1])).slice(0, 1),
+    };
+  });
+}
+
+/**
+ * How the imports of each language are resolved; Rust modules are not resolved
+ */
+const IMPORT_RESOLVERS: Record<ProgrammingLanguage, ImportResolver | null> = {
+  typescript: resolveScriptImports,
+  javascript: resolveScriptImports,
+  python: resolvePythonImports,
+  java: resolveJavaImports,
+  csharp: resolveCSharpImports,
+  go: resolveGoImports,
+  rust: null,
+  cpp: resolveCppImports,
+  auto: null,
+};
+
+/**
+ * Build the dependency graph of the analyzed files
+ */
+export function buildDependencyGraph(files: FileInput[]): DependencyGraph {
+  const sources: SourceFile[] = files.map((file) => ({
+    name: file.name,
+    path: normalizePath(file.name),
+    content: file.content,
+    language: file.language === 'auto' ? getLanguageFromExtension(file.name) : file.language,
+  }));
+  const project = new ProjectIndex(sources);
+  const names = new Map(sources.map((source) => [source.path, source.name]));
+
+  const edges = new Map<string, DependencyEdge>();
+  for (const source of sources) {
+    const resolve = IMPORT_RESOLVERS[source.language];
+    if (!resolve) continue;
+
+    for (const reference of resolve(source, project)) {
+      for (const target of reference.targets) {
+        const key = `${source.path}\n${target}`;
+        if (target !== source.path && !edges.has(key)) {
+          edges.set(key, { from: source.name, to: names.get(target) ?? target, line: reference.line });
+        }
+      }
+    }
+  }
+
+  const edgeList = Array.from(edges.values());
+  return {
+    nodes: sources.map((source) => getCoupling(source.name, edgeList)),
+    edges: edgeList,
+    cycles: findCycles(
+      sources.map((source) => source.name),
+      edgeList
+    ),
+  };
+}
+
+function getCoupling(file: string, edges: DependencyEdge[]): ModuleCoupling {
+  const fanIn = edges.filter((edge) => edge.to === file).length;
+  const fanOut = edges.filter((edge) => edge.from === file).length;
+  const total = fanIn + fanOut;
+  return {
+    file,
+    fanIn,
+    fanOut,
+    instability: total > 0 ? Math.round((fanOut / total) * 100) / 100 : 0,
+  };
+}
+
+/**
+ * One cycle per group of files that depend on each other (a strongly
+ * connected component), the shortest one through the first file of the group
+ */
+function findCycles(files: string[], edges: DependencyEdge[]): string[][] {
+  const successors = new Map<string, string[]>(files.map((file) => [file, []]));
+  for (const edge of edges) {
+    successors.get(edge.from)?.push(edge.to);
+  }
+
+  const order = new Map(files.map((file, index) => [file, index]));
+  return findStronglyConnected(files, successors)
+    .filter((component) => component.length > 1)
+    .map((component) => {
+      const members = new Set(component);
+      const start = component.reduce((first, file) => (order.get(file)! < order.get(first)! ? file : first));
+      return shortestCycle(start, members, successors);
+    })
+    .sort((a, b) => order.get(a[0])! - order.get(b[0])!);
+}
+
+/**
+ * Tarjan's algorithm
+ */
+function findStronglyConnected(files: string[], successors: Map<string, string[]>): string[][] {
+  const components: string[][] = [];
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+
+  const visit = (file: string) => {
+    indexes.set(file, indexes.size);
+    lowLinks.set(file, indexes.get(file)!);
+    stack.push(file);
+    onStack.add(file);
+
+    for (const next of successors.get(file) ?? []) {
+      if (!indexes.has(next)) {
+        visit(next);
+        lowLinks.set(file, Math.min(lowLinks.get(file)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(file, Math.min(lowLinks.get(file)!, indexes.get(next)!));
+      }
+    }
+
+    if (lowLinks.get(file) === indexes.get(file)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== file);
+      components.push(component);
+    }
+  };
+
+  for (const file of files) {
+    if (!indexes.has(file)) visit(file);
+  }
+  return components;
+}
+
+/**
+ * Breadth-first search from a file back to itself within its component
+ */
+function shortestCycle(start: string, members: Set<string>, successors: Map<string, string[]>): string[] {
+  const previous = new Map<string, string>();
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+    for (const next of successors.get(file) ?? []) {
+      if (next === start) {
+        const cycle = [file];
+        while (cycle[0] !== start) {
+          cycle.unshift(previous.get(cycle[0])!);
+        }
+        return cycle;
+      }
+      if (members.has(next) && !previous.has(next)) {
+        previous.set(next, file);
+        queue.push(next);
+      }
+    }
+  }
+  return [start];
+}
+
+/**
+ * Issues for import cycles and overly coupled files
+ */
+export function detectDependencyIssues(graph: DependencyGraph): CodeIssue[] {
+  const importLine = (from: string, to: string) =>
+    graph.edges.find((edge) => edge.from === from && edge.to === to)?.line ?? 0;
+
+  const cycleIssues = graph.cycles.map((cycle): CodeIssue => {
+    const locations = cycle.map(
+      (file, index): IssueLocation => ({
+        file,
+        startLine: importLine(file, cycle[(index + 1) % cycle.length]),
+        role: index === 0 ? 'primary' : 'import',
+      })
+    );
+    return {
+      line: locations[0].startLine,
+      severity: 'warning',
+      category: 'complexity',
+      message: `Import cycle: ${[...cycle, cycle[0]].join(' → ')}`,
+      explanation:
+        'Files that import each other can only be understood, tested and changed together, ' +
+        'and their load order becomes fragile.',
+      suggestion:
+        'Move what the files share into a module of its own, ' +
+        'or invert one of the imports by depending on an interface.',
+      relatedFiles: cycle,
+      locations,
+      ruleId: 'import-cycle',
+    };
+  });
+
+  const couplingIssues = graph.nodes
+    .filter((node) => node.fanOut > MAX_FAN_OUT)
+    .map((node): CodeIssue => {
+      const lines = graph.edges.filter((edge) => edge.from === node.file).map((edge) => edge.line);
+      const location: IssueLocation = {
+        file: node.file,
+        startLine: Math.min(...lines),
+        endLine: Math.max(...lines),
+        role: 'primary',
+      };
+      return {
+        line: location.startLine,
+        severity: 'suggestion',
+        category: 'complexity',
+        message: `Imports ${node.fanOut} of the analyzed files (instability ${node.instability})`,
+        explanation: 'A file that depends on many others has to change whenever any of them does.',
+        suggestion: 'Split the file along its responsibilities, or depend on fewer, more abstract modules.',
+        relatedFiles: [node.file],
+        locations: [location],
+        ruleId: 'high-coupling',
+      };
+    });
+
+  return [...cycleIssues, ...couplingIssues];
+}
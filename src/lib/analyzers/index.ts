@@ -1,6 +1,16 @@
 /**
  * Central export point for analyzers
  */
-export { analyzeCode, validateReviewConfig } from './codeAnalyzer';
-export { analyzeMultipleFiles, validateMultiFileConfig } from './multiFileAnalyzer';
-export type { FileInput, MultiFileConfig } from './multiFileAnalyzer';
+export { analyzeCode, validateReviewConfig, MAX_CODE_LENGTH } from './codeAnalyzer';
+export type { AnalyzeOptions } from './codeAnalyzer';
+export {
+  analyzeMultipleFiles,
+  validateMultiFileConfig,
+  MULTI_FILE_LIMITS,
+  DEFAULT_CONCURRENCY,
+  MAX_CONCURRENCY,
+} from './multiFileAnalyzer';
+export type { MultiFileConfig, MultiFileLimits, MultiFileAnalyzeOptions } from './multiFileAnalyzer';
+export { buildDependencyGraph, MAX_FAN_OUT } from './dependencyGraph';
+export { reviewPatch, validatePatchReviewConfig } from './patchReview';
+export type { PatchReviewConfig } from './patchReview';
@@ -1,66 +1,194 @@
 import {
   ReviewType,
-  ProgrammingLanguage,
+  AnalysisProviderId,
   FileAnalysisResult,
   MultiFileAnalysisResult,
   IssueMetrics,
   CodeIssue,
+  RuleOverrides,
+  ProjectConfig,
+  AnalysisResult,
+  AnalyzedFileResult,
+  FileInput,
 } from '@/types';
-import { analyzeCode } from './codeAnalyzer';
+import {
+  analyzeCode,
+  resolveBaseline,
+  validateReviewSettings,
+  MAX_CODE_LENGTH,
+} from './codeAnalyzer';
 import { getGrade } from '@/utils/scoring';
+import { isIgnoredFile, validateProjectConfig } from '@/utils/projectConfig';
+import { getBaselineIssuesForFile } from '@/utils/baseline';
+import { ConfigurationError, ProviderRateLimitedError, toFileAnalysisError } from '../errors';
+import { buildDependencyGraph, detectDependencyIssues } from './dependencyGraph';
+import { detectClones } from './cloneDetection';
+import { mapWithConcurrency } from './concurrency';
 
-export interface FileInput {
-  name: string;
-  content: string;
-  language: ProgrammingLanguage;
+/**
+ * How many files, and how much code, one multi-file analysis takes
+ */
+export interface MultiFileLimits {
+  maxFiles: number;
+
+  /** Total characters of code */
+  maxTotalSize: number;
 }
 
+/**
+ * Limits for files picked by hand
+ */
+export const MULTI_FILE_LIMITS: MultiFileLimits = {
+  maxFiles: 20,
+  maxTotalSize: 500000,
+};
+
+/**
+ * Files analyzed at the same time unless the request asks otherwise
+ */
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Most files analyzed at the same time, to stay within provider rate limits
+ */
+export const MAX_CONCURRENCY = 10;
+
 export interface MultiFileConfig {
   files: FileInput[];
   reviewTypes: ReviewType[];
+  provider?: AnalysisProviderId;
+  context?: string;
+  guidelinesId?: string;
+  rules?: RuleOverrides;
+  projectConfig?: ProjectConfig;
+  baseline?: AnalysisResult | MultiFileAnalysisResult;
+  baselineId?: string;
+
+  /** Files analyzed at the same time (default 4) */
+  concurrency?: number;
+}
+
+/**
+ * Failures that would repeat for every remaining file, so those are skipped
+ */
+function isFatalError(error: unknown): boolean {
+  return error instanceof ConfigurationError || error instanceof ProviderRateLimitedError;
+}
+
+/**
+ * Hooks for following and stopping a multi-file analysis
+ */
+export interface MultiFileAnalyzeOptions {
+  /** Called when a file starts being analyzed */
+  onFileStart?: (fileName: string) => void;
+
+  /** Called when a file was analyzed, failed or skipped */
+  onFileComplete?: (file: FileAnalysisResult) => void;
+
+  /** Once aborted, files not started yet are skipped; files in progress still finish */
+  signal?: AbortSignal;
 }
 
 /**
  * Analyzes multiple files and aggregates results
+ * Files matching the ignore patterns of the project configuration are skipped.
+ * A file that fails does not fail the others: it is reported with its error
+ * and the aggregates cover the files that were analyzed. Only when no file
+ * could be analyzed is the first error thrown.
  */
 export async function analyzeMultipleFiles(
-  config: MultiFileConfig
+  config: MultiFileConfig,
+  options: MultiFileAnalyzeOptions = {}
 ): Promise<MultiFileAnalysisResult> {
   const startTime = Date.now();
-  const fileResults: FileAnalysisResult[] = [];
-
-  // Analyze each file
-  for (const file of config.files) {
-    const result = await analyzeCode({
-      code: file.content,
-      language: file.language,
-      reviewTypes: config.reviewTypes,
-      inputType: 'code',
-    });
-
-    fileResults.push({
-      fileName: file.name,
-      result,
-    });
+  const files = config.files.filter((file) => !isIgnoredFile(file.name, config.projectConfig));
+  const ignoredFiles = config.files
+    .filter((file) => !files.includes(file))
+    .map((file) => file.name);
+  const baseline = resolveBaseline(config);
+  let fatal: { fileName: string; error: unknown } | undefined;
+  let firstError: unknown;
+
+  const analyzeFile = async (file: FileInput): Promise<FileAnalysisResult> => {
+    if (options.signal?.aborted) {
+      return {
+        fileName: file.name,
+        status: 'skipped',
+        error: { code: 'cancelled', message: 'The analysis was cancelled' },
+      };
+    }
+    if (fatal) {
+      const cause = toFileAnalysisError(fatal.error);
+      return {
+        fileName: file.name,
+        status: 'skipped',
+        error: { ...cause, message: `Not analyzed after ${fatal.fileName} failed: ${cause.message}` },
+      };
+    }
+
+    options.onFileStart?.(file.name);
+    try {
+      const result = await analyzeCode(
+        {
+          code: file.content,
+          language: file.language,
+          reviewTypes: config.reviewTypes,
+          inputType: 'code',
+          context: config.context,
+          guidelinesId: config.guidelinesId,
+          provider: config.provider,
+          rules: config.rules,
+          projectConfig: config.projectConfig,
+        },
+        {
+          // Each file is compared with the baseline issues of the same file
+          baseline: baseline && { id: baseline.id, issues: getBaselineIssuesForFile(baseline.issues, file.name) },
+        }
+      );
+      return { fileName: file.name, status: 'ok', result };
+    } catch (error) {
+      firstError ??= error;
+      if (isFatalError(error)) {
+        fatal ??= { fileName: file.name, error };
+      }
+      return { fileName: file.name, status: 'failed', error: toFileAnalysisError(error) };
+    }
+  };
+
+  const fileResults = await mapWithConcurrency(files, config.concurrency ?? DEFAULT_CONCURRENCY, async (file) => {
+    const fileResult = await analyzeFile(file);
+    options.onFileComplete?.(fileResult);
+    return fileResult;
+  });
+
+  const analyzedFiles = fileResults.filter((fr): fr is AnalyzedFileResult => fr.status === 'ok');
+  if (analyzedFiles.length === 0 && firstError !== undefined) {
+    throw firstError;
   }
+  const analyzedNames = new Set(analyzedFiles.map((fr) => fr.fileName));
+  const analyzedInputs = files.filter((file) => analyzedNames.has(file.name));
 
   // Aggregate metrics
-  const aggregateMetrics = aggregateFileMetrics(fileResults);
+  const aggregateMetrics = aggregateFileMetrics(analyzedFiles);
 
   // Calculate aggregate score (weighted average by lines)
-  const aggregateScore = calculateAggregateScore(fileResults);
+  const aggregateScore = calculateAggregateScore(analyzedFiles);
 
   // Get aggregate grade
-  const aggregateGrade = getGrade(aggregateScore);
+  const aggregateGrade = getGrade(aggregateScore, config.projectConfig?.scoring?.gradeThresholds);
 
   // Detect cross-file issues
-  const crossFileIssues = detectCrossFileIssues(config.files);
+  const dependencyGraph = buildDependencyGraph(analyzedInputs);
+  const crossFileIssues = [
+    ...detectClones(analyzedInputs, config.projectConfig?.clones),
+    ...detectDependencyIssues(dependencyGraph),
+  ];
 
   // Generate overall summary
   const overallSummary = generateOverallSummary(fileResults, aggregateScore, crossFileIssues);
 
   // Calculate total lines
-  const totalLinesAnalyzed = fileResults.reduce(
+  const totalLinesAnalyzed = analyzedFiles.reduce(
     (sum, fr) => sum + (fr.result.metadata.linesAnalyzed || 0),
     0
   );
@@ -71,19 +199,42 @@ export async function analyzeMultipleFiles(
     files: fileResults,
     aggregateScore,
     aggregateGrade,
+    scoringProfile: config.projectConfig?.scoring?.profile ?? 'legacy',
     aggregateMetrics,
     overallSummary,
     crossFileIssues,
     totalAnalysisTimeMs,
-    totalFiles: config.files.length,
+    totalFiles: analyzedFiles.length,
+    partial: analyzedFiles.length < fileResults.length ? true : undefined,
     totalLinesAnalyzed,
+    ignoredFiles: ignoredFiles.length > 0 ? ignoredFiles : undefined,
+    appliedConfig: config.projectConfig,
+    baseline: baseline && {
+      baselineId: baseline.id,
+      newIssues: aggregateMetrics.totalIssues,
+      existingIssues: labelFileIssues(analyzedFiles, (result) => result.baseline?.existingIssues),
+      fixedIssues: labelFileIssues(analyzedFiles, (result) => result.baseline?.fixedIssues),
+    },
+    dependencyGraph,
   };
 }
 
+/**
+ * Collects issues of every file, labeled with the file they belong to
+ */
+function labelFileIssues(
+  fileResults: AnalyzedFileResult[],
+  pick: (result: AnalysisResult) => CodeIssue[] | undefined
+): CodeIssue[] {
+  return fileResults.flatMap((fr) =>
+    (pick(fr.result) ?? []).map((issue) => ({ ...issue, file: issue.file ?? fr.fileName }))
+  );
+}
+
 /**
  * Aggregate metrics from multiple file results
  */
-function aggregateFileMetrics(fileResults: FileAnalysisResult[]): IssueMetrics {
+function aggregateFileMetrics(fileResults: AnalyzedFileResult[]): IssueMetrics {
   return fileResults.reduce(
     (acc, fr) => ({
       totalIssues: acc.totalIssues + fr.result.metrics.totalIssues,
@@ -98,7 +249,7 @@ function aggregateFileMetrics(fileResults: FileAnalysisResult[]): IssueMetrics {
 /**
  * Calculate weighted average score based on lines analyzed
  */
-function calculateAggregateScore(fileResults: FileAnalysisResult[]): number {
+function calculateAggregateScore(fileResults: AnalyzedFileResult[]): number {
   if (fileResults.length === 0) return 100;
 
   const totalLines = fileResults.reduce(
@@ -120,69 +271,6 @@ function calculateAggregateScore(fileResults: FileAnalysisResult[]): number {
   return Math.round(weightedSum / totalLines);
 }
 
-/**
- * Detect potential cross-file issues like duplicated code
- */
-function detectCrossFileIssues(files: FileInput[]): CodeIssue[] {
-  const issues: CodeIssue[] = [];
-
-  // Simple duplicate detection: check for identical function signatures or large code blocks
-  const codeBlocks = new Map<string, string[]>();
-
-  for (const file of files) {
-    const lines = file.content.split('\n');
-
-    // Extract meaningful code blocks (functions, classes)
-    const functionMatches = file.content.match(
-      /(?:function\s+\w+|(?:const|let|var)\s+\w+\s*=\s*(?:async\s*)?(?:function|\([^)]*\)\s*=>))/g
-    );
-
-    if (functionMatches) {
-      for (const match of functionMatches) {
-        const normalized = match.replace(/\s+/g, ' ').trim();
-        const existing = codeBlocks.get(normalized) || [];
-        existing.push(file.name);
-        codeBlocks.set(normalized, existing);
-      }
-    }
-
-    // Check for very similar multi-line blocks (5+ identical consecutive lines)
-    const blockSize = 5;
-    for (let i = 0; i <= lines.length - blockSize; i++) {
-      const block = lines
-        .slice(i, i + blockSize)
-        .map((l) => l.trim())
-        .filter((l) => l.length > 0)
-        .join('\n');
-
-      if (block.length > 50) {
-        // Only consider meaningful blocks
-        const existing = codeBlocks.get(block) || [];
-        if (!existing.includes(file.name)) {
-          existing.push(file.name);
-          codeBlocks.set(block, existing);
-        }
-      }
-    }
-  }
-
-  // Report duplicates
-  for (const [block, fileNames] of codeBlocks.entries()) {
-    if (fileNames.length > 1) {
-      issues.push({
-        line: 0,
-        severity: 'warning',
-        category: 'unnecessary',
-        message: `Potential code duplication detected across files: ${fileNames.join(', ')}`,
-        suggestion: 'Consider extracting shared code into a common module or utility.',
-        codeSnippet: block.substring(0, 100) + (block.length > 100 ? '...' : ''),
-      });
-    }
-  }
-
-  return issues;
-}
-
 /**
  * Generate an overall summary for multi-file analysis
  */
@@ -192,6 +280,19 @@ function generateOverallSummary(
   crossFileIssues: CodeIssue[]
 ): string {
   const parts: string[] = [];
+  const analyzedFiles = fileResults.filter((fr): fr is AnalyzedFileResult => fr.status === 'ok');
+
+  // Partial results come first, so the score is not mistaken for the whole codebase
+  if (analyzedFiles.length < fileResults.length) {
+    const failed = fileResults.filter((fr) => fr.status === 'failed');
+    const skipped = fileResults.length - analyzedFiles.length - failed.length;
+    parts.push(
+      `Partial results: ${analyzedFiles.length} of ${fileResults.length} files analyzed` +
+        (failed.length > 0 ? `; ${failed.map((fr) => fr.fileName).join(', ')} failed` : '') +
+        (skipped > 0 ? `; ${skipped} skipped` : '') +
+        '.'
+    );
+  }
 
   // Overall assessment
   if (aggregateScore >= 90) {
@@ -207,7 +308,7 @@ function generateOverallSummary(
   }
 
   // File breakdown
-  const criticalFiles = fileResults.filter((fr) => fr.result.score < 70);
+  const criticalFiles = analyzedFiles.filter((fr) => fr.result.score < 70);
   if (criticalFiles.length > 0) {
     parts.push(
       `Files needing attention: ${criticalFiles.map((f) => f.fileName).join(', ')}.`
@@ -225,7 +326,10 @@ function generateOverallSummary(
 /**
  * Validates multi-file configuration
  */
-export function validateMultiFileConfig(config: Partial<MultiFileConfig>): {
+export function validateMultiFileConfig(
+  config: Partial<MultiFileConfig>,
+  limits: MultiFileLimits = MULTI_FILE_LIMITS
+): {
   valid: boolean;
   errors: string[];
 } {
@@ -235,22 +339,22 @@ export function validateMultiFileConfig(config: Partial<MultiFileConfig>): {
     errors.push('At least one file is required');
   }
 
-  if (config.files && config.files.length > 20) {
-    errors.push('Maximum 20 files allowed');
+  if (config.files && config.files.length > limits.maxFiles) {
+    errors.push(`Maximum ${limits.maxFiles} files allowed`);
   }
 
   if (config.files) {
     const totalSize = config.files.reduce((sum, f) => sum + f.content.length, 0);
-    if (totalSize > 500000) {
-      errors.push('Total code size exceeds 500KB limit');
+    if (totalSize > limits.maxTotalSize) {
+      errors.push(`Total code size exceeds ${limits.maxTotalSize / 1000}KB limit`);
     }
 
     for (const file of config.files) {
       if (!file.content || file.content.trim().length === 0) {
         errors.push(`File "${file.name}" is empty`);
       }
-      if (file.content && file.content.length > 50000) {
-        errors.push(`File "${file.name}" exceeds 50KB limit`);
+      if (file.content && file.content.length > MAX_CODE_LENGTH) {
+        errors.push(`File "${file.name}" exceeds ${MAX_CODE_LENGTH / 1000}KB limit`);
       }
     }
   }
@@ -259,6 +363,28 @@ export function validateMultiFileConfig(config: Partial<MultiFileConfig>): {
     errors.push('At least one review type must be selected');
   }
 
+  if (
+    config.concurrency !== undefined &&
+    (typeof config.concurrency !== 'number' ||
+      !Number.isInteger(config.concurrency) ||
+      config.concurrency < 1 ||
+      config.concurrency > MAX_CONCURRENCY)
+  ) {
+    errors.push(`Concurrency must be an integer from 1 to ${MAX_CONCURRENCY}`);
+  }
+
+  errors.push(...validateReviewSettings(config));
+
+  // Ignore patterns are only safe to apply once the configuration is valid
+  if (
+    validateProjectConfig(config.projectConfig).length === 0 &&
+    config.files &&
+    config.files.length > 0 &&
+    config.files.every((file) => isIgnoredFile(file.name, config.projectConfig))
+  ) {
+    errors.push('Every file is ignored by the project configuration');
+  }
+
   return {
     valid: errors.length === 0,
     errors,
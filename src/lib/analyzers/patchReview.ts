@@ -0,0 +1,65 @@
+import { ProgrammingLanguage, ReviewConfig } from '@/types';
+import { parseUnifiedDiff } from '@/utils/diffParser';
+import {
+  ReviewPayload,
+  ReviewPayloadOptions,
+  buildReviewPayload,
+  validateReviewPayloadOptions,
+} from '@/utils/reviewPayload';
+import { analyzeCode, validateReviewConfig } from './codeAnalyzer';
+
+/**
+ * Configuration for reviewing a pull-request patch
+ */
+export interface PatchReviewConfig
+  extends Omit<ReviewConfig, 'code' | 'inputType' | 'language'>,
+    ReviewPayloadOptions {
+  /** Multi-file unified patch, as produced by `git diff base...head` */
+  patch: string;
+
+  /** Language of files whose extension does not tell (default: detected) */
+  language?: ProgrammingLanguage;
+}
+
+/**
+ * Reviews the changed hunks of every file in a patch and returns the review
+ * to post on the pull request
+ */
+export async function reviewPatch(config: PatchReviewConfig): Promise<ReviewPayload> {
+  const { patch, minSeverity, maxComments, requestChanges, ...reviewConfig } = config;
+
+  const result = await analyzeCode({
+    ...reviewConfig,
+    code: patch,
+    inputType: 'diff',
+    language: config.language ?? 'auto',
+  });
+
+  return buildReviewPayload(result, patch, { minSeverity, maxComments, requestChanges });
+}
+
+/**
+ * Validates a patch review configuration
+ */
+export function validatePatchReviewConfig(config: Partial<PatchReviewConfig>): {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+} {
+  if (typeof config.patch !== 'string' || config.patch.trim().length === 0) {
+    return { valid: false, errors: ['Patch is required'], warnings: [] };
+  }
+
+  if (parseUnifiedDiff(config.patch).length === 0) {
+    return {
+      valid: false,
+      errors: ['The patch has no hunks (expected a unified diff such as the output of git diff)'],
+      warnings: [],
+    };
+  }
+
+  const validation = validateReviewConfig({ ...config, code: config.patch, inputType: 'diff' });
+  const errors = [...validation.errors, ...validateReviewPayloadOptions(config as Record<string, unknown>)];
+
+  return { valid: errors.length === 0, errors, warnings: validation.warnings };
+}
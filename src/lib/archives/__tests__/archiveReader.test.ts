@@ -0,0 +1,170 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync, gzipSync } from 'zlib';
+import { DEFAULT_ARCHIVE_LIMITS, normalizeEntryPath, readArchive } from '../archiveReader';
+import { ArchiveTooLargeError, InvalidArchiveError } from '../../errors';
+
+interface ZipFile {
+  name: string;
+  content?: string;
+  deflate?: boolean;
+  /** Size written to the headers, when it should lie */
+  declaredSize?: number;
+}
+
+/**
+ * Builds a zip archive in memory
+ */
+function zip(files: ZipFile[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name);
+    const raw = Buffer.from(file.content ?? '');
+    const data = file.deflate ? deflateRawSync(raw) : raw;
+    const size = file.declaredSize ?? raw.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(file.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(file.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function tarHeader(name: string, size: number, type: string): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(name.slice(0, 100), 0);
+  header.write('0000644\0', 100);
+  header.write(`${size.toString(8).padStart(11, '0')}\0`, 124);
+  header.write(type, 156);
+  header.write('ustar\0', 257);
+  header.write('00', 263);
+
+  header.fill(' ', 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+  return header;
+}
+
+function tarData(content: Buffer): Buffer {
+  return Buffer.concat([content, Buffer.alloc((512 - (content.length % 512)) % 512)]);
+}
+
+/**
+ * Builds a tar archive; names over 100 characters get a GNU long-name entry
+ */
+function tar(files: { name: string; content?: string; type?: string }[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const file of files) {
+    const content = Buffer.from(file.content ?? '');
+    if (file.name.length > 100) {
+      const longName = Buffer.from(`${file.name}\0`);
+      blocks.push(tarHeader('././@LongLink', longName.length, 'L'), tarData(longName));
+    }
+    blocks.push(tarHeader(file.name, content.length, file.type ?? '0'), tarData(content));
+  }
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+describe('readArchive', () => {
+  it('should read stored and deflated zip entries, skipping directories', () => {
+    const entries = readArchive(
+      zip([
+        { name: 'repo/' },
+        { name: 'repo/src/a.ts', content: 'export const a = 1;' },
+        { name: 'repo/src/b.ts', content: 'export const b = 2;\n'.repeat(20), deflate: true },
+      ])
+    );
+
+    expect(entries.map((entry) => [entry.path, entry.content?.toString()])).toEqual([
+      ['repo/src/a.ts', 'export const a = 1;'],
+      ['repo/src/b.ts', 'export const b = 2;\n'.repeat(20)],
+    ]);
+  });
+
+  it('should read tar.gz archives with long names and skip links', () => {
+    const longPath = `repo/${'nested/'.repeat(20)}deep.py`;
+    const entries = readArchive(
+      gzipSync(
+        tar([
+          { name: 'repo/', type: '5' },
+          { name: 'repo/main.go', content: 'package main' },
+          { name: longPath, content: 'x = 1' },
+          { name: 'repo/link.go', type: '2' },
+        ])
+      )
+    );
+
+    expect(entries.map((entry) => [entry.path, entry.content?.toString()])).toEqual([
+      ['repo/main.go', 'package main'],
+      [longPath, 'x = 1'],
+    ]);
+  });
+
+  it('should list files over the size limit without extracting them', () => {
+    const [entry] = readArchive(zip([{ name: 'big.ts', content: 'a'.repeat(100) }]), {
+      ...DEFAULT_ARCHIVE_LIMITS,
+      maxEntrySize: 10,
+    });
+
+    expect(entry).toEqual({ path: 'big.ts', size: 100, content: null });
+  });
+
+  it('should reject entries that leave the archive root', () => {
+    expect(() => readArchive(zip([{ name: '../evil.ts', content: 'x' }]))).toThrow(InvalidArchiveError);
+    expect(() => readArchive(gzipSync(tar([{ name: '/etc/passwd.ts', content: 'x' }])))).toThrow(
+      'has an absolute path'
+    );
+    expect(normalizeEntryPath('./src//a.ts')).toBe('src/a.ts');
+    expect(() => normalizeEntryPath('src/../../a.ts')).toThrow('points outside the archive');
+  });
+
+  it('should stop size bombs', () => {
+    const limits = { ...DEFAULT_ARCHIVE_LIMITS, maxTotalSize: 1000, maxEntries: 3 };
+    const bomb = 'a'.repeat(5000);
+
+    // A deflated entry that expands beyond its declared size
+    expect(() => readArchive(zip([{ name: 'a.ts', content: bomb, deflate: true, declaredSize: 10 }]))).toThrow(
+      'does not match its declared size'
+    );
+    expect(() =>
+      readArchive(zip([{ name: 'a.ts', content: 'a'.repeat(600) }, { name: 'b.ts', content: 'a'.repeat(600) }]), limits)
+    ).toThrow(ArchiveTooLargeError);
+    expect(() => readArchive(gzipSync(tar([{ name: 'a.ts', content: bomb }])), limits)).toThrow(
+      'Archive expands to more than'
+    );
+    expect(() => readArchive(zip(['a', 'b', 'c', 'd'].map((name) => ({ name: `${name}.ts` }))), limits)).toThrow(
+      'more than 3 entries'
+    );
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => readArchive(Buffer.from('not an archive'))).toThrow('Unsupported archive format');
+  });
+});
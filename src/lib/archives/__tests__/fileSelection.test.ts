@@ -0,0 +1,84 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { selectArchiveFiles } from '../fileSelection';
+import { ArchiveEntry } from '../archiveReader';
+
+function entry(path: string, content: string | Buffer | null): ArchiveEntry {
+  const buffer = typeof content === 'string' ? Buffer.from(content) : content;
+  return { path, size: buffer?.length ?? 300000, content: buffer };
+}
+
+describe('selectArchiveFiles', () => {
+  it('should keep source files by their path in the repository', () => {
+    const selection = selectArchiveFiles([
+      entry('service-main/README.md', '# Service'),
+      entry('service-main/src/app.ts', 'export const app = 1;'),
+      entry('service-main/src/handlers/user.py', 'def handle(): pass'),
+    ]);
+
+    expect(selection.files).toEqual([
+      { name: 'src/app.ts', content: 'export const app = 1;', language: 'typescript' },
+      { name: 'src/handlers/user.py', content: 'def handle(): pass', language: 'python' },
+    ]);
+    expect(selection.skippedFiles).toEqual([]);
+    expect(selection.totalEntries).toBe(3);
+  });
+
+  it('should skip ignored, vendored, generated, minified and unreadable files', () => {
+    const selection = selectArchiveFiles([
+      entry('.gitignore', 'tmp/\n*.local.ts'),
+      entry('pkg/.gitignore', 'fixtures/'),
+      entry('src/app.ts', 'export const app = 1;'),
+      entry('src/app.local.ts', 'export const local = 1;'),
+      entry('tmp/scratch.ts', 'export const x = 1;'),
+      entry('pkg/fixtures/data.ts', 'export const data = 1;'),
+      entry('node_modules/lib/index.js', 'module.exports = 1;'),
+      entry('vendor/github.com/x/y.go', 'package y'),
+      entry('dist/app.js', 'var a=1;'),
+      entry('src/api.pb.go', 'package api'),
+      entry('src/schema.ts', '// @generated by codegen\nexport type A = string;'),
+      entry('src/types.d.ts', 'export type B = number;'),
+      entry('src/lib.js', `var a=${'1+'.repeat(600)}1;`),
+      entry('src/huge.ts', null),
+      entry('src/image.ts', Buffer.from([0x89, 0x50, 0x00, 0x47])),
+      entry('src/blank.ts', '\n\n'),
+    ]);
+
+    expect(selection.files.map((file) => file.name)).toEqual(['src/app.ts']);
+    expect(Object.fromEntries(selection.skippedFiles.map((file) => [file.path, file.reason]))).toEqual({
+      'dist/app.js': 'generated',
+      'node_modules/lib/index.js': 'vendored',
+      'pkg/fixtures/data.ts': 'gitignored',
+      'src/api.pb.go': 'generated',
+      'src/app.local.ts': 'gitignored',
+      'src/blank.ts': 'empty',
+      'src/huge.ts': 'too_large',
+      'src/image.ts': 'binary',
+      'src/lib.js': 'minified',
+      'src/schema.ts': 'generated',
+      'src/types.d.ts': 'generated',
+      'tmp/scratch.ts': 'gitignored',
+      'vendor/github.com/x/y.go': 'vendored',
+    });
+  });
+
+  it('should apply the project configuration of the archive unless one is given', () => {
+    const entries = [
+      entry('.solidryrc.json', JSON.stringify({ ignore: ['**/*.test.ts'], reviewTypes: ['hygiene'] })),
+      entry('src/app.ts', 'export const app = 1;'),
+      entry('src/app.test.ts', 'test();'),
+    ];
+
+    const fromArchive = selectArchiveFiles(entries);
+    expect(fromArchive.projectConfig?.reviewTypes).toEqual(['hygiene']);
+    expect(fromArchive.skippedFiles).toEqual([{ path: 'src/app.test.ts', reason: 'ignored' }]);
+
+    const given = selectArchiveFiles(entries, { reviewTypes: ['solid'] });
+    expect(given.projectConfig).toEqual({ reviewTypes: ['solid'] });
+    expect(given.files).toHaveLength(2);
+
+    expect(selectArchiveFiles([entry('.solidryrc.json', '{')]).configErrors).toEqual([
+      '.solidryrc.json is not valid JSON',
+    ]);
+  });
+});
@@ -0,0 +1,337 @@
+import { gunzipSync, inflateRawSync } from 'zlib';
+import { MAX_ARCHIVE_SIZE, MAX_FILE_SIZE } from '@/utils/fileUtils';
+import { ArchiveTooLargeError, InvalidArchiveError } from '../errors';
+
+/**
+ * In-memory reading of .zip, .tar and .tar.gz repository archives
+ *
+ * Nothing is written to disk. Entry paths are normalized and any path that
+ * would leave the archive root (absolute paths, `..` segments) rejects the
+ * whole archive, so a malicious archive cannot smuggle in files outside it.
+ * Size bombs are stopped by limits on the number of entries, the size of each
+ * extracted file and the total extracted size; decompression is capped
+ * rather than trusted to match the sizes the archive declares.
+ */
+
+export interface ArchiveEntry {
+  /** Path inside the archive, relative with forward slashes */
+  path: string;
+
+  /** Uncompressed size in bytes */
+  size: number;
+
+  /** File contents, or null for files over the size limit, which are not extracted */
+  content: Buffer | null;
+}
+
+export interface ArchiveLimits {
+  /** Largest archive accepted, in bytes */
+  maxArchiveSize: number;
+
+  /** Most entries (files and directories) an archive may have */
+  maxEntries: number;
+
+  /** Largest file that is extracted; bigger files are listed without contents */
+  maxEntrySize: number;
+
+  /** Most bytes extracted in total */
+  maxTotalSize: number;
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxArchiveSize: MAX_ARCHIVE_SIZE,
+  maxEntries: 20000,
+  maxEntrySize: MAX_FILE_SIZE,
+  maxTotalSize: 100 * 1024 * 1024,
+};
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_MAX_COMMENT_LENGTH = 0xffff;
+const TAR_BLOCK_SIZE = 512;
+const SYMLINK_MODE = 0o120000;
+const FILE_TYPE_MASK = 0o170000;
+
+/**
+ * Detects the format of an archive from its first bytes
+ */
+export function detectArchiveFormat(buffer: Buffer): ArchiveFormat | null {
+  if (buffer.length >= 4 && (buffer.readUInt32LE(0) === ZIP_LOCAL_HEADER || buffer.readUInt32LE(0) === ZIP_END_OF_DIRECTORY)) {
+    return 'zip';
+  }
+  if (buffer.length >= 2 && buffer[0] === 0x1f && buffer[1] === 0x8b) {
+    return 'tar.gz';
+  }
+  if (buffer.length >= 262 && buffer.toString('latin1', 257, 262) === 'ustar') {
+    return 'tar';
+  }
+  return null;
+}
+
+/**
+ * Normalizes an entry path, rejecting paths that leave the archive root
+ */
+export function normalizeEntryPath(rawPath: string): string {
+  const path = rawPath.replace(/\\/g, '/');
+  if (path.startsWith('/') || /^[a-zA-Z]:/.test(path) || path.includes('\0')) {
+    throw new InvalidArchiveError(`Archive entry "${rawPath}" has an absolute path`);
+  }
+
+  const segments = path.split('/').filter((segment) => segment !== '' && segment !== '.');
+  if (segments.includes('..')) {
+    throw new InvalidArchiveError(`Archive entry "${rawPath}" points outside the archive`);
+  }
+
+  return segments.join('/');
+}
+
+/**
+ * Reads the files of an archive
+ * Throws InvalidArchiveError for unreadable or unsafe archives and
+ * ArchiveTooLargeError when a limit is exceeded.
+ */
+export function readArchive(buffer: Buffer, limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS): ArchiveEntry[] {
+  if (buffer.length > limits.maxArchiveSize) {
+    throw new ArchiveTooLargeError(`Archive exceeds ${formatMegabytes(limits.maxArchiveSize)}`);
+  }
+
+  switch (detectArchiveFormat(buffer)) {
+    case 'zip':
+      return readZip(buffer, limits);
+    case 'tar.gz':
+      return readTar(gunzip(buffer, limits), limits);
+    case 'tar':
+      return readTar(buffer, limits);
+    default:
+      throw new InvalidArchiveError('Unsupported archive format (expected .zip, .tar or .tar.gz)');
+  }
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))}MB`;
+}
+
+/**
+ * Keeps a running total of extracted bytes against the limit
+ */
+function createSizeBudget(limits: ArchiveLimits) {
+  let total = 0;
+  return (size: number) => {
+    total += size;
+    if (total > limits.maxTotalSize) {
+      throw new ArchiveTooLargeError(`Archive expands to more than ${formatMegabytes(limits.maxTotalSize)}`);
+    }
+  };
+}
+
+function checkEntryCount(count: number, limits: ArchiveLimits) {
+  if (count > limits.maxEntries) {
+    throw new ArchiveTooLargeError(`Archive has more than ${limits.maxEntries.toLocaleString()} entries`);
+  }
+}
+
+function gunzip(buffer: Buffer, limits: ArchiveLimits): Buffer {
+  try {
+    return gunzipSync(buffer, { maxOutputLength: limits.maxTotalSize });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new ArchiveTooLargeError(`Archive expands to more than ${formatMegabytes(limits.maxTotalSize)}`);
+    }
+    throw new InvalidArchiveError('Archive is not valid gzip data', { cause: error });
+  }
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const earliest = Math.max(0, buffer.length - 22 - ZIP_MAX_COMMENT_LENGTH);
+  for (let offset = buffer.length - 22; offset >= earliest; offset--) {
+    if (buffer.readUInt32LE(offset) === ZIP_END_OF_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new InvalidArchiveError('Zip archive has no central directory');
+}
+
+function readZip(buffer: Buffer, limits: ArchiveLimits): ArchiveEntry[] {
+  const end = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(end + 10);
+  const directoryOffset = buffer.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new InvalidArchiveError('Zip64 archives are not supported');
+  }
+  checkEntryCount(entryCount, limits);
+
+  const spend = createSizeBudget(limits);
+  const entries: ArchiveEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new InvalidArchiveError('Zip central directory is corrupt');
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const mode = buffer.readUInt32LE(offset + 38) >>> 16;
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const rawName = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const path = normalizeEntryPath(rawName);
+    const isSymlink = (mode & FILE_TYPE_MASK) === SYMLINK_MODE;
+    if (rawName.endsWith('/') || isSymlink || !path) continue;
+
+    if (flags & 0x1) {
+      throw new InvalidArchiveError(`Archive entry "${path}" is encrypted`);
+    }
+    if (size > limits.maxEntrySize) {
+      entries.push({ path, size, content: null });
+      continue;
+    }
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+      throw new InvalidArchiveError(`Archive entry "${path}" is corrupt`);
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    spend(size);
+    entries.push({ path, size, content: extractZipEntry(path, data, method, size) });
+  }
+
+  return entries;
+}
+
+/**
+ * Decompresses a zip entry, never producing more than its declared size
+ */
+function extractZipEntry(path: string, data: Buffer, method: number, size: number): Buffer {
+  let content: Buffer;
+  if (method === 0) {
+    content = data;
+  } else if (method === 8) {
+    try {
+      content = inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+    } catch (error) {
+      // Output beyond the declared size stops decompression with a RangeError
+      const reason = error instanceof RangeError ? 'does not match its declared size' : 'could not be decompressed';
+      throw new InvalidArchiveError(`Archive entry "${path}" ${reason}`, { cause: error });
+    }
+  } else {
+    throw new InvalidArchiveError(`Archive entry "${path}" uses an unsupported compression method`);
+  }
+
+  if (content.length !== size) {
+    throw new InvalidArchiveError(`Archive entry "${path}" does not match its declared size`);
+  }
+  return content;
+}
+
+function readTarString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? length : end);
+}
+
+function readTarNumber(block: Buffer, start: number, length: number): number {
+  // GNU base-256 encoding for sizes beyond the octal field
+  if (block[start] & 0x80) {
+    let value = 0;
+    for (let i = start + 1; i < start + length; i++) {
+      value = value * 256 + block[i];
+    }
+    return value;
+  }
+
+  const text = readTarString(block, start, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function isValidTarChecksum(block: Buffer): boolean {
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    // The checksum field counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : block[i];
+  }
+  return sum === readTarNumber(block, 148, 8);
+}
+
+/**
+ * Reads the `path` record of a pax extended header
+ */
+function readPaxPath(data: Buffer): string | undefined {
+  const text = data.toString('utf8');
+  let offset = 0;
+  while (offset < text.length) {
+    const space = text.indexOf(' ', offset);
+    const length = parseInt(text.slice(offset, space), 10);
+    if (space === -1 || !Number.isFinite(length) || length <= 0) break;
+
+    const record = text.slice(space + 1, offset + length - 1);
+    if (record.startsWith('path=')) {
+      return record.slice(5);
+    }
+    offset += length;
+  }
+  return undefined;
+}
+
+function readTar(buffer: Buffer, limits: ArchiveLimits): ArchiveEntry[] {
+  const spend = createSizeBudget(limits);
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let count = 0;
+  let longName: string | undefined;
+
+  while (offset + TAR_BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(offset, offset + TAR_BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) break;
+    if (!isValidTarChecksum(header)) {
+      throw new InvalidArchiveError('Tar archive is corrupt');
+    }
+
+    checkEntryCount(++count, limits);
+    const size = readTarNumber(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + TAR_BLOCK_SIZE;
+    if (dataStart + size > buffer.length) {
+      throw new InvalidArchiveError('Tar archive is truncated');
+    }
+    const data = buffer.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    // GNU long names and pax headers name the entry that follows them
+    if (type === 'L') {
+      longName = readTarString(data, 0, data.length);
+      continue;
+    }
+    if (type === 'x') {
+      longName = readPaxPath(data) ?? longName;
+      continue;
+    }
+
+    const prefix = readTarString(header, 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/${readTarString(header, 0, 100)}` : readTarString(header, 0, 100));
+    longName = undefined;
+
+    // Only regular files are read; links and directories are skipped
+    const path = normalizeEntryPath(name);
+    if ((type !== '0' && type !== '7') || !path) continue;
+
+    if (size > limits.maxEntrySize) {
+      entries.push({ path, size, content: null });
+      continue;
+    }
+    spend(size);
+    entries.push({ path, size, content: Buffer.from(data) });
+  }
+
+  return entries;
+}
@@ -0,0 +1,185 @@
+import { FileInput, ProjectConfig, SkippedArchiveFile } from '@/types';
+import { decodeTextContent, getLanguageFromExtension } from '@/utils/fileUtils';
+import { IgnoreRule, isFileGitignored, parseGitignore } from '@/utils/gitignore';
+import { PROJECT_CONFIG_FILE_NAME, isIgnoredFile, parseProjectConfig } from '@/utils/projectConfig';
+import type { MultiFileLimits } from '../analyzers';
+import { ArchiveEntry } from './archiveReader';
+
+/**
+ * Choosing which files of a repository archive to analyze
+ *
+ * Keeps source files in supported languages and leaves out what .gitignore
+ * files exclude, vendored dependencies, generated code and minified bundles.
+ * Paths stay relative to the repository root, so results show the directory
+ * structure.
+ */
+
+export interface ArchiveSelection {
+  /** Files to analyze, named by their path in the repository */
+  files: FileInput[];
+
+  /** Source files that were left out, with why */
+  skippedFiles: SkippedArchiveFile[];
+
+  /** Entries in the archive */
+  totalEntries: number;
+
+  /** Project configuration found at the root of the archive */
+  projectConfig?: ProjectConfig;
+
+  /** Problems with that project configuration */
+  configErrors: string[];
+}
+
+/**
+ * Limits for the files picked from an archive, which covers a whole service
+ * rather than a handful of files
+ */
+export const ARCHIVE_FILE_LIMITS: MultiFileLimits = {
+  maxFiles: 200,
+  maxTotalSize: 2000000,
+};
+
+/**
+ * Directories holding third-party code
+ */
+const VENDORED_DIRECTORIES = new Set([
+  '.git',
+  'node_modules',
+  'bower_components',
+  'jspm_packages',
+  'vendor',
+  'third_party',
+  'third-party',
+  'Pods',
+  'Carthage',
+  'venv',
+  '.venv',
+  'site-packages',
+]);
+
+/**
+ * Directories holding build output or generated code
+ */
+const GENERATED_DIRECTORIES = new Set([
+  'dist',
+  'build',
+  'out',
+  '.next',
+  '.nuxt',
+  'coverage',
+  'target',
+  'generated',
+  '__generated__',
+]);
+
+const GENERATED_FILE_PATTERNS = [
+  /\.min\.[cm]?js$/,
+  /[.-]bundle\.js$/,
+  /\.d\.ts$/,
+  /\.pb\.go$/,
+  /_pb2(_grpc)?\.py$/,
+  /\.(generated|gen|g)\.\w+$/,
+  /\.designer\.cs$/i,
+];
+
+/**
+ * Markers code generators put at the top of their output
+ */
+const GENERATED_HEADER = /@generated\b|\bDO NOT EDIT\b|auto-?generated (?:file|code)/i;
+
+/**
+ * Average line length beyond which a file is treated as minified
+ */
+const MINIFIED_LINE_LENGTH = 300;
+
+/**
+ * Removes a directory every entry shares, like the `repo-main/` folder of
+ * archives downloaded from code hosts
+ */
+function stripCommonRoot(entries: ArchiveEntry[]): ArchiveEntry[] {
+  const [first] = entries;
+  const root = first?.path.split('/')[0];
+  if (!root || !entries.every((entry) => entry.path.startsWith(`${root}/`))) {
+    return entries;
+  }
+  return entries.map((entry) => ({ ...entry, path: entry.path.slice(root.length + 1) }));
+}
+
+function isMinified(content: string): boolean {
+  const lineCount = content.split('\n').length;
+  return content.length >= 1000 && content.length / lineCount > MINIFIED_LINE_LENGTH;
+}
+
+function isGenerated(path: string, content: string): boolean {
+  const fileName = path.split('/').pop() ?? path;
+  if (GENERATED_FILE_PATTERNS.some((pattern) => pattern.test(fileName))) {
+    return true;
+  }
+  return GENERATED_HEADER.test(content.split('\n', 5).join('\n'));
+}
+
+/**
+ * Reads the .gitignore files of an archive, shallow ones first so deeper rules win
+ */
+function readIgnoreRules(entries: ArchiveEntry[]): IgnoreRule[] {
+  return entries
+    .filter((entry) => entry.content && (entry.path === '.gitignore' || entry.path.endsWith('/.gitignore')))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length)
+    .flatMap((entry) => parseGitignore(entry.content!.toString('utf8'), entry.path.slice(0, -'/.gitignore'.length)));
+}
+
+/**
+ * Selects the files of an archive to analyze
+ * A project configuration passed in wins over one found in the archive.
+ */
+export function selectArchiveFiles(entries: ArchiveEntry[], projectConfig?: ProjectConfig): ArchiveSelection {
+  const normalized = stripCommonRoot(entries);
+  const rules = readIgnoreRules(normalized);
+  const files: FileInput[] = [];
+  const skippedFiles: SkippedArchiveFile[] = [];
+  const configErrors: string[] = [];
+
+  let config = projectConfig;
+  const configEntry = normalized.find((entry) => entry.path === PROJECT_CONFIG_FILE_NAME);
+  if (!config && configEntry?.content) {
+    const parsed = parseProjectConfig(configEntry.content.toString('utf8'));
+    config = parsed.config ?? undefined;
+    configErrors.push(...parsed.errors);
+  }
+
+  for (const entry of [...normalized].sort((a, b) => a.path.localeCompare(b.path))) {
+    const language = getLanguageFromExtension(entry.path);
+    if (language === 'auto') continue;
+
+    const skip = (reason: SkippedArchiveFile['reason']) => skippedFiles.push({ path: entry.path, reason });
+    const directories = entry.path.split('/').slice(0, -1);
+
+    if (directories.some((directory) => VENDORED_DIRECTORIES.has(directory))) {
+      skip('vendored');
+    } else if (isFileGitignored(entry.path, rules)) {
+      skip('gitignored');
+    } else if (isIgnoredFile(entry.path, config)) {
+      skip('ignored');
+    } else if (directories.some((directory) => GENERATED_DIRECTORIES.has(directory))) {
+      skip('generated');
+    } else if (!entry.content) {
+      skip('too_large');
+    } else {
+      const content = decodeTextContent(entry.content);
+      if (content === null) {
+        skip('binary');
+      } else if (content.trim().length === 0) {
+        skip('empty');
+      } else if (isGenerated(entry.path, content)) {
+        skip('generated');
+      } else if (isMinified(content)) {
+        skip('minified');
+      } else {
+        files.push({ name: entry.path, content, language });
+      }
+    }
+  }
+
+  return { files, skippedFiles, totalEntries: entries.length, projectConfig: config, configErrors };
+}
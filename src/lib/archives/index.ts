@@ -0,0 +1,4 @@
+export { readArchive, detectArchiveFormat, normalizeEntryPath, DEFAULT_ARCHIVE_LIMITS } from './archiveReader';
+export type { ArchiveEntry, ArchiveFormat, ArchiveLimits } from './archiveReader';
+export { selectArchiveFiles, ARCHIVE_FILE_LIMITS } from './fileSelection';
+export type { ArchiveSelection } from './fileSelection';
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { baselineStore } from '../baselineStore';
+import { AnalysisResult, CodeIssue } from '@/types';
+
+const issue: CodeIssue = {
+  line: 3,
+  severity: 'warning',
+  category: 'hygiene',
+  message: 'Avoid any',
+  suggestion: 'Use unknown',
+  fingerprint: 'abc123',
+};
+
+const result = { issues: [issue] } as AnalysisResult;
+
+describe('BaselineStore', () => {
+  beforeEach(() => {
+    baselineStore.clear();
+  });
+
+  it('should store the issues of a result', () => {
+    const created = baselineStore.create('  main  ', result);
+
+    expect(created.id).toMatch(/^bl_/);
+    expect(created.name).toBe('main');
+    expect(baselineStore.get(created.id)?.issues).toEqual([issue]);
+    expect(baselineStore.list()).toEqual([
+      { id: created.id, name: 'main', issueCount: 1, createdAt: created.createdAt },
+    ]);
+  });
+
+  it('should delete baselines', () => {
+    const { id } = baselineStore.create('main', result);
+
+    expect(baselineStore.delete(id)).toBe(true);
+    expect(baselineStore.has(id)).toBe(false);
+    expect(baselineStore.delete(id)).toBe(false);
+  });
+
+  it('should validate name and result', () => {
+    expect(baselineStore.validate('main', result)).toEqual([]);
+    expect(baselineStore.validate('', result)).toContain('Baseline name is required');
+    expect(baselineStore.validate('main', undefined)).toContain('Baseline result is required');
+    expect(baselineStore.validate('main', { score: 80 })).toContain(
+      'Baseline must be an analysis result with issues or files'
+    );
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Baseline Store
+ *
+ * Keeps the issues of an accepted review so later reviews of the same code can
+ * reference them by id and only count what is new, which lets a legacy
+ * codebase adopt Solidry without first paying off its existing debt.
+ *
+ * Uses in-memory storage suitable for single-instance deployments.
+ * For distributed deployments, consider migrating to a database or KV store.
+ */
+
+import { AnalysisResult, CodeIssue, MultiFileAnalysisResult } from '@/types';
+import { getBaselineIssues, validateBaseline } from '@/utils/baseline';
+
+export interface Baseline {
+  id: string;
+  name: string;
+  issues: CodeIssue[];
+  createdAt: string;
+}
+
+export interface BaselineSummary {
+  id: string;
+  name: string;
+  issueCount: number;
+  createdAt: string;
+}
+
+export interface BaselineStoreConfig {
+  maxEntries: number;
+  maxIssues: number;
+  maxNameLength: number;
+}
+
+const DEFAULT_CONFIG: BaselineStoreConfig = {
+  maxEntries: 50,
+  maxIssues: 5000,
+  maxNameLength: 100,
+};
+
+class BaselineStore {
+  private baselines: Map<string, Baseline> = new Map();
+  private config: BaselineStoreConfig;
+
+  constructor(config: BaselineStoreConfig = DEFAULT_CONFIG) {
+    this.config = config;
+  }
+
+  /**
+   * Validate a baseline before storing it
+   * Returns a list of problems (empty when valid)
+   */
+  validate(name: unknown, result: unknown): string[] {
+    const errors: string[] = [];
+
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      errors.push('Baseline name is required');
+    } else if (name.length > this.config.maxNameLength) {
+      errors.push(`Baseline name is too long (maximum ${this.config.maxNameLength} characters)`);
+    }
+
+    if (result === undefined) {
+      errors.push('Baseline result is required');
+      return errors;
+    }
+
+    const resultErrors = validateBaseline(result);
+    errors.push(...resultErrors);
+    if (
+      resultErrors.length === 0 &&
+      getBaselineIssues(result as AnalysisResult | MultiFileAnalysisResult).length > this.config.maxIssues
+    ) {
+      errors.push(`Baseline has too many issues (maximum ${this.config.maxIssues.toLocaleString()})`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Store the issues of a result as a new baseline and return it
+   */
+  create(name: string, result: AnalysisResult | MultiFileAnalysisResult): Baseline {
+    if (this.baselines.size >= this.config.maxEntries) {
+      this.evictOldest();
+    }
+
+    const baseline: Baseline = {
+      id: this.generateId(),
+      name: name.trim(),
+      issues: getBaselineIssues(result),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.baselines.set(baseline.id, baseline);
+    return baseline;
+  }
+
+  /**
+   * Get a baseline by id
+   */
+  get(id: string): Baseline | null {
+    return this.baselines.get(id) ?? null;
+  }
+
+  /**
+   * Check whether a baseline exists
+   */
+  has(id: string): boolean {
+    return this.baselines.has(id);
+  }
+
+  /**
+   * List stored baselines without their issues
+   */
+  list(): BaselineSummary[] {
+    return Array.from(this.baselines.values())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((b) => ({ id: b.id, name: b.name, issueCount: b.issues.length, createdAt: b.createdAt }));
+  }
+
+  /**
+   * Delete a baseline, returning whether it existed
+   */
+  delete(id: string): boolean {
+    return this.baselines.delete(id);
+  }
+
+  /**
+   * Remove all baselines (useful for testing)
+   */
+  clear(): void {
+    this.baselines.clear();
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): BaselineStoreConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Evict the oldest baseline
+   */
+  private evictOldest(): void {
+    let oldest: Baseline | null = null;
+    for (const baseline of this.baselines.values()) {
+      if (!oldest || baseline.createdAt < oldest.createdAt) {
+        oldest = baseline;
+      }
+    }
+    if (oldest) {
+      this.baselines.delete(oldest.id);
+    }
+  }
+
+  private generateId(): string {
+    return `bl_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+  }
+}
+
+// Singleton instance for the application
+export const baselineStore = new BaselineStore();
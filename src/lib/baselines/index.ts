@@ -0,0 +1,2 @@
+export { baselineStore } from './baselineStore';
+export type { Baseline, BaselineSummary, BaselineStoreConfig } from './baselineStore';
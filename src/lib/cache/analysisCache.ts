@@ -4,7 +4,9 @@
  * Caches identical code analyses to prevent redundant API calls.
  * Uses LRU (Least Recently Used) eviction strategy with TTL (Time-To-Live).
  *
- * Cache Key: Hash of (code + language + reviewTypes)
+ * Cache Key: Hash of (code + language + reviewTypes + scope)
+ * The optional scope distinguishes results that depend on more than the code,
+ * such as which provider produced them.
  */
 
 import { AnalysisResult, ReviewType } from '@/types';
@@ -49,14 +51,15 @@ class AnalysisCache {
   /**
    * Generate a cache key from analysis parameters
    */
-  generateKey(code: string, language: string, reviewTypes: ReviewType[]): string {
+  generateKey(code: string, language: string, reviewTypes: ReviewType[], scope = ''): string {
     // Sort review types for consistent key generation
     const sortedTypes = [...reviewTypes].sort().join(',');
 
     // Simple hash function for the code
     const codeHash = this.hashCode(code);
 
-    return `${codeHash}:${language}:${sortedTypes}`;
+    const key = `${codeHash}:${language}:${sortedTypes}`;
+    return scope ? `${key}:${this.hashCode(scope)}` : key;
   }
 
   /**
@@ -75,8 +78,13 @@ class AnalysisCache {
   /**
    * Get cached analysis result if available and not expired
    */
-  get(code: string, language: string, reviewTypes: ReviewType[]): AnalysisResult | null {
-    const key = this.generateKey(code, language, reviewTypes);
+  get(
+    code: string,
+    language: string,
+    reviewTypes: ReviewType[],
+    scope?: string
+  ): AnalysisResult | null {
+    const key = this.generateKey(code, language, reviewTypes, scope);
     const entry = this.cache.get(key);
 
     if (!entry) {
@@ -111,8 +119,14 @@ class AnalysisCache {
   /**
    * Store an analysis result in the cache
    */
-  set(code: string, language: string, reviewTypes: ReviewType[], result: AnalysisResult): void {
-    const key = this.generateKey(code, language, reviewTypes);
+  set(
+    code: string,
+    language: string,
+    reviewTypes: ReviewType[],
+    result: AnalysisResult,
+    scope?: string
+  ): void {
+    const key = this.generateKey(code, language, reviewTypes, scope);
     const now = Date.now();
 
     // Evict if at capacity
@@ -137,8 +151,8 @@ class AnalysisCache {
   /**
    * Check if a cached result exists (without affecting stats)
    */
-  has(code: string, language: string, reviewTypes: ReviewType[]): boolean {
-    const key = this.generateKey(code, language, reviewTypes);
+  has(code: string, language: string, reviewTypes: ReviewType[], scope?: string): boolean {
+    const key = this.generateKey(code, language, reviewTypes, scope);
     const entry = this.cache.get(key);
 
     if (!entry) return false;
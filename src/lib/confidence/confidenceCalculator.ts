@@ -28,7 +28,9 @@ export function calculateConfidence(
   detectedLanguage: ProgrammingLanguage,
   specifiedLanguage: ProgrammingLanguage,
   issues: CodeIssue[],
-  isDemoMode: boolean
+  isDemoMode: boolean,
+  modelName = 'Claude 4 Sonnet',
+  chunkCount?: number
 ): ConfidenceScore {
   const factors: string[] = [];
   let languageDetectionScore = 100;
@@ -56,7 +58,11 @@ export function calculateConfidence(
     factors.push('Very short code snippet');
   }
 
-  if (lineCount > 300) {
+  if (chunkCount && chunkCount > 1) {
+    // Each chunk stays within a focused prompt, but cross-chunk issues are harder to spot
+    issueAccuracyScore -= 5;
+    factors.push(`Large file analyzed in ${chunkCount} chunks`);
+  } else if (lineCount > 300) {
     issueAccuracyScore -= 10;
     factors.push('Large code size may affect completeness');
   }
@@ -108,7 +114,7 @@ export function calculateConfidence(
 
   // 8. Add positive factors for high confidence
   if (level === 'high' && !isDemoMode) {
-    factors.unshift('AI-powered analysis with Claude 4 Sonnet');
+    factors.unshift(`AI-powered analysis with ${modelName}`);
   }
 
   if (lineCount >= 10 && lineCount <= 300 && hasStructure) {
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toErrorResponse,
+  ProviderRateLimitedError,
+  ProviderTimeoutError,
+  ResponseParseError,
+  ConfigurationError,
+} from '..';
+
+describe('toErrorResponse', () => {
+  it('should map typed errors to their status and code', () => {
+    expect(toErrorResponse(new ProviderTimeoutError('too slow'))).toEqual({
+      status: 504,
+      body: { error: 'AI analysis timed out', details: 'too slow', code: 'provider_timeout' },
+      headers: {},
+    });
+    expect(toErrorResponse(new ResponseParseError('bad json')).status).toBe(502);
+    expect(toErrorResponse(new ConfigurationError('no key')).body.code).toBe('configuration_error');
+  });
+
+  it('should pass a provider Retry-After on to the client', () => {
+    const response = toErrorResponse(
+      new ProviderRateLimitedError('slow down', { retryAfterMs: 1500 })
+    );
+
+    expect(response.status).toBe(429);
+    expect(response.headers).toEqual({ 'Retry-After': '2' });
+  });
+
+  it('should treat untyped errors as generic failures', () => {
+    expect(toErrorResponse(new Error('boom')).body).toEqual({
+      error: 'Analysis failed',
+      details: 'boom',
+      code: 'analysis_failed',
+    });
+    expect(toErrorResponse('boom').body.code).toBe('internal_error');
+  });
+});
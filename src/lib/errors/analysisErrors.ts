@@ -0,0 +1,130 @@
+/**
+ * Typed errors for the analysis pipeline
+ *
+ * Each error carries a machine-readable code, the HTTP status the API should
+ * answer with and whether the failed call is worth retrying, so callers never
+ * have to inspect error messages.
+ */
+
+export type AnalysisErrorCode =
+  | 'provider_rate_limited'
+  | 'provider_overloaded'
+  | 'provider_timeout'
+  | 'provider_error'
+  | 'response_parse_error'
+  | 'configuration_error'
+  | 'invalid_archive'
+  | 'archive_too_large'
+  | 'too_many_jobs';
+
+/**
+ * Base class for all typed analysis errors
+ */
+export abstract class AnalysisError extends Error {
+  abstract readonly code: AnalysisErrorCode;
+  abstract readonly status: number;
+
+  /** Short, user-facing title for API responses */
+  abstract readonly title: string;
+
+  /** Whether repeating the same request may succeed */
+  readonly retryable: boolean = false;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The AI provider rejected the request because of its own rate limits (HTTP 429)
+ */
+export class ProviderRateLimitedError extends AnalysisError {
+  readonly code = 'provider_rate_limited';
+  readonly status = 429;
+  readonly title = 'AI provider rate limit reached';
+  readonly retryable = true;
+
+  /** Delay the provider asked for before retrying, if it sent one */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options?: { cause?: unknown; retryAfterMs?: number }) {
+    super(message, options);
+    this.retryAfterMs = options?.retryAfterMs;
+  }
+}
+
+/**
+ * The AI provider is temporarily overloaded or failing (HTTP 529 or 5xx)
+ */
+export class ProviderOverloadedError extends AnalysisError {
+  readonly code = 'provider_overloaded';
+  readonly status = 503;
+  readonly title = 'AI provider unavailable';
+  readonly retryable = true;
+}
+
+/**
+ * The AI provider did not answer within the configured timeout
+ */
+export class ProviderTimeoutError extends AnalysisError {
+  readonly code = 'provider_timeout';
+  readonly status = 504;
+  readonly title = 'AI analysis timed out';
+  readonly retryable = true;
+}
+
+/**
+ * The AI provider failed in a way that retrying will not fix
+ */
+export class ProviderError extends AnalysisError {
+  readonly code = 'provider_error';
+  readonly status = 502;
+  readonly title = 'AI analysis failed';
+}
+
+/**
+ * The AI response could not be parsed or did not match the expected structure
+ */
+export class ResponseParseError extends AnalysisError {
+  readonly code = 'response_parse_error';
+  readonly status = 502;
+  readonly title = 'AI analysis failed';
+}
+
+/**
+ * The server is missing configuration (API keys, endpoints) needed for the request
+ */
+export class ConfigurationError extends AnalysisError {
+  readonly code = 'configuration_error';
+  readonly status = 500;
+  readonly title = 'Provider not configured';
+}
+
+/**
+ * An uploaded archive could not be read or contains unsafe entries
+ */
+export class InvalidArchiveError extends AnalysisError {
+  readonly code = 'invalid_archive';
+  readonly status = 400;
+  readonly title = 'Invalid archive';
+}
+
+/**
+ * An uploaded archive exceeds the size or entry limits
+ */
+export class ArchiveTooLargeError extends AnalysisError {
+  readonly code = 'archive_too_large';
+  readonly status = 413;
+  readonly title = 'Archive too large';
+}
+
+/**
+ * Every stored analysis job is still queued or running, so no new job can be accepted
+ */
+export class TooManyJobsError extends AnalysisError {
+  readonly code = 'too_many_jobs';
+  readonly status = 503;
+  readonly title = 'Too many analysis jobs';
+  readonly retryable = true;
+}
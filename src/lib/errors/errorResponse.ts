@@ -0,0 +1,67 @@
+import { FileAnalysisError } from '@/types';
+import { AnalysisError, ProviderRateLimitedError } from './analysisErrors';
+
+/**
+ * JSON body returned by the API for failed requests
+ */
+export interface ErrorResponseBody {
+  error: string;
+  details: string;
+  code: string;
+}
+
+export interface ErrorResponse {
+  status: number;
+  body: ErrorResponseBody;
+  headers: Record<string, string>;
+}
+
+/**
+ * Maps any thrown value to an HTTP status and error body
+ * Typed analysis errors keep their own status and code; anything else is
+ * reported as a generic failure.
+ */
+export function toErrorResponse(error: unknown): ErrorResponse {
+  if (error instanceof AnalysisError) {
+    const headers: Record<string, string> = {};
+    if (error instanceof ProviderRateLimitedError && error.retryAfterMs !== undefined) {
+      headers['Retry-After'] = Math.ceil(error.retryAfterMs / 1000).toString();
+    }
+
+    return {
+      status: error.status,
+      body: { error: error.title, details: error.message, code: error.code },
+      headers,
+    };
+  }
+
+  if (error instanceof Error) {
+    return {
+      status: 500,
+      body: { error: 'Analysis failed', details: error.message, code: 'analysis_failed' },
+      headers: {},
+    };
+  }
+
+  return {
+    status: 500,
+    body: {
+      error: 'Internal server error',
+      details: 'An unexpected error occurred',
+      code: 'internal_error',
+    },
+    headers: {},
+  };
+}
+
+/**
+ * Maps any thrown value to the error of one file of a multi-file analysis
+ */
+export function toFileAnalysisError(error: unknown): FileAnalysisError {
+  const { body } = toErrorResponse(error);
+  return {
+    code: body.code,
+    message: body.details,
+    retryable: error instanceof AnalysisError ? error.retryable : undefined,
+  };
+}
@@ -0,0 +1,15 @@
+export {
+  AnalysisError,
+  ProviderRateLimitedError,
+  ProviderOverloadedError,
+  ProviderTimeoutError,
+  ProviderError,
+  ResponseParseError,
+  ConfigurationError,
+  InvalidArchiveError,
+  ArchiveTooLargeError,
+  TooManyJobsError,
+} from './analysisErrors';
+export type { AnalysisErrorCode } from './analysisErrors';
+export { toErrorResponse, toFileAnalysisError } from './errorResponse';
+export type { ErrorResponse, ErrorResponseBody } from './errorResponse';
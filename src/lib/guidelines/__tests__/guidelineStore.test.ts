@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { guidelineStore } from '../guidelineStore';
+
+describe('GuidelineStore', () => {
+  beforeEach(() => {
+    guidelineStore.clear();
+  });
+
+  it('should store and retrieve a guideline by id', () => {
+    const created = guidelineStore.create('  Style Guide  ', '# Rules');
+
+    expect(created.id).toMatch(/^gl_/);
+    expect(created.name).toBe('Style Guide');
+    expect(guidelineStore.get(created.id)?.content).toBe('# Rules');
+    expect(guidelineStore.has(created.id)).toBe(true);
+  });
+
+  it('should list guidelines without content', () => {
+    guidelineStore.create('Style Guide', '# Rules');
+
+    const [summary] = guidelineStore.list();
+    expect(summary).toMatchObject({ name: 'Style Guide', size: 7 });
+    expect(summary).not.toHaveProperty('content');
+  });
+
+  it('should delete guidelines', () => {
+    const { id } = guidelineStore.create('Style Guide', '# Rules');
+
+    expect(guidelineStore.delete(id)).toBe(true);
+    expect(guidelineStore.get(id)).toBeNull();
+    expect(guidelineStore.delete(id)).toBe(false);
+  });
+
+  it('should validate name and content', () => {
+    const { maxContentLength } = guidelineStore.getConfig();
+
+    expect(guidelineStore.validate('Style Guide', '# Rules')).toEqual([]);
+    expect(guidelineStore.validate('', '# Rules')).toContain('Guideline name is required');
+    expect(guidelineStore.validate('Style Guide', 42)).toContain('Guideline content is required');
+    expect(guidelineStore.validate('Style Guide', 'x'.repeat(maxContentLength + 1))).toHaveLength(1);
+  });
+});
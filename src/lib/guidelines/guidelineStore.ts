@@ -0,0 +1,157 @@
+/**
+ * Team Guideline Store
+ *
+ * Holds reusable "house style" documents that are uploaded once and then
+ * referenced by id from review requests, so teams don't have to resend their
+ * conventions with every analysis.
+ *
+ * Uses in-memory storage suitable for single-instance deployments.
+ * For distributed deployments, consider migrating to a database or KV store.
+ */
+
+export interface Guideline {
+  id: string;
+  name: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GuidelineSummary {
+  id: string;
+  name: string;
+  size: number;
+  updatedAt: string;
+}
+
+export interface GuidelineStoreConfig {
+  maxEntries: number;
+  maxContentLength: number;
+  maxNameLength: number;
+}
+
+const DEFAULT_CONFIG: GuidelineStoreConfig = {
+  maxEntries: 50,
+  maxContentLength: 20000,
+  maxNameLength: 100,
+};
+
+class GuidelineStore {
+  private guidelines: Map<string, Guideline> = new Map();
+  private config: GuidelineStoreConfig;
+
+  constructor(config: GuidelineStoreConfig = DEFAULT_CONFIG) {
+    this.config = config;
+  }
+
+  /**
+   * Validate a guideline before storing it
+   * Returns a list of problems (empty when valid)
+   */
+  validate(name: unknown, content: unknown): string[] {
+    const errors: string[] = [];
+
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      errors.push('Guideline name is required');
+    } else if (name.length > this.config.maxNameLength) {
+      errors.push(`Guideline name is too long (maximum ${this.config.maxNameLength} characters)`);
+    }
+
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      errors.push('Guideline content is required');
+    } else if (content.length > this.config.maxContentLength) {
+      errors.push(
+        `Guideline is too long (maximum ${this.config.maxContentLength.toLocaleString()} characters)`
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * Store a new guideline document and return it
+   */
+  create(name: string, content: string): Guideline {
+    if (this.guidelines.size >= this.config.maxEntries) {
+      this.evictOldest();
+    }
+
+    const now = new Date().toISOString();
+    const guideline: Guideline = {
+      id: this.generateId(),
+      name: name.trim(),
+      content,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.guidelines.set(guideline.id, guideline);
+    return guideline;
+  }
+
+  /**
+   * Get a guideline by id
+   */
+  get(id: string): Guideline | null {
+    return this.guidelines.get(id) ?? null;
+  }
+
+  /**
+   * Check whether a guideline exists
+   */
+  has(id: string): boolean {
+    return this.guidelines.has(id);
+  }
+
+  /**
+   * List stored guidelines without their content
+   */
+  list(): GuidelineSummary[] {
+    return Array.from(this.guidelines.values())
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map((g) => ({ id: g.id, name: g.name, size: g.content.length, updatedAt: g.updatedAt }));
+  }
+
+  /**
+   * Delete a guideline, returning whether it existed
+   */
+  delete(id: string): boolean {
+    return this.guidelines.delete(id);
+  }
+
+  /**
+   * Remove all guidelines (useful for testing)
+   */
+  clear(): void {
+    this.guidelines.clear();
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): GuidelineStoreConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Evict the least recently updated guideline
+   */
+  private evictOldest(): void {
+    let oldest: Guideline | null = null;
+    for (const guideline of this.guidelines.values()) {
+      if (!oldest || guideline.updatedAt < oldest.updatedAt) {
+        oldest = guideline;
+      }
+    }
+    if (oldest) {
+      this.guidelines.delete(oldest.id);
+    }
+  }
+
+  private generateId(): string {
+    return `gl_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+  }
+}
+
+// Singleton instance for the application
+export const guidelineStore = new GuidelineStore();
@@ -0,0 +1,2 @@
+export { guidelineStore } from './guidelineStore';
+export type { Guideline, GuidelineSummary, GuidelineStoreConfig } from './guidelineStore';
@@ -0,0 +1,118 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AIAnalysisResponse } from '@/types';
+import { ProviderError } from '../../errors';
+
+const { mockAnalyze } = vi.hoisted(() => ({ mockAnalyze: vi.fn() }));
+
+vi.mock('../../providers', () => ({
+  isProviderId: () => true,
+  resolveProvider: () => ({
+    id: 'demo',
+    isDemo: true,
+    isMetered: false,
+    getModelVersion: () => 'test',
+    isConfigured: () => true,
+    analyze: mockAnalyze,
+  }),
+}));
+
+import { jobManager } from '../jobManager';
+
+const cleanResponse: AIAnalysisResponse = {
+  issues: [],
+  summary: 'ok',
+  metrics: { criticalIssues: 0, warnings: 0, suggestions: 0, totalIssues: 0 },
+};
+
+function files(...names: string[]) {
+  return names.map((name) => ({ name, content: `export const job = '${name}';`, language: 'typescript' as const }));
+}
+
+/**
+ * A provider response the test resolves when it wants
+ */
+function deferred() {
+  let resolve: (response: AIAnalysisResponse) => void = () => undefined;
+  const promise = new Promise<AIAnalysisResponse>((r) => (resolve = r));
+  return { promise, resolve: () => resolve(cleanResponse) };
+}
+
+async function waitForStatus(id: string, status: string) {
+  await vi.waitFor(async () => expect((await jobManager.get(id))?.status).toBe(status));
+  return (await jobManager.get(id))!;
+}
+
+describe('jobManager', () => {
+  beforeEach(async () => {
+    mockAnalyze.mockReset();
+    await jobManager.clear();
+  });
+
+  it('should run a job in the background until every file is analyzed', async () => {
+    mockAnalyze.mockResolvedValue(cleanResponse);
+
+    const created = await jobManager.create({ files: files('a.ts', 'b.ts'), reviewTypes: ['hygiene'] });
+    expect(created).toMatchObject({ status: 'queued', progress: { completedFiles: 0, totalFiles: 2 } });
+    expect(created.files.map((file) => file.status)).toEqual(['pending', 'pending']);
+
+    const job = await waitForStatus(created.id, 'completed');
+    expect(job.files.map((file) => file.status)).toEqual(['ok', 'ok']);
+    expect(job.progress.completedFiles).toBe(2);
+    expect(job.result?.totalFiles).toBe(2);
+  });
+
+  it('should report the results of finished files while others are running', async () => {
+    const slow = deferred();
+    mockAnalyze.mockImplementation((code: string) => (code.includes('b.ts') ? slow.promise : cleanResponse));
+
+    const { id } = await jobManager.create({ files: files('a.ts', 'b.ts'), reviewTypes: ['hygiene'] });
+
+    await vi.waitFor(async () => expect((await jobManager.get(id))?.progress.completedFiles).toBe(1));
+    const running = (await jobManager.get(id))!;
+    expect(running.status).toBe('running');
+    expect(running.files[0]).toMatchObject({ fileName: 'a.ts', status: 'ok', result: { score: 100 } });
+    expect(running.files[1].status).toBe('running');
+    expect(running.result).toBeUndefined();
+
+    slow.resolve();
+    await waitForStatus(id, 'completed');
+  });
+
+  it('should skip the files not started when cancelled', async () => {
+    const first = deferred();
+    mockAnalyze.mockReturnValueOnce(first.promise);
+
+    const { id } = await jobManager.create({
+      files: files('a.ts', 'b.ts', 'c.ts'),
+      reviewTypes: ['hygiene'],
+      concurrency: 1,
+    });
+    await vi.waitFor(() => expect(mockAnalyze).toHaveBeenCalledTimes(1));
+
+    expect((await jobManager.cancel(id))?.status).toBe('cancelled');
+
+    first.resolve();
+    await vi.waitFor(async () => expect((await jobManager.get(id))?.result).toBeDefined());
+    const job = (await jobManager.get(id))!;
+    expect(job.status).toBe('cancelled');
+    expect(job.files.map((file) => file.status)).toEqual(['ok', 'skipped', 'skipped']);
+    expect(job.files[1].error?.code).toBe('cancelled');
+    expect(mockAnalyze).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail a job when no file could be analyzed', async () => {
+    mockAnalyze.mockRejectedValue(new ProviderError('Unavailable'));
+
+    const { id } = await jobManager.create({ files: files('a.ts'), reviewTypes: ['hygiene'] });
+
+    const job = await waitForStatus(id, 'failed');
+    expect(job.error).toMatchObject({ code: 'provider_error', message: 'Unavailable' });
+    expect(job.files[0].status).toBe('failed');
+  });
+
+  it('should return null for unknown jobs', async () => {
+    expect(await jobManager.get('job_missing')).toBeNull();
+    expect(await jobManager.cancel('job_missing')).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AnalysisJob, JobStatus } from '@/types';
+import { InMemoryJobStorage } from '../jobStorage';
+import { TooManyJobsError } from '../../errors';
+
+function job(id: string, status: JobStatus, createdAt = '2026-01-01T00:00:00.000Z'): AnalysisJob {
+  return {
+    id,
+    status,
+    files: [{ fileName: 'a.ts', status: 'pending' }],
+    progress: { completedFiles: 0, totalFiles: 1 },
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+describe('InMemoryJobStorage', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should store copies of jobs', async () => {
+    const storage = new InMemoryJobStorage();
+    const original = job('job_1', 'running');
+    await storage.save(original);
+
+    original.files[0].status = 'ok';
+    const stored = await storage.get('job_1');
+    expect(stored?.files[0].status).toBe('pending');
+
+    stored!.status = 'failed';
+    expect((await storage.get('job_1'))?.status).toBe('running');
+  });
+
+  it('should expire finished jobs but keep running ones', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+    const storage = new InMemoryJobStorage({ maxEntries: 10, ttlMs: 1000 });
+    await storage.save(job('job_done', 'completed'));
+    await storage.save(job('job_running', 'running'));
+
+    vi.setSystemTime(new Date('2026-01-01T00:00:02.000Z'));
+    expect(await storage.get('job_done')).toBeNull();
+    expect(await storage.get('job_running')).not.toBeNull();
+  });
+
+  it('should evict finished jobs before running ones', async () => {
+    const storage = new InMemoryJobStorage({ maxEntries: 2, ttlMs: 60000 });
+    await storage.save(job('job_running', 'running', '2026-01-01T00:00:00.000Z'));
+    await storage.save(job('job_done', 'completed', '2026-01-01T00:00:01.000Z'));
+    await storage.save(job('job_new', 'queued', '2026-01-01T00:00:02.000Z'));
+
+    expect(await storage.get('job_done')).toBeNull();
+    expect(await storage.get('job_running')).not.toBeNull();
+    expect(await storage.get('job_new')).not.toBeNull();
+  });
+
+  it('should reject new jobs instead of evicting queued or running ones', async () => {
+    const storage = new InMemoryJobStorage({ maxEntries: 2, ttlMs: 60000 });
+    await storage.save(job('job_running', 'running', '2026-01-01T00:00:00.000Z'));
+    await storage.save(job('job_queued', 'queued', '2026-01-01T00:00:01.000Z'));
+
+    await expect(storage.save(job('job_new', 'queued', '2026-01-01T00:00:02.000Z'))).rejects.toThrow(TooManyJobsError);
+    expect(await storage.get('job_running')).not.toBeNull();
+    expect(await storage.get('job_queued')).not.toBeNull();
+    expect(await storage.get('job_new')).toBeNull();
+
+    // Updating a stored job still works when the store is full
+    await storage.save({ ...job('job_running', 'completed'), updatedAt: new Date().toISOString() });
+    expect((await storage.get('job_running'))?.status).toBe('completed');
+  });
+});
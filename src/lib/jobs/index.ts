@@ -0,0 +1,3 @@
+export { jobManager } from './jobManager';
+export { InMemoryJobStorage } from './jobStorage';
+export type { JobStorage, InMemoryJobStorageConfig } from './jobStorage';
@@ -0,0 +1,166 @@
+/**
+ * Analysis Job Manager
+ *
+ * Runs multi-file analyses in the background, so a request returns a job id
+ * right away instead of waiting for every file. The job is saved after each
+ * file starts and finishes, which lets clients poll for per-file progress and
+ * partial results, and it can be cancelled before its remaining files start.
+ *
+ * Jobs run in the process that created them, so cancelling reaches only the
+ * jobs of this instance.
+ */
+
+import { AnalysisJob } from '@/types';
+import { isIgnoredFile } from '@/utils/projectConfig';
+import { isJobFinished } from '@/utils/analysisJobs';
+import { analyzeMultipleFiles, MultiFileConfig } from '../analyzers';
+import { toFileAnalysisError } from '../errors';
+import { InMemoryJobStorage, JobStorage } from './jobStorage';
+
+interface ActiveJob {
+  job: AnalysisJob;
+  controller: AbortController;
+
+  /** Last pending save; saves are chained so they reach the storage in order */
+  saved: Promise<void>;
+}
+
+class JobManager {
+  private storage: JobStorage;
+  private active: Map<string, ActiveJob> = new Map();
+
+  constructor(storage: JobStorage = new InMemoryJobStorage()) {
+    this.storage = storage;
+  }
+
+  /**
+   * Create a job for a validated configuration and start it in the background
+   */
+  async create(config: MultiFileConfig): Promise<AnalysisJob> {
+    const now = new Date().toISOString();
+    const files = config.files.filter((file) => !isIgnoredFile(file.name, config.projectConfig));
+    const job: AnalysisJob = {
+      id: this.generateId(),
+      status: 'queued',
+      files: files.map((file) => ({ fileName: file.name, status: 'pending' })),
+      progress: { completedFiles: 0, totalFiles: files.length },
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.storage.save(job);
+    const created = structuredClone(job);
+
+    const entry: ActiveJob = { job, controller: new AbortController(), saved: Promise.resolve() };
+    this.active.set(job.id, entry);
+    void this.run(entry, config);
+
+    return created;
+  }
+
+  /**
+   * Get a job with its progress and results so far
+   */
+  get(id: string): Promise<AnalysisJob | null> {
+    return this.storage.get(id);
+  }
+
+  /**
+   * Cancel a job: files not started yet are skipped
+   * Returns the job, unchanged when it had already finished, or null when it does not exist.
+   */
+  async cancel(id: string): Promise<AnalysisJob | null> {
+    const entry = this.active.get(id);
+    if (!entry) {
+      const job = await this.storage.get(id);
+      if (!job || isJobFinished(job)) return job;
+
+      // The job runs on another instance, which cannot be reached from here;
+      // marking it cancelled at least stops clients from waiting for it
+      job.status = 'cancelled';
+      job.updatedAt = new Date().toISOString();
+      await this.storage.save(job);
+      return job;
+    }
+
+    entry.controller.abort();
+    entry.job.status = 'cancelled';
+    await this.persist(entry);
+    return structuredClone(entry.job);
+  }
+
+  /**
+   * Cancel running jobs and remove all jobs (useful for testing)
+   */
+  async clear(): Promise<void> {
+    this.active.forEach((entry) => entry.controller.abort());
+    this.active.clear();
+    await this.storage.clear();
+  }
+
+  private async run(entry: ActiveJob, config: MultiFileConfig): Promise<void> {
+    const { job } = entry;
+    const findFile = (fileName: string) =>
+      job.files.find((file) => file.fileName === fileName && (file.status === 'pending' || file.status === 'running'));
+
+    try {
+      const result = await analyzeMultipleFiles(config, {
+        signal: entry.controller.signal,
+        onFileStart: (fileName) => {
+          const file = findFile(fileName);
+          if (file) file.status = 'running';
+          if (job.status === 'queued') job.status = 'running';
+          void this.persist(entry);
+        },
+        onFileComplete: (fileResult) => {
+          const file = findFile(fileResult.fileName);
+          if (file) Object.assign(file, fileResult);
+          job.progress.completedFiles++;
+          void this.persist(entry);
+        },
+      });
+
+      // A job cancelled before any file finished has nothing to aggregate
+      if (job.status !== 'cancelled' || result.totalFiles > 0) {
+        job.result = result;
+      }
+      if (job.status !== 'cancelled') {
+        job.status = 'completed';
+      }
+    } catch (error) {
+      if (job.status !== 'cancelled') {
+        job.status = 'failed';
+      }
+      job.error = toFileAnalysisError(error);
+    } finally {
+      const saved = this.persist(entry);
+      if (this.active.get(job.id) === entry) {
+        this.active.delete(job.id);
+      }
+      await saved;
+    }
+  }
+
+  /**
+   * Save the current state of a running job
+   * Jobs removed by clear() are not saved again.
+   */
+  private persist(entry: ActiveJob): Promise<void> {
+    if (this.active.get(entry.job.id) !== entry) {
+      return entry.saved;
+    }
+
+    entry.job.updatedAt = new Date().toISOString();
+    entry.saved = entry.saved
+      .then(() => this.storage.save(entry.job))
+      .catch((error) => console.error(`Failed to save job ${entry.job.id}:`, error));
+    return entry.saved;
+  }
+
+  private generateId(): string {
+    return `job_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+  }
+}
+
+// Singleton instance for the application
+export const jobManager = new JobManager();
@@ -0,0 +1,94 @@
+/**
+ * Job Storage
+ *
+ * Keeps analysis jobs between the polls of a client. The job manager only
+ * talks to the JobStorage interface, so a shared store can take the place of
+ * the in-memory one.
+ *
+ * The in-memory storage is suitable for single-instance deployments.
+ * For distributed deployments, consider migrating to a database or KV store.
+ */
+
+import { AnalysisJob } from '@/types';
+import { isJobFinished } from '@/utils/analysisJobs';
+import { TooManyJobsError } from '../errors';
+
+export interface JobStorage {
+  /** Get a job by id, or null when it does not exist or has expired */
+  get(id: string): Promise<AnalysisJob | null>;
+
+  /** Create or replace a job; throws TooManyJobsError when there is no room for a new one */
+  save(job: AnalysisJob): Promise<void>;
+
+  /** Delete a job, returning whether it existed */
+  delete(id: string): Promise<boolean>;
+
+  /** Remove all jobs (useful for testing) */
+  clear(): Promise<void>;
+}
+
+export interface InMemoryJobStorageConfig {
+  maxEntries: number;
+
+  /** How long a finished job stays available */
+  ttlMs: number;
+}
+
+const DEFAULT_CONFIG: InMemoryJobStorageConfig = {
+  maxEntries: 100,
+  ttlMs: 60 * 60 * 1000, // 1 hour
+};
+
+export class InMemoryJobStorage implements JobStorage {
+  private jobs: Map<string, AnalysisJob> = new Map();
+  private config: InMemoryJobStorageConfig;
+
+  constructor(config: InMemoryJobStorageConfig = DEFAULT_CONFIG) {
+    this.config = config;
+  }
+
+  async get(id: string): Promise<AnalysisJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+
+    if (this.isExpired(job)) {
+      this.jobs.delete(id);
+      return null;
+    }
+
+    // Copies keep callers from changing the stored job, as with a real store
+    return structuredClone(job);
+  }
+
+  async save(job: AnalysisJob): Promise<void> {
+    if (!this.jobs.has(job.id) && this.jobs.size >= this.config.maxEntries) {
+      this.evictOldest();
+    }
+    this.jobs.set(job.id, structuredClone(job));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.jobs.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.jobs.clear();
+  }
+
+  private isExpired(job: AnalysisJob): boolean {
+    return isJobFinished(job) && Date.now() - new Date(job.updatedAt).getTime() > this.config.ttlMs;
+  }
+
+  /**
+   * Evict the oldest finished job
+   * Queued and running jobs are never evicted: their clients are still polling.
+   */
+  private evictOldest(): void {
+    const jobs = Array.from(this.jobs.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const oldest = jobs.find(isJobFinished);
+    if (!oldest) {
+      throw new TooManyJobsError(`All ${this.config.maxEntries} analysis jobs are still running; try again later`);
+    }
+    this.jobs.delete(oldest.id);
+  }
+}
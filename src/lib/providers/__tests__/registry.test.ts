@@ -0,0 +1,96 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { getDefaultProviderId, resolveProvider, isProviderId, listProviders } from '../registry';
+
+const ENV_KEYS = [
+  'ANALYSIS_PROVIDER',
+  'ANTHROPIC_API_KEY',
+  'NEXT_PUBLIC_DEMO_MODE',
+  'OPENAI_BASE_URL',
+  'OPENAI_MODEL',
+  'OPENAI_COMPATIBLE_METERED',
+] as const;
+
+describe('provider registry', () => {
+  const saved: Partial<Record<(typeof ENV_KEYS)[number], string | undefined>> = {};
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      saved[key] = process.env[key];
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (saved[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = saved[key];
+      }
+    }
+  });
+
+  describe('getDefaultProviderId', () => {
+    it('should fall back to demo without an API key', () => {
+      expect(getDefaultProviderId()).toBe('demo');
+    });
+
+    it('should use Claude when an API key is configured', () => {
+      process.env.ANTHROPIC_API_KEY = 'key';
+      expect(getDefaultProviderId()).toBe('claude');
+    });
+
+    it('should prefer ANALYSIS_PROVIDER over demo mode', () => {
+      process.env.ANALYSIS_PROVIDER = 'openai-compatible';
+      expect(getDefaultProviderId()).toBe('openai-compatible');
+    });
+
+    it('should ignore an unknown ANALYSIS_PROVIDER', () => {
+      process.env.ANALYSIS_PROVIDER = 'gpt-local';
+      expect(getDefaultProviderId()).toBe('demo');
+    });
+  });
+
+  describe('resolveProvider', () => {
+    it('should honor a per-request provider', () => {
+      process.env.ANTHROPIC_API_KEY = 'key';
+      expect(resolveProvider('demo').id).toBe('demo');
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => resolveProvider('gpt-local')).toThrow('Unknown analysis provider');
+    });
+
+    it('should reject providers that are not configured', () => {
+      expect(() => resolveProvider('openai-compatible')).toThrow('is not configured');
+    });
+
+    it('should resolve the OpenAI-compatible provider once configured', () => {
+      process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1/';
+      process.env.OPENAI_MODEL = 'qwen2.5-coder';
+      const provider = resolveProvider('openai-compatible');
+      expect(provider.getModelVersion()).toBe('qwen2.5-coder (OpenAI-compatible)');
+      expect(provider.isMetered).toBe(true);
+    });
+
+    it('should only exempt the OpenAI-compatible provider from rate limiting when marked unmetered', () => {
+      process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1';
+      process.env.OPENAI_MODEL = 'qwen2.5-coder';
+      process.env.OPENAI_COMPATIBLE_METERED = 'false';
+      expect(resolveProvider('openai-compatible').isMetered).toBe(false);
+    });
+  });
+
+  it('should list every provider with its status', () => {
+    const providers = listProviders();
+    expect(providers.map((p) => p.id).sort()).toEqual(['claude', 'demo', 'openai-compatible']);
+    expect(providers.find((p) => p.id === 'demo')?.configured).toBe(true);
+  });
+
+  it('should recognise provider ids', () => {
+    expect(isProviderId('claude')).toBe(true);
+    expect(isProviderId('toString')).toBe(false);
+    expect(isProviderId(42)).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+import { AnalysisProvider } from './provider';
+import { analyzeCodeWithClaude, streamCodeAnalysisWithClaude, isAPIKeyConfigured } from '../ai/claude';
+
+/**
+ * Anthropic Claude provider
+ */
+export const claudeProvider: AnalysisProvider = {
+  id: 'claude',
+  isDemo: false,
+  isMetered: true,
+
+  getModelVersion() {
+    return 'Claude 4 Sonnet';
+  },
+
+  isConfigured() {
+    return isAPIKeyConfigured();
+  },
+
+  analyze(code, language, reviewTypes, options = {}) {
+    if (options.onIssue) {
+      return streamCodeAnalysisWithClaude(
+        code,
+        language,
+        reviewTypes,
+        options.onIssue,
+        options.promptContext
+      );
+    }
+    return analyzeCodeWithClaude(code, language, reviewTypes, options.promptContext);
+  },
+};
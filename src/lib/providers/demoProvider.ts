@@ -0,0 +1,25 @@
+import { AnalysisProvider } from './provider';
+import { getDemoAnalysis } from '../ai/demoMode';
+
+/**
+ * Local pattern-based provider (no network access, no cost)
+ */
+export const demoProvider: AnalysisProvider = {
+  id: 'demo',
+  isDemo: true,
+  isMetered: false,
+
+  getModelVersion() {
+    return 'Demo Mode (Pattern-Based)';
+  },
+
+  isConfigured() {
+    return true;
+  },
+
+  async analyze(code, language, reviewTypes, options = {}) {
+    const response = getDemoAnalysis(code, reviewTypes, language, options.rules);
+    response.issues.forEach((issue) => options.onIssue?.(issue));
+    return response;
+  },
+};
@@ -0,0 +1,3 @@
+export { resolveProvider, getDefaultProviderId, isProviderId, listProviders } from './registry';
+export type { ProviderInfo } from './registry';
+export type { AnalysisProvider, ProviderAnalyzeOptions } from './provider';
@@ -0,0 +1,33 @@
+import { AnalysisProvider } from './provider';
+import { analyzeCodeWithOpenAICompatible, getOpenAICompatibleConfig } from '../ai/openaiCompatible';
+
+/**
+ * OpenAI-compatible chat completion provider (OpenAI, Ollama, llama.cpp, vLLM, ...)
+ */
+export const openAICompatibleProvider: AnalysisProvider = {
+  id: 'openai-compatible',
+  isDemo: false,
+  // Often a paid API, so rate limited unless the operator marks a self-hosted server as free
+  get isMetered() {
+    return process.env.OPENAI_COMPATIBLE_METERED !== 'false';
+  },
+
+  getModelVersion() {
+    const config = getOpenAICompatibleConfig();
+    return config ? `${config.model} (OpenAI-compatible)` : 'OpenAI-compatible';
+  },
+
+  isConfigured() {
+    return getOpenAICompatibleConfig() !== null;
+  },
+
+  analyze(code, language, reviewTypes, options = {}) {
+    return analyzeCodeWithOpenAICompatible(
+      code,
+      language,
+      reviewTypes,
+      options.onIssue,
+      options.promptContext
+    );
+  },
+};
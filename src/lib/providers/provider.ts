@@ -0,0 +1,55 @@
+import {
+  AIAnalysisResponse,
+  AnalysisProviderId,
+  CodeIssue,
+  ProgrammingLanguage,
+  ReviewType,
+  RuleOverrides,
+} from '@/types';
+import { PromptContext } from '../ai/prompts';
+
+/**
+ * Per-call options passed to an analysis provider
+ */
+export interface ProviderAnalyzeOptions {
+  /** Called for each issue as soon as it is available (enables streaming) */
+  onIssue?: (issue: CodeIssue) => void;
+
+  /** Reviewer context and team guidelines to include in the prompt */
+  promptContext?: PromptContext;
+
+  /** Per-rule settings for the local pattern engine (ignored by model providers) */
+  rules?: RuleOverrides;
+}
+
+/**
+ * A backend capable of reviewing code
+ *
+ * Implementations wrap a specific engine (Claude, the local pattern engine,
+ * an OpenAI-compatible server, ...) behind one call signature so the analyzer
+ * does not need to know which one is in use.
+ */
+export interface AnalysisProvider {
+  /** Identifier used in configuration and requests */
+  readonly id: AnalysisProviderId;
+
+  /** Whether results come from local heuristics rather than a model */
+  readonly isDemo: boolean;
+
+  /** Whether calls cost money and count against the per-IP rate limit */
+  readonly isMetered: boolean;
+
+  /** Human-readable model description recorded in result metadata */
+  getModelVersion(): string;
+
+  /** Whether the environment has everything this provider needs */
+  isConfigured(): boolean;
+
+  /** Reviews the given code */
+  analyze(
+    code: string,
+    language: ProgrammingLanguage,
+    reviewTypes: ReviewType[],
+    options?: ProviderAnalyzeOptions
+  ): Promise<AIAnalysisResponse>;
+}
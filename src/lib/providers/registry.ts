@@ -0,0 +1,75 @@
+import { AnalysisProviderId } from '@/types';
+import { AnalysisProvider } from './provider';
+import { claudeProvider } from './claudeProvider';
+import { demoProvider } from './demoProvider';
+import { openAICompatibleProvider } from './openAICompatibleProvider';
+import { isDemoMode } from '../ai/demoMode';
+import { ConfigurationError } from '../errors';
+
+/**
+ * All known providers, keyed by id
+ */
+const PROVIDERS: Record<AnalysisProviderId, AnalysisProvider> = {
+  claude: claudeProvider,
+  demo: demoProvider,
+  'openai-compatible': openAICompatibleProvider,
+};
+
+/**
+ * Summary of a provider for health checks and the UI
+ */
+export interface ProviderInfo {
+  id: AnalysisProviderId;
+  modelVersion: string;
+  configured: boolean;
+}
+
+/**
+ * Type guard for provider identifiers received from requests or env vars
+ */
+export function isProviderId(value: unknown): value is AnalysisProviderId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+}
+
+/**
+ * Provider used when a request does not name one
+ * ANALYSIS_PROVIDER wins; otherwise demo mode decides between demo and Claude
+ */
+export function getDefaultProviderId(): AnalysisProviderId {
+  const configured = process.env.ANALYSIS_PROVIDER;
+  if (isProviderId(configured)) {
+    return configured;
+  }
+
+  return isDemoMode() ? 'demo' : 'claude';
+}
+
+/**
+ * Resolves the provider for a request, falling back to the default
+ * Throws if the requested provider is unknown or not configured
+ */
+export function resolveProvider(requested?: string): AnalysisProvider {
+  const id = requested ?? getDefaultProviderId();
+
+  if (!isProviderId(id)) {
+    throw new ConfigurationError(`Unknown analysis provider "${id}"`);
+  }
+
+  const provider = PROVIDERS[id];
+  if (!provider.isConfigured()) {
+    throw new ConfigurationError(`Analysis provider "${id}" is not configured`);
+  }
+
+  return provider;
+}
+
+/**
+ * Lists all providers with their configuration status
+ */
+export function listProviders(): ProviderInfo[] {
+  return Object.values(PROVIDERS).map((provider) => ({
+    id: provider.id,
+    modelVersion: provider.getModelVersion(),
+    configured: provider.isConfigured(),
+  }));
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { checkRateLimit, consumeRateLimit } from '../rateLimitCheck';
+import { rateLimiter } from '../rateLimiter';
+
+function request(ip: string): Request {
+  return new Request('http://localhost/api/analyze', { headers: { 'x-forwarded-for': ip } });
+}
+
+describe('checkRateLimit', () => {
+  beforeEach(() => {
+    rateLimiter.reset();
+  });
+
+  it('should not limit unmetered providers', () => {
+    const provider = { isMetered: false };
+
+    expect(checkRateLimit(request('10.0.0.1'), provider)).toEqual({ headers: {} });
+    expect(consumeRateLimit(request('10.0.0.1'), provider)).toEqual({});
+  });
+
+  it('should reject metered requests once the limit is used up', async () => {
+    const provider = { isMetered: true };
+    const { limit } = rateLimiter.check('10.0.0.2');
+    for (let i = 0; i < limit; i++) {
+      expect(checkRateLimit(request('10.0.0.2'), provider).response).toBeUndefined();
+      expect(consumeRateLimit(request('10.0.0.2'), provider)['X-RateLimit-Remaining']).toBe(String(limit - i - 1));
+    }
+
+    const { response, headers } = checkRateLimit(request('10.0.0.2'), provider);
+    expect(headers['X-RateLimit-Remaining']).toBe('0');
+    expect(response?.status).toBe(429);
+    expect(response?.headers.get('X-RateLimit-Limit')).toBe(String(limit));
+    expect(await response?.json()).toMatchObject({ error: 'Rate limit exceeded', code: 'rate_limit_exceeded', limit });
+  });
+});
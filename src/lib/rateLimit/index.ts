@@ -1,2 +1,4 @@
 export { rateLimiter, getClientIp } from './rateLimiter';
 export type { RateLimitConfig, RateLimitResult } from './rateLimiter';
+export { checkRateLimit, consumeRateLimit } from './rateLimitCheck';
+export type { RateLimitCheck } from './rateLimitCheck';
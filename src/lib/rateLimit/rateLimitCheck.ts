@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { AnalysisProvider } from '../providers';
+import { rateLimiter, getClientIp } from './rateLimiter';
+
+/**
+ * Per-IP rate limiting for API routes
+ *
+ * Only metered providers count against the limit. Routes check the limit
+ * before doing any work and consume it once the work succeeded, so failed
+ * requests are free; both steps return the headers for the response.
+ */
+
+export interface RateLimitCheck {
+  /** Rate limit headers for the response (empty for unmetered providers) */
+  headers: Record<string, string>;
+
+  /** 429 response to return when the client has used up its limit */
+  response?: NextResponse;
+}
+
+type MeteredProvider = Pick<AnalysisProvider, 'isMetered'>;
+
+/**
+ * Checks whether a request may use the provider
+ */
+export function checkRateLimit(request: Request, provider: MeteredProvider): RateLimitCheck {
+  if (!provider.isMetered) {
+    return { headers: {} };
+  }
+
+  const clientIp = getClientIp(request);
+  const result = rateLimiter.check(clientIp);
+  const headers = rateLimiter.getHeaders(result);
+  if (result.allowed) {
+    return { headers };
+  }
+
+  console.warn(`[Rate Limit BLOCKED] IP ${clientIp}: exceeded limit of ${result.limit}`);
+  return {
+    headers,
+    response: NextResponse.json(
+      {
+        error: 'Rate limit exceeded',
+        details: `You have reached your daily limit of ${result.limit} AI-powered analyses. Your limit resets at ${result.resetAt.toLocaleString()}.`,
+        resetAt: result.resetAt.toISOString(),
+        limit: result.limit,
+        code: 'rate_limit_exceeded',
+      },
+      { status: 429, headers }
+    ),
+  };
+}
+
+/**
+ * Counts a request against the limit and returns the updated headers
+ */
+export function consumeRateLimit(request: Request, provider: MeteredProvider): Record<string, string> {
+  return provider.isMetered ? rateLimiter.getHeaders(rateLimiter.consume(getClientIp(request))) : {};
+}
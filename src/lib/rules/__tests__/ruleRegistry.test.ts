@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { ReviewType } from '@/types';
+import { ruleRegistry } from '../ruleRegistry';
+
+function messages(code: string, reviewTypes: ReviewType[]) {
+  return ruleRegistry.run(code, 'typescript', reviewTypes).map((issue) => `${issue.line}: ${issue.message}`);
+}
+
+describe('ruleRegistry.run', () => {
+  it('should fall back to text heuristics for languages without a syntax tree', () => {
+    const code = ['def greet(name):', '    # TODO tidy up', '    var = 1', '    return name'].join('\n');
+    const issues = ruleRegistry.run(code, 'python', ['hygiene']);
+
+    // "var" and "any" only mean something in JavaScript and TypeScript
+    expect(issues.map((issue) => issue.ruleId)).toEqual(['todo-without-context']);
+  });
+
+  it('should report every occurrence with the rule id', () => {
+    const code = ['console.log(1);', 'export const value = 2;', 'console.log(value);'].join('\n');
+    const issues = ruleRegistry.run(code, 'javascript', ['hygiene']);
+
+    expect(issues.map((issue) => [issue.line, issue.ruleId])).toEqual([
+      [1, 'no-console-log'],
+      [3, 'no-console-log'],
+    ]);
+    expect(issues[0].fix).toMatchObject({ startLine: 1, endLine: 1, replacement: '', safe: true });
+  });
+
+  it('should apply per-rule overrides', () => {
+    const code = ['// TODO later', 'console.log("ready");', 'var count = 10;', 'export { count };'].join('\n');
+    const issues = ruleRegistry.run(code, 'javascript', ['hygiene'], {
+      'no-console-log': 'off',
+      'no-var': 'critical',
+      'magic-number': 'on',
+    });
+
+    expect(issues.map((issue) => [issue.ruleId, issue.severity])).toEqual([
+      ['todo-without-context', 'suggestion'],
+      ['no-var', 'critical'],
+      ['magic-number', 'suggestion'],
+    ]);
+  });
+
+  it('should flag "any" annotations but not identifiers, strings or comments', () => {
+    const code = [
+      'const company = "any company";',
+      '// any comment',
+      'export function parse(input: any): unknown {',
+      '  return company.length ? input : null;',
+      '}',
+    ].join('\n');
+
+    expect(messages(code, ['hygiene'])).toEqual(['3: Use of "any" type reduces type safety']);
+  });
+
+  it('should flag every var declaration with a let fix', () => {
+    const code = ['var a = 1;', 'export const b = a;', 'for (var i = 0; i < b; i++) {}'].join('\n');
+    const issues = ruleRegistry.run(code, 'javascript', ['hygiene']);
+
+    expect(issues.map((issue) => issue.line)).toEqual([1, 3]);
+    expect(issues[1].fix?.replacement).toBe('for (let i = 0; i < b; i++) {}');
+  });
+
+  it('should count parameters instead of measuring the parameter list text', () => {
+    const code = [
+      'export function short(aVeryLongParameterName: string, anotherVeryLongParameterName: string) {}',
+      'export const long = (a: number, b: number, c: number, d: number, e: number) => a + b + c + d + e;',
+    ].join('\n');
+
+    expect(messages(code, ['hygiene'])).toEqual(['2: Long parameter list (5 parameters)']);
+  });
+
+  it('should flag empty catch blocks unless a comment explains them', () => {
+    const code = [
+      'export function load() {',
+      '  try { JSON.parse("{}"); } catch (error) {}',
+      '  try { JSON.parse("{}"); } catch {',
+      '    // Invalid input is expected here',
+      '  }',
+      '}',
+    ].join('\n');
+
+    expect(messages(code, ['unnecessary'])).toEqual(['2: Empty catch block']);
+  });
+
+  it('should flag unused variables and respect scopes and property names', () => {
+    const code = [
+      'export function total(items: { price: number }[]) {',
+      '  const unused = 1;',
+      '  const { price, ...rest } = items[0];',
+      '  const sum = items.reduce((acc, item) => acc + item.price, 0);',
+      '  return { sum, rest };',
+      '}',
+    ].join('\n');
+
+    expect(messages(code, ['unnecessary'])).toEqual(['2: Unused variable "unused"', '3: Unused variable "price"']);
+  });
+
+  it('should measure nesting per function and ignore braces in strings', () => {
+    const code = [
+      'export function walk(rows: number[][]) {',
+      '  const text = "{{{{{{";',
+      '  for (const row of rows) {',
+      '    if (row.length) {',
+      '      for (const cell of row) {',
+      '        if (cell > 0) {',
+      '          console.log(text, cell);',
+      '        } else if (cell < 0) {',
+      '          console.log(cell);',
+      '        }',
+      '      }',
+      '    }',
+      '  }',
+      '  return rows.map((row) => { if (row.length) { return row; } return []; });',
+      '}',
+    ].join('\n');
+
+    expect(messages(code, ['simplicity'])).toEqual(['6: Deep nesting detected (4 levels)']);
+  });
+});
+
+describe('ruleRegistry.validateOverrides', () => {
+  it('should reject unknown rules and settings', () => {
+    expect(ruleRegistry.validateOverrides(undefined)).toEqual([]);
+    expect(ruleRegistry.validateOverrides({ 'no-var': 'off', 'deep-nesting': 'warning' })).toEqual([]);
+    expect(ruleRegistry.validateOverrides({ 'no-such-rule': 'off', 'no-var': 'loud' })).toEqual([
+      'Unknown rule "no-such-rule"',
+      'Invalid setting "loud" for rule "no-var"',
+    ]);
+    expect(ruleRegistry.validateOverrides(['no-var'])).toHaveLength(1);
+  });
+});
@@ -0,0 +1,15 @@
+import { PatternRule } from './ruleRegistry';
+import { SOLID_RULES } from './solidRules';
+import { HYGIENE_RULES } from './hygieneRules';
+import { UNNECESSARY_RULES } from './unnecessaryRules';
+import { COMPLEXITY_RULES } from './complexityRules';
+
+/**
+ * Rules shipped with the local engine, grouped by review type
+ */
+export const BUILTIN_RULES: PatternRule[] = [
+  ...SOLID_RULES,
+  ...HYGIENE_RULES,
+  ...UNNECESSARY_RULES,
+  ...COMPLEXITY_RULES,
+];
@@ -0,0 +1,183 @@
+import ts from 'typescript';
+import { PatternRule, RuleOccurrence } from './ruleRegistry';
+import { forEachDescendant, getNodeLine } from './syntaxTree';
+import { findLines } from './textMatch';
+
+/**
+ * Deepest allowed nesting of control-flow statements inside one function
+ */
+export const MAX_NESTING_DEPTH = 3;
+
+/**
+ * Names that say nothing about what a variable holds
+ */
+const NON_DESCRIPTIVE_NAMES = new Set(['x', 'y', 'z', 'temp', 'data', 'obj', 'arr', 'a', 'b', 'c']);
+
+const MAGIC_NUMBER_PATTERN = /return\s+(\d{2,})|=\s*(\d{2,})/;
+
+/**
+ * Statements that open a new level of control-flow nesting
+ * An `else if` continues the chain of its parent `if` instead of nesting.
+ */
+function isNestingStatement(node: ts.Node): boolean {
+  if (ts.isIfStatement(node)) {
+    return !(ts.isIfStatement(node.parent) && node.parent.elseStatement === node);
+  }
+
+  return (
+    ts.isIterationStatement(node, false) ||
+    ts.isSwitchStatement(node) ||
+    ts.isTryStatement(node)
+  );
+}
+
+/**
+ * Brace counting for languages without a syntax tree; reports the deepest line
+ */
+function findDeepBraceNesting(lines: string[]): RuleOccurrence[] {
+  let maxNesting = 0;
+  let currentNesting = 0;
+  let deepNestLine = 0;
+
+  lines.forEach((line, index) => {
+    const openBraces = (line.match(/\{/g) || []).length;
+    const closeBraces = (line.match(/\}/g) || []).length;
+    currentNesting += openBraces - closeBraces;
+    if (currentNesting > maxNesting) {
+      maxNesting = currentNesting;
+      deepNestLine = index + 1;
+    }
+  });
+
+  return maxNesting > MAX_NESTING_DEPTH ? [{ line: deepNestLine }] : [];
+}
+
+/**
+ * Whether a numeric literal is used where a named constant would be clearer
+ * Literals that initialize a const are already named.
+ */
+function isMagicNumber(node: ts.Node): boolean {
+  if (!ts.isNumericLiteral(node) || Number(node.text) < 10) {
+    return false;
+  }
+
+  // A negative number is a unary minus applied to the literal
+  const expression = ts.isPrefixUnaryExpression(node.parent) ? node.parent : node;
+  const parent = expression.parent;
+
+  if (ts.isVariableDeclaration(parent)) {
+    return (parent.parent.flags & ts.NodeFlags.Const) === 0;
+  }
+
+  return ts.isReturnStatement(parent) || ts.isBinaryExpression(parent);
+}
+
+export const deepNestingRule: PatternRule = {
+  id: 'deep-nesting',
+  description: `Control flow nested more than ${MAX_NESTING_DEPTH} levels deep`,
+  languages: 'all',
+  reviewType: 'simplicity',
+  category: 'complexity',
+  defaultSeverity: 'warning',
+  message: 'Deep nesting detected (complexity)',
+  suggestion: 'Reduce nesting by extracting nested logic into separate functions or using early returns.',
+  detect({ sourceFile, lines }) {
+    if (!sourceFile) {
+      return findDeepBraceNesting(lines);
+    }
+
+    const occurrences: RuleOccurrence[] = [];
+    const bodies: ts.Node[] = [sourceFile];
+    forEachDescendant(sourceFile, (node) => {
+      if (ts.isFunctionLike(node)) bodies.push(node);
+    });
+
+    // Each function is measured on its own; nested functions start again at zero
+    for (const body of bodies) {
+      const tooDeep: { node: ts.Node; depth: number }[] = [];
+
+      const visit = (node: ts.Node, depth: number) => {
+        if (ts.isFunctionLike(node)) return;
+
+        const nodeDepth = isNestingStatement(node) ? depth + 1 : depth;
+        if (nodeDepth > depth && nodeDepth > MAX_NESTING_DEPTH) {
+          tooDeep.push({ node, depth: nodeDepth });
+        }
+        ts.forEachChild(node, (child) => visit(child, nodeDepth));
+      };
+      ts.forEachChild(body, (child) => visit(child, 0));
+
+      if (tooDeep.length === 0) continue;
+
+      const deepest = tooDeep.reduce((a, b) => (b.depth > a.depth ? b : a));
+      occurrences.push({
+        line: getNodeLine(sourceFile, deepest.node),
+        message: `Deep nesting detected (${deepest.depth} levels)`,
+        explanation: `Control flow is nested ${deepest.depth} levels deep; more than ${MAX_NESTING_DEPTH} levels is hard to follow.`,
+      });
+    }
+    return occurrences;
+  },
+};
+
+export const magicNumberRule: PatternRule = {
+  id: 'magic-number',
+  description: 'Unnamed numeric literals in logic',
+  languages: 'all',
+  reviewType: 'simplicity',
+  category: 'complexity',
+  defaultSeverity: 'suggestion',
+  message: 'Magic number detected',
+  suggestion: 'Replace magic numbers with named constants to improve code readability.',
+  detect({ sourceFile, lines }) {
+    if (!sourceFile) {
+      return findLines(lines, (line) => MAGIC_NUMBER_PATTERN.test(line) && !line.includes('//')).map((line) => ({
+        line,
+      }));
+    }
+
+    // One finding per line is enough, even with several literals on it
+    const magicLines = new Set<number>();
+    forEachDescendant(sourceFile, (node) => {
+      if (isMagicNumber(node)) magicLines.add(getNodeLine(sourceFile, node));
+    });
+    return Array.from(magicLines, (line) => ({ line }));
+  },
+};
+
+export const nonDescriptiveNameRule: PatternRule = {
+  id: 'non-descriptive-name',
+  description: 'Variables named x, temp, data and the like',
+  languages: 'all',
+  reviewType: 'simplicity',
+  category: 'complexity',
+  defaultSeverity: 'suggestion',
+  message: 'Non-descriptive variable name',
+  suggestion: 'Use descriptive variable names that clearly convey the purpose of the variable.',
+  detect({ sourceFile, lines }) {
+    if (!sourceFile) {
+      const pattern = new RegExp(`\\b(${Array.from(NON_DESCRIPTIVE_NAMES).join('|')})\\b`);
+      return findLines(
+        lines,
+        (line) => (line.includes('var ') || line.includes('let ') || line.includes('const ')) && pattern.test(line)
+      ).map((line) => ({ line }));
+    }
+
+    const occurrences: RuleOccurrence[] = [];
+    forEachDescendant(sourceFile, (node) => {
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && NON_DESCRIPTIVE_NAMES.has(node.name.text)) {
+        occurrences.push({
+          line: getNodeLine(sourceFile, node),
+          message: `Non-descriptive variable name "${node.name.text}"`,
+        });
+      }
+    });
+    return occurrences;
+  },
+};
+
+export const COMPLEXITY_RULES: PatternRule[] = [
+  deepNestingRule,
+  magicNumberRule,
+  nonDescriptiveNameRule,
+];
@@ -0,0 +1,179 @@
+import ts from 'typescript';
+import { PatternRule, RuleOccurrence } from './ruleRegistry';
+import { forEachDescendant, getNodeLine } from './syntaxTree';
+import { findLines, findMatchLines } from './textMatch';
+
+/**
+ * Largest parameter list that is not reported
+ */
+export const MAX_PARAMETERS = 4;
+
+/**
+ * TODO comments that point at a ticket (#123, ABC-123) already have context
+ */
+const TRACKED_TODO = /TODO\s*(?:\(|:)?\s*(?:#\d+|[A-Z][A-Z0-9]+-\d+)/;
+
+function isConsoleLog(node: ts.Node): node is ts.CallExpression {
+  return (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    ts.isIdentifier(node.expression.expression) &&
+    node.expression.expression.text === 'console' &&
+    node.expression.name.text === 'log'
+  );
+}
+
+export const noConsoleLogRule: PatternRule = {
+  id: 'no-console-log',
+  description: 'console.log calls left in the code',
+  languages: 'all',
+  reviewType: 'hygiene',
+  category: 'hygiene',
+  defaultSeverity: 'warning',
+  message: 'Console.log statement left in code',
+  suggestion: 'Remove console.log statements before committing to production. Use a proper logging framework instead.',
+  detect({ sourceFile, lines }) {
+    if (!sourceFile) {
+      return findLines(lines, (line) => line.includes('console.log')).map((line) => ({ line }));
+    }
+
+    const occurrences: RuleOccurrence[] = [];
+    forEachDescendant(sourceFile, (node) => {
+      if (!isConsoleLog(node)) return;
+
+      const line = getNodeLine(sourceFile, node);
+
+      // Only a statement that sits alone on its line can be removed mechanically
+      const statement = node.parent;
+      const isStandalone =
+        ts.isExpressionStatement(statement) &&
+        lines[line - 1].trim() === statement.getText(sourceFile);
+
+      occurrences.push({
+        line,
+        fix: isStandalone
+          ? { startLine: line, endLine: line, replacement: '', description: 'Remove the console.log statement', safe: true }
+          : undefined,
+      });
+    });
+    return occurrences;
+  },
+};
+
+export const longParameterListRule: PatternRule = {
+  id: 'long-parameter-list',
+  description: `Functions with more than ${MAX_PARAMETERS} parameters`,
+  languages: 'all',
+  reviewType: 'hygiene',
+  category: 'hygiene',
+  defaultSeverity: 'warning',
+  message: 'Long parameter list detected',
+  suggestion: 'Consider using an options object instead of multiple parameters to improve readability and maintainability.',
+  detect({ sourceFile, code }) {
+    // Without a syntax tree, a long parameter list is approximated by its length
+    if (!sourceFile) {
+      return findMatchLines(code, /function\s+\w+\s*\([^)]{50,}\)/g).map((line) => ({ line }));
+    }
+
+    const occurrences: RuleOccurrence[] = [];
+    forEachDescendant(sourceFile, (node) => {
+      if (!ts.isFunctionLike(node) || ts.isFunctionTypeNode(node) || ts.isConstructorTypeNode(node)) return;
+
+      // `this` parameters only describe the receiver type
+      const parameters = node.parameters.filter(
+        (parameter) => !(ts.isIdentifier(parameter.name) && parameter.name.text === 'this')
+      );
+      if (parameters.length <= MAX_PARAMETERS) return;
+
+      occurrences.push({
+        line: getNodeLine(sourceFile, node),
+        message: `Long parameter list (${parameters.length} parameters)`,
+      });
+    });
+    return occurrences;
+  },
+};
+
+export const noExplicitAnyRule: PatternRule = {
+  id: 'no-explicit-any',
+  description: 'Type annotations using "any"',
+  languages: ['typescript'],
+  reviewType: 'hygiene',
+  category: 'hygiene',
+  defaultSeverity: 'suggestion',
+  message: 'Use of "any" type reduces type safety',
+  suggestion: 'Replace "any" with a specific type or interface to improve type safety.',
+  detect({ sourceFile }) {
+    if (!sourceFile) return [];
+
+    const occurrences: RuleOccurrence[] = [];
+    forEachDescendant(sourceFile, (node) => {
+      if (node.kind === ts.SyntaxKind.AnyKeyword) {
+        occurrences.push({ line: getNodeLine(sourceFile, node) });
+      }
+    });
+    return occurrences;
+  },
+};
+
+export const noVarRule: PatternRule = {
+  id: 'no-var',
+  description: 'Variables declared with "var"',
+  languages: ['typescript', 'javascript'],
+  reviewType: 'hygiene',
+  category: 'hygiene',
+  defaultSeverity: 'suggestion',
+  message: 'Use of "var" keyword',
+  suggestion: 'Use "let" or "const" instead of "var" for better scoping and to avoid hoisting issues.',
+  detect({ sourceFile, lines }) {
+    if (!sourceFile) return [];
+
+    const occurrences: RuleOccurrence[] = [];
+    forEachDescendant(sourceFile, (node) => {
+      if (!ts.isVariableDeclarationList(node) || (node.flags & ts.NodeFlags.BlockScoped) !== 0) return;
+      if (
+        ts.isVariableStatement(node.parent) &&
+        (node.parent.modifiers ?? []).some((modifier) => modifier.kind === ts.SyntaxKind.DeclareKeyword)
+      ) {
+        return;
+      }
+
+      const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      const text = lines[start.line];
+
+      occurrences.push({
+        line: start.line + 1,
+        // Block scoping can change behavior, so this fix is left for review
+        fix: {
+          startLine: start.line + 1,
+          endLine: start.line + 1,
+          replacement: `${text.slice(0, start.character)}let${text.slice(start.character + 3)}`,
+          description: 'Declare the variable with "let"',
+        },
+      });
+    });
+    return occurrences;
+  },
+};
+
+export const todoWithoutContextRule: PatternRule = {
+  id: 'todo-without-context',
+  description: 'TODO comments that do not reference a ticket',
+  languages: 'all',
+  reviewType: 'hygiene',
+  category: 'hygiene',
+  defaultSeverity: 'suggestion',
+  message: 'TODO comment without context',
+  suggestion: 'TODO comments should include context and be tracked in your issue tracker.',
+  detect({ lines }) {
+    return findLines(lines, (line) => line.includes('TODO') && !TRACKED_TODO.test(line)).map((line) => ({ line }));
+  },
+};
+
+export const HYGIENE_RULES: PatternRule[] = [
+  noConsoleLogRule,
+  longParameterListRule,
+  noExplicitAnyRule,
+  noVarRule,
+  todoWithoutContextRule,
+];
@@ -0,0 +1,6 @@
+export { ruleRegistry, RULE_SETTINGS } from './ruleRegistry';
+export type { PatternRule, RuleContext, RuleOccurrence } from './ruleRegistry';
+export { MAX_PARAMETERS } from './hygieneRules';
+export { MAX_NESTING_DEPTH } from './complexityRules';
+export { supportsSyntaxTree, parseSource } from './syntaxTree';
+export type { SyntaxTreeLanguage } from './syntaxTree';
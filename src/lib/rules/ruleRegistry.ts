@@ -0,0 +1,188 @@
+import ts from 'typescript';
+import {
+  CodeIssue,
+  IssueCategory,
+  IssueFix,
+  IssueSeverity,
+  ProgrammingLanguage,
+  ReviewType,
+  RuleOverrides,
+  RuleSetting,
+  SOLIDPrinciple,
+} from '@/types';
+import { parseSource, supportsSyntaxTree } from './syntaxTree';
+import { BUILTIN_RULES } from './builtinRules';
+
+/**
+ * Registry of the local pattern rules
+ *
+ * Every check of the local engine is a registered rule with a stable id, so a
+ * request can switch individual rules on or off or change their severity, and
+ * every reported issue says which rule produced it.
+ */
+
+/**
+ * What a rule sees of the code under review
+ */
+export interface RuleContext {
+  code: string;
+  lines: string[];
+  language: ProgrammingLanguage;
+
+  /** Parsed syntax tree, for languages the engine can parse */
+  sourceFile: ts.SourceFile | null;
+}
+
+/**
+ * One place where a rule matched
+ * Fields left out fall back to the rule's defaults.
+ */
+export interface RuleOccurrence {
+  line: number;
+  message?: string;
+  explanation?: string;
+  suggestion?: string;
+  codeSnippet?: string;
+  fix?: IssueFix;
+}
+
+export interface PatternRule {
+  /** Stable identifier used in settings and reported issues */
+  id: string;
+
+  /** One-line description of what the rule checks */
+  description: string;
+
+  /** Languages the rule applies to, or 'all' */
+  languages: ProgrammingLanguage[] | 'all';
+
+  /** Review type that enables the rule */
+  reviewType: ReviewType;
+
+  category: IssueCategory;
+  principle?: SOLIDPrinciple;
+  defaultSeverity: IssueSeverity;
+
+  /** Default issue message */
+  message: string;
+
+  /** Default suggestion */
+  suggestion: string;
+
+  /** Finds every occurrence in the code */
+  detect(context: RuleContext): RuleOccurrence[];
+}
+
+const RULE_SETTING_VALUES: Record<RuleSetting, true> = {
+  off: true,
+  on: true,
+  critical: true,
+  warning: true,
+  suggestion: true,
+};
+
+export const RULE_SETTINGS = Object.keys(RULE_SETTING_VALUES) as RuleSetting[];
+
+class RuleRegistry {
+  private rules = new Map<string, PatternRule>();
+
+  constructor(rules: PatternRule[] = []) {
+    rules.forEach((rule) => this.register(rule));
+  }
+
+  /**
+   * Adds a rule; ids must be unique
+   */
+  register(rule: PatternRule): void {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Rule "${rule.id}" is already registered`);
+    }
+    this.rules.set(rule.id, rule);
+  }
+
+  get(id: string): PatternRule | null {
+    return this.rules.get(id) ?? null;
+  }
+
+  has(id: string): boolean {
+    return this.rules.has(id);
+  }
+
+  /**
+   * Lists all rules in registration order
+   */
+  list(): PatternRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Validates per-rule settings, returning error messages
+   */
+  validateOverrides(overrides: unknown): string[] {
+    if (overrides === undefined) {
+      return [];
+    }
+    if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+      return ['Rules must be an object mapping rule ids to settings'];
+    }
+
+    const errors: string[] = [];
+    for (const [id, setting] of Object.entries(overrides)) {
+      if (!this.has(id)) {
+        errors.push(`Unknown rule "${id}"`);
+      } else if (!RULE_SETTINGS.includes(setting as RuleSetting)) {
+        errors.push(`Invalid setting "${String(setting)}" for rule "${id}"`);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Runs the rules that apply to the language and are enabled by the review
+   * types or the overrides, returning their issues sorted by line
+   */
+  run(
+    code: string,
+    language: ProgrammingLanguage,
+    reviewTypes: ReviewType[],
+    overrides: RuleOverrides = {}
+  ): CodeIssue[] {
+    const context: RuleContext = {
+      code,
+      lines: code.split('\n'),
+      language,
+      sourceFile: supportsSyntaxTree(language) ? parseSource(code, language) : null,
+    };
+
+    const issues: CodeIssue[] = [];
+
+    for (const rule of this.rules.values()) {
+      const setting = overrides[rule.id];
+      const enabled = setting === undefined ? reviewTypes.includes(rule.reviewType) : setting !== 'off';
+      const appliesToLanguage = rule.languages === 'all' || rule.languages.includes(language);
+      if (!enabled || !appliesToLanguage) continue;
+
+      const severity = setting && setting !== 'on' && setting !== 'off' ? setting : rule.defaultSeverity;
+
+      for (const occurrence of rule.detect(context)) {
+        issues.push({
+          line: occurrence.line,
+          severity,
+          category: rule.category,
+          principle: rule.principle,
+          message: occurrence.message ?? rule.message,
+          explanation: occurrence.explanation,
+          suggestion: occurrence.suggestion ?? rule.suggestion,
+          codeSnippet: occurrence.codeSnippet ?? context.lines[occurrence.line - 1]?.trim(),
+          fix: occurrence.fix,
+          ruleId: rule.id,
+        });
+      }
+    }
+
+    return issues.sort((a, b) => a.line - b.line);
+  }
+}
+
+// Singleton instance holding the built-in rules
+export const ruleRegistry = new RuleRegistry(BUILTIN_RULES);
@@ -0,0 +1,113 @@
+import ts from 'typescript';
+import { PatternRule, RuleOccurrence } from './ruleRegistry';
+import { forEachDescendant, getNodeLine } from './syntaxTree';
+import { findLines } from './textMatch';
+
+/**
+ * Files longer than this are assumed to mix responsibilities
+ */
+const MAX_SINGLE_RESPONSIBILITY_LINES = 20;
+
+/**
+ * Number of `else if` branches after which a chain should be replaced
+ */
+const MAX_ELSE_IF_BRANCHES = 2;
+
+export const multipleResponsibilitiesRule: PatternRule = {
+  id: 'multiple-responsibilities',
+  description: `Code longer than ${MAX_SINGLE_RESPONSIBILITY_LINES} lines that likely does several things`,
+  languages: 'all',
+  reviewType: 'solid',
+  category: 'solid',
+  principle: 'SRP',
+  defaultSeverity: 'warning',
+  message: 'Function appears to have multiple responsibilities',
+  suggestion: 'Consider breaking this function into smaller, single-purpose functions.',
+  detect({ lines }) {
+    return lines.length > MAX_SINGLE_RESPONSIBILITY_LINES ? [{ line: Math.floor(lines.length / 2) }] : [];
+  },
+};
+
+export const directInstantiationRule: PatternRule = {
+  id: 'direct-instantiation',
+  description: 'Classes that create their own dependencies',
+  languages: 'all',
+  reviewType: 'solid',
+  category: 'solid',
+  principle: 'DIP',
+  defaultSeverity: 'suggestion',
+  message: 'Consider dependency injection instead of direct instantiation',
+  suggestion: 'Inject dependencies through the constructor to improve testability and follow the Dependency Inversion Principle.',
+  detect({ sourceFile, lines }) {
+    if (!sourceFile) {
+      return findLines(lines, (line) => /\bclass\s+\w+/.test(line)).map((line) => ({ line }));
+    }
+
+    const occurrences: RuleOccurrence[] = [];
+    forEachDescendant(sourceFile, (node) => {
+      if (!ts.isClassLike(node)) return;
+
+      // Only `new` in the class's own members counts, not in nested classes
+      let instantiates = false;
+      const visit = (child: ts.Node) => {
+        if (ts.isClassLike(child)) return;
+        if (ts.isNewExpression(child)) instantiates = true;
+        ts.forEachChild(child, visit);
+      };
+      node.members.forEach((member) => ts.forEachChild(member, visit));
+
+      if (instantiates) {
+        occurrences.push({ line: getNodeLine(sourceFile, node) });
+      }
+    });
+    return occurrences;
+  },
+};
+
+export const ifElseChainRule: PatternRule = {
+  id: 'if-else-chain',
+  description: `if statements with ${MAX_ELSE_IF_BRANCHES} or more else-if branches`,
+  languages: 'all',
+  reviewType: 'solid',
+  category: 'solid',
+  principle: 'OCP',
+  defaultSeverity: 'warning',
+  message: 'Large if-else chain violates Open/Closed Principle',
+  suggestion: 'Consider using polymorphism or a strategy pattern instead of large if-else chains.',
+  detect({ sourceFile, lines, code }) {
+    // Without a syntax tree the chains cannot be told apart
+    if (!sourceFile) {
+      const elseIfLines = findLines(lines, (line) => line.includes('else if'));
+      return (code.match(/else\s+if/g) ?? []).length >= MAX_ELSE_IF_BRANCHES && elseIfLines.length > 0
+        ? [{ line: elseIfLines[0] }]
+        : [];
+    }
+
+    const occurrences: RuleOccurrence[] = [];
+    forEachDescendant(sourceFile, (node) => {
+      if (!ts.isIfStatement(node)) return;
+      if (ts.isIfStatement(node.parent) && node.parent.elseStatement === node) return;
+
+      let branches = 0;
+      let current: ts.Statement | undefined = node.elseStatement;
+      while (current && ts.isIfStatement(current)) {
+        branches++;
+        current = current.elseStatement;
+      }
+
+      if (branches >= MAX_ELSE_IF_BRANCHES) {
+        occurrences.push({
+          line: getNodeLine(sourceFile, node),
+          message: `Large if-else chain (${branches + 1} conditions) violates Open/Closed Principle`,
+        });
+      }
+    });
+    return occurrences;
+  },
+};
+
+export const SOLID_RULES: PatternRule[] = [
+  multipleResponsibilitiesRule,
+  directInstantiationRule,
+  ifElseChainRule,
+];
@@ -0,0 +1,53 @@
+import ts from 'typescript';
+import { ProgrammingLanguage } from '@/types';
+
+/**
+ * Syntax tree access for the local rule engine
+ *
+ * TypeScript and JavaScript are parsed with the TypeScript compiler API, which
+ * tolerates syntax errors and gives exact node positions. Only parsing is
+ * used; there is no type checking, so rules work on a single snippet without
+ * any project setup.
+ */
+
+export type SyntaxTreeLanguage = 'typescript' | 'javascript';
+
+/**
+ * Whether the local rule engine can parse code in the given language
+ */
+export function supportsSyntaxTree(language: ProgrammingLanguage): language is SyntaxTreeLanguage {
+  return language === 'typescript' || language === 'javascript';
+}
+
+/**
+ * Parses code into a syntax tree
+ * JSX is accepted in both languages since snippets are often React components.
+ */
+export function parseSource(code: string, language: SyntaxTreeLanguage): ts.SourceFile {
+  const isTypeScript = language === 'typescript';
+  return ts.createSourceFile(
+    isTypeScript ? 'input.tsx' : 'input.jsx',
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    isTypeScript ? ts.ScriptKind.TSX : ts.ScriptKind.JSX
+  );
+}
+
+/**
+ * 1-indexed line of the first token of a node (leading comments excluded)
+ */
+export function getNodeLine(sourceFile: ts.SourceFile, node: ts.Node): number {
+  return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+}
+
+/**
+ * Visits every node below `root` in source order
+ */
+export function forEachDescendant(root: ts.Node, visit: (node: ts.Node) => void): void {
+  const walk = (node: ts.Node) => {
+    visit(node);
+    ts.forEachChild(node, walk);
+  };
+  ts.forEachChild(root, walk);
+}
@@ -0,0 +1,28 @@
+/**
+ * Text matching helpers for rules that work without a syntax tree
+ */
+
+/**
+ * 1-indexed line of a character offset
+ */
+export function lineAtOffset(code: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < code.length; i++) {
+    if (code[i] === '\n') line++;
+  }
+  return line;
+}
+
+/**
+ * Lines where a pattern matches, which may span several lines; the pattern must be global
+ */
+export function findMatchLines(code: string, pattern: RegExp): number[] {
+  return Array.from(code.matchAll(pattern), (match) => lineAtOffset(code, match.index ?? 0));
+}
+
+/**
+ * Lines that satisfy a predicate
+ */
+export function findLines(lines: string[], predicate: (line: string) => boolean): number[] {
+  return lines.flatMap((line, index) => (predicate(line) ? [index + 1] : []));
+}
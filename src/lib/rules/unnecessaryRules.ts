@@ -0,0 +1,192 @@
+import ts from 'typescript';
+import { PatternRule, RuleOccurrence } from './ruleRegistry';
+import { forEachDescendant, getNodeLine } from './syntaxTree';
+import { findLines, findMatchLines } from './textMatch';
+
+/**
+ * Comment lines that look like disabled code rather than prose
+ */
+function isCommentedOutCode(line: string): boolean {
+  return (
+    line.trim().startsWith('//') &&
+    (line.includes('const ') || line.includes('function ') || line.includes('var '))
+  );
+}
+
+/**
+ * Whether an identifier is a read or write of a binding, as opposed to a
+ * property name, member declaration or label that happens to share its text
+ */
+function isReference(identifier: ts.Identifier): boolean {
+  const parent = identifier.parent;
+
+  if (ts.isPropertyAccessExpression(parent)) {
+    return parent.name !== identifier;
+  }
+
+  if (ts.isQualifiedName(parent)) {
+    return parent.right !== identifier;
+  }
+
+  if (
+    ts.isPropertyAssignment(parent) ||
+    ts.isPropertyDeclaration(parent) ||
+    ts.isPropertySignature(parent) ||
+    ts.isMethodDeclaration(parent) ||
+    ts.isMethodSignature(parent) ||
+    ts.isGetAccessorDeclaration(parent) ||
+    ts.isSetAccessorDeclaration(parent) ||
+    ts.isEnumMember(parent)
+  ) {
+    return parent.name !== identifier;
+  }
+
+  if (ts.isBindingElement(parent)) {
+    return parent.propertyName !== identifier && parent.name !== identifier;
+  }
+
+  if (ts.isJsxAttribute(parent) || ts.isLabeledStatement(parent)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Node that bounds the visibility of a variable declaration
+ */
+function getDeclarationScope(declaration: ts.VariableDeclaration): ts.Node {
+  const list = declaration.parent;
+  const isFunctionScoped = (list.flags & ts.NodeFlags.BlockScoped) === 0;
+
+  let node: ts.Node = list.parent;
+  while (node.parent) {
+    if (ts.isFunctionLike(node) || ts.isSourceFile(node)) return node;
+    if (!isFunctionScoped && (ts.isBlock(node) || ts.isCaseBlock(node) || ts.isIterationStatement(node, false))) {
+      return node;
+    }
+    if (ts.isModuleBlock(node)) return node;
+    node = node.parent;
+  }
+
+  return node;
+}
+
+/**
+ * Identifiers introduced by a declaration name, including destructured ones
+ */
+function getBoundNames(name: ts.BindingName): ts.Identifier[] {
+  if (ts.isIdentifier(name)) {
+    return [name];
+  }
+
+  return name.elements.flatMap((element) =>
+    ts.isOmittedExpression(element) ? [] : getBoundNames(element.name)
+  );
+}
+
+/**
+ * Exported and ambient declarations may be used outside the analyzed code
+ */
+function isVisibleOutside(declaration: ts.VariableDeclaration): boolean {
+  const statement = declaration.parent.parent;
+  return (
+    ts.isVariableStatement(statement) &&
+    (statement.modifiers ?? []).some(
+      (modifier) =>
+        modifier.kind === ts.SyntaxKind.ExportKeyword || modifier.kind === ts.SyntaxKind.DeclareKeyword
+    )
+  );
+}
+
+export const commentedOutCodeRule: PatternRule = {
+  id: 'commented-out-code',
+  description: 'Code disabled by commenting it out',
+  languages: 'all',
+  reviewType: 'unnecessary',
+  category: 'unnecessary',
+  defaultSeverity: 'suggestion',
+  message: 'Commented-out code detected',
+  suggestion: 'Remove commented-out code. Use version control to track old code instead.',
+  detect({ lines }) {
+    return findLines(lines, isCommentedOutCode).map((line) => ({ line }));
+  },
+};
+
+export const emptyCatchRule: PatternRule = {
+  id: 'empty-catch',
+  description: 'catch blocks that silently swallow errors',
+  languages: 'all',
+  reviewType: 'unnecessary',
+  category: 'unnecessary',
+  defaultSeverity: 'warning',
+  message: 'Empty catch block',
+  suggestion: 'Either handle the error appropriately or remove the try-catch block.',
+  detect({ sourceFile, code }) {
+    if (!sourceFile) {
+      return findMatchLines(code, /catch\s*\([^)]*\)\s*\{\s*\}/g).map((line) => ({ line }));
+    }
+
+    const occurrences: RuleOccurrence[] = [];
+    forEachDescendant(sourceFile, (node) => {
+      if (!ts.isCatchClause(node) || node.block.statements.length > 0) return;
+
+      // A comment inside the block documents a deliberately ignored error
+      const body = node.block.getText(sourceFile);
+      if (body.includes('//') || body.includes('/*')) return;
+
+      occurrences.push({ line: getNodeLine(sourceFile, node) });
+    });
+    return occurrences;
+  },
+};
+
+export const unusedVariableRule: PatternRule = {
+  id: 'unused-variable',
+  description: 'Local variables that are never read',
+  languages: ['typescript', 'javascript'],
+  reviewType: 'unnecessary',
+  category: 'unnecessary',
+  defaultSeverity: 'suggestion',
+  message: 'Unused variable',
+  suggestion: 'Remove the variable, or use it if it was meant to be used.',
+  detect({ sourceFile }) {
+    if (!sourceFile) return [];
+
+    const occurrences: RuleOccurrence[] = [];
+    forEachDescendant(sourceFile, (node) => {
+      // Catch clause bindings are declarations too, but an unused error is routine
+      if (!ts.isVariableDeclaration(node) || !ts.isVariableDeclarationList(node.parent)) return;
+      if (isVisibleOutside(node)) return;
+
+      const scope = getDeclarationScope(node);
+      for (const name of getBoundNames(node.name)) {
+        if (name.text.startsWith('_')) continue;
+
+        let used = false;
+        forEachDescendant(scope, (candidate) => {
+          if (
+            !used &&
+            candidate !== name &&
+            ts.isIdentifier(candidate) &&
+            candidate.text === name.text &&
+            isReference(candidate)
+          ) {
+            used = true;
+          }
+        });
+
+        if (!used) {
+          occurrences.push({ line: getNodeLine(sourceFile, name), message: `Unused variable "${name.text}"` });
+        }
+      }
+    });
+    return occurrences;
+  },
+};
+
+export const UNNECESSARY_RULES: PatternRule[] = [
+  commentedOutCodeRule,
+  emptyCatchRule,
+  unusedVariableRule,
+];
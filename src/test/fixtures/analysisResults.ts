@@ -0,0 +1,55 @@
+import { AnalysisResult, CodeIssue, FileAnalysisResult, MultiFileAnalysisResult } from '@/types';
+
+/**
+ * Analysis results for report and export tests
+ */
+
+export function makeIssue(line: number, overrides: Partial<CodeIssue> = {}): CodeIssue {
+  return { line, severity: 'warning', category: 'hygiene', message: `Issue on ${line}`, suggestion: 'Fix it', ...overrides };
+}
+
+export function makeResult(issues: CodeIssue[], overrides: Partial<AnalysisResult> = {}): AnalysisResult {
+  return {
+    issues,
+    score: 84,
+    grade: 'B',
+    summary: 'Mostly fine.',
+    metrics: { criticalIssues: 0, warnings: issues.length, suggestions: 0, totalIssues: issues.length },
+    confidence: { overall: 82, languageDetection: 90, issueAccuracy: 80, factors: ['Demo mode'], level: 'high' },
+    metadata: { modelVersion: 'demo' },
+    ...overrides,
+  } as AnalysisResult;
+}
+
+/**
+ * A successfully analyzed file of a multi-file result
+ */
+export function makeFileResult(fileName: string, issues: CodeIssue[] = []): FileAnalysisResult {
+  return { fileName, status: 'ok', result: makeResult(issues) };
+}
+
+/**
+ * A file of a multi-file result that could not be analyzed
+ */
+export function makeFailedFile(fileName: string, code: string, message: string): FileAnalysisResult {
+  return { fileName, status: 'failed', error: { code, message } };
+}
+
+export function makeMultiFileResult(
+  files: FileAnalysisResult[],
+  overrides: Partial<MultiFileAnalysisResult> = {}
+): MultiFileAnalysisResult {
+  const warnings = files.reduce((sum, file) => sum + (file.result?.issues.length ?? 0), 0);
+  return {
+    files,
+    aggregateScore: 90,
+    aggregateGrade: 'A',
+    aggregateMetrics: { criticalIssues: 0, warnings, suggestions: 0, totalIssues: warnings },
+    overallSummary: 'Good.',
+    crossFileIssues: [],
+    totalAnalysisTimeMs: 0,
+    totalFiles: files.length,
+    totalLinesAnalyzed: 0,
+    ...overrides,
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Recorded pull-request patches (`git diff base...head`) for offline review tests
+ */
+
+export interface PatchFixture {
+  name: string;
+  description: string;
+  patch: string;
+}
+
+export const debugLoggingPatch: PatchFixture = {
+  name: 'Debug logging',
+  description: 'Adds console.log calls to one file, edits another and deletes a third',
+  patch: `diff --git a/src/services/orders.ts b/src/services/orders.ts
+index 3f2a1c4..9b7e0d2 100644
+--- a/src/services/orders.ts
++++ b/src/services/orders.ts
+@@ -1,9 +1,11 @@
+ export class OrderService {
+   constructor(private repository: OrderRepository) {}
+ 
+   async placeOrder(order: Order): Promise<string> {
+     const total = order.items.reduce((sum, item) => sum + item.price, 0);
++    console.log('placing order', order.id);
+     const id = await this.repository.save({ ...order, total });
++    console.log('saved order', id);
+     return id;
+   }
+ }
+diff --git a/src/utils/format.ts b/src/utils/format.ts
+index 71c0b3e..a4d9f18 100644
+--- a/src/utils/format.ts
++++ b/src/utils/format.ts
+@@ -1,3 +1,3 @@
+ export function formatPrice(value: number): string {
+-  return '$' + value.toFixed(2);
++  return \`$\${value.toFixed(2)}\`;
+ }
+diff --git a/src/legacy/cart.ts b/src/legacy/cart.ts
+deleted file mode 100644
+index 5d1e2aa..0000000
+--- a/src/legacy/cart.ts
++++ /dev/null
+@@ -1,2 +0,0 @@
+-export const cart = [];
+-export const empty = true;
+`,
+};
@@ -1,5 +1,5 @@
 import { CodeIssue, IssueMetrics } from './issue';
-import { ReviewType, ProgrammingLanguage } from './review';
+import { ReviewType, ProgrammingLanguage, AnalysisProviderId, ProjectConfig, ScoringProfileId } from './review';
 
 /**
  * Grade scale for code quality
@@ -26,6 +26,34 @@ export interface ConfidenceMetadata {
   level: 'high' | 'medium' | 'low';
 }
 
+/**
+ * How a diff review focused on the changed lines
+ */
+export interface DiffReviewMetadata {
+  /** Number of lines the diff added */
+  changedLines: number;
+
+  /** Issues on unchanged context lines that were dropped */
+  contextIssuesFiltered: number;
+}
+
+/**
+ * How a review compares with a baseline of known issues
+ */
+export interface BaselineComparison {
+  /** Id of the stored baseline, when one was referenced */
+  baselineId?: string;
+
+  /** Number of issues the baseline does not have; only these count toward the score */
+  newIssues: number;
+
+  /** Issues the baseline already had */
+  existingIssues: CodeIssue[];
+
+  /** Baseline issues that are no longer reported */
+  fixedIssues: CodeIssue[];
+}
+
 /**
  * Analysis performance and metadata
  */
@@ -36,12 +64,24 @@ export interface AnalysisMetadata {
   /** Model used for analysis */
   modelVersion: string;
 
+  /** Provider that performed the analysis */
+  provider?: AnalysisProviderId;
+
+  /** Team guideline document applied to the review, if any */
+  guidelinesId?: string;
+
   /** Whether demo mode was used */
   isDemoMode: boolean;
 
   /** Number of lines analyzed */
   linesAnalyzed: number;
 
+  /** Number of chunks a large file was split into (absent for single-pass analysis) */
+  chunks?: number;
+
+  /** Diff review details (present when a diff was analyzed) */
+  diff?: DiffReviewMetadata;
+
   /** Whether this result was served from cache */
   fromCache?: boolean;
 
@@ -50,6 +90,12 @@ export interface AnalysisMetadata {
 
   /** ISO timestamp when result was cached */
   cachedAt?: string;
+
+  /** Number of AI-reported issues dropped because they failed validation */
+  discardedIssues?: number;
+
+  /** Number of issues hidden by inline suppression comments */
+  suppressedIssues?: number;
 }
 
 /**
@@ -71,6 +117,9 @@ export interface AnalysisResult {
   /** Quality grade (A-F) */
   grade: QualityGrade;
 
+  /** Scoring model that produced the score and grade */
+  scoringProfile?: ScoringProfileId;
+
   /** Which review types were performed */
   reviewTypes: ReviewType[];
 
@@ -85,6 +134,18 @@ export interface AnalysisResult {
 
   /** Analysis metadata */
   metadata: AnalysisMetadata;
+
+  /** Issues hidden by inline suppression comments, kept for review */
+  suppressedIssues?: CodeIssue[];
+
+  /** Per-file results when a diff touching several files was analyzed */
+  files?: FileAnalysisResult[];
+
+  /** Project configuration the analysis was run with */
+  appliedConfig?: ProjectConfig;
+
+  /** Comparison with the baseline; `issues` then holds only new issues */
+  baseline?: BaselineComparison;
 }
 
 /**
@@ -101,6 +162,14 @@ export interface AnalysisState {
   error?: string;
 }
 
+/**
+ * Event emitted by the streaming analysis endpoint
+ */
+export type AnalysisStreamEvent =
+  | { type: 'issue'; issue: CodeIssue }
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'error'; error: string; details?: string; code?: string };
+
 /**
  * AI response structure (raw from API)
  */
@@ -108,6 +177,39 @@ export interface AIAnalysisResponse {
   issues: CodeIssue[];
   summary: string;
   metrics: IssueMetrics;
+  /** Number of issues dropped during validation */
+  discardedIssues?: number;
+}
+
+/**
+ * Source file submitted for multi-file analysis
+ */
+export interface FileInput {
+  name: string;
+  content: string;
+  language: ProgrammingLanguage;
+}
+
+/**
+ * Outcome of one file of a multi-file analysis
+ * - ok: analyzed, see `result`
+ * - failed: the analysis of this file failed, see `error`
+ * - skipped: not analyzed because an earlier file failed in a way that would
+ *   repeat for every file (missing configuration, rate limits), see `error`
+ */
+export type FileAnalysisStatus = 'ok' | 'failed' | 'skipped';
+
+/**
+ * Why a file was not analyzed
+ */
+export interface FileAnalysisError {
+  /** Machine-readable code, like the `code` of API error responses */
+  code: string;
+
+  message: string;
+
+  /** Whether analyzing the file again may succeed */
+  retryable?: boolean;
 }
 
 /**
@@ -117,10 +219,20 @@ export interface FileAnalysisResult {
   /** File name */
   fileName: string;
 
-  /** File-specific analysis result */
-  result: AnalysisResult;
+  status: FileAnalysisStatus;
+
+  /** File-specific analysis result (only when the status is ok) */
+  result?: AnalysisResult;
+
+  /** Why the file failed or was skipped */
+  error?: FileAnalysisError;
 }
 
+/**
+ * File of a multi-file analysis that was analyzed successfully
+ */
+export type AnalyzedFileResult = FileAnalysisResult & { status: 'ok'; result: AnalysisResult };
+
 /**
  * Multi-file analysis result
  */
@@ -134,6 +246,9 @@ export interface MultiFileAnalysisResult {
   /** Aggregate grade */
   aggregateGrade: QualityGrade;
 
+  /** Scoring model that produced the scores and grades */
+  scoringProfile?: ScoringProfileId;
+
   /** Total metrics across all files */
   aggregateMetrics: IssueMetrics;
 
@@ -149,6 +264,102 @@ export interface MultiFileAnalysisResult {
   /** Total files analyzed */
   totalFiles: number;
 
+  /** Some files failed or were given up on; scores and metrics cover the analyzed files only */
+  partial?: boolean;
+
   /** Total lines analyzed */
   totalLinesAnalyzed: number;
+
+  /** Files left out by the ignore patterns of the project configuration */
+  ignoredFiles?: string[];
+
+  /** Project configuration the analysis was run with */
+  appliedConfig?: ProjectConfig;
+
+  /** Comparison with the baseline across all files */
+  baseline?: BaselineComparison;
+
+  /** How the files were picked from an uploaded repository archive */
+  archive?: ArchiveSummary;
+
+  /** Imports between the analyzed files */
+  dependencyGraph?: DependencyGraph;
+}
+
+/**
+ * An import of one analyzed file by another
+ */
+export interface DependencyEdge {
+  /** Importing file */
+  from: string;
+
+  /** Imported file */
+  to: string;
+
+  /** Line of the first import of `to` in `from` */
+  line: number;
+}
+
+/**
+ * Coupling metrics of a file within the analyzed files
+ */
+export interface ModuleCoupling {
+  file: string;
+
+  /** Number of files importing this file (afferent coupling) */
+  fanIn: number;
+
+  /** Number of files this file imports (efferent coupling) */
+  fanOut: number;
+
+  /** fanOut / (fanIn + fanOut): 0 is maximally stable, 1 maximally unstable */
+  instability: number;
+}
+
+/**
+ * Module dependency graph of a multi-file analysis
+ */
+export interface DependencyGraph {
+  /** One node per analyzed file, including files without imports */
+  nodes: ModuleCoupling[];
+
+  edges: DependencyEdge[];
+
+  /** Import cycles, each listing its files in import order */
+  cycles: string[][];
+}
+
+/**
+ * Why a source file of an archive was not analyzed
+ */
+export type ArchiveSkipReason =
+  | 'gitignored'
+  | 'ignored' // by the project configuration
+  | 'vendored'
+  | 'generated'
+  | 'minified'
+  | 'too_large'
+  | 'binary'
+  | 'empty';
+
+export interface SkippedArchiveFile {
+  path: string;
+  reason: ArchiveSkipReason;
+}
+
+/**
+ * Files picked from an uploaded repository archive
+ */
+export interface ArchiveSummary {
+  /** Name of the uploaded archive */
+  name: string;
+
+  /** Entries in the archive */
+  totalEntries: number;
+
+  /** Source files that were left out, with why */
+  skippedFiles: SkippedArchiveFile[];
+
+  /** Contents of the analyzed files by path, when the request asked for them */
+  sources?: Record<string, string>;
 }
@@ -8,25 +8,61 @@ export type {
   IssueCategory,
   SOLIDPrinciple,
   CodeIssue,
+  IssueFix,
   IssueMetrics,
+  IssueLocationRole,
+  IssueLocation,
+  CloneType,
+  CodeClone,
 } from './issue';
 
 // Review types
 export type {
   ReviewType,
   ProgrammingLanguage,
+  AnalysisProviderId,
   CodeInputType,
   ReviewConfig,
   ReviewOptions,
+  RuleSetting,
+  RuleOverrides,
+  SeverityOverrides,
+  ScoringWeights,
+  ScoringConfig,
+  ScoringProfileId,
+  GradeThresholds,
+  CloneDetectionConfig,
+  ProjectConfig,
 } from './review';
 
 // Analysis types
 export type {
   QualityGrade,
   AnalysisResult,
+  BaselineComparison,
   AnalysisStatus,
   AnalysisState,
+  AnalysisStreamEvent,
   AIAnalysisResponse,
+  FileInput,
   FileAnalysisResult,
+  FileAnalysisStatus,
+  FileAnalysisError,
+  AnalyzedFileResult,
   MultiFileAnalysisResult,
+  ArchiveSkipReason,
+  SkippedArchiveFile,
+  ArchiveSummary,
+  DependencyEdge,
+  ModuleCoupling,
+  DependencyGraph,
 } from './analysis';
+
+// Job types
+export type {
+  JobStatus,
+  JobFileStatus,
+  JobFile,
+  JobProgress,
+  AnalysisJob,
+} from './job';
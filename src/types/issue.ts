@@ -19,6 +19,27 @@ export type SOLIDPrinciple =
   | 'DIP'  // Dependency Inversion Principle
   | 'other';
 
+/**
+ * Machine-applicable fix for an issue
+ * Replaces a range of whole lines with new text; an empty replacement deletes them.
+ */
+export interface IssueFix {
+  /** First line to replace (1-indexed) */
+  startLine: number;
+
+  /** Last line to replace (1-indexed, inclusive) */
+  endLine: number;
+
+  /** Text that replaces the lines, without a trailing newline */
+  replacement: string;
+
+  /** Short description of what the fix changes */
+  description?: string;
+
+  /** Whether the fix is mechanical and cannot break the code, so it can be applied in bulk */
+  safe?: boolean;
+}
+
 /**
  * Represents a single code issue found during analysis
  */
@@ -26,6 +47,18 @@ export interface CodeIssue {
   /** Line number where the issue occurs (1-indexed) */
   line: number;
 
+  /** File the issue belongs to (set when reviewing a diff) */
+  file?: string;
+
+  /**
+   * Files a cross-file issue spans
+   * @deprecated Use `locations`, which also give the lines in each file
+   */
+  relatedFiles?: string[];
+
+  /** Places in the analyzed files a cross-file issue spans, the primary one first */
+  locations?: IssueLocation[];
+
   /** Severity level of the issue */
   severity: IssueSeverity;
 
@@ -46,6 +79,65 @@ export interface CodeIssue {
 
   /** Code snippet showing the issue (optional) */
   codeSnippet?: string;
+
+  /** Structured fix that can be applied to the code (optional) */
+  fix?: IssueFix;
+
+  /** Id of the pattern rule that reported the issue (local engine only) */
+  ruleId?: string;
+
+  /**
+   * Stable identifier derived from the rule and surrounding code, set by the
+   * analyzer; survives re-runs and edits elsewhere in the file
+   */
+  fingerprint?: string;
+
+  /** How closely the copies match; the copies are the issue's locations (clone detection only) */
+  clone?: CodeClone;
+}
+
+/**
+ * How a location takes part in a cross-file issue
+ * - primary: where the issue is reported
+ * - duplicate: another copy of duplicated code
+ * - import: another import of an import cycle
+ */
+export type IssueLocationRole = 'primary' | 'duplicate' | 'import';
+
+/**
+ * A range of lines in one of the analyzed files
+ */
+export interface IssueLocation {
+  file: string;
+
+  /** First line (1-indexed) */
+  startLine: number;
+
+  /** Last line (inclusive); the start line when absent */
+  endLine?: number;
+
+  role: IssueLocationRole;
+}
+
+/**
+ * How closely the copies of duplicated code match
+ * - exact: identical apart from whitespace and comments (Type-1)
+ * - renamed: identical apart from identifiers and literals (Type-2)
+ * - near-miss: a few statements added, removed or changed as well (Type-3)
+ */
+export type CloneType = 'exact' | 'renamed' | 'near-miss';
+
+/**
+ * Duplicated code found by clone detection
+ */
+export interface CodeClone {
+  type: CloneType;
+
+  /** Share of the tokens of both copies that match, from 0 to 100 */
+  similarity: number;
+
+  /** Matching tokens in each copy */
+  tokens: number;
 }
 
 /**
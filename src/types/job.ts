@@ -0,0 +1,55 @@
+import { FileAnalysisError, FileAnalysisResult, FileAnalysisStatus, MultiFileAnalysisResult } from './analysis';
+
+/**
+ * Lifecycle of an analysis job
+ * - queued: accepted, no file started yet
+ * - running: files are being analyzed
+ * - completed: every file has an outcome, see `result`
+ * - failed: no file could be analyzed, see `error`
+ * - cancelled: stopped on request; files already in progress still finish and
+ *   are reported in `result`
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Progress of one file of a job; finished files take the status of their result
+ */
+export type JobFileStatus = 'pending' | 'running' | FileAnalysisStatus;
+
+/**
+ * One file of a job, with its result as soon as it is analyzed
+ */
+export interface JobFile extends Omit<FileAnalysisResult, 'status'> {
+  status: JobFileStatus;
+}
+
+export interface JobProgress {
+  /** Files analyzed, failed or skipped */
+  completedFiles: number;
+
+  totalFiles: number;
+}
+
+/**
+ * A multi-file analysis running in the background
+ */
+export interface AnalysisJob {
+  id: string;
+
+  status: JobStatus;
+
+  /** Every file to analyze, in order, with the results so far */
+  files: JobFile[];
+
+  progress: JobProgress;
+
+  /** Aggregated result, once the files have finished */
+  result?: MultiFileAnalysisResult;
+
+  /** Why the job failed */
+  error?: FileAnalysisError;
+
+  createdAt: string;
+
+  updatedAt: string;
+}
@@ -1,3 +1,6 @@
+import { IssueSeverity } from './issue';
+import type { AnalysisResult, MultiFileAnalysisResult } from './analysis';
+
 /**
  * Types of code reviews available
  */
@@ -17,6 +20,11 @@ export type ProgrammingLanguage =
   | 'cpp'
   | 'auto'; // Auto-detect
 
+/**
+ * Backends that can perform an analysis
+ */
+export type AnalysisProviderId = 'claude' | 'demo' | 'openai-compatible';
+
 /**
  * Input type for code review
  */
@@ -40,8 +48,41 @@ export interface ReviewConfig {
 
   /** Optional: Additional context or instructions */
   context?: string;
+
+  /** Optional: Id of a stored team guideline document to apply */
+  guidelinesId?: string;
+
+  /** Optional: Provider to use instead of the server default */
+  provider?: AnalysisProviderId;
+
+  /** Optional: Per-rule settings for the local pattern engine, keyed by rule id */
+  rules?: RuleOverrides;
+
+  /** Optional: Project configuration (.solidryrc.json) with team policy */
+  projectConfig?: ProjectConfig;
+
+  /** Optional: Earlier result whose issues count as existing rather than new */
+  baseline?: AnalysisResult | MultiFileAnalysisResult;
+
+  /** Optional: Id of a stored baseline, instead of sending one */
+  baselineId?: string;
+
+  /** Optional: Name of the analyzed file, to pick its issues from a multi-file baseline */
+  fileName?: string;
 }
 
+/**
+ * Setting for a single pattern rule
+ * 'off' disables the rule, 'on' runs it even when its review type is not
+ * selected, and a severity does the same while replacing the default severity.
+ */
+export type RuleSetting = 'off' | 'on' | IssueSeverity;
+
+/**
+ * Pattern rule settings keyed by rule id
+ */
+export type RuleOverrides = Record<string, RuleSetting>;
+
 /**
  * Options for individual review types
  */
@@ -58,3 +99,80 @@ export interface ReviewOptions {
   /** Check for over-engineering (simplicity check) */
   simplicity: boolean;
 }
+
+/**
+ * Severity overrides keyed by issue category, SOLID principle or rule id
+ * A rule id takes precedence over a principle, and a principle over a category.
+ */
+export type SeverityOverrides = Record<string, IssueSeverity>;
+
+/**
+ * Points deducted from the score for each issue of a severity
+ */
+export type ScoringWeights = Partial<Record<IssueSeverity, number>>;
+
+/**
+ * Named scoring models
+ * - legacy: fixed deductions per issue from 100
+ * - density: deductions per 100 logical lines, so large files are not penalized for their size
+ * - category-weighted: deductions weighted by category, with diminishing returns for a repeated rule
+ */
+export type ScoringProfileId = 'legacy' | 'density' | 'category-weighted';
+
+/**
+ * Lowest score that still earns each grade; anything below D is an F
+ */
+export interface GradeThresholds {
+  A: number;
+  B: number;
+  C: number;
+  D: number;
+}
+
+/**
+ * Scoring settings of a project configuration
+ */
+export interface ScoringConfig {
+  /** Scoring model, 'legacy' by default */
+  profile?: ScoringProfileId;
+
+  /** Replaces the default deduction per severity */
+  weights?: ScoringWeights;
+
+  /** Replaces the default minimum score of individual grades */
+  gradeThresholds?: Partial<GradeThresholds>;
+}
+
+/**
+ * Clone detection settings of a project configuration
+ */
+export interface CloneDetectionConfig {
+  /** Fewest matching tokens a clone must have (default 50) */
+  minTokens?: number;
+
+  /** Lowest similarity, from 0 to 100, of a reported near-miss clone (default 80) */
+  minSimilarity?: number;
+}
+
+/**
+ * Project configuration, usually kept as `.solidryrc.json` in the repository
+ */
+export interface ProjectConfig {
+  /** Review types used when a request does not select any */
+  reviewTypes?: ReviewType[];
+
+  /** Severity overrides applied to every reported issue */
+  severity?: SeverityOverrides;
+
+  /** Glob patterns of files left out of multi-file analysis */
+  ignore?: string[];
+
+  /** Scoring settings */
+  scoring?: ScoringConfig;
+
+  /** Context added to every review, before any per-request context */
+  context?: string;
+
+  /** Duplicated code detection in multi-file analysis */
+  clones?: CloneDetectionConfig;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { compareWithBaseline, getBaselineIssues, validateBaseline } from '../baseline';
+import { AnalysisResult, MultiFileAnalysisResult } from '@/types';
+import { makeFailedFile, makeFileResult, makeIssue, makeMultiFileResult } from '@/test/fixtures/analysisResults';
+
+describe('compareWithBaseline', () => {
+  it('should match issues by fingerprint regardless of line', () => {
+    const baseline = [makeIssue(10, { fingerprint: 'aaa' })];
+    const current = [makeIssue(80, { fingerprint: 'aaa:2' })];
+
+    const match = compareWithBaseline(current, baseline);
+    expect(match.existingIssues).toEqual(current);
+    expect(match.newIssues).toEqual([]);
+    expect(match.fixedIssues).toEqual([]);
+  });
+
+  it('should fall back to nearby issues of the same kind', () => {
+    const baseline = [makeIssue(10), makeIssue(40, { ruleId: 'god-class' })];
+    const current = [makeIssue(13), makeIssue(40)];
+
+    const match = compareWithBaseline(current, baseline);
+    expect(match.existingIssues).toEqual([current[0]]);
+    expect(match.newIssues).toEqual([current[1]]);
+    expect(match.fixedIssues).toEqual([baseline[1]]);
+  });
+
+  it('should match each baseline issue only once', () => {
+    const match = compareWithBaseline([makeIssue(10), makeIssue(11)], [makeIssue(10)]);
+
+    expect(match.existingIssues).toHaveLength(1);
+    expect(match.newIssues).toEqual([makeIssue(11)]);
+  });
+
+  it('should match moved issues with an identical message', () => {
+    const baseline = [makeIssue(10, { message: 'Avoid any' })];
+    const current = [makeIssue(200, { message: '  avoid  ANY ' })];
+
+    expect(compareWithBaseline(current, baseline).existingIssues).toEqual(current);
+  });
+});
+
+describe('getBaselineIssues', () => {
+  it('should label multi-file issues with their file', () => {
+    const result = {
+      aggregateScore: 90,
+      files: [{ fileName: 'a.ts', status: 'ok', result: { issues: [makeIssue(1)] } }],
+    } as unknown as MultiFileAnalysisResult;
+
+    expect(getBaselineIssues(result)).toEqual([{ ...makeIssue(1), file: 'a.ts' }]);
+  });
+
+  it('should include issues an earlier baseline already accepted', () => {
+    const result = {
+      issues: [makeIssue(1)],
+      baseline: { newIssues: 1, existingIssues: [makeIssue(5)], fixedIssues: [] },
+    } as unknown as AnalysisResult;
+
+    expect(getBaselineIssues(result)).toEqual([makeIssue(1), makeIssue(5)]);
+  });
+});
+
+describe('validateBaseline', () => {
+  it('should accept analysis results', () => {
+    expect(validateBaseline(undefined)).toEqual([]);
+    expect(validateBaseline({ issues: [makeIssue(1)] })).toEqual([]);
+    expect(validateBaseline({ aggregateScore: 90, files: [{ result: { issues: [] } }] })).toEqual([]);
+  });
+
+  it('should accept multi-file results with failed files', () => {
+    const result = makeMultiFileResult([
+      makeFileResult('a.ts', [makeIssue(1)]),
+      makeFailedFile('b.ts', 'provider_error', 'Model error'),
+    ]);
+
+    expect(getBaselineIssues(result)).toHaveLength(1);
+    expect(validateBaseline(result)).toEqual([]);
+  });
+
+  it('should reject anything else', () => {
+    expect(validateBaseline('main')).toEqual(['Baseline must be an analysis result with issues or files']);
+    expect(validateBaseline({ issues: [{ line: '3' }] })).toEqual(['Baseline contains malformed issues']);
+  });
+
+  it('should reject issues with an unknown category or severity', () => {
+    const malformed = ['Baseline contains malformed issues'];
+
+    expect(validateBaseline({ issues: [{ line: 3, message: 'Old issue' }] })).toEqual(malformed);
+    expect(validateBaseline({ issues: [makeIssue(3, { severity: 'info' as never })] })).toEqual(malformed);
+    expect(validateBaseline({ issues: [makeIssue(3, { category: 'style' as never })] })).toEqual(malformed);
+    expect(
+      validateBaseline({
+        issues: [makeIssue(1)],
+        baseline: { newIssues: 1, existingIssues: [{ line: 5, message: 'Old issue' }], fixedIssues: [] },
+      })
+    ).toEqual(malformed);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseUnifiedDiff,
+  buildDiffReviewInput,
+  toFileLine,
+  formatLineRanges,
+  focusIssueOnChanges,
+} from '../diffParser';
+import { CodeIssue } from '@/types';
+
+const diff = `diff --git a/src/math.ts b/src/math.ts
+index 1234567..89abcde 100644
+--- a/src/math.ts
++++ b/src/math.ts
+@@ -10,4 +10,5 @@ export function add(a: number, b: number) {
+ const a = 1;
+-const b = 2;
++const b = 3;
++--- not a header
+ const c = 4;
+ const d = 5;
+@@ -40,2 +41,3 @@
+ function tail() {
++  console.log('x');
+ }
+diff --git a/src/old.ts b/src/old.ts
+deleted file mode 100644
+--- a/src/old.ts
++++ /dev/null
+@@ -1,2 +0,0 @@
+-export const old = true;
+-export const gone = true;
+`;
+
+describe('parseUnifiedDiff', () => {
+  it('should parse files, hunks and new-file line numbers', () => {
+    const files = parseUnifiedDiff(diff);
+
+    expect(files).toHaveLength(2);
+    expect(files[0].newPath).toBe('src/math.ts');
+    expect(files[0].hunks).toHaveLength(2);
+    expect(files[1].newPath).toBeNull();
+
+    const [first] = files[0].hunks;
+    expect(first.lines.map((l) => l.type)).toEqual([
+      'context',
+      'removed',
+      'added',
+      'added',
+      'context',
+      'context',
+    ]);
+    expect(first.lines[3]).toEqual({ type: 'added', content: '--- not a header', newLine: 12 });
+  });
+
+  it('should accept hunk headers without line counts', () => {
+    const [file] = parseUnifiedDiff('--- a/x.py\n+++ b/x.py\n@@ -1 +1 @@\n-a = 1\n+a = 2\n');
+
+    expect(file.newPath).toBe('x.py');
+    expect(file.hunks[0].lines[1]).toMatchObject({ type: 'added', newLine: 1 });
+  });
+
+  it('should return nothing for text without hunks', () => {
+    expect(parseUnifiedDiff('+const a = 1;\n-const b = 2;')).toEqual([]);
+  });
+});
+
+describe('buildDiffReviewInput', () => {
+  it('should keep context and added lines with a map to the new file', () => {
+    const input = buildDiffReviewInput(parseUnifiedDiff(diff)[0])!;
+
+    expect(input.code.split('\n')).toEqual([
+      'const a = 1;',
+      'const b = 3;',
+      '--- not a header',
+      'const c = 4;',
+      'const d = 5;',
+      '',
+      'function tail() {',
+      "  console.log('x');",
+      '}',
+    ]);
+    expect(input.changedLines).toEqual([2, 3, 8]);
+    expect(toFileLine(input, 2)).toBe(11);
+    expect(toFileLine(input, 8)).toBe(42);
+    expect(toFileLine(input, 6)).toBe(41); // separator maps to the next hunk
+  });
+
+  it('should skip files that only remove lines', () => {
+    expect(buildDiffReviewInput(parseUnifiedDiff(diff)[1])).toBeNull();
+  });
+});
+
+describe('formatLineRanges', () => {
+  it('should collapse consecutive lines', () => {
+    expect(formatLineRanges([9, 3, 4, 5, 12, 13])).toBe('3-5, 9, 12-13');
+  });
+});
+
+describe('focusIssueOnChanges', () => {
+  const issue: CodeIssue = {
+    line: 4,
+    severity: 'warning',
+    category: 'hygiene',
+    message: 'Magic number',
+    suggestion: 'Name it',
+  };
+  const changed = new Set([2, 3]);
+
+  it('should keep issues on changed lines', () => {
+    expect(focusIssueOnChanges({ ...issue, line: 2 }, changed)).toEqual({ ...issue, line: 2 });
+  });
+
+  it('should drop non-critical issues on context lines', () => {
+    expect(focusIssueOnChanges(issue, changed)).toBeNull();
+  });
+
+  it('should down-rank critical issues on context lines', () => {
+    expect(focusIssueOnChanges({ ...issue, severity: 'critical' }, changed)?.severity).toBe('warning');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { CodeIssue } from '@/types';
+import { assignFingerprints, computeFingerprint } from '../fingerprint';
+
+const code = [
+  'function total(items) {',
+  '  let sum = 0;',
+  '  for (const item of items) sum += item.price * 100;',
+  '  return sum;',
+  '}',
+].join('\n');
+
+const issue: CodeIssue = {
+  line: 3,
+  severity: 'suggestion',
+  category: 'complexity',
+  message: 'Magic number 100',
+  suggestion: 'Name it',
+};
+
+describe('computeFingerprint', () => {
+  it('should survive edits elsewhere, reformatting and rewording', () => {
+    const base = computeFingerprint(issue, code.split('\n'));
+
+    const edited = `// Pricing helpers\n\n${code.replace('  for', '    for')}\nexport { total };`;
+    const moved = { ...issue, line: 5, message: 'Unnamed constant' };
+
+    expect(computeFingerprint(moved, edited.split('\n'))).toBe(base);
+    expect(base).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should change with the code or the kind of issue', () => {
+    const lines = code.split('\n');
+    const base = computeFingerprint(issue, lines);
+
+    expect(computeFingerprint(issue, code.replace('100', '1000').split('\n'))).not.toBe(base);
+    expect(computeFingerprint({ ...issue, category: 'hygiene' }, lines)).not.toBe(base);
+    expect(computeFingerprint({ ...issue, ruleId: 'magic-number' }, lines)).not.toBe(base);
+  });
+
+  it('should hash the kind and code context with 64-bit FNV-1a', () => {
+    // Fingerprints are stored in baselines, so the hash must not change
+    expect(computeFingerprint(issue, code.split('\n'))).toBe('d4c33ef1cf4abd7e');
+  });
+});
+
+describe('assignFingerprints', () => {
+  it('should tell identical findings apart by order', () => {
+    const repeated = ['log(1);', 'log(1);', 'log(1);', 'log(1);'].join('\n');
+    const issues = assignFingerprints([1, 2, 3, 4].map((line) => ({ ...issue, line })), repeated);
+    const [first, second] = issues.map((i) => i.fingerprint);
+
+    // Lines 2 and 3 have the same neighbors; 1 and 4 differ at the file edges
+    expect(new Set(issues.map((i) => i.fingerprint)).size).toBe(4);
+    expect(second).not.toBe(first);
+    expect(issues[2].fingerprint).toBe(`${second}:2`);
+  });
+});
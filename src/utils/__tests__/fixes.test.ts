@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { IssueFix } from '@/types';
+import { applyFix, applyFixes, buildFixPreview, selectCompatibleFixes } from '../fixes';
+
+const code = [
+  'function greet(name) {',
+  '  var greeting = "Hello " + name;',
+  '  console.log(greeting);',
+  '  return greeting;',
+  '}',
+].join('\n');
+
+const useLet: IssueFix = {
+  startLine: 2,
+  endLine: 2,
+  replacement: '  let greeting = "Hello " + name;',
+};
+
+const removeLog: IssueFix = { startLine: 3, endLine: 3, replacement: '', safe: true };
+
+describe('applyFix', () => {
+  it('should replace and delete whole lines', () => {
+    expect(applyFix(code, useLet)?.split('\n')[1]).toBe('  let greeting = "Hello " + name;');
+    expect(applyFix(code, removeLog)?.split('\n')).toHaveLength(4);
+  });
+
+  it('should reject a range outside the code', () => {
+    expect(applyFix(code, { startLine: 5, endLine: 9, replacement: '' })).toBeNull();
+  });
+});
+
+describe('selectCompatibleFixes', () => {
+  it('should reject fixes overlapping an earlier or already applied fix', () => {
+    const wide: IssueFix = { startLine: 2, endLine: 3, replacement: '  return "Hello " + name;' };
+    const last: IssueFix = { startLine: 4, endLine: 4, replacement: '  return greeting.trim();' };
+
+    const selection = selectCompatibleFixes([wide, useLet, removeLog], [last]);
+
+    expect(selection.accepted).toEqual([wide]);
+    expect(selection.conflicting).toEqual([useLet, removeLog]);
+  });
+});
+
+describe('applyFixes', () => {
+  it('should apply several fixes to the analyzed code at once', () => {
+    const result = applyFixes(code, code, [useLet, removeLog]);
+
+    expect(result.applied).toEqual([useLet, removeLog]);
+    expect(result.code).toBe(
+      ['function greet(name) {', '  let greeting = "Hello " + name;', '  return greeting;', '}'].join('\n')
+    );
+  });
+
+  it('should locate fixes in code that changed since the analysis', () => {
+    const edited = `// Greeting helper\n${applyFix(code, removeLog)}`;
+    const result = applyFixes(edited, code, [useLet]);
+
+    expect(result.failed).toEqual([]);
+    expect(result.code.split('\n')[2]).toBe('  let greeting = "Hello " + name;');
+  });
+
+  it('should report fixes whose code is gone', () => {
+    const rewritten = 'const greet = (name) => `Hello ${name}`;';
+    const result = applyFixes(rewritten, code, [useLet]);
+
+    expect(result.failed).toEqual([useLet]);
+    expect(result.code).toBe(rewritten);
+  });
+});
+
+describe('buildFixPreview', () => {
+  it('should diff the replaced lines', () => {
+    expect(buildFixPreview(code, useLet)).toEqual([
+      { type: 'removed', content: '  var greeting = "Hello " + name;' },
+      { type: 'added', content: '  let greeting = "Hello " + name;' },
+    ]);
+    expect(buildFixPreview(code, removeLog)).toEqual([
+      { type: 'removed', content: '  console.log(greeting);' },
+    ]);
+  });
+});
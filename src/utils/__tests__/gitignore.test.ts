@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { isFileGitignored, isGitignored, parseGitignore } from '../gitignore';
+
+describe('parseGitignore', () => {
+  it('should parse negations, directory rules and comments', () => {
+    expect(parseGitignore('# build output\ndist/\n!keep.ts\n\n*.log', 'pkg')).toEqual([
+      { base: 'pkg', pattern: 'dist', negated: false, directoryOnly: true },
+      { base: 'pkg', pattern: 'keep.ts', negated: true, directoryOnly: false },
+      { base: 'pkg', pattern: '*.log', negated: false, directoryOnly: false },
+    ]);
+  });
+
+  it('should let the last matching rule decide', () => {
+    const rules = parseGitignore('*.gen.ts\n!api.gen.ts\n/root.ts\nout/');
+
+    expect(isGitignored('src/types.gen.ts', false, rules)).toBe(true);
+    expect(isGitignored('src/api.gen.ts', false, rules)).toBe(false);
+    expect(isGitignored('root.ts', false, rules)).toBe(true);
+    expect(isGitignored('src/root.ts', false, rules)).toBe(false);
+    expect(isGitignored('out', true, rules)).toBe(true);
+    expect(isGitignored('out', false, rules)).toBe(false);
+  });
+});
+
+describe('isFileGitignored', () => {
+  it('should exclude files below an ignored directory', () => {
+    const rules = [...parseGitignore('build/\n*.log'), ...parseGitignore('!keep.log\ngen/', 'pkg')];
+
+    expect(isFileGitignored('build/out/app.ts', rules)).toBe(true);
+    expect(isFileGitignored('src/build.ts', rules)).toBe(false);
+    expect(isFileGitignored('pkg/gen/api.ts', rules)).toBe(true);
+    expect(isFileGitignored('gen/api.ts', rules)).toBe(false);
+    expect(isFileGitignored('pkg/keep.log', rules)).toBe(false);
+    expect(isFileGitignored('debug.log', rules)).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { toHtml } from '../htmlReport';
+import { makeFileResult, makeIssue, makeMultiFileResult, makeResult } from '@/test/fixtures/analysisResults';
+
+describe('toHtml', () => {
+  it('should render a standalone page with the annotated code', () => {
+    const html = toHtml(makeResult([makeIssue(2, { message: 'Avoid <any>' })]), {
+      fileName: 'a.ts',
+      code: 'const a = 1;\nlet b: any = "<b>";',
+    });
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).not.toContain('<script');
+    expect(html).toContain('<h2>a.ts <span class="grade"');
+    expect(html).toContain('<li>Demo mode</li>');
+    expect(html).toContain('<tr id="L-a.ts-2" class="warning"><td class="ln">2</td><td><pre>let b: any = &quot;&lt;b&gt;&quot;;</pre></td></tr>');
+    expect(html).toContain('<strong>Avoid &lt;any&gt;</strong>');
+  });
+
+  it('should list issues without code and render every file', () => {
+    const multi = makeMultiFileResult([makeFileResult('a.ts', [makeIssue(1)]), makeFileResult('b.ts')]);
+
+    const html = toHtml(multi, { fileContents: { 'b.ts': 'export const b = 1;' } });
+    expect(html).toContain('<strong>2</strong> files');
+    expect(html).toContain('Line 1 · warning');
+    expect(html).toContain('<pre>export const b = 1;</pre>');
+    expect(html).toContain('No issues found.');
+  });
+
+  it('should annotate cross-file issues in every file they span, linking to the other locations', () => {
+    const files = [makeFileResult('a.ts'), makeFileResult('src/b.ts')];
+    const multi = makeMultiFileResult(files, {
+      crossFileIssues: [
+        makeIssue(2, {
+          message: 'Duplicated code',
+          locations: [
+            { file: 'a.ts', startLine: 2, endLine: 3, role: 'primary' },
+            { file: 'src/b.ts', startLine: 1, endLine: 2, role: 'duplicate' },
+          ],
+        }),
+      ],
+    });
+
+    const html = toHtml(multi, { fileContents: { 'a.ts': 'x;\ny;\nz;', 'src/b.ts': 'y;\nz;' } });
+    expect(html).toContain('<tr id="L-a.ts-2" class="warning">');
+    expect(html).toContain('<tr id="L-src-b.ts-1" class="warning">');
+    expect(html).toContain('Also at <a href="#L-src-b.ts-1">src/b.ts:1-2</a>');
+    expect(html).toContain('Also at <a href="#L-a.ts-2">a.ts:2-3</a>');
+    expect(html).toContain('At <a href="#L-a.ts-2">a.ts:2-3</a>, <a href="#L-src-b.ts-1">src/b.ts:1-2</a>');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { toMarkdown } from '../markdownReport';
+import {
+  makeFailedFile,
+  makeFileResult,
+  makeIssue,
+  makeMultiFileResult,
+  makeResult,
+} from '@/test/fixtures/analysisResults';
+
+describe('toMarkdown', () => {
+  it('should render a single-file report with an issue table', () => {
+    const markdown = toMarkdown(makeResult([makeIssue(12, { ruleId: 'no-var', message: 'a | b' })]), {
+      fileName: 'a.ts',
+    });
+
+    expect(markdown).toContain('## Solidry review of `a.ts`: B (84/100)');
+    expect(markdown).toContain('> Mostly fine.');
+    expect(markdown).toContain('Confidence: High Confidence (82%)');
+    expect(markdown).toContain('- Demo mode');
+    expect(markdown).toContain('| 12 | warning | `no-var` | **a \\| b**<br>Fix it |');
+  });
+
+  it('should render a section per file, unanalyzed files and cross-file issues', () => {
+    const files = [
+      makeFileResult('a.ts', [makeIssue(1)]),
+      makeFileResult('b.ts'),
+      makeFailedFile('c.ts', 'provider_error', 'Model error'),
+    ];
+    const multi = makeMultiFileResult(files, {
+      crossFileIssues: [
+        makeIssue(0, { message: 'Import cycle' }),
+        makeIssue(3, {
+          message: 'Duplicated code',
+          locations: [
+            { file: 'a.ts', startLine: 3, endLine: 12, role: 'primary' },
+            { file: 'b.ts', startLine: 7, role: 'duplicate' },
+          ],
+        }),
+      ],
+    });
+
+    const markdown = toMarkdown(multi);
+    expect(markdown).toContain('## Solidry review: A (90/100)');
+    expect(markdown).toContain('### `a.ts`: B (84/100)');
+    expect(markdown).toContain('### `b.ts`: B (84/100)\n\nNo issues found.');
+    expect(markdown).toContain('### Not analyzed\n\n- `c.ts` failed: Model error');
+    expect(markdown).toContain('- **warning**: Import cycle\n');
+    expect(markdown).toContain('- **warning**: Duplicated code (`a.ts:3-12`, `b.ts:7`)');
+  });
+});
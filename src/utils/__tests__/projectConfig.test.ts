@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { CodeIssue, ProjectConfig } from '@/types';
+import {
+  applySeverityOverrides,
+  isIgnoredFile,
+  mergeContext,
+  parseProjectConfig,
+  resolveReviewTypes,
+  validateProjectConfig,
+} from '../projectConfig';
+
+const issue: CodeIssue = {
+  line: 1,
+  severity: 'warning',
+  category: 'solid',
+  principle: 'SRP',
+  ruleId: 'multiple-responsibilities',
+  message: 'Does too much',
+  suggestion: 'Split it',
+};
+
+describe('validateProjectConfig', () => {
+  it('should accept a complete configuration', () => {
+    const config: ProjectConfig = {
+      reviewTypes: ['solid', 'simplicity'],
+      severity: { hygiene: 'suggestion', SRP: 'critical', 'no-var': 'warning' },
+      ignore: ['**/*.test.ts', 'vendor/**'],
+      scoring: { weights: { critical: 20, suggestion: 0 } },
+      context: 'Payments service',
+    };
+
+    expect(validateProjectConfig(config)).toEqual([]);
+    expect(validateProjectConfig(undefined)).toEqual([]);
+  });
+
+  it('should report every problem', () => {
+    expect(
+      validateProjectConfig({
+        reviewTypes: ['solid', 'style'],
+        severity: { SRP: 'fatal' },
+        ignore: 'dist',
+        scoring: { weights: { warning: -3, major: 1 } },
+        extends: 'base',
+      })
+    ).toEqual([
+      'Unknown project configuration key "extends"',
+      'Unknown review type "style" in project configuration',
+      'Invalid severity "fatal" for "SRP" in project configuration',
+      'Project configuration "ignore" must be a list of glob patterns',
+      'Scoring weight for "warning" must be a non-negative number',
+      'Unknown severity "major" in project configuration scoring weights',
+    ]);
+    expect(validateProjectConfig([])).toEqual(['Project configuration must be an object']);
+  });
+
+  it('should check scoring profiles and grade thresholds', () => {
+    expect(
+      validateProjectConfig({ scoring: { profile: 'density', gradeThresholds: { A: 95, D: 50 } } })
+    ).toEqual([]);
+    expect(validateProjectConfig({ scoring: { profile: 'strict', gradeThresholds: { F: 10 } } })).toEqual([
+      'Unknown scoring profile "strict" (expected legacy, density, category-weighted)',
+      'Unknown grade "F" in project configuration grade thresholds (F has no minimum)',
+    ]);
+    expect(validateProjectConfig({ scoring: { gradeThresholds: { B: 92 } } })).toEqual([
+      'Grade thresholds must decrease from A to D (got A 90, B 92, C 70, D 60)',
+    ]);
+  });
+
+  it('should check clone detection thresholds', () => {
+    expect(validateProjectConfig({ clones: { minTokens: 30, minSimilarity: 90 } })).toEqual([]);
+    expect(validateProjectConfig({ clones: { minTokens: 2.5, minSimilarity: 20, window: 5 } })).toEqual([
+      'Unknown project configuration key "clones.window"',
+      'Project configuration "clones.minTokens" must be a whole number of at least 10',
+      'Project configuration "clones.minSimilarity" must be a number from 50 to 100',
+    ]);
+  });
+});
+
+describe('parseProjectConfig', () => {
+  it('should parse valid JSON and reject anything else', () => {
+    expect(parseProjectConfig('{"reviewTypes":["hygiene"]}')).toEqual({
+      config: { reviewTypes: ['hygiene'] },
+      errors: [],
+    });
+    expect(parseProjectConfig('{ reviewTypes: }')).toEqual({
+      config: null,
+      errors: ['.solidryrc.json is not valid JSON'],
+    });
+    expect(parseProjectConfig('{"ignore": 1}').config).toBeNull();
+  });
+});
+
+describe('applySeverityOverrides', () => {
+  it('should prefer rule ids over principles over categories', () => {
+    const config: ProjectConfig = {
+      severity: { solid: 'suggestion', SRP: 'critical', 'multiple-responsibilities': 'warning' },
+    };
+
+    expect(applySeverityOverrides(issue, config).severity).toBe('warning');
+    expect(applySeverityOverrides({ ...issue, ruleId: undefined }, config).severity).toBe('critical');
+    expect(applySeverityOverrides({ ...issue, ruleId: undefined, principle: 'DIP' }, config).severity).toBe(
+      'suggestion'
+    );
+  });
+
+  it('should return the issue unchanged without a matching override', () => {
+    expect(applySeverityOverrides(issue, { severity: { hygiene: 'critical' } })).toBe(issue);
+    expect(applySeverityOverrides(issue, undefined)).toBe(issue);
+  });
+});
+
+describe('isIgnoredFile', () => {
+  const config: ProjectConfig = { ignore: ['*.test.ts', 'vendor/**', 'src/**/generated/*.js'] };
+
+  it('should match file names in any directory and paths from the root', () => {
+    expect(isIgnoredFile('utils.test.ts', config)).toBe(true);
+    expect(isIgnoredFile('src/utils/utils.test.ts', config)).toBe(true);
+    expect(isIgnoredFile('vendor/lib/index.js', config)).toBe(true);
+    expect(isIgnoredFile('src/generated/api.js', config)).toBe(true);
+    expect(isIgnoredFile('src/a/b/generated/api.js', config)).toBe(true);
+  });
+
+  it('should leave other files alone', () => {
+    expect(isIgnoredFile('utils.ts', config)).toBe(false);
+    expect(isIgnoredFile('src/vendor/index.js', config)).toBe(false);
+    expect(isIgnoredFile('utils.ts', undefined)).toBe(false);
+  });
+});
+
+describe('mergeContext', () => {
+  it('should put the project context before the request context', () => {
+    expect(mergeContext({ context: 'Team rules' }, '  This PR  ')).toBe('Team rules\n\nThis PR');
+    expect(mergeContext(undefined, ' ')).toBeUndefined();
+  });
+});
+
+describe('resolveReviewTypes', () => {
+  it('should prefer the requested review types, then the project ones, then the defaults', () => {
+    const config: ProjectConfig = { reviewTypes: ['unnecessary'] };
+    expect(resolveReviewTypes(['solid'], config)).toEqual(['solid']);
+    expect(resolveReviewTypes([], config)).toEqual(['unnecessary']);
+    expect(resolveReviewTypes(undefined, config)).toEqual(['unnecessary']);
+    expect(resolveReviewTypes(undefined, undefined)).toEqual(['solid', 'hygiene']);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { renderResult, resolveResponseFormat } from '../responseFormat';
+import { AnalysisResult } from '@/types';
+
+describe('resolveResponseFormat', () => {
+  it('should prefer the format field over the Accept header', () => {
+    expect(resolveResponseFormat('json', 'application/sarif+json')).toBe('json');
+    expect(resolveResponseFormat('sarif', null)).toBe('sarif');
+    expect(resolveResponseFormat('xml', null)).toBeNull();
+  });
+
+  it('should fall back to the Accept header and then JSON', () => {
+    expect(resolveResponseFormat(undefined, 'application/json, application/sarif+json;q=0.9')).toBe('sarif');
+    expect(resolveResponseFormat(undefined, '*/*')).toBe('json');
+    expect(resolveResponseFormat(undefined, null)).toBe('json');
+    expect(resolveResponseFormat(undefined, 'text/html,application/xhtml+xml')).toBe('html');
+  });
+});
+
+describe('renderResult', () => {
+  it('should serialize the result with its content type', () => {
+    const result = { issues: [], score: 100, grade: 'A', metadata: { modelVersion: 'demo' } } as unknown as AnalysisResult;
+
+    expect(renderResult(result, 'json')).toEqual({ content: JSON.stringify(result, null, 2), contentType: 'application/json' });
+    expect(JSON.parse(renderResult(result, 'sarif').content).version).toBe('2.1.0');
+    expect(renderResult(result, 'sarif').contentType).toBe('application/sarif+json');
+  });
+
+  it('should mark the text reports as UTF-8', () => {
+    const result = {
+      issues: [],
+      score: 100,
+      grade: 'A',
+      summary: 'Clean.',
+      metrics: { criticalIssues: 0, warnings: 0, suggestions: 0, totalIssues: 0 },
+      confidence: { overall: 90, languageDetection: 90, issueAccuracy: 90, factors: [], level: 'high' },
+      metadata: { modelVersion: 'demo' },
+    } as unknown as AnalysisResult;
+
+    expect(renderResult(result, 'markdown').contentType).toBe('text/markdown; charset=utf-8');
+    expect(renderResult(result, 'html', { code: 'const a = 1;' }).contentType).toBe('text/html; charset=utf-8');
+  });
+});
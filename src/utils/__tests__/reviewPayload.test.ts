@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { buildReviewPayload, getCommentableLines, validateReviewPayloadOptions } from '../reviewPayload';
+import { makeIssue, makeResult } from '@/test/fixtures/analysisResults';
+
+const patch = `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -20,3 +20,4 @@
+ const keep = 1;
++const added = 2;
+ const other = 3;
+ const last = 4;
+diff --git a/src/gone.ts b/src/gone.ts
+deleted file mode 100644
+--- a/src/gone.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-export const gone = true;
+`;
+
+const file = 'src/a.ts';
+
+describe('getCommentableLines', () => {
+  it('should collect the new-file lines each patch file shows', () => {
+    const lines = getCommentableLines(patch);
+
+    expect([...lines.keys()]).toEqual(['src/a.ts']);
+    expect([...lines.get('src/a.ts')!]).toEqual([20, 21, 22, 23]);
+  });
+});
+
+describe('buildReviewPayload', () => {
+  it('should anchor issues on patch lines and list the rest in the body', () => {
+    const review = buildReviewPayload(
+      makeResult([
+        makeIssue(21, { file, ruleId: 'no-console-log', fix: { startLine: 21, endLine: 21, replacement: '' } }),
+        makeIssue(5, { file, message: 'Far away' }),
+      ]),
+      patch
+    );
+
+    expect(review.event).toBe('COMMENT');
+    expect(review.comments).toEqual([
+      {
+        path: 'src/a.ts',
+        line: 21,
+        side: 'RIGHT',
+        body: '**Warning** · `no-console-log`\n\n**Issue on 21**\n\nFix it\n\n```suggestion\n```',
+      },
+    ]);
+    expect(review.body).toContain('## Solidry review: B (84/100)');
+    expect(review.body).toContain('### Outside the changed lines\n\n- `src/a.ts:5` **warning**: Far away');
+  });
+
+  it('should filter by severity, limit comments and request changes on critical issues', () => {
+    const issues = [
+      makeIssue(20, { file, severity: 'suggestion' }),
+      makeIssue(22, { file }),
+      makeIssue(23, { file, severity: 'critical', category: 'solid', principle: 'SRP' }),
+    ];
+
+    const review = buildReviewPayload(makeResult(issues), patch, {
+      minSeverity: 'warning',
+      maxComments: 1,
+      requestChanges: true,
+    });
+
+    expect(review.event).toBe('REQUEST_CHANGES');
+    expect(review.comments.map((c) => [c.line, c.body.split('\n')[0]])).toEqual([[23, '**Critical** · `solid/SRP`']]);
+    expect(review.body).toContain('### 1 more not commented inline\n\n- `src/a.ts:22` **warning**: Issue on 22');
+    expect(review.body).not.toContain('Issue on 20');
+    expect(buildReviewPayload(makeResult(issues), patch, { requestChanges: true, minSeverity: 'critical' }).event).toBe(
+      'REQUEST_CHANGES'
+    );
+    expect(buildReviewPayload(makeResult(issues.slice(0, 2)), patch, { requestChanges: true }).event).toBe('COMMENT');
+  });
+});
+
+describe('validateReviewPayloadOptions', () => {
+  it('should reject unknown severities and invalid limits', () => {
+    expect(validateReviewPayloadOptions({ minSeverity: 'warning', maxComments: 0, requestChanges: false })).toEqual([]);
+    expect(validateReviewPayloadOptions({ minSeverity: 'info', maxComments: 1.5, requestChanges: 'yes' })).toEqual([
+      'Invalid minSeverity "info" (expected critical, warning or suggestion)',
+      'maxComments must be a non-negative integer',
+      'requestChanges must be a boolean',
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { toSarif } from '../sarif';
+import { CodeIssue } from '@/types';
+import {
+  makeFailedFile,
+  makeFileResult,
+  makeIssue,
+  makeMultiFileResult,
+  makeResult,
+} from '@/test/fixtures/analysisResults';
+
+describe('toSarif', () => {
+  it('should map issues to results and rule descriptors', () => {
+    const log = toSarif(
+      makeResult([
+        makeIssue(3, { severity: 'critical', category: 'solid', principle: 'SRP', fingerprint: 'abc' }),
+        makeIssue(7, { severity: 'suggestion', ruleId: 'no-var', message: 'Use of "var" keyword' }),
+        makeIssue(9, { category: 'complexity' }),
+      ]),
+      { fileName: 'src/user service.ts' }
+    );
+    const [run] = log.runs;
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual(['solid/SRP', 'no-var', 'complexity']);
+    expect(run.tool.driver.rules[0].shortDescription.text).toBe('Single Responsibility Principle');
+    expect(run.tool.driver.rules[1].shortDescription.text).toBe('Use of "var" keyword');
+    expect(run.tool.driver.rules[2].help.text).toContain('complexity');
+    expect(run.results.map((r) => r.level)).toEqual(['error', 'note', 'warning']);
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'solid/SRP',
+      ruleIndex: 0,
+      partialFingerprints: { 'solidry/v1': 'abc' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/user%20service.ts' }, region: { startLine: 3 } } }],
+    });
+    expect(run.artifacts).toEqual([{ location: { uri: 'src/user%20service.ts' } }]);
+  });
+
+  it('should keep baseline states, suppressions and fixes', () => {
+    const fix = { startLine: 2, endLine: 2, replacement: 'let a = 1;', description: 'Use let' };
+    const log = toSarif(
+      makeResult([makeIssue(2, { fix })], {
+        baseline: { newIssues: 1, existingIssues: [makeIssue(4)], fixedIssues: [makeIssue(6)] },
+        suppressedIssues: [makeIssue(8)],
+      })
+    );
+    const results = log.runs[0].results;
+
+    expect(results.map((r) => r.baselineState)).toEqual(['new', 'unchanged', 'absent', undefined]);
+    expect(results[3].suppressions).toEqual([{ kind: 'inSource', justification: 'solidry-ignore comment' }]);
+    expect(results[0].fixes?.[0].artifactChanges[0].replacements[0]).toEqual({
+      deletedRegion: { startLine: 2, endLine: 2 },
+      insertedContent: { text: 'let a = 1;' },
+    });
+  });
+
+  it('should export fixed baseline issues that only have a line and message', () => {
+    const fixed = { line: 6, message: 'Old issue' } as CodeIssue;
+    const log = toSarif(makeResult([], { baseline: { newIssues: 0, existingIssues: [], fixedIssues: [fixed] } }));
+    const [run] = log.runs;
+
+    expect(run.tool.driver.rules).toEqual([
+      expect.objectContaining({ id: 'other', defaultConfiguration: { level: 'note' } }),
+    ]);
+    expect(run.results[0]).toMatchObject({ ruleId: 'other', level: 'note', baselineState: 'absent' });
+  });
+
+  it('should give cross-file issues a location in every file', () => {
+    const files = [makeFileResult('a.ts', [makeIssue(1)]), makeFileResult('b.ts')];
+    const multi = makeMultiFileResult(files, {
+      aggregateScore: 95,
+      crossFileIssues: [makeIssue(0, { category: 'unnecessary', relatedFiles: ['a.ts', 'b.ts'] })],
+    });
+
+    const run = toSarif(multi).runs[0];
+    expect(run.artifacts.map((artifact) => artifact.location.uri)).toEqual(['a.ts', 'b.ts']);
+    expect(run.results[0].locations[0].physicalLocation.artifactLocation.uri).toBe('a.ts');
+    expect(run.results[1].locations).toEqual([
+      { physicalLocation: { artifactLocation: { uri: 'a.ts' } } },
+      { physicalLocation: { artifactLocation: { uri: 'b.ts' } } },
+    ]);
+    expect(run.properties).toMatchObject({ score: 95, grade: 'A' });
+    expect(run.invocations).toBeUndefined();
+  });
+
+  it('should point cross-file issues at the line ranges of their locations', () => {
+    const multi = makeMultiFileResult([makeFileResult('a.ts')], {
+      aggregateScore: 100,
+      crossFileIssues: [
+        makeIssue(3, {
+          category: 'unnecessary',
+          relatedFiles: ['a.ts', 'b.ts'],
+          ruleId: 'duplicate-code',
+          clone: { type: 'renamed', similarity: 100, tokens: 60 },
+          locations: [
+            { file: 'a.ts', startLine: 3, endLine: 12, role: 'primary' },
+            { file: 'b.ts', startLine: 20, endLine: 29, role: 'duplicate' },
+          ],
+        }),
+      ],
+    });
+
+    expect(toSarif(multi).runs[0].results[0].locations).toEqual([
+      { physicalLocation: { artifactLocation: { uri: 'a.ts' }, region: { startLine: 3, endLine: 12 } } },
+      { physicalLocation: { artifactLocation: { uri: 'b.ts' }, region: { startLine: 20, endLine: 29 } } },
+    ]);
+  });
+
+  it('should report files that were not analyzed as notifications', () => {
+    const files = [makeFileResult('a.ts', [makeIssue(1)]), makeFailedFile('b.ts', 'provider_timeout', 'Timed out')];
+    const multi = makeMultiFileResult(files, { aggregateScore: 95 });
+
+    const run = toSarif(multi).runs[0];
+    expect(run.results).toHaveLength(1);
+    expect(run.invocations).toEqual([
+      {
+        executionSuccessful: false,
+        toolExecutionNotifications: [
+          {
+            level: 'error',
+            message: { text: 'b.ts was not analyzed: Timed out' },
+            locations: [{ physicalLocation: { artifactLocation: { uri: 'b.ts' } } }],
+            descriptor: { id: 'provider_timeout' },
+          },
+        ],
+      },
+    ]);
+  });
+});
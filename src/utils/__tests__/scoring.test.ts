@@ -79,6 +79,52 @@ describe('calculateScore', () => {
     const score = calculateScore([]);
     expect(score).toBeLessThanOrEqual(100);
   });
+
+  it('should use configured weights and keep the default for the rest', () => {
+    const issues: CodeIssue[] = [
+      { line: 1, severity: 'critical', category: 'solid', message: '', suggestion: '' },
+      { line: 2, severity: 'suggestion', category: 'complexity', message: '', suggestion: '' },
+    ];
+    const score = calculateScore(issues, { weights: { critical: 25, suggestion: 0 } });
+    expect(score).toBe(75);
+    expect(calculateScore(issues, { weights: { warning: 5 } })).toBe(89);
+  });
+});
+
+describe('scoring profiles', () => {
+  const warnings: CodeIssue[] = Array.from({ length: 10 }, (_, i) => ({
+    line: i + 1,
+    severity: 'warning',
+    category: 'hygiene',
+    ruleId: 'no-console-log',
+    message: '',
+    suggestion: '',
+  }));
+
+  it('should keep the legacy score as the default', () => {
+    expect(calculateScore(warnings, { profile: 'legacy' })).toBe(calculateScore(warnings));
+    expect(calculateScore(warnings)).toBe(70);
+  });
+
+  it('should normalize the density profile by logical lines', () => {
+    expect(calculateScore(warnings, { profile: 'density', logicalLines: 2000 })).toBe(99);
+    expect(calculateScore(warnings, { profile: 'density', logicalLines: 200 })).toBe(85);
+
+    // Snippets are never scored more harshly than by the legacy profile
+    expect(calculateScore(warnings, { profile: 'density', logicalLines: 20 })).toBe(70);
+  });
+
+  it('should weight categories and dampen repeats of a rule', () => {
+    // 3 * 0.75 * (1 + 0.5 + 0.25 + ...) approaches 4.5 points for ten repeats
+    expect(calculateScore(warnings, { profile: 'category-weighted' })).toBe(96);
+
+    const mixed: CodeIssue[] = [
+      { line: 1, severity: 'warning', category: 'solid', principle: 'SRP', message: '', suggestion: '' },
+      { line: 2, severity: 'critical', category: 'solid', principle: 'SRP', message: '', suggestion: '' },
+    ];
+    // The critical issue counts in full: 10 * 1.5 + 3 * 1.5 * 0.5
+    expect(calculateScore(mixed, { profile: 'category-weighted' })).toBe(83);
+  });
 });
 
 describe('getGrade', () => {
@@ -111,6 +157,12 @@ describe('getGrade', () => {
     expect(getGrade(30)).toBe('F');
     expect(getGrade(0)).toBe('F');
   });
+
+  it('should use configured thresholds and keep the default for the rest', () => {
+    expect(getGrade(85, { A: 85 })).toBe('A');
+    expect(getGrade(75, { A: 95, B: 75 })).toBe('B');
+    expect(getGrade(65, { A: 95, B: 75 })).toBe('D');
+  });
 });
 
 describe('calculateMetrics', () => {
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { applySuppressions, parseSuppressions } from '../suppressions';
+import { makeIssue } from '@/test/fixtures/analysisResults';
+
+describe('parseSuppressions', () => {
+  it('should read line, next-line and block directives', () => {
+    const code = [
+      '// solidry-ignore-next-line SRP, hygiene',
+      'class Service {}',
+      'console.log(x); // solidry-ignore-line no-console-log',
+      '/* solidry-disable */',
+      'var a = 1;',
+      '/* solidry-enable */',
+    ].join('\n');
+
+    expect(parseSuppressions(code, 'typescript')).toEqual([
+      { kind: 'ignore-next-line', startLine: 2, endLine: 2, selectors: ['srp', 'hygiene'] },
+      { kind: 'ignore-line', startLine: 3, endLine: 3, selectors: ['no-console-log'] },
+      { kind: 'disable', startLine: 4, endLine: 6, selectors: [] },
+    ]);
+  });
+
+  it('should use the comment syntax of the language', () => {
+    const code = '# solidry-ignore-next-line\nx = 1\n// solidry-ignore-next-line\ny = 2';
+
+    expect(parseSuppressions(code, 'python').map((s) => s.startLine)).toEqual([2]);
+    expect(parseSuppressions(code, 'java').map((s) => s.startLine)).toEqual([4]);
+    expect(parseSuppressions(code, 'auto').map((s) => s.startLine)).toEqual([2, 4]);
+  });
+
+  it('should ignore directives outside comments and run open blocks to the end', () => {
+    const code = 'const s = "solidry-disable";\n/* solidry-disable simplicity */\nfoo();\nbar();';
+
+    expect(parseSuppressions(code, 'typescript')).toEqual([
+      { kind: 'disable', startLine: 2, endLine: 4, selectors: ['complexity'] },
+    ]);
+  });
+});
+
+describe('applySuppressions', () => {
+  it('should match selectors against category, principle and rule id', () => {
+    const code = [
+      '// solidry-ignore-next-line srp',
+      'class A {}',
+      '// solidry-ignore-next-line no-var',
+      'var b = 1;',
+    ].join('\n');
+    const issues = [
+      makeIssue(2, { category: 'solid', principle: 'SRP' }),
+      makeIssue(2, { category: 'solid', principle: 'DIP' }),
+      makeIssue(4, { ruleId: 'no-var' }),
+      makeIssue(4, { ruleId: 'no-console-log' }),
+    ];
+
+    const { issues: kept, suppressed } = applySuppressions(issues, parseSuppressions(code, 'typescript'));
+
+    expect(suppressed).toEqual([issues[0], issues[2]]);
+    expect(kept).toEqual([issues[1], issues[3]]);
+  });
+
+  it('should keep everything without suppressions', () => {
+    const issues = [makeIssue(1)];
+
+    expect(applySuppressions(issues, [])).toEqual({ issues, suppressed: [] });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Background analysis job helpers
+ * Shared by the job store (finished states) and the browser (polling)
+ */
+
+import { AnalysisJob, JobStatus } from '@/types';
+
+/**
+ * Time between two polls of a running job
+ */
+export const JOB_POLL_INTERVAL_MS = 1000;
+
+const FINISHED_STATUSES: Record<JobStatus, boolean> = {
+  queued: false,
+  running: false,
+  completed: true,
+  failed: true,
+  cancelled: true,
+};
+
+/**
+ * Whether a job has stopped changing
+ */
+export function isJobFinished(job: Pick<AnalysisJob, 'status'>): boolean {
+  return FINISHED_STATUSES[job.status];
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Polls a job until it finishes and returns its final state
+ * onUpdate sees every state on the way. Aborting the signal stops polling;
+ * the job keeps running unless it is cancelled as well.
+ */
+export async function waitForJob(
+  id: string,
+  onUpdate: (job: AnalysisJob) => void,
+  options: { signal?: AbortSignal; intervalMs?: number } = {}
+): Promise<AnalysisJob> {
+  while (true) {
+    const response = await fetch(`/api/jobs/${encodeURIComponent(id)}`, { signal: options.signal });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.details || errorData.error || 'Could not get the analysis progress');
+    }
+
+    const job: AnalysisJob = await response.json();
+    onUpdate(job);
+    if (isJobFinished(job) || options.signal?.aborted) {
+      return job;
+    }
+
+    await delay(options.intervalMs ?? JOB_POLL_INTERVAL_MS, options.signal);
+  }
+}
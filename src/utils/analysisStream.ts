@@ -0,0 +1,74 @@
+/**
+ * Server-sent event helpers for the streaming analysis endpoint
+ * Shared by the API route (encoding) and the browser (decoding)
+ */
+
+import { AnalysisStreamEvent } from '@/types';
+
+/**
+ * Serializes an analysis event into the SSE wire format
+ */
+export function encodeStreamEvent(event: AnalysisStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Parses complete SSE messages out of a text buffer
+ * Returns the parsed events and any trailing partial message
+ */
+export function parseStreamEvents(buffer: string): {
+  events: AnalysisStreamEvent[];
+  remainder: string;
+} {
+  const events: AnalysisStreamEvent[] = [];
+  const messages = buffer.split('\n\n');
+  const remainder = messages.pop() ?? '';
+
+  for (const message of messages) {
+    const data = message
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+
+    if (!data) continue;
+
+    try {
+      events.push(JSON.parse(data) as AnalysisStreamEvent);
+    } catch {
+      // Ignore malformed messages rather than aborting the stream
+    }
+  }
+
+  return { events, remainder };
+}
+
+/**
+ * Reads an SSE response body and invokes onEvent for each analysis event
+ */
+export async function readAnalysisStream(
+  response: Response,
+  onEvent: (event: AnalysisStreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const { events, remainder } = parseStreamEvents(buffer);
+    buffer = remainder;
+    events.forEach(onEvent);
+  }
+
+  // Flush a final message that was not followed by a blank line
+  const { events } = parseStreamEvents(buffer + '\n\n');
+  events.forEach(onEvent);
+}
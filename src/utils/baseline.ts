@@ -0,0 +1,196 @@
+import { AnalysisResult, CodeIssue, IssueCategory, IssueSeverity, MultiFileAnalysisResult } from '@/types';
+import { normalizeCodeLine } from './fingerprint';
+
+/**
+ * Baseline comparison
+ *
+ * A baseline is an earlier review of the same code. Issues it already had are
+ * existing debt, issues it lacks are new, and baseline issues that are no
+ * longer reported have been fixed. Issues are matched by fingerprint first,
+ * then by kind and nearby line or identical message, so findings survive
+ * edits that move code around.
+ */
+
+/**
+ * Largest line distance at which two issues of the same kind still match
+ */
+const LINE_TOLERANCE = 5;
+
+const SEVERITY_VALUES: Record<IssueSeverity, true> = {
+  critical: true,
+  warning: true,
+  suggestion: true,
+};
+
+const CATEGORY_VALUES: Record<IssueCategory, true> = {
+  solid: true,
+  hygiene: true,
+  unnecessary: true,
+  complexity: true,
+};
+
+export interface BaselineMatch {
+  /** Issues the baseline does not have */
+  newIssues: CodeIssue[];
+
+  /** Issues the baseline already had */
+  existingIssues: CodeIssue[];
+
+  /** Baseline issues that are no longer reported */
+  fixedIssues: CodeIssue[];
+}
+
+/**
+ * Fingerprint without the ":2" suffix that tells identical findings apart
+ */
+function baseFingerprint(issue: CodeIssue): string | undefined {
+  return issue.fingerprint?.split(':')[0];
+}
+
+function getIssueKind(issue: CodeIssue): string {
+  return issue.ruleId ?? `${issue.category}/${issue.principle ?? 'other'}`;
+}
+
+/**
+ * Whether two issues are likely the same finding
+ */
+function isFuzzyMatch(issue: CodeIssue, candidate: CodeIssue): boolean {
+  return (
+    getIssueKind(issue) === getIssueKind(candidate) &&
+    (Math.abs(issue.line - candidate.line) <= LINE_TOLERANCE ||
+      normalizeCodeLine(issue.message).toLowerCase() === normalizeCodeLine(candidate.message).toLowerCase())
+  );
+}
+
+/**
+ * All issues a result reported, labeled with their file
+ * Issues the result itself classified as existing debt are part of it too.
+ */
+export function getBaselineIssues(result: AnalysisResult | MultiFileAnalysisResult): CodeIssue[] {
+  if ('aggregateScore' in result) {
+    return result.files.flatMap((file) =>
+      file.result
+        ? getBaselineIssues(file.result).map((issue) => ({ ...issue, file: issue.file ?? file.fileName }))
+        : []
+    );
+  }
+
+  return [...result.issues, ...(result.baseline?.existingIssues ?? [])];
+}
+
+/**
+ * Base fingerprints of the baseline issues
+ */
+export function getBaselineFingerprints(issues: CodeIssue[]): Set<string> {
+  return new Set(issues.map(baseFingerprint).filter((fingerprint): fingerprint is string => !!fingerprint));
+}
+
+/**
+ * Baseline issues reported for one file
+ */
+export function getBaselineIssuesForFile(issues: CodeIssue[], fileName: string): CodeIssue[] {
+  return issues.filter((issue) => issue.file === fileName);
+}
+
+/**
+ * Baseline issues that apply to a single analyzed file
+ * Issues without a file come from a single-file baseline and always apply.
+ */
+export function getBaselineIssuesForCode(issues: CodeIssue[], fileName?: string): CodeIssue[] {
+  return issues.filter((issue) => !issue.file || issue.file === fileName);
+}
+
+function isSeverity(value: unknown): value is IssueSeverity {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SEVERITY_VALUES, value);
+}
+
+function isCategory(value: unknown): value is IssueCategory {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CATEGORY_VALUES, value);
+}
+
+/**
+ * Whether a value has the fields baseline matching, scoring and reports rely on
+ */
+function isBaselineIssue(value: unknown): boolean {
+  const issue = value as Record<string, unknown> | null;
+  return (
+    !!issue &&
+    typeof issue === 'object' &&
+    typeof issue.line === 'number' &&
+    typeof issue.message === 'string' &&
+    isSeverity(issue.severity) &&
+    isCategory(issue.category)
+  );
+}
+
+/**
+ * Validates a baseline sent with a request
+ * Returns a list of problems (empty when valid)
+ */
+export function validateBaseline(baseline: unknown): string[] {
+  if (baseline === undefined) {
+    return [];
+  }
+
+  const record = baseline as Record<string, unknown> | null;
+  const isResult =
+    !!record &&
+    typeof record === 'object' &&
+    (Array.isArray(record.issues) ||
+      (Array.isArray(record.files) && 'aggregateScore' in record));
+  if (!isResult) {
+    return ['Baseline must be an analysis result with issues or files'];
+  }
+
+  // Issues an earlier baseline accepted as existing are compared too
+  type ResultRecord = { issues?: unknown; baseline?: { existingIssues?: unknown } };
+  const results = Array.isArray(record.issues)
+    ? [record as ResultRecord]
+    : (record.files as { result?: ResultRecord }[]).flatMap((file) => file?.result ?? []);
+  const malformed = results
+    .flatMap((result) => [result.issues, result.baseline?.existingIssues ?? []])
+    .some((issues) => !Array.isArray(issues) || !issues.every(isBaselineIssue));
+  return malformed ? ['Baseline contains malformed issues'] : [];
+}
+
+/**
+ * Classifies issues as new or existing and finds fixed baseline issues
+ * Both lists are expected to come from the same file.
+ */
+export function compareWithBaseline(issues: CodeIssue[], baselineIssues: CodeIssue[]): BaselineMatch {
+  const unmatched = new Set(baselineIssues);
+  const existing = new Set<CodeIssue>();
+
+  // Fingerprints are exact and independent of line numbers, so they go first
+  for (const issue of issues) {
+    const fingerprint = baseFingerprint(issue);
+    if (!fingerprint) continue;
+
+    const match = baselineIssues.find(
+      (candidate) => unmatched.has(candidate) && baseFingerprint(candidate) === fingerprint
+    );
+    if (match) {
+      unmatched.delete(match);
+      existing.add(issue);
+    }
+  }
+
+  // The rest falls back to the closest issue of the same kind
+  for (const issue of issues) {
+    if (existing.has(issue)) continue;
+
+    const match = baselineIssues
+      .filter((candidate) => unmatched.has(candidate) && isFuzzyMatch(issue, candidate))
+      .sort((a, b) => Math.abs(a.line - issue.line) - Math.abs(b.line - issue.line))[0];
+    if (match) {
+      unmatched.delete(match);
+      existing.add(issue);
+    }
+  }
+
+  return {
+    newIssues: issues.filter((issue) => !existing.has(issue)),
+    existingIssues: issues.filter((issue) => existing.has(issue)),
+    fixedIssues: baselineIssues.filter((issue) => unmatched.has(issue)),
+  };
+}
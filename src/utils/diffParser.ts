@@ -0,0 +1,253 @@
+import { CodeIssue } from '@/types';
+
+/**
+ * Unified diff parsing for hunk-aware reviews
+ *
+ * Keeps track of which lines a diff adds and where every reviewed line sits in
+ * the new version of the file, so issues can be reported against real line
+ * numbers and unchanged context can be treated differently from new code.
+ */
+
+export type DiffLineType = 'added' | 'removed' | 'context';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+
+  /** Line number in the new file (absent for removed lines) */
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  /** Path before the change (null for added files) */
+  oldPath: string | null;
+
+  /** Path after the change (null for deleted files) */
+  newPath: string | null;
+
+  hunks: DiffHunk[];
+}
+
+/**
+ * Code prepared for review from one file of a diff
+ */
+export interface DiffReviewInput {
+  /** Path of the file in the new version */
+  path: string;
+
+  /** Context and added lines of every hunk, hunks separated by a blank line */
+  code: string;
+
+  /** New-file line number for each reviewed line (null for hunk separators) */
+  lineMap: (number | null)[];
+
+  /** Reviewed line numbers (1-indexed) that were added by the diff */
+  changedLines: number[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Strips the a/ or b/ prefix git adds to paths, returning null for /dev/null
+ */
+function parsePath(raw: string): string | null {
+  const path = raw.split('\t')[0].trim();
+  if (path === '/dev/null') {
+    return null;
+  }
+  return path.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parses a unified diff (as produced by `git diff`) into files and hunks
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let newLine = 0;
+  let remainingOld = 0;
+  let remainingNew = 0;
+
+  const startFile = (): DiffFile => {
+    const created: DiffFile = { oldPath: null, newPath: null, hunks: [] };
+    files.push(created);
+    return created;
+  };
+
+  for (const line of diff.split('\n')) {
+    // Hunk bodies are consumed by their line counts, so "---" or "+++" content
+    // lines are never mistaken for file headers
+    if (hunk && (remainingOld > 0 || remainingNew > 0)) {
+      if (line.startsWith('+')) {
+        hunk.lines.push({ type: 'added', content: line.slice(1), newLine: newLine++ });
+        remainingNew--;
+        continue;
+      }
+      if (line.startsWith('-')) {
+        hunk.lines.push({ type: 'removed', content: line.slice(1) });
+        remainingOld--;
+        continue;
+      }
+      if (line.startsWith(' ') || line === '') {
+        hunk.lines.push({ type: 'context', content: line.slice(1), newLine: newLine++ });
+        remainingOld--;
+        remainingNew--;
+        continue;
+      }
+      if (line.startsWith('\\')) {
+        continue;
+      }
+
+      // Truncated hunk; treat the line as a header
+      remainingOld = 0;
+      remainingNew = 0;
+    }
+
+    if (line.startsWith('diff --git ')) {
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      file = startFile();
+      file.oldPath = match?.[1] ?? null;
+      file.newPath = match?.[2] ?? null;
+      hunk = null;
+      continue;
+    }
+
+    if (line.startsWith('--- ')) {
+      if (!file || file.hunks.length > 0) {
+        file = startFile();
+      }
+      file.oldPath = parsePath(line.slice(4));
+      hunk = null;
+      continue;
+    }
+
+    if (line.startsWith('+++ ') && file) {
+      file.newPath = parsePath(line.slice(4));
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      file = file ?? startFile();
+      hunk = {
+        oldStart: parseInt(header[1], 10),
+        oldLines: header[2] === undefined ? 1 : parseInt(header[2], 10),
+        newStart: parseInt(header[3], 10),
+        newLines: header[4] === undefined ? 1 : parseInt(header[4], 10),
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      newLine = hunk.newStart;
+      remainingOld = hunk.oldLines;
+      remainingNew = hunk.newLines;
+    }
+
+    // Anything else (index lines, mode changes, binary notices) is ignored
+  }
+
+  return files.filter((f) => f.hunks.length > 0);
+}
+
+/**
+ * Builds the code to review for one diff file, or null if nothing was added
+ */
+export function buildDiffReviewInput(file: DiffFile): DiffReviewInput | null {
+  const codeLines: string[] = [];
+  const lineMap: (number | null)[] = [];
+  const changedLines: number[] = [];
+
+  file.hunks.forEach((hunk, index) => {
+    if (index > 0) {
+      codeLines.push('');
+      lineMap.push(null);
+    }
+
+    for (const line of hunk.lines) {
+      if (line.type === 'removed') continue;
+
+      codeLines.push(line.content);
+      lineMap.push(line.newLine ?? null);
+      if (line.type === 'added') {
+        changedLines.push(codeLines.length);
+      }
+    }
+  });
+
+  if (changedLines.length === 0 || !file.newPath) {
+    return null;
+  }
+
+  return {
+    path: file.newPath,
+    code: codeLines.join('\n'),
+    lineMap,
+    changedLines,
+  };
+}
+
+/**
+ * Maps a reviewed line number onto the new file
+ * Separator lines resolve to the first line of the following hunk.
+ */
+export function toFileLine(input: DiffReviewInput, line: number): number {
+  const index = Math.min(Math.max(line, 1), input.lineMap.length) - 1;
+
+  for (let i = index; i < input.lineMap.length; i++) {
+    const mapped = input.lineMap[i];
+    if (mapped !== null) return mapped;
+  }
+  for (let i = index; i >= 0; i--) {
+    const mapped = input.lineMap[i];
+    if (mapped !== null) return mapped;
+  }
+
+  return line;
+}
+
+/**
+ * Formats line numbers as compact ranges, e.g. "3-5, 9, 12-14"
+ */
+export function formatLineRanges(lines: number[]): string {
+  const sorted = [...new Set(lines)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) {
+      i++;
+    }
+    ranges.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
+  }
+
+  return ranges.join(', ');
+}
+
+/**
+ * Applies the diff focus rule to an issue
+ * Issues on changed lines are kept as-is. Critical issues on unchanged context
+ * are kept but down-ranked to warnings; anything else on context is dropped.
+ */
+export function focusIssueOnChanges(issue: CodeIssue, changedLines: Set<number>): CodeIssue | null {
+  if (changedLines.has(issue.line)) {
+    return issue;
+  }
+
+  if (issue.severity !== 'critical') {
+    return null;
+  }
+
+  return {
+    ...issue,
+    severity: 'warning',
+    explanation: `On an unchanged line near the change. ${issue.explanation ?? ''}`.trim(),
+  };
+}
@@ -39,6 +39,20 @@ export const SUPPORTED_EXTENSIONS = Object.keys(FILE_EXTENSION_MAP);
 export const MAX_FILE_SIZE = 100 * 1024; // 100KB per file
 export const MAX_MULTI_FILE_COUNT = 20;
 export const MAX_MULTI_FILE_TOTAL_SIZE = 500 * 1024; // 500KB total
+export const MAX_ARCHIVE_SIZE = 20 * 1024 * 1024; // 20MB compressed
+
+/**
+ * Extensions of repository archives the server can extract
+ */
+export const ARCHIVE_EXTENSIONS = ['.zip', '.tar', '.tar.gz', '.tgz'];
+
+/**
+ * Whether a file name looks like a supported repository archive
+ */
+export function isArchiveFile(fileName: string): boolean {
+  const name = fileName.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
 
 /**
  * Detect programming language from file extension
@@ -75,6 +89,19 @@ export function validateFile(file: File): string | null {
   return null;
 }
 
+/**
+ * Decodes file bytes as UTF-8 text
+ * Returns null for binary content: NUL bytes or invalid UTF-8.
+ */
+export function decodeTextContent(content: Uint8Array): string | null {
+  if (content.includes(0)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(content);
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Read file content with encoding validation
  */
@@ -0,0 +1,74 @@
+import { CodeIssue } from '@/types';
+
+/**
+ * Stable issue fingerprints
+ *
+ * A fingerprint identifies an issue by what it is about rather than where it
+ * is: the rule (or category and principle) that reported it and the
+ * normalized code around it. Line numbers and the model's wording are left
+ * out, so the same finding keeps its fingerprint across re-runs and edits
+ * elsewhere in the file. Fingerprints are unique within one file.
+ */
+
+/**
+ * Collapses whitespace so indentation and spacing changes don't matter
+ */
+export function normalizeCodeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+const FNV_OFFSET_BASIS_64 = 0xcbf29ce484222325n;
+const FNV_PRIME_64 = 0x100000001b3n;
+const UINT64_MASK = 0xffffffffffffffffn;
+
+/**
+ * 64-bit FNV-1a hash of the UTF-8 bytes of a string, as 16 hex characters
+ */
+function hashString(text: string): string {
+  let hash = FNV_OFFSET_BASIS_64;
+  for (const byte of new TextEncoder().encode(text)) {
+    hash = ((hash ^ BigInt(byte)) * FNV_PRIME_64) & UINT64_MASK;
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * Normalized issue line plus its nearest non-blank neighbors
+ */
+function getCodeContext(lines: string[], line: number): string[] {
+  const index = Math.min(Math.max(line, 1), Math.max(lines.length, 1)) - 1;
+  const nearest = (step: number): string => {
+    for (let i = index + step; i >= 0 && i < lines.length; i += step) {
+      const normalized = normalizeCodeLine(lines[i]);
+      if (normalized) return normalized;
+    }
+    return '';
+  };
+
+  return [nearest(-1), normalizeCodeLine(lines[index] ?? ''), nearest(1)];
+}
+
+/**
+ * Computes the base fingerprint of an issue in the code it was reported against
+ */
+export function computeFingerprint(issue: CodeIssue, lines: string[]): string {
+  const kind = issue.ruleId ?? `${issue.category}/${issue.principle ?? 'other'}`;
+  return hashString([kind, ...getCodeContext(lines, issue.line)].join('\n'));
+}
+
+/**
+ * Sets the fingerprint of every issue
+ * Issues that would share a fingerprint (the same finding on identical code)
+ * are told apart by their order, e.g. "<hash>:2" for the second one.
+ */
+export function assignFingerprints(issues: CodeIssue[], code: string): CodeIssue[] {
+  const lines = code.split('\n');
+  const seen = new Map<string, number>();
+
+  return issues.map((issue) => {
+    const base = computeFingerprint(issue, lines);
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return { ...issue, fingerprint: count === 1 ? base : `${base}:${count}` };
+  });
+}
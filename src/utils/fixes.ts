@@ -0,0 +1,156 @@
+import DiffMatchPatch from 'diff-match-patch';
+import { IssueFix } from '@/types';
+
+/**
+ * Machine-applicable fixes
+ *
+ * Fixes are expressed against the code that was analyzed. Applying them to
+ * that exact code is a plain line splice; once the buffer has drifted (other
+ * fixes applied, manual edits) each fix is turned into a patch and applied
+ * with fuzzy matching, so it still lands on the right lines or fails cleanly.
+ */
+
+export type FixPreviewLineType = 'added' | 'removed' | 'unchanged';
+
+export interface FixPreviewLine {
+  type: FixPreviewLineType;
+  content: string;
+}
+
+export interface ApplyFixesResult {
+  /** Code with every applicable fix applied */
+  code: string;
+
+  /** Fixes that were applied */
+  applied: IssueFix[];
+
+  /** Fixes that could not be located in the current code */
+  failed: IssueFix[];
+}
+
+export interface FixSelection {
+  /** Fixes that can be applied together */
+  accepted: IssueFix[];
+
+  /** Fixes that overlap an accepted or previously applied fix */
+  conflicting: IssueFix[];
+}
+
+const dmp = new DiffMatchPatch();
+
+/**
+ * Whether two fixes touch at least one common line
+ */
+export function fixesOverlap(a: IssueFix, b: IssueFix): boolean {
+  return a.startLine <= b.endLine && b.startLine <= a.endLine;
+}
+
+/**
+ * Picks the fixes that can be applied together, in order
+ * A fix is rejected when it overlaps one accepted before it or one already applied.
+ */
+export function selectCompatibleFixes(fixes: IssueFix[], alreadyApplied: IssueFix[] = []): FixSelection {
+  const accepted: IssueFix[] = [];
+  const conflicting: IssueFix[] = [];
+
+  for (const fix of fixes) {
+    const taken = [...alreadyApplied, ...accepted];
+    if (taken.some((other) => fixesOverlap(fix, other))) {
+      conflicting.push(fix);
+    } else {
+      accepted.push(fix);
+    }
+  }
+
+  return { accepted, conflicting };
+}
+
+/**
+ * Applies a single fix to the code it was reported against
+ * Returns null when the fix refers to lines the code does not have.
+ */
+export function applyFix(code: string, fix: IssueFix): string | null {
+  const lines = code.split('\n');
+  if (fix.startLine < 1 || fix.endLine < fix.startLine || fix.endLine > lines.length) {
+    return null;
+  }
+
+  const replacement = fix.replacement === '' ? [] : fix.replacement.split('\n');
+  lines.splice(fix.startLine - 1, fix.endLine - fix.startLine + 1, ...replacement);
+  return lines.join('\n');
+}
+
+/**
+ * Applies fixes reported against `analyzedCode` to the current `code`
+ * Fixes must not overlap each other; use selectCompatibleFixes first.
+ */
+export function applyFixes(code: string, analyzedCode: string, fixes: IssueFix[]): ApplyFixesResult {
+  const applied: IssueFix[] = [];
+  const failed: IssueFix[] = [];
+
+  // Unchanged buffer: splice bottom-up so earlier line numbers stay valid
+  if (code === analyzedCode) {
+    let result = code;
+    for (const fix of [...fixes].sort((a, b) => b.startLine - a.startLine)) {
+      const next = applyFix(result, fix);
+      if (next === null) {
+        failed.push(fix);
+      } else {
+        result = next;
+        applied.push(fix);
+      }
+    }
+    return { code: result, applied: fixes.filter((fix) => applied.includes(fix)), failed };
+  }
+
+  let result = code;
+  for (const fix of fixes) {
+    const fixed = applyFix(analyzedCode, fix);
+    if (fixed === null) {
+      failed.push(fix);
+      continue;
+    }
+
+    const [patched, outcomes] = dmp.patch_apply(dmp.patch_make(analyzedCode, fixed), result);
+    if (outcomes.every(Boolean)) {
+      result = patched;
+      applied.push(fix);
+    } else {
+      failed.push(fix);
+    }
+  }
+
+  return { code: result, applied, failed };
+}
+
+/**
+ * Builds a line diff of what a fix changes in the analyzed code
+ */
+export function buildFixPreview(code: string, fix: IssueFix): FixPreviewLine[] {
+  const lines = code.split('\n');
+  const before = lines.slice(fix.startLine - 1, fix.endLine);
+
+  // Line mode diff: every line is diffed as a single unit
+  const { chars1, chars2, lineArray } = dmp.diff_linesToChars_(
+    before.map((line) => `${line}\n`).join(''),
+    fix.replacement === '' ? '' : `${fix.replacement}\n`
+  );
+  const diffs = dmp.diff_main(chars1, chars2, false);
+  dmp.diff_charsToLines_(diffs, lineArray);
+
+  const preview: FixPreviewLine[] = [];
+  for (const [operation, text] of diffs) {
+    const type: FixPreviewLineType =
+      operation === DiffMatchPatch.DIFF_DELETE
+        ? 'removed'
+        : operation === DiffMatchPatch.DIFF_INSERT
+          ? 'added'
+          : 'unchanged';
+
+    for (const content of text.replace(/\n$/, '').split('\n')) {
+      preview.push({ type, content });
+    }
+  }
+
+  return preview;
+}
@@ -0,0 +1,73 @@
+import { matchesGlob } from './projectConfig';
+
+/**
+ * .gitignore matching
+ *
+ * Supports what repositories commonly use: globs, negation, directory-only
+ * rules and nested .gitignore files, whose rules only apply below their own
+ * directory. Paths are relative with forward slashes.
+ */
+
+export interface IgnoreRule {
+  /** Directory of the .gitignore, relative to the root being walked */
+  base: string;
+  pattern: string;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Parses the contents of a .gitignore
+ */
+export function parseGitignore(text: string, base = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine.trimEnd();
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    line = line.replace(/^!/, '').replace(/^\\([#!])/, '$1');
+
+    const directoryOnly = line.endsWith('/');
+    const pattern = line.replace(/\/+$/, '');
+    if (pattern) {
+      rules.push({ base, pattern, negated, directoryOnly });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Whether the last matching rule excludes a path
+ */
+export function isGitignored(filePath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.base && !filePath.startsWith(`${rule.base}/`)) continue;
+
+    const relative = rule.base ? filePath.slice(rule.base.length + 1) : filePath;
+    if (matchesGlob(relative, rule.pattern)) {
+      ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+}
+
+/**
+ * Whether a file or any directory above it is excluded
+ * For flat path lists, such as archive entries, where no walk prunes ignored directories.
+ */
+export function isFileGitignored(filePath: string, rules: IgnoreRule[]): boolean {
+  const segments = filePath.split('/');
+  for (let i = 1; i < segments.length; i++) {
+    if (isGitignored(segments.slice(0, i).join('/'), true, rules)) {
+      return true;
+    }
+  }
+  return isGitignored(filePath, false, rules);
+}
@@ -0,0 +1,206 @@
+import { AnalysisResult, CodeIssue, QualityGrade } from '@/types';
+import { getConfidenceLabel } from '@/lib/confidence/confidenceCalculator';
+import {
+  ReportOptions,
+  ReportableResult,
+  formatLocation,
+  getFileContent,
+  getIssuesAtLocations,
+  getOverall,
+  getResultFiles,
+  getUnanalyzedFiles,
+  isMultiFileResult,
+} from './reportData';
+
+/**
+ * Standalone HTML review report
+ *
+ * One file with inline styles and no scripts, so it can be attached to a
+ * ticket or opened offline. Each file shows its score, confidence factors and,
+ * when the analyzed code is available, the annotated code the way CodeViewer
+ * shows it.
+ */
+
+const GRADE_COLORS: Record<QualityGrade, string> = {
+  A: '#22c55e',
+  B: '#3b82f6',
+  C: '#eab308',
+  D: '#f97316',
+  F: '#ef4444',
+};
+
+const STYLES = `
+  body { margin: 0; font: 14px/1.5 system-ui, -apple-system, sans-serif; color: #1f2937; background: #f9fafb; }
+  main { max-width: 960px; margin: 0 auto; padding: 32px 16px; }
+  section { background: #fff; border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; margin-bottom: 16px; }
+  h1 { font-size: 20px; margin: 0 0 8px; }
+  h2 { font-size: 16px; margin: 0 0 8px; font-family: ui-monospace, monospace; }
+  .grade { font-weight: 700; }
+  .muted { color: #6b7280; }
+  .metrics span { margin-right: 16px; }
+  ul { margin: 8px 0; padding-left: 20px; }
+  .issue { border-left: 3px solid; padding: 6px 10px; margin: 6px 0; }
+  .issue p { margin: 2px 0 0; color: #4b5563; }
+  .critical { border-color: #ef4444; background: rgba(239, 68, 68, 0.06); }
+  .warning { border-color: #eab308; background: rgba(234, 179, 8, 0.06); }
+  .suggestion { border-color: #3b82f6; background: rgba(59, 130, 246, 0.06); }
+  .code { width: 100%; border-collapse: collapse; font: 12px/1.5 ui-monospace, monospace; }
+  .code td { padding: 0 8px; vertical-align: top; }
+  .code .ln { width: 1%; text-align: right; color: #9ca3af; border-right: 1px solid #e5e7eb; user-select: none; }
+  .code pre { margin: 0; white-space: pre-wrap; word-break: break-all; }
+  .code .issue { font-family: system-ui, -apple-system, sans-serif; margin: 2px 0 6px; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function gradeBadge(grade: QualityGrade, score: number): string {
+  return `<span class="grade" style="color: ${GRADE_COLORS[grade]}">${grade} ${score}/100</span>`;
+}
+
+/**
+ * Id of a line of the annotated code of a file
+ */
+function lineAnchor(fileName: string, line: number): string {
+  return `L-${fileName.replace(/[^\w.-]/g, '-')}-${line}`;
+}
+
+/**
+ * Links to the locations of a cross-file issue, except the one it is shown at
+ */
+function locationLinks(issue: CodeIssue): string {
+  const links = (issue.locations ?? [])
+    .filter((location) => location.file !== issue.file || location.startLine !== issue.line)
+    .map(
+      (location) =>
+        `<a href="#${lineAnchor(location.file, location.startLine)}">${escapeHtml(formatLocation(location))}</a>`
+    );
+  return links.length > 0 ? `<p class="muted">${issue.file ? 'Also at' : 'At'} ${links.join(', ')}</p>` : '';
+}
+
+function issueBlock(issue: CodeIssue, withLine: boolean): string {
+  const location = withLine && issue.line > 0 ? `${issue.file ? `${escapeHtml(issue.file)}:` : 'Line '}${issue.line} · ` : '';
+  const rule = issue.ruleId ?? issue.principle ?? issue.category;
+  return (
+    `<div class="issue ${issue.severity}"><strong>${escapeHtml(issue.message)}</strong> ` +
+    `<span class="muted">${location}${issue.severity} · ${escapeHtml(rule)}</span>` +
+    `<p>${escapeHtml(issue.suggestion)}</p>${locationLinks(issue)}</div>`
+  );
+}
+
+/**
+ * Code with each issue shown below its line, like CodeViewer
+ */
+function annotatedCode(code: string, issues: CodeIssue[], fileName: string): string {
+  const lines = code.split('\n');
+  const byLine = new Map<number, CodeIssue[]>();
+  for (const issue of issues) {
+    byLine.set(issue.line, [...(byLine.get(issue.line) ?? []), issue]);
+  }
+
+  const rows = lines.map((line, index) => {
+    const lineIssues = byLine.get(index + 1) ?? [];
+    const row = `<tr id="${lineAnchor(fileName, index + 1)}"${lineIssues.length > 0 ? ` class="${lineIssues[0].severity}"` : ''}><td class="ln">${index + 1}</td><td><pre>${escapeHtml(line) || ' '}</pre></td></tr>`;
+    const notes = lineIssues.length > 0
+      ? `<tr><td class="ln"></td><td>${lineIssues.map((issue) => issueBlock(issue, false)).join('')}</td></tr>`
+      : '';
+    return row + notes;
+  });
+
+  return `<table class="code">${rows.join('\n')}</table>`;
+}
+
+function confidenceBlock(result: AnalysisResult): string {
+  const { level, overall, factors } = result.confidence;
+  const items = factors.map((factor) => `<li>${escapeHtml(factor)}</li>`).join('');
+  return `<p class="muted">Confidence: ${getConfidenceLabel(level)} (${overall}%)</p>${items ? `<ul>${items}</ul>` : ''}`;
+}
+
+function fileSection(
+  fileName: string,
+  result: AnalysisResult,
+  code: string | undefined,
+  crossFileIssues: CodeIssue[]
+): string {
+  // Diff reviews report new-file lines, which the submitted diff does not have
+  const canAnnotate = code !== undefined && !result.metadata?.diff;
+  const lineCount = canAnnotate ? code.split('\n').length : 0;
+  const annotations = [...result.issues, ...getIssuesAtLocations(crossFileIssues, fileName)];
+  const unplaced = canAnnotate
+    ? result.issues.filter((issue) => issue.line < 1 || issue.line > lineCount)
+    : result.issues;
+
+  const body = [
+    confidenceBlock(result),
+    ...unplaced.map((issue) => issueBlock(issue, true)),
+    canAnnotate ? annotatedCode(code, annotations, fileName) : '',
+    result.issues.length === 0 ? '<p class="muted">No issues found.</p>' : '',
+  ];
+
+  return `<section><h2>${escapeHtml(fileName)} ${gradeBadge(result.grade, result.score)}</h2>${body.join('\n')}</section>`;
+}
+
+/**
+ * Converts a single or multi-file result into a standalone HTML page
+ */
+export function toHtml(result: ReportableResult, options: ReportOptions = {}): string {
+  const { score, grade, metrics, summary } = getOverall(result);
+  const files = getResultFiles(result, options.fileName);
+
+  const overview = [
+    `<h1>Solidry review ${gradeBadge(grade, score)}</h1>`,
+    `<p>${escapeHtml(summary)}</p>`,
+    `<p class="metrics"><span><strong>${metrics.criticalIssues}</strong> critical</span>` +
+      `<span><strong>${metrics.warnings}</strong> warnings</span>` +
+      `<span><strong>${metrics.suggestions}</strong> suggestions</span>` +
+      (isMultiFileResult(result) ? `<span><strong>${result.totalFiles}</strong> files</span>` : '') +
+      '</p>',
+  ];
+  if (result.baseline) {
+    overview.push(
+      `<p class="muted">Compared with the baseline: ${result.baseline.newIssues} new, ` +
+        `${result.baseline.existingIssues.length} existing, ${result.baseline.fixedIssues.length} fixed.</p>`
+    );
+  }
+
+  const sections = [`<section>${overview.join('\n')}</section>`];
+  if (isMultiFileResult(result) && result.crossFileIssues.length > 0) {
+    sections.push(
+      `<section><h2>Cross-file issues</h2>${result.crossFileIssues.map((issue) => issueBlock(issue, false)).join('')}</section>`
+    );
+  }
+  for (const file of files) {
+    const content = getFileContent(result, file.fileName, options);
+    sections.push(fileSection(file.fileName, file.result, content, isMultiFileResult(result) ? result.crossFileIssues : []));
+  }
+  const unanalyzed = getUnanalyzedFiles(result);
+  if (unanalyzed.length > 0) {
+    const items = unanalyzed
+      .map((file) => `<li><code>${escapeHtml(file.fileName)}</code> ${file.status}: ${escapeHtml(file.error?.message ?? '')}</li>`)
+      .join('');
+    sections.push(`<section><h2>Not analyzed</h2><ul>${items}</ul></section>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Solidry review: ${grade} (${score}/100)</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+${sections.join('\n')}
+<p class="muted">Generated by Solidry on ${escapeHtml(new Date().toISOString())}</p>
+</main>
+</body>
+</html>
+`;
+}
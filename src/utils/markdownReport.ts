@@ -0,0 +1,95 @@
+import { CodeIssue } from '@/types';
+import { getConfidenceLabel } from '@/lib/confidence/confidenceCalculator';
+import {
+  ReportOptions,
+  ReportableResult,
+  formatLocation,
+  getOverall,
+  getResultFiles,
+  getUnanalyzedFiles,
+  isMultiFileResult,
+} from './reportData';
+
+/**
+ * Markdown review report
+ *
+ * Sized for a pull request description or comment: the overall grade and
+ * counts first, then one table of issues per file.
+ */
+
+const TOOL_LINK = '[Solidry](https://github.com/RYeeAnn/Solidry)';
+
+/**
+ * Escapes text for a table cell
+ */
+function cell(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function issueTable(issues: CodeIssue[]): string[] {
+  if (issues.length === 0) {
+    return ['No issues found.'];
+  }
+
+  const rows = [...issues]
+    .sort((a, b) => (a.file ?? '').localeCompare(b.file ?? '') || a.line - b.line)
+    .map((issue) => {
+      const location = issue.file ? `${issue.file}:${issue.line}` : String(issue.line);
+      const rule = issue.ruleId ?? issue.principle ?? issue.category;
+      return `| ${cell(location)} | ${issue.severity} | \`${cell(rule)}\` | **${cell(issue.message)}**<br>${cell(issue.suggestion)} |`;
+    });
+
+  return ['| Line | Severity | Rule | Issue |', '| ---: | --- | --- | --- |', ...rows];
+}
+
+/**
+ * Converts a single or multi-file result into a Markdown report
+ */
+export function toMarkdown(result: ReportableResult, options: ReportOptions = {}): string {
+  const { score, grade, metrics, summary } = getOverall(result);
+  const subject = options.fileName && !isMultiFileResult(result) ? ` of \`${options.fileName}\`` : '';
+  const lines = [
+    `## Solidry review${subject}: ${grade} (${score}/100)`,
+    '',
+    `> ${summary.replace(/\r?\n/g, ' ')}`,
+    '',
+    `**${metrics.criticalIssues}** critical · **${metrics.warnings}** warnings · **${metrics.suggestions}** suggestions`,
+  ];
+
+  if (result.baseline) {
+    lines.push(
+      '',
+      `Compared with the baseline: ${result.baseline.newIssues} new, ` +
+        `${result.baseline.existingIssues.length} existing, ${result.baseline.fixedIssues.length} fixed.`
+    );
+  }
+
+  if (!isMultiFileResult(result)) {
+    lines.push('', `Confidence: ${getConfidenceLabel(result.confidence.level)} (${result.confidence.overall}%)`);
+    result.confidence.factors.forEach((factor) => lines.push(`- ${factor}`));
+    lines.push('', ...issueTable(result.issues));
+  } else {
+    for (const file of getResultFiles(result)) {
+      lines.push('', `### \`${file.fileName}\`: ${file.result.grade} (${file.result.score}/100)`, '');
+      lines.push(...issueTable(file.result.issues));
+    }
+
+    const unanalyzed = getUnanalyzedFiles(result);
+    if (unanalyzed.length > 0) {
+      lines.push('', '### Not analyzed', '');
+      unanalyzed.forEach((file) => lines.push(`- \`${file.fileName}\` ${file.status}: ${file.error?.message ?? ''}`));
+    }
+
+    if (result.crossFileIssues.length > 0) {
+      lines.push('', '### Cross-file issues', '');
+      result.crossFileIssues.forEach((issue) => {
+        const locations = (issue.locations ?? []).map((location) => `\`${formatLocation(location)}\``);
+        const where = locations.length > 0 ? ` (${locations.join(', ')})` : '';
+        lines.push(`- **${issue.severity}**: ${issue.message}${where}`);
+      });
+    }
+  }
+
+  lines.push('', `<sub>Generated by ${TOOL_LINK}</sub>`, '');
+  return lines.join('\n');
+}
@@ -0,0 +1,297 @@
+import { CodeIssue, GradeThresholds, IssueSeverity, ProjectConfig, ReviewType, ScoringProfileId } from '@/types';
+import { DEFAULT_GRADE_THRESHOLDS, SCORING_PROFILE_IDS } from './scoring';
+
+/**
+ * Project configuration (.solidryrc.json)
+ *
+ * Team policy that travels with the repository instead of being restated in
+ * every request: default review types, severity overrides, ignored files,
+ * scoring weights, clone detection thresholds and review context. Shared by
+ * the API, which validates and applies it, and the upload UI, which reads it
+ * from a dropped file.
+ */
+
+export const PROJECT_CONFIG_FILE_NAME = '.solidryrc.json';
+
+/**
+ * Review types used when neither the request nor the project picks any
+ */
+export const DEFAULT_REVIEW_TYPES: ReviewType[] = ['solid', 'hygiene'];
+
+const SEVERITY_VALUES: Record<IssueSeverity, true> = {
+  critical: true,
+  warning: true,
+  suggestion: true,
+};
+
+const REVIEW_TYPE_VALUES: Record<ReviewType, true> = {
+  solid: true,
+  hygiene: true,
+  unnecessary: true,
+  simplicity: true,
+};
+
+const CONFIG_KEYS: Record<keyof ProjectConfig, true> = {
+  reviewTypes: true,
+  severity: true,
+  ignore: true,
+  scoring: true,
+  context: true,
+  clones: true,
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isSeverity(value: unknown): value is IssueSeverity {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SEVERITY_VALUES, value);
+}
+
+/**
+ * Validates the scoring section of a project configuration
+ */
+function validateScoring(scoring: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const { profile, weights, gradeThresholds } = scoring;
+
+  if (profile !== undefined && !SCORING_PROFILE_IDS.includes(profile as ScoringProfileId)) {
+    errors.push(`Unknown scoring profile "${String(profile)}" (expected ${SCORING_PROFILE_IDS.join(', ')})`);
+  }
+
+  if (weights !== undefined) {
+    if (!isPlainObject(weights)) {
+      errors.push('Project configuration "scoring.weights" must map severities to points');
+    } else {
+      for (const [weightSeverity, points] of Object.entries(weights)) {
+        if (!isSeverity(weightSeverity)) {
+          errors.push(`Unknown severity "${weightSeverity}" in project configuration scoring weights`);
+        } else if (typeof points !== 'number' || !Number.isFinite(points) || points < 0) {
+          errors.push(`Scoring weight for "${weightSeverity}" must be a non-negative number`);
+        }
+      }
+    }
+  }
+
+  if (gradeThresholds !== undefined) {
+    if (!isPlainObject(gradeThresholds)) {
+      errors.push('Project configuration "scoring.gradeThresholds" must map grades to minimum scores');
+      return errors;
+    }
+
+    const grades = Object.keys(DEFAULT_GRADE_THRESHOLDS) as (keyof GradeThresholds)[];
+    let valid = true;
+    for (const [grade, minimum] of Object.entries(gradeThresholds)) {
+      if (!grades.includes(grade as keyof GradeThresholds)) {
+        errors.push(`Unknown grade "${grade}" in project configuration grade thresholds (F has no minimum)`);
+        valid = false;
+      } else if (typeof minimum !== 'number' || minimum < 0 || minimum > 100) {
+        errors.push(`Grade threshold for "${grade}" must be a number from 0 to 100`);
+        valid = false;
+      }
+    }
+
+    // Together with the defaults they replace, thresholds must fall from A to D
+    const merged: Record<string, unknown> = { ...DEFAULT_GRADE_THRESHOLDS, ...gradeThresholds };
+    if (valid && grades.some((grade, i) => i > 0 && (merged[grade] as number) >= (merged[grades[i - 1]] as number))) {
+      errors.push(`Grade thresholds must decrease from A to D (got ${grades.map((g) => `${g} ${merged[g]}`).join(', ')})`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates the clone detection section of a project configuration
+ */
+function validateClones(clones: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const { minTokens, minSimilarity } = clones;
+
+  for (const key of Object.keys(clones)) {
+    if (key !== 'minTokens' && key !== 'minSimilarity') {
+      errors.push(`Unknown project configuration key "clones.${key}"`);
+    }
+  }
+  if (minTokens !== undefined && (!Number.isInteger(minTokens) || (minTokens as number) < 10)) {
+    errors.push('Project configuration "clones.minTokens" must be a whole number of at least 10');
+  }
+  if (minSimilarity !== undefined && (typeof minSimilarity !== 'number' || minSimilarity < 50 || minSimilarity > 100)) {
+    errors.push('Project configuration "clones.minSimilarity" must be a number from 50 to 100');
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a project configuration
+ * Returns a list of problems (empty when valid)
+ */
+export function validateProjectConfig(config: unknown): string[] {
+  if (config === undefined) {
+    return [];
+  }
+  if (!isPlainObject(config)) {
+    return ['Project configuration must be an object'];
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(config)) {
+    if (!Object.prototype.hasOwnProperty.call(CONFIG_KEYS, key)) {
+      errors.push(`Unknown project configuration key "${key}"`);
+    }
+  }
+
+  const { reviewTypes, severity, ignore, scoring, context, clones } = config;
+
+  if (reviewTypes !== undefined) {
+    if (!Array.isArray(reviewTypes) || reviewTypes.length === 0) {
+      errors.push('Project configuration "reviewTypes" must be a non-empty list');
+    } else {
+      reviewTypes
+        .filter((type) => typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(REVIEW_TYPE_VALUES, type))
+        .forEach((type) => errors.push(`Unknown review type "${String(type)}" in project configuration`));
+    }
+  }
+
+  if (severity !== undefined) {
+    if (!isPlainObject(severity)) {
+      errors.push('Project configuration "severity" must map categories, principles or rule ids to severities');
+    } else {
+      for (const [selector, value] of Object.entries(severity)) {
+        if (!isSeverity(value)) {
+          errors.push(`Invalid severity "${String(value)}" for "${selector}" in project configuration`);
+        }
+      }
+    }
+  }
+
+  if (ignore !== undefined && (!Array.isArray(ignore) || ignore.some((pattern) => typeof pattern !== 'string'))) {
+    errors.push('Project configuration "ignore" must be a list of glob patterns');
+  }
+
+  if (scoring !== undefined) {
+    if (!isPlainObject(scoring)) {
+      errors.push('Project configuration "scoring" must be an object');
+    } else {
+      errors.push(...validateScoring(scoring));
+    }
+  }
+
+  if (context !== undefined && typeof context !== 'string') {
+    errors.push('Project configuration "context" must be a string');
+  }
+
+  if (clones !== undefined) {
+    if (!isPlainObject(clones)) {
+      errors.push('Project configuration "clones" must be an object');
+    } else {
+      errors.push(...validateClones(clones));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parses the contents of a .solidryrc.json file
+ */
+export function parseProjectConfig(text: string): { config: ProjectConfig | null; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { config: null, errors: [`${PROJECT_CONFIG_FILE_NAME} is not valid JSON`] };
+  }
+
+  const errors = validateProjectConfig(parsed);
+  return errors.length > 0 ? { config: null, errors } : { config: parsed as ProjectConfig, errors };
+}
+
+/**
+ * Whether a file name is a project configuration file
+ */
+export function isProjectConfigFile(fileName: string): boolean {
+  return fileName.split(/[\\/]/).pop() === PROJECT_CONFIG_FILE_NAME;
+}
+
+/**
+ * Resolves the review types to run: the requested ones, else the project's,
+ * else the defaults
+ */
+export function resolveReviewTypes(
+  requested: ReviewType[] | undefined,
+  config: ProjectConfig | undefined
+): ReviewType[] {
+  return requested && requested.length > 0 ? requested : config?.reviewTypes ?? DEFAULT_REVIEW_TYPES;
+}
+
+/**
+ * Joins the project context and the per-request context
+ */
+export function mergeContext(config: ProjectConfig | undefined, context: string | undefined): string | undefined {
+  const parts = [config?.context, context]
+    .map((part) => part?.trim())
+    .filter((part): part is string => !!part);
+  return parts.length > 0 ? parts.join('\n\n') : undefined;
+}
+
+/**
+ * Applies severity overrides; a rule id wins over a principle, and a
+ * principle over a category
+ */
+export function applySeverityOverrides(issue: CodeIssue, config: ProjectConfig | undefined): CodeIssue {
+  const overrides = config?.severity;
+  if (!overrides) {
+    return issue;
+  }
+
+  const severity = [issue.ruleId, issue.principle, issue.category]
+    .filter((selector): selector is string => !!selector && Object.prototype.hasOwnProperty.call(overrides, selector))
+    .map((selector) => overrides[selector])[0];
+
+  return severity && severity !== issue.severity ? { ...issue, severity } : issue;
+}
+
+/**
+ * Converts a glob into a regular expression
+ * `**` matches across directories, `*` and `?` within one path segment.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" may also match no directory at all
+      const slash = glob[i + 2] === '/';
+      pattern += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Whether a path matches a glob
+ * Globs without a slash match the file name in any directory, like
+ * .gitignore entries.
+ */
+export function matchesGlob(fileName: string, glob: string): boolean {
+  const path = fileName.replace(/\\/g, '/').replace(/^\.\//, '');
+  const baseName = path.split('/').pop() ?? path;
+  const regex = globToRegExp(glob.replace(/^\.?\//, ''));
+  return regex.test(path) || (!glob.includes('/') && regex.test(baseName));
+}
+
+/**
+ * Whether a file is left out by the ignore patterns
+ */
+export function isIgnoredFile(fileName: string, config: ProjectConfig | undefined): boolean {
+  return (config?.ignore ?? []).some((glob) => matchesGlob(fileName, glob));
+}
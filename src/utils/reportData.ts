@@ -0,0 +1,101 @@
+import {
+  AnalysisResult,
+  AnalyzedFileResult,
+  CodeIssue,
+  FileAnalysisResult,
+  IssueLocation,
+  IssueMetrics,
+  MultiFileAnalysisResult,
+  QualityGrade,
+} from '@/types';
+
+/**
+ * Shared view of single and multi-file results for the report formats
+ */
+
+export type ReportableResult = AnalysisResult | MultiFileAnalysisResult;
+
+/**
+ * What a report needs besides the result
+ */
+export interface ReportOptions {
+  /** File the issues of a single-file result belong to */
+  fileName?: string;
+
+  /** Analyzed code of a single-file result, for the annotated view */
+  code?: string;
+
+  /** Analyzed code of each file of a multi-file result, by file name */
+  fileContents?: Record<string, string>;
+}
+
+/**
+ * Name used for a single-file result without a file name
+ */
+export const DEFAULT_REPORT_FILE_NAME = 'code';
+
+export function isMultiFileResult(result: ReportableResult): result is MultiFileAnalysisResult {
+  return 'aggregateScore' in result;
+}
+
+/**
+ * Score, grade, metrics and summary of the whole result
+ */
+export function getOverall(result: ReportableResult): {
+  score: number;
+  grade: QualityGrade;
+  metrics: IssueMetrics;
+  summary: string;
+} {
+  return isMultiFileResult(result)
+    ? {
+        score: result.aggregateScore,
+        grade: result.aggregateGrade,
+        metrics: result.aggregateMetrics,
+        summary: result.overallSummary,
+      }
+    : { score: result.score, grade: result.grade, metrics: result.metrics, summary: result.summary };
+}
+
+/**
+ * Per-file results of the analyzed files; a single-file result becomes one file
+ */
+export function getResultFiles(result: ReportableResult, fileName = DEFAULT_REPORT_FILE_NAME): AnalyzedFileResult[] {
+  return isMultiFileResult(result)
+    ? result.files.filter((file): file is AnalyzedFileResult => file.status === 'ok')
+    : [{ fileName, status: 'ok', result }];
+}
+
+/**
+ * Files of a multi-file result that failed or were skipped
+ */
+export function getUnanalyzedFiles(result: ReportableResult): FileAnalysisResult[] {
+  return isMultiFileResult(result) ? result.files.filter((file) => file.status !== 'ok') : [];
+}
+
+/**
+ * Analyzed code of a file, when the caller provided it
+ */
+export function getFileContent(result: ReportableResult, fileName: string, options: ReportOptions): string | undefined {
+  return isMultiFileResult(result) ? options.fileContents?.[fileName] : options.code;
+}
+
+/**
+ * A location as file:line, or file:first-last for several lines
+ */
+export function formatLocation(location: IssueLocation): string {
+  const endLine = location.endLine ?? location.startLine;
+  return `${location.file}:${location.startLine}${endLine !== location.startLine ? `-${endLine}` : ''}`;
+}
+
+/**
+ * Cross-file issues as annotations of one file: a copy of the issue at each of
+ * its locations in the file, with the line of that location
+ */
+export function getIssuesAtLocations(issues: CodeIssue[], fileName: string): CodeIssue[] {
+  return issues.flatMap((issue) =>
+    (issue.locations ?? [])
+      .filter((location) => location.file === fileName)
+      .map((location) => ({ ...issue, file: fileName, line: location.startLine }))
+  );
+}
@@ -0,0 +1,70 @@
+import { SARIF_CONTENT_TYPE, toSarif } from './sarif';
+import { toMarkdown } from './markdownReport';
+import { toHtml } from './htmlReport';
+import { ReportOptions, ReportableResult } from './reportData';
+
+/**
+ * Formats the analysis API can answer in
+ * A `format` field in the request wins over the Accept header; JSON is the default.
+ */
+export type ResponseFormat = 'json' | 'sarif' | 'markdown' | 'html';
+
+const FORMAT_MEDIA_TYPES: Record<ResponseFormat, string> = {
+  json: 'application/json',
+  sarif: SARIF_CONTENT_TYPE,
+  markdown: 'text/markdown',
+  html: 'text/html',
+};
+
+/**
+ * Serializers of each format
+ */
+const FORMAT_RENDERERS: Record<ResponseFormat, (result: ReportableResult, options: ReportOptions) => string> = {
+  json: (result) => JSON.stringify(result, null, 2),
+  sarif: (result, options) => JSON.stringify(toSarif(result, options), null, 2),
+  markdown: toMarkdown,
+  html: toHtml,
+};
+
+/**
+ * File extension of downloads in each format
+ */
+export const FORMAT_EXTENSIONS: Record<ResponseFormat, string> = {
+  json: 'json',
+  sarif: 'sarif',
+  markdown: 'md',
+  html: 'html',
+};
+
+export const RESPONSE_FORMATS = Object.keys(FORMAT_MEDIA_TYPES) as ResponseFormat[];
+
+/**
+ * Picks the response format of a request, or null when it asks for an unknown one
+ */
+export function resolveResponseFormat(format: unknown, accept: string | null): ResponseFormat | null {
+  if (format !== undefined) {
+    return RESPONSE_FORMATS.includes(format as ResponseFormat) ? (format as ResponseFormat) : null;
+  }
+
+  const accepted = (accept ?? '').split(',').map((type) => type.split(';')[0].trim().toLowerCase());
+  return (
+    RESPONSE_FORMATS.find((candidate) => candidate !== 'json' && accepted.includes(FORMAT_MEDIA_TYPES[candidate])) ??
+    'json'
+  );
+}
+
+/**
+ * Serializes a result in the requested format
+ * The annotated code of HTML reports needs `code` or `fileContents`.
+ */
+export function renderResult(
+  result: ReportableResult,
+  format: ResponseFormat,
+  options: ReportOptions = {}
+): { content: string; contentType: string } {
+  const mediaType = FORMAT_MEDIA_TYPES[format];
+  return {
+    content: FORMAT_RENDERERS[format](result, options),
+    contentType: mediaType.startsWith('text/') ? `${mediaType}; charset=utf-8` : mediaType,
+  };
+}
@@ -0,0 +1,212 @@
+import { AnalysisResult, CodeIssue, IssueSeverity } from '@/types';
+import { parseUnifiedDiff } from './diffParser';
+
+/**
+ * Pull-request review payloads
+ *
+ * Turns the review of a multi-file patch into what code hosts accept when
+ * creating a review: a summary body plus comments anchored to lines of the new
+ * version of each file. A comment can only sit on a line the patch shows, so
+ * issues elsewhere are listed in the body instead.
+ */
+
+/**
+ * Side of the diff a comment belongs to; reviews always comment on the new version
+ */
+export type ReviewCommentSide = 'LEFT' | 'RIGHT';
+
+/**
+ * Review verdict; REQUEST_CHANGES is only used when asked for and a critical issue is reported
+ */
+export type ReviewEvent = 'COMMENT' | 'REQUEST_CHANGES';
+
+export interface ReviewComment {
+  /** Path of the file in the new version */
+  path: string;
+
+  /** Line in the new version of the file */
+  line: number;
+
+  side: ReviewCommentSide;
+
+  /** Markdown rendered from the issue */
+  body: string;
+}
+
+export interface ReviewPayload {
+  /** Markdown summary of the review */
+  body: string;
+
+  event: ReviewEvent;
+
+  comments: ReviewComment[];
+}
+
+export interface ReviewPayloadOptions {
+  /** Least severe issue that is reported (default 'suggestion') */
+  minSeverity?: IssueSeverity;
+
+  /** Most inline comments to create; the rest are listed in the body (default 50) */
+  maxComments?: number;
+
+  /** Request changes instead of commenting when a critical issue is found (default false) */
+  requestChanges?: boolean;
+}
+
+export const DEFAULT_MAX_COMMENTS = 50;
+
+const SEVERITY_RANK: Record<IssueSeverity, number> = {
+  critical: 0,
+  warning: 1,
+  suggestion: 2,
+};
+
+const SEVERITY_LABELS: Record<IssueSeverity, string> = {
+  critical: 'Critical',
+  warning: 'Warning',
+  suggestion: 'Suggestion',
+};
+
+const TOOL_LINK = '[Solidry](https://github.com/RYeeAnn/Solidry)';
+
+/**
+ * Lines of the new version each file of a patch shows, by path
+ */
+export function getCommentableLines(patch: string): Map<string, Set<number>> {
+  const lines = new Map<string, Set<number>>();
+
+  for (const file of parseUnifiedDiff(patch)) {
+    if (!file.newPath) continue;
+
+    const fileLines = lines.get(file.newPath) ?? new Set<number>();
+    for (const hunk of file.hunks) {
+      for (const line of hunk.lines) {
+        if (line.newLine !== undefined) {
+          fileLines.add(line.newLine);
+        }
+      }
+    }
+    lines.set(file.newPath, fileLines);
+  }
+
+  return lines;
+}
+
+function getRule(issue: CodeIssue): string {
+  return issue.ruleId ?? (issue.principle ? `${issue.category}/${issue.principle}` : issue.category);
+}
+
+/**
+ * Renders an issue as the body of an inline comment
+ * A fix that replaces exactly the commented line becomes a suggested change.
+ */
+function renderComment(issue: CodeIssue): string {
+  const parts = [
+    `**${SEVERITY_LABELS[issue.severity]}** · \`${getRule(issue)}\``,
+    `**${issue.message}**`,
+  ];
+  if (issue.explanation) {
+    parts.push(issue.explanation);
+  }
+  parts.push(issue.suggestion);
+
+  const { fix } = issue;
+  if (fix && fix.startLine === issue.line && fix.endLine === issue.line) {
+    // An empty suggestion deletes the line
+    parts.push(['```suggestion', ...(fix.replacement ? [fix.replacement] : []), '```'].join('\n'));
+  }
+
+  return parts.join('\n\n');
+}
+
+function renderListItem(issue: CodeIssue): string {
+  const location = issue.file ? `\`${issue.file}${issue.line > 0 ? `:${issue.line}` : ''}\` ` : '';
+  return `- ${location}**${issue.severity}**: ${issue.message}`;
+}
+
+/**
+ * Builds a code-host review from the result of reviewing a patch
+ */
+export function buildReviewPayload(
+  result: AnalysisResult,
+  patch: string,
+  options: ReviewPayloadOptions = {}
+): ReviewPayload {
+  const minRank = SEVERITY_RANK[options.minSeverity ?? 'suggestion'];
+  const maxComments = options.maxComments ?? DEFAULT_MAX_COMMENTS;
+  const commentable = getCommentableLines(patch);
+
+  // Most severe first, so the comment limit drops suggestions before criticals
+  const reported = result.issues
+    .filter((issue) => SEVERITY_RANK[issue.severity] <= minRank)
+    .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+
+  const comments: ReviewComment[] = [];
+  const unanchored: CodeIssue[] = [];
+  const overflow: CodeIssue[] = [];
+  for (const issue of reported) {
+    if (!issue.file || !commentable.get(issue.file)?.has(issue.line)) {
+      unanchored.push(issue);
+    } else if (comments.length >= maxComments) {
+      overflow.push(issue);
+    } else {
+      comments.push({ path: issue.file, line: issue.line, side: 'RIGHT', body: renderComment(issue) });
+    }
+  }
+  comments.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line);
+
+  const { metrics } = result;
+  const lines = [
+    `## Solidry review: ${result.grade} (${result.score}/100)`,
+    '',
+    `> ${result.summary.replace(/\r?\n/g, ' ')}`,
+    '',
+    `**${metrics.criticalIssues}** critical · **${metrics.warnings}** warnings · **${metrics.suggestions}** suggestions`,
+  ];
+  if (result.baseline) {
+    lines.push(
+      '',
+      `Compared with the baseline: ${result.baseline.newIssues} new, ` +
+        `${result.baseline.existingIssues.length} existing, ${result.baseline.fixedIssues.length} fixed.`
+    );
+  }
+  if (unanchored.length > 0) {
+    lines.push('', '### Outside the changed lines', '', ...unanchored.map(renderListItem));
+  }
+  if (overflow.length > 0) {
+    lines.push('', `### ${overflow.length} more not commented inline`, '', ...overflow.map(renderListItem));
+  }
+  lines.push('', `<sub>Generated by ${TOOL_LINK}</sub>`);
+
+  const hasCritical = reported.some((issue) => issue.severity === 'critical');
+  return {
+    body: lines.join('\n'),
+    event: options.requestChanges && hasCritical ? 'REQUEST_CHANGES' : 'COMMENT',
+    comments,
+  };
+}
+
+/**
+ * Validates review payload options from a request
+ */
+export function validateReviewPayloadOptions(options: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const { minSeverity, maxComments, requestChanges } = options;
+
+  if (
+    minSeverity !== undefined &&
+    (typeof minSeverity !== 'string' || !Object.prototype.hasOwnProperty.call(SEVERITY_RANK, minSeverity))
+  ) {
+    errors.push(`Invalid minSeverity "${String(minSeverity)}" (expected critical, warning or suggestion)`);
+  }
+
+  if (maxComments !== undefined && (typeof maxComments !== 'number' || !Number.isInteger(maxComments) || maxComments < 0)) {
+    errors.push('maxComments must be a non-negative integer');
+  }
+
+  if (requestChanges !== undefined && typeof requestChanges !== 'boolean') {
+    errors.push('requestChanges must be a boolean');
+  }
+
+  return errors;
+}
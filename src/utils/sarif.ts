@@ -0,0 +1,319 @@
+import {
+  AnalysisResult,
+  CodeIssue,
+  FileAnalysisResult,
+  IssueCategory,
+  IssueSeverity,
+  MultiFileAnalysisResult,
+  ReviewType,
+  SOLIDPrinciple,
+} from '@/types';
+import { REVIEW_DESCRIPTIONS } from '@/constants/reviewDescriptions';
+import {
+  DEFAULT_REPORT_FILE_NAME,
+  ReportOptions,
+  getResultFiles,
+  getUnanalyzedFiles,
+  isMultiFileResult,
+} from './reportData';
+
+/**
+ * SARIF 2.1.0 export
+ *
+ * Serializes results into the Static Analysis Results Interchange Format read
+ * by code-scanning services and IDE viewers. Each category, principle or
+ * pattern rule becomes a rule descriptor, and baseline and suppression
+ * information is kept in the standard SARIF properties. Only depends on the
+ * result itself, so it runs in the browser as well as in the API.
+ */
+
+export const SARIF_CONTENT_TYPE = 'application/sarif+json';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const TOOL_INFORMATION_URI = 'https://github.com/RYeeAnn/Solidry';
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string };
+    region?: { startLine: number; endLine?: number };
+  };
+}
+
+export interface SarifReportingDescriptor {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  help: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { category: IssueCategory; tags: string[] };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  partialFingerprints?: Record<string, string>;
+  baselineState?: 'new' | 'unchanged' | 'absent';
+  suppressions?: { kind: 'inSource'; justification?: string }[];
+  fixes?: {
+    description: { text: string };
+    artifactChanges: {
+      artifactLocation: { uri: string };
+      replacements: { deletedRegion: { startLine: number; endLine: number }; insertedContent: { text: string } }[];
+    }[];
+  }[];
+  properties: { category: IssueCategory; principle?: SOLIDPrinciple; suggestion: string; explanation?: string };
+}
+
+export interface SarifNotification {
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  descriptor?: { id: string };
+}
+
+export interface SarifInvocation {
+  executionSuccessful: boolean;
+  toolExecutionNotifications: SarifNotification[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: { driver: { name: string; informationUri: string; rules: SarifReportingDescriptor[] } };
+    artifacts: { location: { uri: string } }[];
+    results: SarifResult[];
+    invocations?: SarifInvocation[];
+    properties: Record<string, unknown>;
+  }[];
+}
+
+const SEVERITY_LEVELS: Record<IssueSeverity, SarifLevel> = {
+  critical: 'error',
+  warning: 'warning',
+  suggestion: 'note',
+};
+
+/**
+ * Review type whose description explains each category
+ */
+const CATEGORY_REVIEW_TYPES: Record<IssueCategory, ReviewType> = {
+  solid: 'solid',
+  hygiene: 'hygiene',
+  unnecessary: 'unnecessary',
+  complexity: 'simplicity',
+};
+
+/**
+ * Description of issues whose category is unknown, e.g. from an older baseline
+ */
+const GENERIC_REVIEW = {
+  title: 'Code Review',
+  description: 'Issue reported by Solidry',
+};
+
+const PRINCIPLE_NAMES: Record<Exclude<SOLIDPrinciple, 'other'>, string> = {
+  SRP: 'Single Responsibility Principle',
+  OCP: 'Open/Closed Principle',
+  LSP: 'Liskov Substitution Principle',
+  ISP: 'Interface Segregation Principle',
+  DIP: 'Dependency Inversion Principle',
+};
+
+/**
+ * Issue with the file it belongs to and its SARIF baseline state
+ */
+interface LocatedIssue {
+  issue: CodeIssue;
+  fileName: string;
+  baselineState?: SarifResult['baselineState'];
+  suppressed?: boolean;
+}
+
+/**
+ * Rule id of an issue: its pattern rule, else its principle, else its category
+ */
+function getRuleId(issue: CodeIssue): string {
+  if (issue.ruleId) return issue.ruleId;
+  if (issue.principle && issue.principle !== 'other') return `${issue.category}/${issue.principle}`;
+  return issue.category ?? 'other';
+}
+
+/**
+ * SARIF level of an issue; unknown severities are reported as notes
+ */
+function getLevel(issue: CodeIssue): SarifLevel {
+  return SEVERITY_LEVELS[issue.severity] ?? 'note';
+}
+
+function createRule(id: string, issue: CodeIssue): SarifReportingDescriptor {
+  const reviewType = CATEGORY_REVIEW_TYPES[issue.category];
+  const review = reviewType ? REVIEW_DESCRIPTIONS[reviewType] : GENERIC_REVIEW;
+  const principle = issue.principle && issue.principle !== 'other' ? PRINCIPLE_NAMES[issue.principle] : undefined;
+  const description = issue.ruleId ? issue.message : principle ?? review.title;
+
+  return {
+    id,
+    name: id,
+    shortDescription: { text: description },
+    help: { text: review.description },
+    defaultConfiguration: { level: getLevel(issue) },
+    properties: {
+      category: issue.category,
+      tags: [review.title, ...(issue.principle && issue.principle !== 'other' ? [issue.principle] : [])],
+    },
+  };
+}
+
+function toUri(fileName: string): string {
+  return encodeURI(fileName.replace(/\\/g, '/'));
+}
+
+function toLocation(fileName: string, line: number, endLine?: number): SarifLocation {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: toUri(fileName) },
+      // Cross-file issues have no line, so they point at the whole file
+      ...(line > 0 && { region: { startLine: line, ...(endLine && endLine !== line && { endLine }) } }),
+    },
+  };
+}
+
+function toSarifResult({ issue, fileName, baselineState, suppressed }: LocatedIssue, ruleIndex: number): SarifResult {
+  let locations: SarifLocation[];
+  if (issue.locations?.length) {
+    locations = issue.locations.map((location) => toLocation(location.file, location.startLine, location.endLine));
+  } else if (issue.relatedFiles?.length) {
+    locations = issue.relatedFiles.map((file) => toLocation(file, issue.line));
+  } else {
+    locations = [toLocation(fileName, issue.line)];
+  }
+
+  return {
+    ruleId: getRuleId(issue),
+    ruleIndex,
+    level: getLevel(issue),
+    message: { text: issue.message },
+    locations,
+    ...(issue.fingerprint && { partialFingerprints: { 'solidry/v1': issue.fingerprint } }),
+    ...(baselineState && { baselineState }),
+    ...(suppressed && { suppressions: [{ kind: 'inSource' as const, justification: 'solidry-ignore comment' }] }),
+    ...(issue.fix && {
+      fixes: [
+        {
+          description: { text: issue.fix.description ?? issue.suggestion },
+          artifactChanges: [
+            {
+              artifactLocation: { uri: toUri(fileName) },
+              replacements: [
+                {
+                  deletedRegion: { startLine: issue.fix.startLine, endLine: issue.fix.endLine },
+                  insertedContent: { text: issue.fix.replacement },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    }),
+    properties: {
+      category: issue.category,
+      ...(issue.principle && { principle: issue.principle }),
+      suggestion: issue.suggestion,
+      ...(issue.explanation && { explanation: issue.explanation }),
+    },
+  };
+}
+
+/**
+ * Reported, existing, fixed and suppressed issues of one file's result
+ */
+function locateIssues(result: AnalysisResult, fileName: string): LocatedIssue[] {
+  const locate = (issues: CodeIssue[] | undefined, extra: Partial<LocatedIssue> = {}): LocatedIssue[] =>
+    (issues ?? []).map((issue) => ({ issue, fileName: issue.file ?? fileName, ...extra }));
+  const baseline = result.baseline;
+
+  return [
+    ...locate(result.issues, baseline && { baselineState: 'new' }),
+    ...locate(baseline?.existingIssues, { baselineState: 'unchanged' }),
+    ...locate(baseline?.fixedIssues, { baselineState: 'absent' }),
+    ...locate(result.suppressedIssues, { suppressed: true }),
+  ];
+}
+
+/**
+ * Invocation of a run in which some files were not analyzed
+ */
+function toInvocation(files: FileAnalysisResult[]): SarifInvocation {
+  return {
+    executionSuccessful: false,
+    toolExecutionNotifications: files.map((file) => ({
+      level: file.status === 'failed' ? 'error' : 'warning',
+      message: { text: `${file.fileName} was not analyzed: ${file.error?.message ?? file.status}` },
+      locations: [{ physicalLocation: { artifactLocation: { uri: toUri(file.fileName) } } }],
+      descriptor: file.error && { id: file.error.code },
+    })),
+  };
+}
+
+/**
+ * Converts a single or multi-file result into a SARIF log
+ */
+export function toSarif(result: AnalysisResult | MultiFileAnalysisResult, options: ReportOptions = {}): SarifLog {
+  const isMultiFile = isMultiFileResult(result);
+  const fileName = options.fileName ?? DEFAULT_REPORT_FILE_NAME;
+  const located = isMultiFile
+    ? [
+        ...getResultFiles(result).flatMap((file) => locateIssues(file.result, file.fileName)),
+        ...result.crossFileIssues.map((issue) => ({
+          issue,
+          fileName: issue.locations?.[0]?.file ?? issue.relatedFiles?.[0] ?? fileName,
+        })),
+      ]
+    : locateIssues(result, fileName);
+
+  const unanalyzed = getUnanalyzedFiles(result);
+
+  const rules: SarifReportingDescriptor[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const results = located.map((entry) => {
+    const id = getRuleId(entry.issue);
+    if (!ruleIndexes.has(id)) {
+      ruleIndexes.set(id, rules.length);
+      rules.push(createRule(id, entry.issue));
+    }
+    return toSarifResult(entry, ruleIndexes.get(id)!);
+  });
+
+  const fileNames = isMultiFile
+    ? result.files.map((file) => file.fileName)
+    : [...new Set([...(options.fileName ? [options.fileName] : []), ...located.map((entry) => entry.fileName)])];
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: { driver: { name: 'Solidry', informationUri: TOOL_INFORMATION_URI, rules } },
+        artifacts: fileNames.map((name) => ({ location: { uri: toUri(name) } })),
+        results,
+        // Files that failed are reported as notifications, so a partial run is not read as a clean one
+        invocations: unanalyzed.length > 0 ? [toInvocation(unanalyzed)] : undefined,
+        properties: isMultiFile
+          ? { score: result.aggregateScore, grade: result.aggregateGrade, scoringProfile: result.scoringProfile }
+          : {
+              score: result.score,
+              grade: result.grade,
+              scoringProfile: result.scoringProfile,
+              modelVersion: result.metadata.modelVersion,
+            },
+      },
+    ],
+  };
+}
@@ -1,4 +1,12 @@
-import { CodeIssue, IssueMetrics, QualityGrade } from '@/types';
+import {
+  CodeIssue,
+  GradeThresholds,
+  IssueCategory,
+  IssueMetrics,
+  QualityGrade,
+  ScoringProfileId,
+  ScoringWeights,
+} from '@/types';
 
 /**
  * Weights for different severity levels
@@ -9,31 +17,124 @@ const SEVERITY_WEIGHTS = {
   suggestion: -1,
 } as const;
 
+/**
+ * How much an issue of each category counts in the category-weighted profile
+ */
+const CATEGORY_WEIGHTS: Record<IssueCategory, number> = {
+  solid: 1.5,
+  complexity: 1,
+  hygiene: 0.75,
+  unnecessary: 0.5,
+};
+
+/**
+ * Share of the previous deduction that each repeat of the same rule deducts
+ */
+const REPEAT_DECAY = 0.5;
+
+/**
+ * Shorter code is scored as if it had this many logical lines, so the density
+ * profile never judges a snippet more harshly than the legacy one
+ */
+const DENSITY_MIN_LINES = 100;
+
+/**
+ * Default minimum score of each grade
+ */
+export const DEFAULT_GRADE_THRESHOLDS: GradeThresholds = {
+  A: 90,
+  B: 80,
+  C: 70,
+  D: 60,
+};
+
+/**
+ * Options for calculating a score
+ */
+export interface ScoreOptions {
+  /** Scoring model, 'legacy' by default */
+  profile?: ScoringProfileId;
+
+  /** Replaces the default deduction of individual severities */
+  weights?: ScoringWeights;
+
+  /** Logical lines of the scored code, used by the density profile */
+  logicalLines?: number;
+}
+
+/**
+ * Points an issue deducts before any profile weighting
+ */
+function getDeduction(issue: CodeIssue, weights: ScoringWeights = {}): number {
+  return weights[issue.severity] ?? -SEVERITY_WEIGHTS[issue.severity];
+}
+
+function getLegacyDeduction(issues: CodeIssue[], options: ScoreOptions): number {
+  return issues.reduce((sum, issue) => sum + getDeduction(issue, options.weights), 0);
+}
+
+/**
+ * Total deduction of each scoring profile
+ */
+const SCORING_PROFILES: Record<ScoringProfileId, (issues: CodeIssue[], options: ScoreOptions) => number> = {
+  legacy: getLegacyDeduction,
+
+  density: (issues, options) =>
+    (getLegacyDeduction(issues, options) * DENSITY_MIN_LINES) /
+    Math.max(options.logicalLines ?? 0, DENSITY_MIN_LINES),
+
+  'category-weighted': (issues, options) => {
+    const repeats = new Map<string, number>();
+
+    // The most severe issue of a rule counts in full, its repeats less and less
+    return [...issues]
+      .sort((a, b) => getDeduction(b, options.weights) - getDeduction(a, options.weights))
+      .reduce((sum, issue) => {
+        const rule = issue.ruleId ?? `${issue.category}/${issue.principle ?? 'other'}`;
+        const count = repeats.get(rule) ?? 0;
+        repeats.set(rule, count + 1);
+        return sum + getDeduction(issue, options.weights) * CATEGORY_WEIGHTS[issue.category] * REPEAT_DECAY ** count;
+      }, 0);
+  },
+};
+
+export const SCORING_PROFILE_IDS = Object.keys(SCORING_PROFILES) as ScoringProfileId[];
+
 /**
  * Calculates the quality score from issues (0-100 scale)
+ * Weights from a project configuration replace the default deduction of their
+ * severity in every profile.
  */
-export function calculateScore(issues: CodeIssue[]): number {
+export function calculateScore(issues: CodeIssue[], options: ScoreOptions = {}): number {
   const baseScore = 100;
-
-  const totalDeductions = issues.reduce((sum, issue) => {
-    return sum + SEVERITY_WEIGHTS[issue.severity];
-  }, 0);
+  const totalDeductions = SCORING_PROFILES[options.profile ?? 'legacy'](issues, options);
 
   // Ensure score stays within 0-100 range
-  return Math.max(0, Math.min(100, baseScore + totalDeductions));
+  return Math.max(0, Math.min(100, Math.round(baseScore - totalDeductions)));
 }
 
 /**
  * Converts a numeric score to a letter grade
  */
-export function getGrade(score: number): QualityGrade {
-  if (score >= 90) return 'A';
-  if (score >= 80) return 'B';
-  if (score >= 70) return 'C';
-  if (score >= 60) return 'D';
+export function getGrade(score: number, thresholds: Partial<GradeThresholds> = {}): QualityGrade {
+  const { A, B, C, D } = { ...DEFAULT_GRADE_THRESHOLDS, ...thresholds };
+  if (score >= A) return 'A';
+  if (score >= B) return 'B';
+  if (score >= C) return 'C';
+  if (score >= D) return 'D';
   return 'F';
 }
 
+/**
+ * Counts the lines that hold code, leaving out blank and comment-only lines
+ */
+export function countLogicalLines(code: string): number {
+  return code
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !/^(\/\/|\/\*|\*|#)/.test(line)).length;
+}
+
 /**
  * Calculates issue metrics from a list of issues
  */
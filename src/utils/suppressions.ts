@@ -0,0 +1,176 @@
+import { CodeIssue, ProgrammingLanguage } from '@/types';
+
+/**
+ * Inline suppression comments
+ *
+ * Deliberate exceptions are marked in the code itself:
+ *
+ *   // solidry-ignore-next-line SRP,hygiene
+ *   foo(); // solidry-ignore-line no-console-log
+ *   /* solidry-disable complexity *\/ ... /* solidry-enable *\/
+ *
+ * Selectors are optional and may name a category, SOLID principle, review type
+ * or rule id; without selectors every issue in range is suppressed. A disable
+ * without a matching enable runs to the end of the file.
+ */
+
+export type SuppressionKind = 'ignore-line' | 'ignore-next-line' | 'disable';
+
+export interface Suppression {
+  kind: SuppressionKind;
+
+  /** First suppressed line (1-indexed) */
+  startLine: number;
+
+  /** Last suppressed line (1-indexed, inclusive) */
+  endLine: number;
+
+  /** Lower-cased selectors, empty to suppress everything */
+  selectors: string[];
+}
+
+export interface SuppressionResult {
+  /** Issues that remain */
+  issues: CodeIssue[];
+
+  /** Issues hidden by a suppression comment */
+  suppressed: CodeIssue[];
+}
+
+/**
+ * Comment openers per language; unknown languages accept all of them
+ */
+const COMMENT_MARKERS: Partial<Record<ProgrammingLanguage, string[]>> = {
+  typescript: ['//', '/*'],
+  javascript: ['//', '/*'],
+  java: ['//', '/*'],
+  csharp: ['//', '/*'],
+  go: ['//', '/*'],
+  rust: ['//', '/*'],
+  cpp: ['//', '/*'],
+  python: ['#'],
+};
+
+const ALL_MARKERS = ['//', '/*', '#'];
+
+const DIRECTIVE = /solidry-(ignore-next-line|ignore-line|disable|enable)\b([^\n]*)/;
+
+/**
+ * Review types whose issues are reported under a different category name
+ */
+const SELECTOR_ALIASES: Record<string, string> = {
+  simplicity: 'complexity',
+};
+
+function parseSelectors(text: string): string[] {
+  return text
+    .replace(/\*\/.*$/, '')
+    .split(/[\s,]+/)
+    .map((selector) => selector.trim().toLowerCase())
+    .filter((selector) => selector.length > 0)
+    .map((selector) => SELECTOR_ALIASES[selector] ?? selector);
+}
+
+/**
+ * Finds a directive inside a comment on the given line
+ */
+function findDirective(line: string, markers: string[]): { name: string; selectors: string[] } | null {
+  for (const marker of markers) {
+    const commentStart = line.indexOf(marker);
+    if (commentStart === -1) continue;
+
+    const match = line.slice(commentStart + marker.length).match(DIRECTIVE);
+    if (match) {
+      return { name: match[1], selectors: parseSelectors(match[2]) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Parses all suppression comments in the code
+ */
+export function parseSuppressions(code: string, language: ProgrammingLanguage = 'auto'): Suppression[] {
+  const markers = COMMENT_MARKERS[language] ?? ALL_MARKERS;
+  const lines = code.split('\n');
+  const suppressions: Suppression[] = [];
+  const open: Suppression[] = [];
+
+  lines.forEach((line, index) => {
+    const directive = findDirective(line, markers);
+    if (!directive) return;
+
+    const lineNumber = index + 1;
+    switch (directive.name) {
+      case 'ignore-line':
+        suppressions.push({ kind: 'ignore-line', startLine: lineNumber, endLine: lineNumber, selectors: directive.selectors });
+        break;
+      case 'ignore-next-line':
+        suppressions.push({
+          kind: 'ignore-next-line',
+          startLine: lineNumber + 1,
+          endLine: lineNumber + 1,
+          selectors: directive.selectors,
+        });
+        break;
+      case 'disable': {
+        const block: Suppression = {
+          kind: 'disable',
+          startLine: lineNumber,
+          endLine: lines.length,
+          selectors: directive.selectors,
+        };
+        suppressions.push(block);
+        open.push(block);
+        break;
+      }
+      case 'enable':
+        // Closes every open block
+        open.splice(0).forEach((block) => {
+          block.endLine = lineNumber;
+        });
+        break;
+    }
+  });
+
+  return suppressions;
+}
+
+/**
+ * Whether a selector names the issue's category, principle or rule
+ */
+function matchesSelector(issue: CodeIssue, selector: string): boolean {
+  return (
+    issue.category === selector ||
+    issue.principle?.toLowerCase() === selector ||
+    issue.ruleId?.toLowerCase() === selector
+  );
+}
+
+/**
+ * Whether a suppression covers the issue
+ */
+export function isSuppressed(issue: CodeIssue, suppressions: Suppression[]): boolean {
+  return suppressions.some(
+    (suppression) =>
+      issue.line >= suppression.startLine &&
+      issue.line <= suppression.endLine &&
+      (suppression.selectors.length === 0 ||
+        suppression.selectors.some((selector) => matchesSelector(issue, selector)))
+  );
+}
+
+/**
+ * Splits issues into those that remain and those hidden by suppression comments
+ */
+export function applySuppressions(issues: CodeIssue[], suppressions: Suppression[]): SuppressionResult {
+  if (suppressions.length === 0) {
+    return { issues, suppressed: [] };
+  }
+
+  const result: SuppressionResult = { issues: [], suppressed: [] };
+  for (const issue of issues) {
+    (isSuppressed(issue, suppressions) ? result.suppressed : result.issues).push(issue);
+  }
+  return result;
+}